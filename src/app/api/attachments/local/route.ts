@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LocalAttachmentStorage, verifyLocalSignature } from '@/lib/attachment-storage'
+import { withErrorHandler, ApiErrorHandler } from '@/lib/api-error-handler'
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+}
+
+/**
+ * Serve a file from local attachment storage (development backend).
+ * Public in middleware so <img> tags work; access is granted by the signed,
+ * expiring URL issued by LocalAttachmentStorage.getUrl.
+ */
+export const GET = withErrorHandler(async (req: NextRequest) => {
+  const searchParams = req.nextUrl.searchParams
+  const storagePath = searchParams.get('path') || ''
+  const expires = Number(searchParams.get('expires'))
+  const signature = searchParams.get('signature') || ''
+
+  if (!storagePath || !verifyLocalSignature(storagePath, expires, signature)) {
+    throw ApiErrorHandler.permissionDenied('Invalid or expired attachment link')
+  }
+
+  const storage = new LocalAttachmentStorage()
+  let data: Buffer
+  try {
+    data = await storage.read(storagePath)
+  } catch {
+    throw ApiErrorHandler.resourceNotFound('attachment')
+  }
+
+  const extension = storagePath.split('.').pop() || ''
+
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+      'Cache-Control': 'private, max-age=300'
+    }
+  })
+})
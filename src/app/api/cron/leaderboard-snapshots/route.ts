@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/auth-utils'
+import { captureLeaderboardSnapshots } from '@/lib/leaderboard-history'
+import { assertCronRequest } from '@/lib/cron-auth'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+/**
+ * Scheduled job: capture today's leaderboard snapshot for every team.
+ * Called by the platform scheduler with "Authorization: Bearer $CRON_SECRET".
+ */
+export const GET = withErrorHandler(async (req: NextRequest) => {
+  assertCronRequest(req, 'Leaderboard snapshot job')
+
+  const created = await captureLeaderboardSnapshots(createServiceClient(), null)
+
+  console.log(`Leaderboard snapshot job captured ${created} team snapshots`)
+
+  return NextResponse.json({
+    success: true,
+    snapshots_created: created
+  })
+})
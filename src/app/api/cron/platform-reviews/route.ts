@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/auth-utils'
+import { syncAllReviewPlatformConnections } from '@/lib/platform-reviews'
+import { assertCronRequest } from '@/lib/cron-auth'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+/**
+ * Scheduled job: pull new reviews from every active review platform
+ * connection and match them to submitted reviews.
+ * Called by the platform scheduler with "Authorization: Bearer $CRON_SECRET".
+ */
+export const GET = withErrorHandler(async (req: NextRequest) => {
+  assertCronRequest(req, 'Platform review sync job')
+
+  const results = await syncAllReviewPlatformConnections(createServiceClient())
+  const failed = results.filter(result => result.connection.last_sync_status === 'error').length
+  const imported = results.reduce((sum, result) => sum + result.imported, 0)
+  const matched = results.reduce((sum, result) => sum + result.matched, 0)
+
+  console.log(`Platform review sync job: ${results.length} connections, ${imported} imported, ${matched} matched, ${failed} failed`)
+
+  return NextResponse.json({
+    success: true,
+    connections_synced: results.length,
+    connections_failed: failed,
+    reviews_imported: imported,
+    reviews_matched: matched
+  })
+})
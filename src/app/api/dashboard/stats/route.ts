@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { PAGINATION_CONFIG } from '@/lib/constants'
 import { withErrorHandler, ApiErrorHandler, validateRequired, validateUUID } from '@/lib/api-error-handler'
+import { hasTeamPermission } from '@/lib/team-roles'
+import type { TeamRole } from '@/types'
 
 // Define proper type for review with joined user data
 interface ReviewWithUser {
@@ -64,6 +66,10 @@ export const GET = withErrorHandler(async (req: NextRequest) => {
     throw ApiErrorHandler.teamMembershipRequired()
   }
 
+  if (!hasTeamPermission(membership.role as TeamRole, 'analytics.view')) {
+    throw ApiErrorHandler.permissionDenied('Team analytics are available to managers and admins')
+  }
+
     // Use the secure team dashboard stats function from the database
     const { data: statsData, error } = await supabase
       .rpc('get_team_dashboard_stats', { 
@@ -83,9 +89,10 @@ export const GET = withErrorHandler(async (req: NextRequest) => {
         customer_name,
         job_type,
         created_at,
-        users!inner(name)
+        users!reviews_employee_id_fkey!inner(name)
       `)
       .eq('team_id', teamId)
+      .eq('status', 'approved')
       .order('created_at', { ascending: false })
       .limit(PAGINATION_CONFIG.RECENT_REVIEWS_LIMIT)
 
@@ -112,6 +119,7 @@ export const GET = withErrorHandler(async (req: NextRequest) => {
       } : null,
       recentReviews,
       recentReviewsCount: parseInt(stats?.recent_reviews_count?.toString() || '0'),
+      pendingReviewsCount: parseInt(stats?.pending_reviews_count?.toString() || '0'),
       team_id: teamId
     }
 
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createUserClient, getRequestToken } from '@/lib/team-request'
+import { acceptInvitation } from '@/lib/team-invitations'
+import { withErrorHandler, ApiErrorHandler, validateRequired } from '@/lib/api-error-handler'
+
+/**
+ * Join a team with an invitation token as the signed-in user
+ */
+export const POST = withErrorHandler(async (req: NextRequest) => {
+  const accessToken = getRequestToken(req)
+  if (!accessToken) {
+    throw ApiErrorHandler.authRequired()
+  }
+
+  const supabase = createUserClient(accessToken)
+  const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken)
+  if (authError || !user) {
+    throw ApiErrorHandler.authInvalid()
+  }
+
+  const body = await req.json()
+  const { token } = body
+  validateRequired(token, 'token')
+
+  const teamId = await acceptInvitation(supabase, String(token))
+
+  console.log(`User ${user.id} accepted an invitation to team ${teamId}`)
+
+  return NextResponse.json({
+    success: true,
+    team_id: teamId
+  })
+})
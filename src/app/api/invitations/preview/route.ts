@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { previewInvitation } from '@/lib/team-invitations'
+import { withErrorHandler, validateRequired } from '@/lib/api-error-handler'
+
+/**
+ * Public: describe an invitation link so the accept page can greet people
+ * who have not signed in or signed up yet
+ */
+export const GET = withErrorHandler(async (req: NextRequest) => {
+  const token = req.nextUrl.searchParams.get('token')
+  validateRequired(token, 'token')
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  const invitation = await previewInvitation(supabase, token!)
+
+  return NextResponse.json({ invitation })
+})
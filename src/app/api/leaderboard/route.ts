@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-import { PAGINATION_CONFIG } from '@/lib/constants'
-// Removed unused auth-utils imports, using direct authentication
+import { LEADERBOARD_CONFIG, PAGINATION_CONFIG } from '@/lib/constants'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { resolveLeaderboardPeriod } from '@/lib/leaderboard-periods'
+import { assertLeaderboardVisible, getTeamSettings } from '@/lib/team-settings'
+import { withRankMovement } from '@/lib/leaderboard-history'
+import { withErrorHandler, ApiErrorHandler, validateRequired } from '@/lib/api-error-handler'
+import type { LeaderboardEntry } from '@/types'
 
 interface LeaderboardResult {
   employee_id: string
@@ -12,107 +16,65 @@ interface LeaderboardResult {
   rank: number
 }
 
-export async function GET(req: NextRequest) {
-  try {
-    // Get team_id from query parameters
-    const teamId = req.nextUrl.searchParams.get('team_id')
-    
-    if (!teamId) {
-      return NextResponse.json(
-        { error: 'team_id parameter is required' },
-        { status: 400 }
-      )
-    }
+export const GET = withErrorHandler(async (req: NextRequest) => {
+  const searchParams = req.nextUrl.searchParams
+  const teamId = searchParams.get('team_id')
 
-    // Get and validate user authentication directly
-    const authorization = req.headers.get('authorization')
-    if (!authorization) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      )
-    }
+  validateRequired(teamId, 'team_id')
+  const { supabase, role } = await getTeamRequestContext(req, teamId!)
 
-    const token = authorization.replace('Bearer ', '')
-    
-    // Create Supabase client with the user's token
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        },
-        global: {
-          headers: {
-            Authorization: `Bearer ${token}`
-          }
-        }
-      }
-    )
+  const settings = await getTeamSettings(supabase, teamId!)
+  assertLeaderboardVisible(settings, role)
 
-    // Verify user authentication
-    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser(token)
-    if (authError || !authUser) {
-      console.error('Leaderboard API auth error:', authError?.message)
-      return NextResponse.json(
-        { error: 'Invalid authentication' },
-        { status: 401 }
-      )
-    }
+  // period=week|month|quarter|all, or period=custom with from/to (to is exclusive).
+  // Periods follow the team's timezone.
+  const period = resolveLeaderboardPeriod(
+    searchParams.get('period'),
+    searchParams.get('from'),
+    searchParams.get('to'),
+    new Date(),
+    settings.timezone
+  )
 
-    // Verify user is member of the requested team
-    const { data: membership, error: membershipError } = await supabase
-      .from('team_members')
-      .select('role')
-      .eq('user_id', authUser.id)
-      .eq('team_id', teamId)
-      .single()
+  // Use the secure team leaderboard function from the database
+  const { data: leaderboard, error } = await supabase
+    .rpc('get_team_leaderboard', {
+      team_uuid: teamId,
+      limit_count: PAGINATION_CONFIG.LEADERBOARD_LIMIT,
+      period_start: period.start,
+      period_end: period.end
+    })
 
-    if (membershipError || !membership) {
-      return NextResponse.json(
-        { error: 'Access denied: user not member of specified team' },
-        { status: 403 }
-      )
-    }
+  if (error) {
+    console.error('Error fetching team leaderboard:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch leaderboard', error)
+  }
 
-    // Use the secure team leaderboard function from the database
-    const { data: leaderboard, error } = await supabase
-      .rpc('get_team_leaderboard', { 
-        team_uuid: teamId,
-        limit_count: PAGINATION_CONFIG.LEADERBOARD_LIMIT
-      })
+  // Format the response to match the expected interface
+  const formattedLeaderboard: LeaderboardEntry[] = leaderboard?.map((item: LeaderboardResult) => ({
+    employee_id: item.employee_id,
+    employee_name: item.employee_name,
+    employee_email: item.employee_email,
+    total_points: item.total_points,
+    total_reviews: parseInt(item.total_reviews.toString()),
+    rank: parseInt(item.rank.toString()),
+  })) || []
 
-    if (error) {
-      console.error('Error fetching team leaderboard:', error)
-      return NextResponse.json(
-        { error: 'Failed to fetch leaderboard' },
-        { status: 500 }
+  // Snapshots hold all-time standings, so rank movement only applies to that view
+  const { entries, comparedTo } = period.period === 'all'
+    ? await withRankMovement(
+        supabase,
+        teamId!,
+        formattedLeaderboard,
+        new Date(Date.now() - LEADERBOARD_CONFIG.RANK_COMPARISON_DAYS * 24 * 60 * 60 * 1000)
       )
-    }
-
-    // Format the response to match the expected interface
-    const formattedLeaderboard = leaderboard?.map((item: LeaderboardResult) => ({
-      employee_id: item.employee_id,
-      employee_name: item.employee_name,
-      employee_email: item.employee_email,
-      total_points: item.total_points,
-      total_reviews: parseInt(item.total_reviews.toString()),
-      rank: parseInt(item.rank.toString()),
-    })) || []
-
+    : { entries: formattedLeaderboard, comparedTo: null }
 
-    return NextResponse.json({
-      leaderboard: formattedLeaderboard,
-      team_id: teamId,
-      total_members: formattedLeaderboard.length
-    })
-  } catch (error) {
-    console.error('Error in leaderboard endpoint:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
-  }
-}
\ No newline at end of file
+  return NextResponse.json({
+    leaderboard: entries,
+    team_id: teamId,
+    total_members: entries.length,
+    period,
+    compared_to: comparedTo
+  })
+})
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createUserClient, getRequestToken } from '@/lib/team-request'
+import { listMyMembershipRequests } from '@/lib/membership-requests'
+import { withErrorHandler, ApiErrorHandler } from '@/lib/api-error-handler'
+
+/**
+ * The signed-in user's own pending and rejected membership requests
+ */
+export const GET = withErrorHandler(async (req: NextRequest) => {
+  const accessToken = getRequestToken(req)
+  if (!accessToken) {
+    throw ApiErrorHandler.authRequired()
+  }
+
+  const supabase = createUserClient(accessToken)
+  const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken)
+  if (authError || !user) {
+    throw ApiErrorHandler.authInvalid()
+  }
+
+  const requests = await listMyMembershipRequests(supabase)
+
+  return NextResponse.json({ requests })
+})
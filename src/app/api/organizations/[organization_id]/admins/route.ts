@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  addOrganizationAdmin,
+  getOrganizationRequestContext,
+  removeOrganizationAdmin
+} from '@/lib/organizations'
+import {
+  withErrorHandler,
+  ApiErrorHandler,
+  validateEmail,
+  validateRequired,
+  validateUUID
+} from '@/lib/api-error-handler'
+
+interface RouteParams {
+  organization_id: string
+}
+
+/**
+ * Make someone on one of the organization's teams an organization admin
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { organization_id: organizationId } = await params
+  const { supabase, user } = await getOrganizationRequestContext(req, organizationId, { requireAdmin: true })
+
+  const body = await req.json()
+  const { email } = body
+
+  validateRequired(email, 'email')
+  if (typeof email !== 'string') {
+    throw ApiErrorHandler.validationError('email must be a string', { field: 'email' })
+  }
+  validateEmail(email.trim())
+
+  const userId = await addOrganizationAdmin(supabase, organizationId, email.trim())
+
+  console.log(`User ${userId} made admin of organization ${organizationId} by ${user.id}`)
+
+  return NextResponse.json({ success: true, organization_id: organizationId, user_id: userId })
+})
+
+/**
+ * Remove an organization admin (?user_id=). An organization always keeps at
+ * least one admin.
+ */
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { organization_id: organizationId } = await params
+  const targetUserId = req.nextUrl.searchParams.get('user_id')
+
+  validateRequired(targetUserId, 'user_id')
+  validateUUID(targetUserId!, 'user_id')
+
+  const { supabase, user } = await getOrganizationRequestContext(req, organizationId, { requireAdmin: true })
+
+  await removeOrganizationAdmin(supabase, organizationId, targetUserId!)
+
+  console.log(`User ${targetUserId} removed as admin of organization ${organizationId} by ${user.id}`)
+
+  return NextResponse.json({ success: true, organization_id: organizationId, user_id: targetUserId })
+})
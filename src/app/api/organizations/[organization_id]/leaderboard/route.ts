@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PAGINATION_CONFIG } from '@/lib/constants'
+import {
+  assertOrganizationLeaderboardVisible,
+  getOrganizationLeaderboard,
+  getOrganizationRequestContext
+} from '@/lib/organizations'
+import { resolveLeaderboardPeriod } from '@/lib/leaderboard-periods'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  organization_id: string
+}
+
+/**
+ * Everyone on the organization's teams ranked by combined points. Takes the
+ * same period parameters as /api/leaderboard. Teams that keep their
+ * leaderboard to managers are left out for their other members.
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { organization_id: organizationId } = await params
+  const context = await getOrganizationRequestContext(req, organizationId)
+  const { supabase } = context
+  await assertOrganizationLeaderboardVisible(context)
+
+  const searchParams = req.nextUrl.searchParams
+  const period = resolveLeaderboardPeriod(
+    searchParams.get('period'),
+    searchParams.get('from'),
+    searchParams.get('to')
+  )
+
+  const leaderboard = await getOrganizationLeaderboard(
+    supabase,
+    organizationId,
+    period,
+    PAGINATION_CONFIG.LEADERBOARD_LIMIT
+  )
+
+  return NextResponse.json({
+    leaderboard,
+    organization_id: organizationId,
+    period
+  })
+})
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TEAM_CONFIG } from '@/lib/constants'
+import {
+  deleteOrganization,
+  getOrganization,
+  getOrganizationRequestContext,
+  updateOrganization
+} from '@/lib/organizations'
+import { withErrorHandler, ApiErrorHandler, validateStringLength } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  organization_id: string
+}
+
+/**
+ * An organization with its teams and admins
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { organization_id: organizationId } = await params
+  const { supabase } = await getOrganizationRequestContext(req, organizationId)
+
+  const details = await getOrganization(supabase, organizationId)
+
+  return NextResponse.json(details)
+})
+
+/**
+ * Rename an organization or change its description (organization admin)
+ */
+export const PATCH = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { organization_id: organizationId } = await params
+  const { supabase } = await getOrganizationRequestContext(req, organizationId, { requireAdmin: true })
+
+  const body = await req.json()
+  const changes: { name?: string; description?: string | null } = {}
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string') {
+      throw ApiErrorHandler.validationError('name must be a string', { field: 'name' })
+    }
+    changes.name = validateStringLength(body.name.trim(), 'name', 1, TEAM_CONFIG.MAX_TEAM_NAME_LENGTH)
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      throw ApiErrorHandler.validationError('description must be a string', { field: 'description' })
+    }
+    changes.description = body.description
+      ? validateStringLength(body.description.trim(), 'description', 0, TEAM_CONFIG.MAX_DESCRIPTION_LENGTH)
+      : null
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw ApiErrorHandler.validationError('Nothing to update. Send name and/or description')
+  }
+
+  await updateOrganization(supabase, organizationId, changes)
+  const details = await getOrganization(supabase, organizationId)
+
+  return NextResponse.json({ success: true, ...details })
+})
+
+/**
+ * Delete an organization (organization admin). Its teams are kept and simply
+ * no longer belong to an organization.
+ */
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { organization_id: organizationId } = await params
+  const { supabase, user } = await getOrganizationRequestContext(req, organizationId, { requireAdmin: true })
+
+  await deleteOrganization(supabase, organizationId)
+
+  console.log(`Organization ${organizationId} deleted by ${user.id}`)
+
+  return NextResponse.json({ success: true, organization_id: organizationId })
+})
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getOrganizationRequestContext, getOrganizationStats } from '@/lib/organizations'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  organization_id: string
+}
+
+/**
+ * Dashboard stats for each team in the organization and their totals
+ * (organization admin)
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { organization_id: organizationId } = await params
+  const { supabase } = await getOrganizationRequestContext(req, organizationId, { requireAdmin: true })
+
+  const stats = await getOrganizationStats(supabase, organizationId)
+
+  return NextResponse.json(stats)
+})
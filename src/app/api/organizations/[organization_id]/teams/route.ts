@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getOrganizationRequestContext, setTeamOrganization } from '@/lib/organizations'
+import { withErrorHandler, validateRequired, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  organization_id: string
+}
+
+/**
+ * Add a team to the organization. The caller must be an admin of both.
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { organization_id: organizationId } = await params
+  const { supabase, user } = await getOrganizationRequestContext(req, organizationId, { requireAdmin: true })
+
+  const body = await req.json()
+  const { team_id } = body
+
+  validateRequired(team_id, 'team_id')
+  validateUUID(team_id, 'team_id')
+
+  await setTeamOrganization(supabase, team_id, organizationId)
+
+  console.log(`Team ${team_id} added to organization ${organizationId} by ${user.id}`)
+
+  return NextResponse.json({ success: true, organization_id: organizationId, team_id })
+})
+
+/**
+ * Take a team out of the organization (?team_id=). Organization admins and
+ * the team's own admins can do this.
+ */
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { organization_id: organizationId } = await params
+  const teamId = req.nextUrl.searchParams.get('team_id')
+
+  validateRequired(teamId, 'team_id')
+  validateUUID(teamId!, 'team_id')
+
+  const { supabase, user } = await getOrganizationRequestContext(req, organizationId)
+
+  await setTeamOrganization(supabase, teamId!, null)
+
+  console.log(`Team ${teamId} removed from organization ${organizationId} by ${user.id}`)
+
+  return NextResponse.json({ success: true, organization_id: organizationId, team_id: teamId })
+})
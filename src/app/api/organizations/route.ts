@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TEAM_CONFIG } from '@/lib/constants'
+import { createUserClient, getRequestToken } from '@/lib/team-request'
+import { createOrganization, listMyOrganizations } from '@/lib/organizations'
+import {
+  withErrorHandler,
+  ApiErrorHandler,
+  validateRequired,
+  validateStringLength,
+  validateUUID
+} from '@/lib/api-error-handler'
+
+async function getSignedInClient(req: NextRequest) {
+  const accessToken = getRequestToken(req)
+  if (!accessToken) {
+    throw ApiErrorHandler.authRequired()
+  }
+
+  const supabase = createUserClient(accessToken)
+  const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken)
+  if (authError || !user) {
+    throw ApiErrorHandler.authInvalid()
+  }
+
+  return { supabase, user }
+}
+
+/**
+ * Organizations the signed-in user administers or has a team in
+ */
+export const GET = withErrorHandler(async (req: NextRequest) => {
+  const { supabase } = await getSignedInClient(req)
+
+  const organizations = await listMyOrganizations(supabase)
+
+  return NextResponse.json({ organizations })
+})
+
+/**
+ * Create an organization with the caller as its first admin. An optional
+ * team_id (a team the caller administers) is moved into it.
+ */
+export const POST = withErrorHandler(async (req: NextRequest) => {
+  const { supabase, user } = await getSignedInClient(req)
+
+  const body = await req.json()
+  const { name, description, team_id } = body
+
+  validateRequired(name, 'name')
+  if (typeof name !== 'string' || (description != null && typeof description !== 'string')) {
+    throw ApiErrorHandler.validationError('name and description must be strings')
+  }
+  validateStringLength(name.trim(), 'name', 1, TEAM_CONFIG.MAX_TEAM_NAME_LENGTH)
+  if (description) {
+    validateStringLength(description, 'description', 0, TEAM_CONFIG.MAX_DESCRIPTION_LENGTH)
+  }
+  if (team_id != null) {
+    validateUUID(team_id, 'team_id')
+  }
+
+  const organizationId = await createOrganization(supabase, {
+    name: name.trim(),
+    description,
+    teamId: team_id
+  })
+
+  const organization = (await listMyOrganizations(supabase)).find(org => org.id === organizationId)
+
+  console.log(`Organization ${organizationId} created by ${user.id}${team_id ? ` with team ${team_id}` : ''}`)
+
+  return NextResponse.json({ success: true, organization }, { status: 201 })
+})
@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
-import { POINTS_CONFIG, VALIDATION_CONFIG } from '@/lib/constants'
+import { VALIDATION_CONFIG } from '@/lib/constants'
 import { getUserFromHeaders } from '@/lib/auth-utils'
+import { awardReviewPoints, discardUnawardedReview, getPointsServiceClient } from '@/lib/points-ledger'
+import { calculateReviewPoints } from '@/lib/points-rules'
+import { getLinkableAttachments, submitReviewWithAttachments } from '@/lib/review-attachments'
+import { getTeamSettings } from '@/lib/team-settings'
+import { resolveJobTypeName } from '@/lib/job-types'
+import { findDuplicateReview } from '@/lib/duplicate-reviews'
+import { findOrCreateCustomer, getCustomer, parseCustomerFields } from '@/lib/customers'
+import { convertReviewRequest, getReviewRequest, matchReviewRequest } from '@/lib/review-requests'
+import { hasTeamPermission, isRoleAtLeast } from '@/lib/team-roles'
+import type { TeamRole } from '@/types'
 import { 
   withErrorHandler, 
   ApiErrorHandler, 
@@ -18,7 +28,18 @@ export const POST = withErrorHandler(async (req: NextRequest) => {
   }
 
   const body = await req.json()
-  const { customer_name, job_type, has_photo, keywords, employee_id, team_id } = body
+  const {
+    customer_name,
+    customer_id,
+    customer_phone,
+    customer_email,
+    job_type,
+    keywords,
+    employee_id,
+    team_id,
+    attachment_ids,
+    review_request_id
+  } = body
 
   // Validate required fields with proper error handling
   validateRequired(customer_name, 'customer_name')
@@ -34,6 +55,17 @@ export const POST = withErrorHandler(async (req: NextRequest) => {
   validateStringLength(job_type, 'job_type', 1, VALIDATION_CONFIG.MAX_JOB_TYPE_LENGTH)
   validateStringLength(keywords, 'keywords', 1, VALIDATION_CONFIG.MAX_KEYWORDS_LENGTH)
 
+  if (customer_id) {
+    validateUUID(customer_id, 'customer_id')
+  }
+
+  if (review_request_id) {
+    validateUUID(review_request_id, 'review_request_id')
+  }
+
+  // Contact details help match the customer; they aren't stored on the review
+  const customerContact = parseCustomerFields({ phone: customer_phone, email: customer_email })
+
     // Enhanced auth validation: Get JWT token from headers and create authenticated client
     const jwtToken = req.headers.get('x-jwt-token') || req.headers.get('authorization')?.replace('Bearer ', '')
     
@@ -103,6 +135,10 @@ export const POST = withErrorHandler(async (req: NextRequest) => {
 
     console.log(`Team membership validated: user ${currentUser.id} is ${userTeamMembership.role} in team ${team_id}`)
 
+    if (!hasTeamPermission(userTeamMembership.role as TeamRole, 'reviews.submit')) {
+      throw ApiErrorHandler.permissionDenied('Viewers cannot submit reviews')
+    }
+
     // Verify that the employee_id belongs to the same team
     const { data: employeeTeamMembership, error: employeeError } = await supabase
       .from('team_members')
@@ -116,74 +152,131 @@ export const POST = withErrorHandler(async (req: NextRequest) => {
       throw ApiErrorHandler.resourceNotFound('employee', employee_id)
     }
 
-    // Insert review with team_id for proper data isolation
-    const { data: review, error: reviewError } = await supabase
-      .from('reviews')
-      .insert({
-        customer_name,
-        job_type,
-        has_photo: has_photo || false,
-        keywords,
-        employee_id,
-        team_id, // Critical: Include team_id for data isolation
-      })
-      .select()
-      .single()
+    // Job types come from the team's catalog and are stored with its spelling
+    const jobType = await resolveJobTypeName(supabase, team_id, job_type)
 
-    if (reviewError) {
-      console.error('Error inserting review:', reviewError)
-      throw ApiErrorHandler.databaseError('Failed to submit review', reviewError)
+    // A review collected from a request link is recorded for the requested customer
+    const reviewRequest = review_request_id ? await getReviewRequest(supabase, team_id, review_request_id) : null
+    if (reviewRequest && !reviewRequest.customer_id) {
+      throw ApiErrorHandler.resourceConflict('Review card links cannot be converted')
+    }
+    if (reviewRequest?.review_id) {
+      throw ApiErrorHandler.resourceConflict('This review request has already been converted')
+    }
+    if (reviewRequest && reviewRequest.employee_id !== currentUser.id && !isRoleAtLeast(userTeamMembership.role as TeamRole, 'manager')) {
+      throw ApiErrorHandler.permissionDenied('Only the requesting employee or a manager can convert this review request')
     }
 
-    // Calculate points using configuration constants
-    const points = POINTS_CONFIG.BASE_REVIEW_POINTS + 
-      (has_photo ? POINTS_CONFIG.PHOTO_BONUS_POINTS : 0)
+    // A customer picked from search is recorded under their saved name
+    const selectedCustomerId = customer_id || reviewRequest?.customer_id
+    const selectedCustomer = selectedCustomerId ? await getCustomer(supabase, team_id, selectedCustomerId) : null
+    const customerName = selectedCustomer ? selectedCustomer.name : customer_name
 
-    // Update or insert points for the employee (team-scoped)
-    const { data: existingPoints } = await supabase
-      .from('points')
-      .select('points')
-      .eq('employee_id', employee_id)
-      .eq('team_id', team_id) // Ensure team-scoped points lookup
-      .single()
+    // Look for a recent matching review; the team decides whether to reject or hold it
+    const teamSettings = await getTeamSettings(supabase, team_id)
+    const duplicate = await findDuplicateReview(
+      supabase,
+      team_id,
+      { customer_name: customerName, job_type: jobType },
+      teamSettings.duplicate_window_hours
+    )
 
-    if (existingPoints) {
-      // Update existing points
-      const { error: pointsError } = await supabase
-        .from('points')
-        .update({ 
-          points: existingPoints.points + points,
-          updated_at: new Date().toISOString()
-        })
-        .eq('employee_id', employee_id)
-        .eq('team_id', team_id) // Ensure team-scoped points update
+    if (duplicate && teamSettings.duplicate_action === 'reject') {
+      throw ApiErrorHandler.resourceConflict(
+        'A review for this customer and job type was already submitted recently',
+        {
+          duplicate_of_review_id: duplicate.id,
+          duplicate_created_at: duplicate.created_at,
+          window_hours: teamSettings.duplicate_window_hours
+        }
+      )
+    }
 
-      if (pointsError) {
-        console.error('Error updating points:', pointsError)
-        // Don't fail the request if points update fails
-      }
-    } else {
-      // Insert new points record with team_id
-      const { error: pointsError } = await supabase
-        .from('points')
-        .insert({ 
-          employee_id, 
-          points,
-          team_id // Critical: Include team_id for data isolation
+    // The photo bonus comes from uploaded attachments, not a self-reported flag
+    const attachmentIds = await getLinkableAttachments(supabase, team_id, currentUser.id, attachment_ids)
+    const hasPhoto = attachmentIds.length > 0
+
+    // Score the submission against the team's point rules before saving anything
+    const pointsCalculation = await calculateReviewPoints(supabase, team_id, employee_id, {
+      job_type: jobType,
+      has_photo: hasPhoto,
+      keywords
+    }, { timeZone: teamSettings.timezone })
+
+    if (pointsCalculation.violations.length > 0) {
+      throw ApiErrorHandler.validationError(
+        pointsCalculation.violations[0],
+        { violations: pointsCalculation.violations }
+      )
+    }
+
+    // Otherwise match the customer by email, phone or name, or add them
+    const customer = selectedCustomer || (
+      await findOrCreateCustomer(supabase, team_id, { ...customerContact, name: customerName })
+    ).customer
+
+    // Awards are recorded with the service role; fail before saving anything
+    // when it isn't configured
+    const pointsServiceClient = getPointsServiceClient()
+
+    // Insert review with team_id for proper data isolation, together with its photos
+    const review = await submitReviewWithAttachments(supabase, {
+      team_id, // Critical: Include team_id for data isolation
+      employee_id,
+      customer_id: customer.id,
+      customer_name: customerName,
+      job_type: jobType,
+      keywords,
+      duplicate_of_review_id: duplicate?.id || null // Held for admin approval when set
+    }, attachmentIds)
+
+    // The database sets the status from the team's settings; held reviews earn
+    // points only once an admin approves them
+    const pendingApproval = review.status === 'pending'
+    const points = pendingApproval ? 0 : pointsCalculation.points
+
+    // Record the award in the append-only ledger; the balance is derived in the
+    // database. A review whose award fails is removed rather than left approved
+    // without points.
+    let transactionId: string | null = null
+    if (!pendingApproval) {
+      try {
+        transactionId = await awardReviewPoints(pointsServiceClient, review.id, points, currentUser.id, {
+          breakdown: pointsCalculation.breakdown,
+          multiplier: pointsCalculation.multiplier,
+          capped: pointsCalculation.capped
         })
+      } catch (error) {
+        await discardUnawardedReview(pointsServiceClient, review.id)
+        throw error
+      }
+    }
 
-      if (pointsError) {
-        console.error('Error inserting points:', pointsError)
-        // Don't fail the request if points insertion fails
+    // Credit the request the review came from, or the customer's open request
+    // when none was picked. A failed automatic match doesn't fail the submission.
+    let reviewRequestId: string | null = null
+    if (reviewRequest) {
+      await convertReviewRequest(supabase, reviewRequest.id, review.id)
+      reviewRequestId = reviewRequest.id
+    } else {
+      try {
+        reviewRequestId = await matchReviewRequest(supabase, review.id)
+      } catch (error) {
+        console.error('Error matching review request:', error)
       }
     }
 
-    console.log(`Review submitted successfully by user ${user.id} for employee ${employee_id} in team ${team_id}`)
+    console.log(`Review submitted successfully by user ${user.id} for employee ${employee_id} in team ${team_id} (status ${review.status})`)
 
   return NextResponse.json({ 
     success: true, 
     review, 
+    status: review.status,
+    duplicate_of_review_id: review.duplicate_of_review_id,
     points,
+    points_breakdown: pendingApproval ? [] : pointsCalculation.breakdown,
+    point_transaction_id: transactionId,
+    review_request_id: reviewRequestId,
     team_id 
   })
 })
\ No newline at end of file
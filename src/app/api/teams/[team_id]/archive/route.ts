@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { archiveTeam } from '@/lib/team-archival'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Archive a team (admin). It disappears from everyone's team list and its
+ * data becomes read-only until it is restored.
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, {
+    permission: 'team.manage',
+    allowArchived: true
+  })
+
+  await archiveTeam(supabase, teamId)
+
+  console.log(`Team ${teamId} archived by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    team_id: teamId,
+    archived: true
+  })
+})
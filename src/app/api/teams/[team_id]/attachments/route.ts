@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { getAttachmentStorage } from '@/lib/attachment-storage'
+import { uploadReviewAttachment, validateAttachmentFile, withAttachmentUrl } from '@/lib/review-attachments'
+import { withErrorHandler, ApiErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Upload a review photo (multipart form field "file"). The returned id is
+ * sent with the review submission to attach it.
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { permission: 'reviews.submit' })
+
+  let formData: FormData
+  try {
+    formData = await req.formData()
+  } catch {
+    throw ApiErrorHandler.validationError('Request must be multipart/form-data with a file field')
+  }
+
+  const file = validateAttachmentFile(formData.get('file'))
+  const storage = getAttachmentStorage(supabase)
+
+  const attachment = await uploadReviewAttachment(supabase, storage, teamId, user.id, file)
+
+  console.log(`Attachment ${attachment.id} uploaded to team ${teamId} by user ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    attachment: await withAttachmentUrl(storage, attachment)
+  }, { status: 201 })
+})
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { deleteCustomer, getCustomer, parseCustomerFields, updateCustomer } from '@/lib/customers'
+import { withErrorHandler, ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  customer_id: string
+}
+
+/**
+ * A customer with their review count. Their reviews are listed by
+ * GET /api/teams/[team_id]/reviews?customer_id=...
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, customer_id: customerId } = await params
+  validateUUID(customerId, 'customer_id')
+
+  const { supabase } = await getTeamRequestContext(req, teamId)
+
+  const customer = await getCustomer(supabase, teamId, customerId)
+
+  return NextResponse.json({ customer })
+})
+
+/**
+ * Update a customer's name, contact details or notes (manager)
+ */
+export const PATCH = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, customer_id: customerId } = await params
+  validateUUID(customerId, 'customer_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { permission: 'customers.manage' })
+
+  const body = await req.json()
+  const changes = parseCustomerFields(body)
+
+  if (Object.keys(changes).length === 0) {
+    throw ApiErrorHandler.validationError('Nothing to update')
+  }
+
+  const customer = await updateCustomer(supabase, teamId, customerId, changes)
+
+  console.log(`Customer updated: ${customerId} for team ${teamId} by user ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    customer
+  })
+})
+
+/**
+ * Remove a customer who has no reviews (manager)
+ */
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, customer_id: customerId } = await params
+  validateUUID(customerId, 'customer_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { permission: 'customers.manage' })
+
+  await deleteCustomer(supabase, teamId, customerId)
+
+  console.log(`Customer deleted: ${customerId} from team ${teamId} by user ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    message: 'Customer deleted successfully'
+  })
+})
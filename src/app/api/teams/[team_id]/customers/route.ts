@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { findOrCreateCustomer, parseCustomerFields, searchCustomers } from '@/lib/customers'
+import { parsePageSize } from '@/lib/pagination'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * The team's customers, newest first. q matches the name, email or phone
+ * number for search-as-you-type.
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId)
+
+  const searchParams = req.nextUrl.searchParams
+  const { customers, next_cursor } = await searchCustomers(supabase, teamId, {
+    q: searchParams.get('q'),
+    limit: parsePageSize(searchParams.get('limit')),
+    cursor: searchParams.get('cursor')
+  })
+
+  return NextResponse.json({
+    customers,
+    next_cursor,
+    team_id: teamId
+  })
+})
+
+/**
+ * Add a customer. When the email, phone or name matches an existing
+ * customer, that customer is returned (created: false) with any missing
+ * contact details filled in.
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { permission: 'reviews.submit' })
+
+  const body = await req.json()
+  const fields = parseCustomerFields(body, { requireName: true })
+
+  const { customer, created } = await findOrCreateCustomer(supabase, teamId, {
+    ...fields,
+    name: fields.name as string
+  })
+
+  console.log(`Customer ${created ? 'created' : 'matched'}: ${customer.id} for team ${teamId} by user ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    customer,
+    created
+  })
+})
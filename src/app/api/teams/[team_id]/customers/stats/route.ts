@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { getCustomerStats } from '@/lib/customers'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * How many of the team's customers have come back for more than one review
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId)
+
+  const stats = await getCustomerStats(supabase, teamId)
+
+  return NextResponse.json({
+    stats,
+    team_id: teamId
+  })
+})
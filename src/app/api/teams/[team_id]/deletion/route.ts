@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { requestTeamDeletion } from '@/lib/team-archival'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Start permanently deleting an archived team (owner). Returns the
+ * confirmation token to send with DELETE /api/teams/[team_id].
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, {
+    permission: 'team.delete',
+    allowArchived: true
+  })
+
+  const { token, expiresAt } = await requestTeamDeletion(supabase, teamId)
+
+  console.log(`Permanent deletion requested for team ${teamId} by owner ${user.id}`)
+
+  return NextResponse.json({
+    confirmation_token: token,
+    expires_at: expiresAt,
+    team_id: teamId
+  })
+})
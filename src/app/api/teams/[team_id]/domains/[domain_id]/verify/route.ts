@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { getDnsTxtResolver } from '@/lib/domain-verification'
+import { verifyTeamDomainByDns, verifyTeamDomainByMemberEmail } from '@/lib/team-domains'
+import { withErrorHandler, ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  domain_id: string
+}
+
+/**
+ * Prove ownership of a mapped domain.
+ * - method "dns_txt" (admin): checks for the mapping's TXT record
+ * - method "member_email" (any member): the caller's confirmed email is on the domain
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, domain_id: domainId } = await params
+  validateUUID(domainId, 'domain_id')
+
+  const body = await req.json().catch(() => ({}))
+  const method = body.method || 'dns_txt'
+
+  if (!['dns_txt', 'member_email'].includes(method)) {
+    throw ApiErrorHandler.validationError('method must be dns_txt or member_email', {
+      field: 'method',
+      received: method
+    })
+  }
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, {
+    requireAdmin: method === 'dns_txt'
+  })
+
+  const verifiedAt = method === 'dns_txt'
+    ? (await verifyTeamDomainByDns(supabase, teamId, domainId, user.id, getDnsTxtResolver())).verified_at
+    : await verifyTeamDomainByMemberEmail(supabase, domainId)
+
+  console.log(`Domain mapping ${domainId} for team ${teamId} verified via ${method} by user ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    domain_id: domainId,
+    verified_at: verifiedAt,
+    verification_method: method
+  })
+})
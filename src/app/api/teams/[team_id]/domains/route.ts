@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { addTeamDomain, listTeamDomains, removeTeamDomain, withVerificationInstructions } from '@/lib/team-domains'
+import { withErrorHandler, ApiErrorHandler, validateRequired, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const domains = await listTeamDomains(supabase, teamId)
+
+  return NextResponse.json({
+    domains: domains.map(withVerificationInstructions),
+    team_id: teamId
+  })
+})
+
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const { domain } = body
+
+  validateRequired(domain, 'domain')
+  if (typeof domain !== 'string') {
+    throw ApiErrorHandler.validationError('domain must be a string', { field: 'domain' })
+  }
+
+  const mapping = await addTeamDomain(supabase, teamId, domain)
+
+  console.log(`Domain ${mapping.domain_name} mapped to team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    domain: withVerificationInstructions(mapping)
+  }, { status: 201 })
+})
+
+/**
+ * Remove a mapping with ?domain_id=<uuid> or ?domain=<domain>
+ */
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const domainId = req.nextUrl.searchParams.get('domain_id')
+  const domain = req.nextUrl.searchParams.get('domain')
+
+  if (!domainId && !domain) {
+    throw ApiErrorHandler.validationError('domain_id or domain query parameter is required', {
+      field: 'domain_id'
+    })
+  }
+  if (domainId) {
+    validateUUID(domainId, 'domain_id')
+  }
+
+  const mapping = await removeTeamDomain(supabase, teamId, {
+    id: domainId || undefined,
+    domain: domain || undefined
+  })
+
+  console.log(`Domain ${mapping.domain_name} unmapped from team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    domain: mapping
+  })
+})
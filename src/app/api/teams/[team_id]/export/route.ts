@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { exportTeamData } from '@/lib/team-archival'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Download everything the team holds as JSON (admin). Works for archived
+ * teams too.
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId, { permission: 'team.manage' })
+
+  const data = await exportTeamData(supabase, teamId)
+
+  return NextResponse.json(data, {
+    headers: {
+      'Content-Disposition': `attachment; filename="team-${teamId}-export.json"`
+    }
+  })
+})
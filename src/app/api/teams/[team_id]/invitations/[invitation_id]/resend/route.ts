@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import {
+  buildInvitationUrl,
+  getInvitationSenderDetails,
+  resendTeamInvitation,
+  sendInvitationEmail
+} from '@/lib/team-invitations'
+import { withErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  invitation_id: string
+}
+
+/**
+ * Send an invitation again with a new link and expiry (admin only)
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, invitation_id: invitationId } = await params
+  validateUUID(invitationId, 'invitation_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const { invitation, token } = await resendTeamInvitation(supabase, teamId, invitationId)
+  const { teamName, inviterName } = await getInvitationSenderDetails(supabase, teamId, user.id)
+
+  await sendInvitationEmail({
+    invitation,
+    teamName,
+    inviterName,
+    url: buildInvitationUrl(req, token)
+  })
+
+  console.log(`Invitation ${invitationId} for team ${teamId} resent by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    invitation
+  })
+})
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { revokeTeamInvitation } from '@/lib/team-invitations'
+import { withErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  invitation_id: string
+}
+
+/**
+ * Revoke an invitation (admin only). The row is kept for the invitation history.
+ */
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, invitation_id: invitationId } = await params
+  validateUUID(invitationId, 'invitation_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const invitation = await revokeTeamInvitation(supabase, teamId, invitationId)
+
+  console.log(`Invitation ${invitationId} for team ${teamId} revoked by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    invitation
+  })
+})
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import {
+  INVITATION_SELECT,
+  buildInvitationUrl,
+  createTeamInvitation,
+  formatInvitation,
+  getInvitationSenderDetails,
+  sendInvitationEmail
+} from '@/lib/team-invitations'
+import { withErrorHandler, ApiErrorHandler, validateEmail, validateRequired } from '@/lib/api-error-handler'
+import { isAssignableTeamRole } from '@/lib/team-roles'
+
+interface RouteParams {
+  team_id: string
+}
+
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const { data, error } = await supabase
+    .from('team_invitations')
+    .select(INVITATION_SELECT)
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching team invitations:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch invitations', error)
+  }
+
+  return NextResponse.json({
+    invitations: (data || []).map(formatInvitation),
+    team_id: teamId
+  })
+})
+
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const { email, role = 'member' } = body
+
+  validateRequired(email, 'email')
+  if (typeof email !== 'string') {
+    throw ApiErrorHandler.validationError('email must be a string', { field: 'email' })
+  }
+  validateEmail(email.trim())
+
+  if (!isAssignableTeamRole(role)) {
+    throw ApiErrorHandler.validationError('Invalid role. Must be admin, manager, member or viewer', {
+      field: 'role',
+      received: role
+    })
+  }
+
+  const { invitation, token } = await createTeamInvitation(supabase, teamId, user.id, email, role)
+  const { teamName, inviterName } = await getInvitationSenderDetails(supabase, teamId, user.id)
+
+  await sendInvitationEmail({
+    invitation,
+    teamName,
+    inviterName,
+    url: buildInvitationUrl(req, token)
+  })
+
+  console.log(`Invitation ${invitation.id} for team ${teamId} sent by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    invitation
+  }, { status: 201 })
+})
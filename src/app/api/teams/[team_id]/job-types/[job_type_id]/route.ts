@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { deleteJobType, parseJobTypeFields, updateJobType } from '@/lib/job-types'
+import { withErrorHandler, ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  job_type_id: string
+}
+
+/**
+ * Rename, re-price, reorder or retire a job type (admin). Renaming relabels
+ * the reviews linked to it.
+ */
+export const PATCH = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, job_type_id: jobTypeId } = await params
+  validateUUID(jobTypeId, 'job_type_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const changes = parseJobTypeFields(body)
+
+  if (Object.keys(changes).length === 0) {
+    throw ApiErrorHandler.validationError('Nothing to update')
+  }
+
+  const jobType = await updateJobType(supabase, teamId, jobTypeId, changes)
+
+  console.log(`Job type updated: ${jobTypeId} for team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    job_type: jobType
+  })
+})
+
+/**
+ * Remove a job type (admin). Its reviews keep their job type text and can be
+ * mapped to another entry.
+ */
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, job_type_id: jobTypeId } = await params
+  validateUUID(jobTypeId, 'job_type_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  await deleteJobType(supabase, teamId, jobTypeId)
+
+  console.log(`Job type deleted: ${jobTypeId} from team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    message: 'Job type deleted successfully'
+  })
+})
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { getUnmappedJobTypes, mapJobTypes, parseJobTypeMappings } from '@/lib/job-types'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Free-text job types on the team's reviews that aren't in the catalog,
+ * with how many reviews use each (admin)
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const unmapped = await getUnmappedJobTypes(supabase, teamId)
+
+  return NextResponse.json({
+    unmapped,
+    team_id: teamId
+  })
+})
+
+/**
+ * Map free-text values onto catalog entries (admin). Takes `mappings`, a list
+ * of { job_type, job_type_id }; points already awarded are not changed.
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const mappings = parseJobTypeMappings(body.mappings)
+
+  const reviewsUpdated = await mapJobTypes(supabase, teamId, mappings)
+
+  console.log(`Mapped ${mappings.length} job type values (${reviewsUpdated} reviews) in team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    reviews_updated: reviewsUpdated,
+    unmapped: await getUnmappedJobTypes(supabase, teamId)
+  })
+})
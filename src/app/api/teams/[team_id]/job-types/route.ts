@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { createJobType, listJobTypes, parseJobTypeFields } from '@/lib/job-types'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * The team's job type catalog in display order, retired entries included
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId)
+
+  const jobTypes = await listJobTypes(supabase, teamId)
+
+  return NextResponse.json({
+    job_types: jobTypes,
+    team_id: teamId,
+    total_job_types: jobTypes.length
+  })
+})
+
+/**
+ * Add a job type (admin). Existing reviews with the same name are linked to it.
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const fields = parseJobTypeFields(body, { requireName: true })
+
+  const jobType = await createJobType(supabase, teamId, user.id, fields)
+
+  console.log(`Job type created: ${jobType.id} (${jobType.name}) for team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    job_type: jobType
+  })
+})
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LEADERBOARD_CONFIG } from '@/lib/constants'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { captureLeaderboardSnapshots, getLeaderboardHistory } from '@/lib/leaderboard-history'
+import { assertLeaderboardVisible, getTeamSettings } from '@/lib/team-settings'
+import { withErrorHandler, ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, role } = await getTeamRequestContext(req, teamId)
+
+  assertLeaderboardVisible(await getTeamSettings(supabase, teamId), role)
+
+  const searchParams = req.nextUrl.searchParams
+  const employeeId = searchParams.get('employee_id')
+  const limitParam = searchParams.get('limit')
+
+  if (employeeId) {
+    validateUUID(employeeId, 'employee_id')
+  }
+
+  let limit: number = LEADERBOARD_CONFIG.DEFAULT_HISTORY_LIMIT
+  if (limitParam !== null) {
+    limit = Number(limitParam)
+    if (!Number.isInteger(limit) || limit < 1 || limit > LEADERBOARD_CONFIG.MAX_HISTORY_LIMIT) {
+      throw ApiErrorHandler.validationError(
+        `limit must be between 1 and ${LEADERBOARD_CONFIG.MAX_HISTORY_LIMIT}`,
+        { field: 'limit', received: limitParam }
+      )
+    }
+  }
+
+  const snapshots = await getLeaderboardHistory(supabase, teamId, { limit, employeeId })
+
+  return NextResponse.json({
+    snapshots,
+    team_id: teamId
+  })
+})
+
+/**
+ * Capture today's snapshot for this team on demand (admin only)
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const created = await captureLeaderboardSnapshots(supabase, teamId)
+
+  console.log(`Leaderboard snapshot requested for team ${teamId} by admin ${user.id} (created ${created})`)
+
+  return NextResponse.json({
+    success: true,
+    created: created > 0,
+    message: created > 0 ? 'Snapshot captured' : 'A snapshot was already captured today'
+  })
+})
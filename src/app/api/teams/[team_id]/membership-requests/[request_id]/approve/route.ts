@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { approveMembershipRequest } from '@/lib/membership-requests'
+import { withErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  request_id: string
+}
+
+/**
+ * Approve a pending membership request, adding the requester as a member
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, request_id: requestId } = await params
+  validateUUID(requestId, 'request_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const memberId = await approveMembershipRequest(supabase, teamId, requestId)
+
+  console.log(`Membership request ${requestId} approved in team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    request_id: requestId,
+    user_id: memberId,
+    status: 'approved'
+  })
+})
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { rejectMembershipRequest } from '@/lib/membership-requests'
+import { withErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  request_id: string
+}
+
+/**
+ * Reject a pending membership request
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, request_id: requestId } = await params
+  validateUUID(requestId, 'request_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  await rejectMembershipRequest(supabase, teamId, requestId)
+
+  console.log(`Membership request ${requestId} rejected in team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    request_id: requestId,
+    status: 'rejected'
+  })
+})
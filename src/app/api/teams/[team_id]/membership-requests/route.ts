@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { listTeamMembershipRequests } from '@/lib/membership-requests'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Domain-matched signups waiting for approval (admin only)
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const requests = await listTeamMembershipRequests(supabase, teamId)
+
+  return NextResponse.json({
+    requests,
+    team_id: teamId
+  })
+})
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { transferTeamOwnership } from '@/lib/team-members'
+import { withErrorHandler, validateRequired, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Transfer team ownership to another member (current owner only). The
+ * previous owner stays on the team as an admin.
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const { user_id } = body
+
+  validateRequired(user_id, 'user_id')
+  validateUUID(user_id, 'user_id')
+
+  await transferTeamOwnership(supabase, teamId, user_id)
+
+  console.log(`Ownership of team ${teamId} transferred from ${user.id} to ${user_id}`)
+
+  return NextResponse.json({
+    success: true,
+    team_id: teamId,
+    owner_id: user_id
+  })
+})
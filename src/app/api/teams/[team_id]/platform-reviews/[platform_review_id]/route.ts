@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { setPlatformReviewMatch } from '@/lib/platform-reviews'
+import { withErrorHandler, ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  platform_review_id: string
+}
+
+/**
+ * Match an imported review to a submitted review (`review_id`), or clear a
+ * wrong match with `review_id: null` (managers)
+ */
+export const PATCH = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, platform_review_id: platformReviewId } = await params
+  validateUUID(platformReviewId, 'platform_review_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { permission: 'reviews.approve' })
+
+  const body = await req.json()
+  if (body.review_id === undefined) {
+    throw ApiErrorHandler.validationError('review_id is required (null clears the match)', { field: 'review_id' })
+  }
+  const reviewId = body.review_id === null ? null : validateUUID(body.review_id, 'review_id')
+
+  const platformReview = await setPlatformReviewMatch(supabase, teamId, platformReviewId, reviewId)
+
+  console.log(
+    `Platform review ${platformReviewId} ${reviewId ? `matched to review ${reviewId}` : 'unmatched'} in team ${teamId} by user ${user.id}`
+  )
+
+  return NextResponse.json({
+    success: true,
+    platform_review: platformReview
+  })
+})
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { listPlatformReviews } from '@/lib/platform-reviews'
+import { parsePageSize } from '@/lib/pagination'
+import { withErrorHandler, ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Reviews imported from the team's platforms, newest first, with the
+ * submitted review each one verifies (managers)
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId, { permission: 'reviews.approve' })
+
+  const searchParams = req.nextUrl.searchParams
+  const limit = parsePageSize(searchParams.get('limit'))
+  const matched = searchParams.get('matched')
+  const connectionId = searchParams.get('connection_id')
+
+  if (matched !== null && matched !== 'true' && matched !== 'false') {
+    throw ApiErrorHandler.validationError('matched must be true or false', { field: 'matched', received: matched })
+  }
+
+  if (connectionId) {
+    validateUUID(connectionId, 'connection_id')
+  }
+
+  const { platform_reviews: platformReviews, next_cursor: nextCursor } = await listPlatformReviews(supabase, teamId, {
+    matched: matched === null ? null : matched === 'true',
+    connectionId,
+    limit,
+    cursor: searchParams.get('cursor')
+  })
+
+  return NextResponse.json({
+    platform_reviews: platformReviews,
+    next_cursor: nextCursor,
+    team_id: teamId
+  })
+})
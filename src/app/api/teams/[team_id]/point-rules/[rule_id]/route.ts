@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { POINT_RULES_CONFIG } from '@/lib/constants'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { validatePointRuleConfig, validateRuleWindow } from '@/lib/points-rules'
+import {
+  withErrorHandler,
+  ApiErrorHandler,
+  validateUUID,
+  validateStringLength
+} from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  rule_id: string
+}
+
+export const PATCH = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, rule_id: ruleId } = await params
+  validateUUID(ruleId, 'rule_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const { data: existingRule } = await supabase
+    .from('team_point_rules')
+    .select('*')
+    .eq('id', ruleId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (!existingRule) {
+    throw ApiErrorHandler.resourceNotFound('point rule', ruleId)
+  }
+
+  const body = await req.json()
+  const { name, config, starts_at, ends_at, is_active } = body
+
+  // Build update object
+  const updateData: Record<string, unknown> = {}
+
+  if (name !== undefined) {
+    validateStringLength(String(name).trim(), 'name', 1, POINT_RULES_CONFIG.MAX_RULE_NAME_LENGTH)
+    updateData.name = String(name).trim()
+  }
+
+  if (config !== undefined) {
+    updateData.config = validatePointRuleConfig(existingRule.rule_type, config)
+  }
+
+  if (starts_at !== undefined || ends_at !== undefined) {
+    Object.assign(updateData, validateRuleWindow(
+      starts_at !== undefined ? starts_at : existingRule.starts_at,
+      ends_at !== undefined ? ends_at : existingRule.ends_at
+    ))
+  }
+
+  if (is_active !== undefined) {
+    updateData.is_active = Boolean(is_active)
+  }
+
+  const { data: rule, error } = await supabase
+    .from('team_point_rules')
+    .update(updateData)
+    .eq('id', ruleId)
+    .eq('team_id', teamId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating point rule:', error)
+    throw ApiErrorHandler.databaseError('Failed to update point rule', error)
+  }
+
+  console.log(`Point rule updated: ${ruleId} for team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    rule
+  })
+})
+
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, rule_id: ruleId } = await params
+  validateUUID(ruleId, 'rule_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const { data: deletedRules, error } = await supabase
+    .from('team_point_rules')
+    .delete()
+    .eq('id', ruleId)
+    .eq('team_id', teamId)
+    .select('id')
+
+  if (error) {
+    console.error('Error deleting point rule:', error)
+    throw ApiErrorHandler.databaseError('Failed to delete point rule', error)
+  }
+
+  if (!deletedRules || deletedRules.length === 0) {
+    throw ApiErrorHandler.resourceNotFound('point rule', ruleId)
+  }
+
+  console.log(`Point rule deleted: ${ruleId} from team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    message: 'Point rule deleted successfully'
+  })
+})
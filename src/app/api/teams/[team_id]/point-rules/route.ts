@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { POINT_RULES_CONFIG } from '@/lib/constants'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { validatePointRuleConfig, validateRuleWindow } from '@/lib/points-rules'
+import {
+  withErrorHandler,
+  ApiErrorHandler,
+  validateRequired,
+  validateStringLength
+} from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId)
+
+  const { data: rules, error } = await supabase
+    .from('team_point_rules')
+    .select('*')
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching point rules:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch point rules', error)
+  }
+
+  return NextResponse.json({
+    rules: rules || [],
+    team_id: teamId,
+    total_rules: rules?.length || 0
+  })
+})
+
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const { name, rule_type, config, starts_at, ends_at, is_active = true } = body
+
+  validateRequired(name, 'name')
+  validateRequired(rule_type, 'rule_type')
+  validateStringLength(name.trim(), 'name', 1, POINT_RULES_CONFIG.MAX_RULE_NAME_LENGTH)
+
+  const normalizedConfig = validatePointRuleConfig(rule_type, config)
+  const window = validateRuleWindow(starts_at, ends_at)
+
+  const { data: rule, error } = await supabase
+    .from('team_point_rules')
+    .insert({
+      team_id: teamId,
+      name: name.trim(),
+      rule_type,
+      config: normalizedConfig,
+      ...window,
+      is_active: Boolean(is_active),
+      created_by: user.id
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating point rule:', error)
+    throw ApiErrorHandler.databaseError('Failed to create point rule', error)
+  }
+
+  console.log(`Point rule created: ${rule.id} (${rule_type}) for team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    rule
+  })
+})
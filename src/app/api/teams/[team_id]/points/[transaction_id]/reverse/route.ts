@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { reversePointTransaction } from '@/lib/points-ledger'
+import { withErrorHandler, ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  transaction_id: string
+}
+
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, transaction_id: transactionId } = await params
+  validateUUID(transactionId, 'transaction_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  // Confirm the transaction belongs to this team before reversing it
+  const { data: transaction } = await supabase
+    .from('point_transactions')
+    .select('id')
+    .eq('id', transactionId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (!transaction) {
+    throw ApiErrorHandler.resourceNotFound('point transaction', transactionId)
+  }
+
+  const body = await req.json().catch(() => ({}))
+  const reversalId = await reversePointTransaction(supabase, transactionId, body.note)
+
+  console.log(`Point transaction ${transactionId} reversed in team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    transaction_id: reversalId,
+    team_id: teamId
+  })
+})
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { adjustEmployeePoints } from '@/lib/points-ledger'
+import { parsePageSize } from '@/lib/pagination'
+import {
+  withErrorHandler,
+  ApiErrorHandler,
+  validateRequired,
+  validateUUID,
+  validateStringLength
+} from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId)
+
+  const employeeId = req.nextUrl.searchParams.get('employee_id')
+  if (employeeId) {
+    validateUUID(employeeId, 'employee_id')
+  }
+
+  const limit = parsePageSize(req.nextUrl.searchParams.get('limit'))
+
+  // RLS restricts the ledger to teams the caller belongs to
+  let query = supabase
+    .from('point_transactions')
+    .select('*')
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (employeeId) {
+    query = query.eq('employee_id', employeeId)
+  }
+
+  const { data: transactions, error } = await query
+
+  if (error) {
+    console.error('Error fetching point transactions:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch point transactions', error)
+  }
+
+  // Balance is only meaningful for a single employee
+  let balance: number | null = null
+  if (employeeId) {
+    const { data: balanceRow } = await supabase
+      .from('points')
+      .select('points')
+      .eq('team_id', teamId)
+      .eq('employee_id', employeeId)
+      .maybeSingle()
+
+    balance = balanceRow?.points ?? 0
+  }
+
+  return NextResponse.json({
+    transactions: transactions || [],
+    balance,
+    team_id: teamId
+  })
+})
+
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const { employee_id, amount, note } = body
+
+  validateRequired(employee_id, 'employee_id')
+  validateUUID(employee_id, 'employee_id')
+  validateRequired(note, 'note')
+  validateStringLength(note, 'note', 1, 500)
+
+  if (!Number.isInteger(amount) || amount === 0) {
+    throw ApiErrorHandler.validationError(
+      'amount must be a non-zero integer',
+      { field: 'amount', received: amount }
+    )
+  }
+
+  const transactionId = await adjustEmployeePoints(supabase, teamId, employee_id, amount, note)
+
+  console.log(`Points adjusted by ${amount} for employee ${employee_id} in team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    transaction_id: transactionId,
+    team_id: teamId
+  })
+})
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { restoreTeam } from '@/lib/team-archival'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Restore an archived team (admin), cancelling any pending permanent delete
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, {
+    permission: 'team.manage',
+    allowArchived: true
+  })
+
+  await restoreTeam(supabase, teamId)
+
+  console.log(`Team ${teamId} restored by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    team_id: teamId,
+    archived: false
+  })
+})
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import {
+  deleteReviewPlatformConnection,
+  getReviewPlatformServiceClient,
+  parseReviewPlatformConnectionFields,
+  saveReviewPlatformCredentials,
+  updateReviewPlatformConnection
+} from '@/lib/platform-reviews'
+import { withErrorHandler, ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  connection_id: string
+}
+
+/**
+ * Change a connection's listing id, name, active flag or access token (admin)
+ */
+export const PATCH = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, connection_id: connectionId } = await params
+  validateUUID(connectionId, 'connection_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const changes = parseReviewPlatformConnectionFields(body)
+
+  if (Object.keys(changes).length === 0) {
+    throw ApiErrorHandler.validationError('Nothing to update')
+  }
+
+  const serviceClient = changes.access_token ? getReviewPlatformServiceClient() : null
+
+  let connection = await updateReviewPlatformConnection(supabase, teamId, connectionId, changes)
+  if (serviceClient && changes.access_token) {
+    connection = await saveReviewPlatformCredentials(serviceClient, connection.id, changes.access_token)
+  }
+
+  console.log(`Review platform connection updated: ${connectionId} for team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    connection
+  })
+})
+
+/**
+ * Disconnect a listing (admin). Its imported reviews are removed and the
+ * reviews they verified go back to unverified.
+ */
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, connection_id: connectionId } = await params
+  validateUUID(connectionId, 'connection_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  await deleteReviewPlatformConnection(supabase, teamId, connectionId)
+
+  console.log(`Review platform connection removed: ${connectionId} from team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    message: 'Review platform disconnected successfully'
+  })
+})
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import {
+  getReviewPlatformConnection,
+  getReviewPlatformServiceClient,
+  syncReviewPlatformConnection
+} from '@/lib/platform-reviews'
+import { withErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  connection_id: string
+}
+
+/**
+ * Pull a listing's reviews now instead of waiting for the scheduled sync
+ * (admin). A platform failure is reported on the returned connection.
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, connection_id: connectionId } = await params
+  validateUUID(connectionId, 'connection_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const connection = await getReviewPlatformConnection(supabase, teamId, connectionId)
+  const result = await syncReviewPlatformConnection(getReviewPlatformServiceClient(), connection)
+
+  console.log(
+    `Review platform synced: ${connectionId} for team ${teamId} by admin ${user.id} (${result.imported} imported, ${result.matched} matched)`
+  )
+
+  return NextResponse.json({
+    success: true,
+    ...result
+  })
+})
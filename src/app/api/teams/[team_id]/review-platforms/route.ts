@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import {
+  createReviewPlatformConnection,
+  getReviewPlatformServiceClient,
+  listReviewPlatformConnections,
+  parseReviewPlatformConnectionFields,
+  saveReviewPlatformCredentials
+} from '@/lib/platform-reviews'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * The team's connected review platform listings and their last sync (managers)
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId, { permission: 'reviews.approve' })
+
+  const connections = await listReviewPlatformConnections(supabase, teamId)
+
+  return NextResponse.json({
+    connections,
+    team_id: teamId
+  })
+})
+
+/**
+ * Connect a Google, Yelp or Facebook listing (admin). Google and Facebook
+ * need an `access_token`, which is stored where only the sync job can read it.
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const fields = parseReviewPlatformConnectionFields(body, { requirePlatform: true })
+
+  const serviceClient = fields.access_token ? getReviewPlatformServiceClient() : null
+
+  let connection = await createReviewPlatformConnection(supabase, teamId, user.id, fields)
+  if (serviceClient && fields.access_token) {
+    connection = await saveReviewPlatformCredentials(serviceClient, connection.id, fields.access_token)
+  }
+
+  console.log(`Review platform connected: ${connection.platform} ${connection.id} for team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    connection
+  })
+})
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { convertReviewRequest, formatReviewRequest, getReviewRequest } from '@/lib/review-requests'
+import { withErrorHandler, validateRequired, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  request_id: string
+}
+
+/**
+ * Record that a submitted review came from this request (`review_id`; the
+ * requesting employee or a manager)
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, request_id: requestId } = await params
+  validateUUID(requestId, 'request_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { permission: 'reviews.submit' })
+
+  const body = await req.json()
+  const reviewId = validateUUID(validateRequired(body.review_id, 'review_id'), 'review_id')
+
+  // Scope the request to the team before converting it
+  await getReviewRequest(supabase, teamId, requestId)
+  await convertReviewRequest(supabase, requestId, reviewId)
+
+  const row = await getReviewRequest(supabase, teamId, requestId)
+
+  console.log(`Review request converted: ${requestId} to review ${reviewId} in team ${teamId} by user ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    review_request: formatReviewRequest(req, row)
+  })
+})
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { getReviewRequest } from '@/lib/review-requests'
+import { listReviewRequestMessages } from '@/lib/review-request-messages'
+import { withErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  request_id: string
+}
+
+/**
+ * Texts and emails sent for a review request, with their delivery status
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, request_id: requestId } = await params
+  validateUUID(requestId, 'request_id')
+
+  const { supabase } = await getTeamRequestContext(req, teamId)
+
+  await getReviewRequest(supabase, teamId, requestId)
+  const messages = await listReviewRequestMessages(supabase, teamId, requestId)
+
+  return NextResponse.json({
+    success: true,
+    messages
+  })
+})
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { buildReviewRequestQrUrl, getReviewRequest } from '@/lib/review-requests'
+import { parseQrCodeFormat, parseQrCodeSize, renderQrCode } from '@/lib/qr-codes'
+import { withErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  request_id: string
+}
+
+/**
+ * QR code for a review request link (`format=png|svg`, `size` in pixels).
+ * Scans are logged as opens of the request with the `qr` source.
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, request_id: requestId } = await params
+  validateUUID(requestId, 'request_id')
+
+  const { supabase } = await getTeamRequestContext(req, teamId)
+
+  const searchParams = req.nextUrl.searchParams
+  const format = parseQrCodeFormat(searchParams.get('format'))
+  const size = parseQrCodeSize(searchParams.get('size'))
+
+  const row = await getReviewRequest(supabase, teamId, requestId)
+  const { body, contentType } = await renderQrCode(buildReviewRequestQrUrl(req, row.token), format, size)
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `inline; filename="review-link-${requestId}.${format}"`,
+      'Cache-Control': 'private, max-age=3600'
+    }
+  })
+})
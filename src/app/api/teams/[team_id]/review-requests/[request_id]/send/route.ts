@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { formatReviewRequest, getReviewRequest } from '@/lib/review-requests'
+import { parseMessageChannel, sendReviewRequestMessage } from '@/lib/review-request-messages'
+import { getTeam, getTeamSettings } from '@/lib/team-settings'
+import { withErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  request_id: string
+}
+
+/**
+ * Text or email the review request to its customer (`channel`; the
+ * requesting employee or a manager)
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, request_id: requestId } = await params
+  validateUUID(requestId, 'request_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { permission: 'reviews.submit' })
+
+  const body = await req.json()
+  const channel = parseMessageChannel(body.channel)
+
+  const [request, team, settings] = await Promise.all([
+    getReviewRequest(supabase, teamId, requestId),
+    getTeam(supabase, teamId),
+    getTeamSettings(supabase, teamId)
+  ])
+
+  const message = await sendReviewRequestMessage(supabase, req, request, channel, {
+    teamName: team.name,
+    settings,
+    sentBy: user.id
+  })
+
+  const row = await getReviewRequest(supabase, teamId, requestId)
+
+  console.log(`Review request ${channel} sent: ${requestId} via ${message.provider} in team ${teamId} by user ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    message,
+    review_request: formatReviewRequest(req, row)
+  })
+})
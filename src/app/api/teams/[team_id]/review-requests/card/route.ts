@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { getTeamSettings } from '@/lib/team-settings'
+import {
+  formatReviewRequest,
+  getOrCreateReviewCard,
+  resolveReviewRequestEmployee
+} from '@/lib/review-requests'
+import { withErrorHandler, ApiErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * The caller's review card link, created on first use; managers can pass
+ * employee_id for a teammate's card
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user, role } = await getTeamRequestContext(req, teamId, { permission: 'reviews.submit' })
+
+  const body = await req.json().catch(() => ({}))
+  const employeeId = await resolveReviewRequestEmployee(supabase, teamId, { userId: user.id, role }, body.employee_id)
+
+  const settings = await getTeamSettings(supabase, teamId)
+  if (!settings.review_destination_url) {
+    throw ApiErrorHandler.resourceConflict('Set a review destination URL in team settings before printing review cards')
+  }
+
+  const row = await getOrCreateReviewCard(supabase, teamId, { employeeId, createdBy: user.id })
+
+  return NextResponse.json({
+    success: true,
+    review_request: formatReviewRequest(req, row)
+  })
+})
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { getTeamSettings } from '@/lib/team-settings'
+import { getReviewRequestMetrics } from '@/lib/review-requests'
+import { resolveLeaderboardPeriod } from '@/lib/leaderboard-periods'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Review requests sent, opened and converted per employee, with conversion
+ * rates, for requests created in the period (same `period` options as the
+ * leaderboard). Members only get their own row.
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId, { permission: 'reviews.submit' })
+
+  const settings = await getTeamSettings(supabase, teamId)
+  const searchParams = req.nextUrl.searchParams
+  const period = resolveLeaderboardPeriod(
+    searchParams.get('period'),
+    searchParams.get('from'),
+    searchParams.get('to'),
+    new Date(),
+    settings.timezone
+  )
+
+  const metrics = await getReviewRequestMetrics(supabase, teamId, period)
+
+  return NextResponse.json({
+    metrics,
+    period,
+    team_id: teamId
+  })
+})
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { getTeamSettings } from '@/lib/team-settings'
+import { findOrCreateCustomer, getCustomer, parseCustomerFields } from '@/lib/customers'
+import {
+  createReviewRequest,
+  formatReviewRequest,
+  listReviewRequests,
+  parseReviewRequestStatus,
+  resolveReviewRequestEmployee
+} from '@/lib/review-requests'
+import { isRoleAtLeast } from '@/lib/team-roles'
+import { parsePageSize } from '@/lib/pagination'
+import { withErrorHandler, ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Review requests, newest first (filters: employee_id, customer_id, status).
+ * Members see their own; managers see everyone's.
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user, role } = await getTeamRequestContext(req, teamId)
+
+  const searchParams = req.nextUrl.searchParams
+  const employeeId = searchParams.get('employee_id')
+  const customerId = searchParams.get('customer_id')
+
+  if (employeeId) validateUUID(employeeId, 'employee_id')
+  if (customerId) validateUUID(customerId, 'customer_id')
+
+  const seesTeam = isRoleAtLeast(role, 'manager')
+  if (!seesTeam && employeeId && employeeId !== user.id) {
+    throw ApiErrorHandler.permissionDenied('Only managers can view other employees\' review requests')
+  }
+
+  const { rows, next_cursor } = await listReviewRequests(supabase, teamId, {
+    employeeId: seesTeam ? employeeId : user.id,
+    customerId,
+    status: parseReviewRequestStatus(searchParams.get('status')),
+    limit: parsePageSize(searchParams.get('limit')),
+    cursor: searchParams.get('cursor')
+  })
+
+  return NextResponse.json({
+    review_requests: rows.map(row => formatReviewRequest(req, row)),
+    next_cursor,
+    team_id: teamId
+  })
+})
+
+/**
+ * Create a review request link for a customer: customer_id, or
+ * customer_name with optional customer_phone/customer_email to match or add
+ * one. Managers can create links for another employee with employee_id.
+ */
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user, role } = await getTeamRequestContext(req, teamId, { permission: 'reviews.submit' })
+
+  const body = await req.json()
+  const { customer_id, customer_name, customer_phone, customer_email, employee_id } = body
+
+  const employeeId = await resolveReviewRequestEmployee(supabase, teamId, { userId: user.id, role }, employee_id)
+
+  const settings = await getTeamSettings(supabase, teamId)
+  if (!settings.review_destination_url) {
+    throw ApiErrorHandler.resourceConflict('Set a review destination URL in team settings before sending review requests')
+  }
+
+  let customerId: string
+  if (customer_id) {
+    customerId = (await getCustomer(supabase, teamId, validateUUID(customer_id, 'customer_id'))).id
+  } else {
+    const fields = parseCustomerFields(
+      { name: customer_name, phone: customer_phone, email: customer_email },
+      { requireName: true }
+    )
+    const { customer } = await findOrCreateCustomer(supabase, teamId, { ...fields, name: fields.name as string })
+    customerId = customer.id
+  }
+
+  const row = await createReviewRequest(supabase, teamId, {
+    employeeId,
+    customerId,
+    createdBy: user.id
+  })
+
+  console.log(`Review request created: ${row.id} for customer ${customerId} and employee ${employeeId} in team ${teamId} by user ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    review_request: formatReviewRequest(req, row)
+  })
+})
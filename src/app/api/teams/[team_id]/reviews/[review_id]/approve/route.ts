@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { REVIEW_LIST_SELECT, formatReview } from '@/lib/reviews'
+import { getAttachmentStorage } from '@/lib/attachment-storage'
+import { withReviewAttachmentUrls } from '@/lib/review-attachments'
+import { calculateReviewPoints } from '@/lib/points-rules'
+import { approveReview } from '@/lib/points-ledger'
+import { withErrorHandler, ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  review_id: string
+}
+
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, review_id: reviewId } = await params
+  validateUUID(reviewId, 'review_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { permission: 'reviews.approve' })
+
+  const { data: existingReview } = await supabase
+    .from('reviews')
+    .select('*')
+    .eq('id', reviewId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (!existingReview) {
+    throw ApiErrorHandler.resourceNotFound('review', reviewId)
+  }
+
+  if (existingReview.status === 'approved') {
+    throw ApiErrorHandler.validationError('Review is already approved', { field: 'status', received: existingReview.status })
+  }
+
+  // Score against the rules in force when it was submitted; the daily cap
+  // counts today's awards, since that is when this one is recorded
+  const pointsCalculation = await calculateReviewPoints(
+    supabase,
+    teamId,
+    existingReview.employee_id,
+    {
+      job_type: existingReview.job_type,
+      has_photo: existingReview.has_photo,
+      keywords: existingReview.keywords
+    },
+    { now: new Date(existingReview.created_at), excludeReviewId: reviewId }
+  )
+
+  const transactionId = await approveReview(reviewId, pointsCalculation.points, user.id, {
+    breakdown: pointsCalculation.breakdown,
+    multiplier: pointsCalculation.multiplier,
+    capped: pointsCalculation.capped
+  })
+
+  const { data: updatedReview, error: fetchError } = await supabase
+    .from('reviews')
+    .select(REVIEW_LIST_SELECT)
+    .eq('id', reviewId)
+    .single()
+
+  if (fetchError) {
+    console.error('Error fetching approved review:', fetchError)
+    throw ApiErrorHandler.databaseError('Failed to fetch approved review', fetchError)
+  }
+
+  const [review] = await withReviewAttachmentUrls(getAttachmentStorage(supabase), [formatReview(updatedReview)])
+
+  console.log(`Review ${reviewId} approved in team ${teamId} by ${user.id} (${pointsCalculation.points} points)`)
+
+  return NextResponse.json({
+    success: true,
+    review,
+    points: pointsCalculation.points,
+    points_breakdown: pointsCalculation.breakdown,
+    point_transaction_id: transactionId
+  })
+})
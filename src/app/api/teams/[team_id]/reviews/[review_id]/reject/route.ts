@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { REVIEW_CONFIG } from '@/lib/constants'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { REVIEW_LIST_SELECT, formatReview } from '@/lib/reviews'
+import { getAttachmentStorage } from '@/lib/attachment-storage'
+import { withReviewAttachmentUrls } from '@/lib/review-attachments'
+import { rejectReview } from '@/lib/points-ledger'
+import {
+  withErrorHandler,
+  ApiErrorHandler,
+  validateRequired,
+  validateUUID,
+  validateStringLength
+} from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  review_id: string
+}
+
+export const POST = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, review_id: reviewId } = await params
+  validateUUID(reviewId, 'review_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { permission: 'reviews.approve' })
+
+  const body = await req.json()
+  const { reason } = body
+
+  validateRequired(reason, 'reason')
+  const trimmedReason = String(reason).trim()
+  validateStringLength(trimmedReason, 'reason', 1, REVIEW_CONFIG.MAX_REJECTION_REASON_LENGTH)
+
+  const { data: existingReview } = await supabase
+    .from('reviews')
+    .select('id, status')
+    .eq('id', reviewId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (!existingReview) {
+    throw ApiErrorHandler.resourceNotFound('review', reviewId)
+  }
+
+  if (existingReview.status !== 'pending') {
+    throw ApiErrorHandler.validationError('Only pending reviews can be rejected', { field: 'status', received: existingReview.status })
+  }
+
+  await rejectReview(supabase, reviewId, trimmedReason)
+
+  const { data: updatedReview, error: fetchError } = await supabase
+    .from('reviews')
+    .select(REVIEW_LIST_SELECT)
+    .eq('id', reviewId)
+    .single()
+
+  if (fetchError) {
+    console.error('Error fetching rejected review:', fetchError)
+    throw ApiErrorHandler.databaseError('Failed to fetch rejected review', fetchError)
+  }
+
+  const [review] = await withReviewAttachmentUrls(getAttachmentStorage(supabase), [formatReview(updatedReview)])
+
+  console.log(`Review ${reviewId} rejected in team ${teamId} by ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    review
+  })
+})
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { REVIEW_CONFIG, VALIDATION_CONFIG } from '@/lib/constants'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { REVIEW_LIST_SELECT, formatReview } from '@/lib/reviews'
+import { getAttachmentStorage } from '@/lib/attachment-storage'
+import { withReviewAttachmentUrls } from '@/lib/review-attachments'
+import { calculateReviewPoints } from '@/lib/points-rules'
+import { resolveJobTypeName } from '@/lib/job-types'
+import { updateReviewWithPoints, deleteReviewWithReversal } from '@/lib/points-ledger'
+import {
+  withErrorHandler,
+  ApiErrorHandler,
+  validateUUID,
+  validateStringLength
+} from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+  review_id: string
+}
+
+export const PATCH = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, review_id: reviewId } = await params
+  validateUUID(reviewId, 'review_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const { data: existingReview } = await supabase
+    .from('reviews')
+    .select('*')
+    .eq('id', reviewId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (!existingReview) {
+    throw ApiErrorHandler.resourceNotFound('review', reviewId)
+  }
+
+  const body = await req.json()
+  const { customer_name, job_type, keywords, note } = body
+
+  // Build the set of changed fields
+  const changes: Record<string, unknown> = {}
+
+  if (customer_name !== undefined) {
+    validateStringLength(String(customer_name), 'customer_name', 1, VALIDATION_CONFIG.MAX_CUSTOMER_NAME_LENGTH)
+    changes.customer_name = customer_name
+  }
+
+  if (job_type !== undefined) {
+    validateStringLength(String(job_type), 'job_type', 1, VALIDATION_CONFIG.MAX_JOB_TYPE_LENGTH)
+    changes.job_type = await resolveJobTypeName(supabase, teamId, String(job_type), { allowInactive: true })
+  }
+
+  if (keywords !== undefined) {
+    validateStringLength(String(keywords), 'keywords', 1, VALIDATION_CONFIG.MAX_KEYWORDS_LENGTH)
+    changes.keywords = keywords
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw ApiErrorHandler.validationError('No review fields to update')
+  }
+
+  if (note !== undefined && note !== null) {
+    validateStringLength(String(note), 'note', 0, REVIEW_CONFIG.MAX_NOTE_LENGTH)
+  }
+
+  // Re-score with the rules that applied when the review was submitted,
+  // against the daily cap of the day its award was recorded (on approval for
+  // held reviews)
+  const pointsCalculation = await calculateReviewPoints(
+    supabase,
+    teamId,
+    existingReview.employee_id,
+    {
+      job_type: (changes.job_type as string) ?? existingReview.job_type,
+      has_photo: existingReview.has_photo,
+      keywords: (changes.keywords as string) ?? existingReview.keywords
+    },
+    {
+      now: new Date(existingReview.created_at),
+      awardedAt: new Date(existingReview.reviewed_at || existingReview.created_at),
+      excludeReviewId: reviewId
+    }
+  )
+
+  if (pointsCalculation.violations.length > 0) {
+    throw ApiErrorHandler.validationError(
+      pointsCalculation.violations[0],
+      { violations: pointsCalculation.violations }
+    )
+  }
+
+  const pointsDelta = await updateReviewWithPoints(
+    supabase,
+    reviewId,
+    changes,
+    pointsCalculation.points,
+    {
+      breakdown: pointsCalculation.breakdown,
+      multiplier: pointsCalculation.multiplier,
+      capped: pointsCalculation.capped
+    },
+    note
+  )
+
+  const { data: updatedReview, error: fetchError } = await supabase
+    .from('reviews')
+    .select(REVIEW_LIST_SELECT)
+    .eq('id', reviewId)
+    .single()
+
+  if (fetchError) {
+    console.error('Error fetching updated review:', fetchError)
+    throw ApiErrorHandler.databaseError('Failed to fetch updated review', fetchError)
+  }
+
+  const [review] = await withReviewAttachmentUrls(getAttachmentStorage(supabase), [formatReview(updatedReview)])
+
+  console.log(`Review ${reviewId} updated in team ${teamId} by admin ${user.id} (points delta ${pointsDelta})`)
+
+  return NextResponse.json({
+    success: true,
+    review,
+    points: pointsCalculation.points,
+    points_delta: pointsDelta,
+    points_breakdown: pointsCalculation.breakdown
+  })
+})
+
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId, review_id: reviewId } = await params
+  validateUUID(reviewId, 'review_id')
+
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const { data: existingReview } = await supabase
+    .from('reviews')
+    .select('id')
+    .eq('id', reviewId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (!existingReview) {
+    throw ApiErrorHandler.resourceNotFound('review', reviewId)
+  }
+
+  const note = req.nextUrl.searchParams.get('note') || undefined
+  if (note) {
+    validateStringLength(note, 'note', 0, REVIEW_CONFIG.MAX_NOTE_LENGTH)
+  }
+
+  const { data: attachments } = await supabase
+    .from('review_attachments')
+    .select('storage_path')
+    .eq('review_id', reviewId)
+
+  const pointsDelta = await deleteReviewWithReversal(supabase, reviewId, note)
+
+  // Attachment rows are removed with the review; clean up the stored files too
+  const storagePaths = (attachments || []).map(attachment => attachment.storage_path)
+  await getAttachmentStorage(supabase).remove(storagePaths).catch(error =>
+    console.error(`Error removing files for deleted review ${reviewId}:`, error)
+  )
+
+  console.log(`Review ${reviewId} deleted from team ${teamId} by admin ${user.id} (points delta ${pointsDelta})`)
+
+  return NextResponse.json({
+    success: true,
+    points_delta: pointsDelta,
+    message: 'Review deleted successfully'
+  })
+})
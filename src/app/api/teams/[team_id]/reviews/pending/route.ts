@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { REVIEW_CONFIG } from '@/lib/constants'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { REVIEW_LIST_SELECT, formatReview } from '@/lib/reviews'
+import { getAttachmentStorage } from '@/lib/attachment-storage'
+import { withReviewAttachmentUrls } from '@/lib/review-attachments'
+import { withErrorHandler, ApiErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * Approval queue: the team's pending reviews, oldest first
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId, { permission: 'reviews.approve' })
+
+  const { data: rows, error, count } = await supabase
+    .from('reviews')
+    .select(REVIEW_LIST_SELECT, { count: 'exact' })
+    .eq('team_id', teamId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(REVIEW_CONFIG.APPROVAL_QUEUE_LIMIT)
+
+  if (error) {
+    console.error('Error fetching approval queue:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch pending reviews', error)
+  }
+
+  const reviews = await withReviewAttachmentUrls(getAttachmentStorage(supabase), (rows || []).map(formatReview))
+
+  return NextResponse.json({
+    reviews,
+    total_pending: count || 0,
+    team_id: teamId
+  })
+})
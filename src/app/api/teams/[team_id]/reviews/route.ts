@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { REVIEW_STATUSES, VALIDATION_CONFIG } from '@/lib/constants'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { REVIEW_LIST_SELECT, formatReview } from '@/lib/reviews'
+import { getAttachmentStorage } from '@/lib/attachment-storage'
+import { withReviewAttachmentUrls } from '@/lib/review-attachments'
+import { decodeCursor, encodeCursor, parsePageSize, sanitizeSearchTerm } from '@/lib/pagination'
+import {
+  withErrorHandler,
+  ApiErrorHandler,
+  validateUUID,
+  validateStringLength
+} from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+function parseDateParam(value: string | null, field: string): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw ApiErrorHandler.validationError(`${field} must be a valid date`, { field, received: value })
+  }
+  return date.toISOString()
+}
+
+// Accepts a comma-separated list, e.g. status=pending,rejected
+function parseStatusParam(value: string | null): string[] | null {
+  if (!value) return null
+  const statuses = value.split(',').map(status => status.trim()).filter(Boolean)
+  const invalid = statuses.filter(status => !(REVIEW_STATUSES as readonly string[]).includes(status))
+  if (statuses.length === 0 || invalid.length > 0) {
+    throw ApiErrorHandler.validationError(
+      `status must be one of: ${REVIEW_STATUSES.join(', ')}`,
+      { field: 'status', received: value }
+    )
+  }
+  return statuses
+}
+
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId)
+
+  const searchParams = req.nextUrl.searchParams
+  const limit = parsePageSize(searchParams.get('limit'))
+  const cursorParam = searchParams.get('cursor')
+  const employeeId = searchParams.get('employee_id')
+  const jobType = searchParams.get('job_type')
+  const jobTypeId = searchParams.get('job_type_id')
+  const customerId = searchParams.get('customer_id')
+  const hasPhoto = searchParams.get('has_photo')
+  const verified = searchParams.get('verified')
+  const searchTerm = searchParams.get('q')
+  const from = parseDateParam(searchParams.get('from'), 'from')
+  const to = parseDateParam(searchParams.get('to'), 'to')
+  const statuses = parseStatusParam(searchParams.get('status'))
+
+  if (employeeId) {
+    validateUUID(employeeId, 'employee_id')
+  }
+
+  if (jobType) {
+    validateStringLength(jobType, 'job_type', 1, VALIDATION_CONFIG.MAX_JOB_TYPE_LENGTH)
+  }
+
+  if (jobTypeId) {
+    validateUUID(jobTypeId, 'job_type_id')
+  }
+
+  if (customerId) {
+    validateUUID(customerId, 'customer_id')
+  }
+
+  if (hasPhoto !== null && hasPhoto !== 'true' && hasPhoto !== 'false') {
+    throw ApiErrorHandler.validationError('has_photo must be true or false', { field: 'has_photo', received: hasPhoto })
+  }
+
+  if (verified !== null && verified !== 'true' && verified !== 'false') {
+    throw ApiErrorHandler.validationError('verified must be true or false', { field: 'verified', received: verified })
+  }
+
+  if (from && to && from > to) {
+    throw ApiErrorHandler.validationError('from must be before to', { field: 'from', received: from })
+  }
+
+  // Newest first, with id as a tie-breaker so the keyset cursor is stable
+  let query = supabase
+    .from('reviews')
+    .select(REVIEW_LIST_SELECT)
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  if (employeeId) query = query.eq('employee_id', employeeId)
+  if (jobType) query = query.eq('job_type', jobType)
+  if (jobTypeId) query = query.eq('job_type_id', jobTypeId)
+  if (customerId) query = query.eq('customer_id', customerId)
+  if (hasPhoto !== null) query = query.eq('has_photo', hasPhoto === 'true')
+  if (verified === 'true') query = query.not('verified_at', 'is', null)
+  if (verified === 'false') query = query.is('verified_at', null)
+  if (from) query = query.gte('created_at', from)
+  if (to) query = query.lte('created_at', to)
+  if (statuses) query = query.in('status', statuses)
+
+  if (searchTerm) {
+    const term = sanitizeSearchTerm(searchTerm)
+    if (term) {
+      query = query.or(`keywords.ilike.*${term}*,customer_name.ilike.*${term}*`)
+    }
+  }
+
+  if (cursorParam) {
+    const cursor = decodeCursor(cursorParam)
+    query = query.or(
+      `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+    )
+  }
+
+  const { data: rows, error } = await query
+
+  if (error) {
+    console.error('Error fetching team reviews:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch reviews', error)
+  }
+
+  const hasMore = (rows?.length || 0) > limit
+  const pageRows = (rows || []).slice(0, limit)
+  const lastRow = pageRows[pageRows.length - 1]
+
+  const reviews = await withReviewAttachmentUrls(getAttachmentStorage(supabase), pageRows.map(formatReview))
+
+  return NextResponse.json({
+    reviews,
+    next_cursor: hasMore && lastRow
+      ? encodeCursor({ created_at: lastRow.created_at, id: lastRow.id })
+      : null,
+    team_id: teamId
+  })
+})
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TEAM_CONFIG } from '@/lib/constants'
+import { getTeamRequestContext } from '@/lib/team-request'
+import {
+  getTeam,
+  getTeamSettings,
+  parseTeamSettingsChanges,
+  updateTeamDetails,
+  updateTeamSettings
+} from '@/lib/team-settings'
+import { deleteTeamPermanently } from '@/lib/team-archival'
+import { withErrorHandler, ApiErrorHandler, validateStringLength } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+/**
+ * The team with its settings and branding, plus the caller's role
+ */
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, role } = await getTeamRequestContext(req, teamId)
+
+  const [team, settings] = await Promise.all([
+    getTeam(supabase, teamId),
+    getTeamSettings(supabase, teamId)
+  ])
+
+  return NextResponse.json({ team, settings, user_role: role })
+})
+
+/**
+ * Update the team's name and description together with any settings:
+ * timezone, logo, brand color, default job types, leaderboard visibility
+ * and review rules (admin only)
+ */
+export const PATCH = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user, role } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const body = await req.json()
+  const details: { name?: string; description?: string | null } = {}
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string') {
+      throw ApiErrorHandler.validationError('name must be a string', { field: 'name' })
+    }
+    details.name = validateStringLength(body.name.trim(), 'name', 1, TEAM_CONFIG.MAX_TEAM_NAME_LENGTH)
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      throw ApiErrorHandler.validationError('description must be a string', { field: 'description' })
+    }
+    details.description = body.description
+      ? validateStringLength(body.description.trim(), 'description', 0, TEAM_CONFIG.MAX_DESCRIPTION_LENGTH)
+      : null
+  }
+
+  // Validate everything before writing either table
+  const settingsChanges = parseTeamSettingsChanges(body)
+
+  if (Object.keys(details).length === 0 && Object.keys(settingsChanges).length === 0) {
+    throw ApiErrorHandler.validationError('Nothing to update')
+  }
+
+  const team = Object.keys(details).length > 0
+    ? await updateTeamDetails(supabase, teamId, details)
+    : await getTeam(supabase, teamId)
+
+  const settings = Object.keys(settingsChanges).length > 0
+    ? await updateTeamSettings(supabase, teamId, user.id, settingsChanges)
+    : await getTeamSettings(supabase, teamId)
+
+  console.log(`Team ${teamId} updated by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    team,
+    settings,
+    user_role: role
+  })
+})
+
+/**
+ * Permanently delete an archived team and all of its data (owner). Needs the
+ * confirmation_token from POST /api/teams/[team_id]/deletion; the response
+ * carries a final export of the team.
+ */
+export const DELETE = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, {
+    permission: 'team.delete',
+    allowArchived: true
+  })
+
+  const { confirmation_token: token } = await req.json().catch(() => ({}))
+  if (typeof token !== 'string' || !token) {
+    throw ApiErrorHandler.validationError(
+      'confirmation_token is required. Request one with POST /api/teams/[team_id]/deletion',
+      { field: 'confirmation_token' }
+    )
+  }
+
+  const finalExport = await deleteTeamPermanently(supabase, teamId, token)
+
+  console.log(`Team ${teamId} permanently deleted by owner ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    team_id: teamId,
+    export: finalExport
+  })
+})
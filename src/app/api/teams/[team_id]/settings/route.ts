@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTeamRequestContext } from '@/lib/team-request'
+import { getTeamSettings, parseTeamSettingsChanges, updateTeamSettings } from '@/lib/team-settings'
+import { withErrorHandler, ApiErrorHandler } from '@/lib/api-error-handler'
+
+interface RouteParams {
+  team_id: string
+}
+
+export const GET = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase } = await getTeamRequestContext(req, teamId)
+
+  const settings = await getTeamSettings(supabase, teamId)
+
+  return NextResponse.json({
+    settings,
+    team_id: teamId
+  })
+})
+
+export const PATCH = withErrorHandler(async (
+  req: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) => {
+  const { team_id: teamId } = await params
+  const { supabase, user } = await getTeamRequestContext(req, teamId, { requireAdmin: true })
+
+  const changes = parseTeamSettingsChanges(await req.json())
+
+  if (Object.keys(changes).length === 0) {
+    throw ApiErrorHandler.validationError('No settings to update')
+  }
+
+  const settings = await updateTeamSettings(supabase, teamId, user.id, changes)
+
+  console.log(`Team settings updated for team ${teamId} by admin ${user.id}`)
+
+  return NextResponse.json({
+    success: true,
+    settings,
+    team_id: teamId
+  })
+})
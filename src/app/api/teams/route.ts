@@ -78,8 +78,11 @@ export async function GET(req: NextRequest) {
       })
     }
 
+    // Archived teams are hidden unless ?archived=true asks for just those
+    const archived = req.nextUrl.searchParams.get('archived') === 'true'
+
     // Get user's team memberships with team details using authenticated client
-    const { data: teams, error } = await authenticatedClient
+    let teamsQuery = authenticatedClient
       .from('team_members')
       .select(`
         team_id,
@@ -89,11 +92,19 @@ export async function GET(req: NextRequest) {
           id,
           name,
           description,
+          organization_id,
+          archived_at,
           created_at
         )
       `)
       .eq('user_id', user.id)
 
+    teamsQuery = archived
+      ? teamsQuery.not('teams.archived_at', 'is', null)
+      : teamsQuery.is('teams.archived_at', null)
+
+    const { data: teams, error } = await teamsQuery
+
     if (error) {
       console.error('Error fetching user teams:', error)
       return NextResponse.json(
@@ -110,6 +121,8 @@ export async function GET(req: NextRequest) {
         id: teamData.id,
         name: teamData.name,
         description: teamData.description,
+        organization_id: teamData.organization_id,
+        archived_at: teamData.archived_at,
         created_at: teamData.created_at,
         user_role: membership.role,
         joined_at: membership.joined_at
@@ -238,7 +251,7 @@ export async function POST(req: NextRequest) {
         name: team.name,
         description: team.description,
         created_at: team.created_at,
-        user_role: 'admin' // Creator is always admin
+        user_role: 'owner' // Creator owns the team
       }
     })
   } catch (error) {
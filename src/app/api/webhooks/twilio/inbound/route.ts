@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/auth-utils'
+import { readTwilioWebhook } from '@/lib/message-providers'
+import { setSmsOptOut } from '@/lib/review-request-messages'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+// Twilio's standard opt-out and opt-in keywords; Twilio itself sends the
+// confirmation reply
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE']
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES']
+
+/**
+ * Twilio incoming message webhook: record STOP and START replies as customer
+ * opt-outs. Signed with TWILIO_AUTH_TOKEN.
+ */
+export const POST = withErrorHandler(async (req: NextRequest) => {
+  const params = await readTwilioWebhook(req)
+
+  const keyword = (params.Body || '').trim().toUpperCase()
+  const optedOut = OPT_OUT_KEYWORDS.includes(keyword) ? true : OPT_IN_KEYWORDS.includes(keyword) ? false : null
+
+  if (params.From && optedOut !== null) {
+    const updated = await setSmsOptOut(createServiceClient(), params.From, optedOut)
+    console.log(`SMS ${optedOut ? 'opt-out' : 'opt-in'}: ${updated} customers updated`)
+  }
+
+  return new NextResponse('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
+    headers: { 'Content-Type': 'text/xml' }
+  })
+})
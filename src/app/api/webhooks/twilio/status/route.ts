@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/auth-utils'
+import { mapTwilioStatus, readTwilioWebhook } from '@/lib/message-providers'
+import { updateMessageDeliveryStatus } from '@/lib/review-request-messages'
+import { withErrorHandler } from '@/lib/api-error-handler'
+
+/**
+ * Twilio status callback: record a review request text's delivery status.
+ * Signed with TWILIO_AUTH_TOKEN.
+ */
+export const POST = withErrorHandler(async (req: NextRequest) => {
+  const params = await readTwilioWebhook(req)
+
+  const status = mapTwilioStatus(params.MessageStatus ?? null)
+  if (params.MessageSid && status) {
+    const updated = await updateMessageDeliveryStatus(createServiceClient(), {
+      provider: 'twilio',
+      providerMessageId: params.MessageSid,
+      status,
+      error: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : null
+    })
+
+    console.log(`Twilio status ${params.MessageStatus} for ${params.MessageSid}${updated ? '' : ' (no matching message)'}`)
+  }
+
+  return new NextResponse(null, { status: 204 })
+})
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { CheckCircle, XCircle, Loader2 } from 'lucide-react'
 import { useAuth } from '@/hooks/useAuth'
+import { getRedirectPath } from '@/lib/utils'
 
 type VerificationStatus = 'loading' | 'success' | 'error'
 
@@ -28,7 +29,10 @@ export default function AuthCallbackPage() {
             
             // Auto-redirect after 3 seconds
             setTimeout(() => {
-              if (user.role === 'business_owner') {
+              const next = getRedirectPath()
+              if (next) {
+                router.push(next)
+              } else if (user.role === 'business_owner') {
                 router.push('/dashboard')
               } else {
                 router.push('/submit-review')
@@ -53,7 +57,10 @@ export default function AuthCallbackPage() {
 
   const handleRedirect = () => {
     if (status === 'success' && user) {
-      if (user.role === 'business_owner') {
+      const next = getRedirectPath()
+      if (next) {
+        router.push(next)
+      } else if (user.role === 'business_owner') {
         router.push('/dashboard')
       } else {
         router.push('/submit-review')
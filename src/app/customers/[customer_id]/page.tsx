@@ -0,0 +1,378 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ReviewCard } from '@/components/reviews/ReviewCard'
+import { useAuth } from '@/hooks/useAuth'
+import { useTeamReviews } from '@/hooks/useTeamReviews'
+import { useJobTypes } from '@/hooks/useJobTypes'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { CUSTOMER_CONFIG, VALIDATION_CONFIG } from '@/lib/constants'
+import { Customer, CustomerApiResponse, CustomerForm } from '@/types'
+import { ArrowLeft, MessageSquare, Pencil, Trash2, User } from 'lucide-react'
+
+export default function CustomerPage() {
+  const router = useRouter()
+  const { customer_id: customerId } = useParams<{ customer_id: string }>()
+  const { user, loading: authLoading } = useAuth()
+  const { currentTeam, teamsLoading, hasPermission } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [customer, setCustomer] = useState<Customer | null>(null)
+  const [customerLoading, setCustomerLoading] = useState(true)
+  const [customerError, setCustomerError] = useState<string | null>(null)
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState<CustomerForm>({})
+  const [optOuts, setOptOuts] = useState({ sms_opted_out: false, email_opted_out: false })
+  const filters = useMemo(() => ({ customer_id: customerId }), [customerId])
+  const { reviews, loading, loadingMore, error, hasMore, loadMore, refetch } = useTeamReviews(filters)
+  const { jobTypes } = useJobTypes()
+
+  const canManage = currentTeam ? hasPermission('customers.manage', currentTeam.id) : false
+
+  useEffect(() => {
+    if (authLoading || teamsLoading) {
+      return
+    }
+
+    if (!user) {
+      router.push('/login')
+    }
+  }, [user, authLoading, teamsLoading, router])
+
+  const fetchCustomer = useCallback(async () => {
+    if (!currentTeam) return
+
+    try {
+      setCustomerLoading(true)
+      setCustomerError(null)
+
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/customers/${customerId}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch customer')
+      }
+
+      const data: CustomerApiResponse = await response.json()
+      setCustomer(data.customer)
+    } catch (error) {
+      console.error('Error fetching customer:', error)
+      setCustomer(null)
+      setCustomerError(error instanceof Error ? error.message : 'Failed to fetch customer')
+    } finally {
+      setCustomerLoading(false)
+    }
+  }, [authenticatedFetch, currentTeam, customerId])
+
+  useEffect(() => {
+    fetchCustomer()
+  }, [fetchCustomer])
+
+  // Review edits can relink a review to another customer
+  const handleReviewChanged = () => {
+    refetch()
+    fetchCustomer()
+  }
+
+  const startEditing = () => {
+    if (!customer) return
+    setForm({
+      name: customer.name,
+      phone: customer.phone || '',
+      email: customer.email || '',
+      address: customer.address || '',
+      notes: customer.notes || '',
+    })
+    setOptOuts({
+      sms_opted_out: !!customer.sms_opted_out_at,
+      email_opted_out: !!customer.email_opted_out_at,
+    })
+    setEditing(true)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!currentTeam) return
+
+    setSaving(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/customers/${customerId}`, {
+        method: 'PATCH',
+        // Only send opt-out changes so the original opt-out time is kept
+        body: JSON.stringify({
+          ...form,
+          ...(optOuts.sms_opted_out !== !!customer?.sms_opted_out_at && { sms_opted_out: optOuts.sms_opted_out }),
+          ...(optOuts.email_opted_out !== !!customer?.email_opted_out_at && { email_opted_out: optOuts.email_opted_out }),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update customer')
+      }
+
+      setCustomer(data.customer)
+      setEditing(false)
+    } catch (error) {
+      console.error('Error updating customer:', error)
+      alert(`Failed to update customer: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!currentTeam || !customer) return
+    if (!confirm(`Delete ${customer.name}?`)) return
+
+    setSaving(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/customers/${customerId}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to delete customer')
+      }
+
+      router.push('/customers')
+    } catch (error) {
+      console.error('Error deleting customer:', error)
+      alert(`Failed to delete customer: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      setSaving(false)
+    }
+  }
+
+  if (authLoading || teamsLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <Link href="/customers" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-primary">
+          <ArrowLeft className="h-4 w-4" />
+          All customers
+        </Link>
+
+        {customerLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-64" />
+            <Skeleton className="h-4 w-96" />
+          </div>
+        ) : customerError || !customer ? (
+          <p className="text-center text-red-600 py-8">{customerError || 'Customer not found'}</p>
+        ) : (
+          <>
+            <div>
+              <h1 className="font-serif text-4xl font-bold text-gray-900">{customer.name}</h1>
+              <p className="text-gray-600 mt-2 text-lg">
+                {customer.review_count ?? 0} review{customer.review_count === 1 ? '' : 's'} • Customer since{' '}
+                {new Date(customer.created_at).toLocaleDateString()}
+              </p>
+            </div>
+
+            <Card className="border-0 shadow-xl bg-white">
+              <CardHeader className="border-b border-gray-100 pb-6">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+                      <User className="h-6 w-6 text-primary" />
+                      Details
+                    </CardTitle>
+                    <CardDescription className="text-lg text-gray-600">
+                      Contact details used to recognize this customer on new reviews
+                    </CardDescription>
+                  </div>
+                  {canManage && !editing && (
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="sm" onClick={startEditing} aria-label="Edit customer">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {!customer.review_count && (
+                        <Button variant="ghost" size="sm" onClick={handleDelete} disabled={saving} aria-label="Delete customer">
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="pt-6">
+                {editing ? (
+                  <form onSubmit={handleSave} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="customer-name">Name</Label>
+                        <Input
+                          id="customer-name"
+                          value={form.name || ''}
+                          onChange={(e) => setForm({ ...form, name: e.target.value })}
+                          maxLength={VALIDATION_CONFIG.MAX_CUSTOMER_NAME_LENGTH}
+                          disabled={saving}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="customer-phone">Phone</Label>
+                        <Input
+                          id="customer-phone"
+                          type="tel"
+                          value={form.phone || ''}
+                          onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                          maxLength={CUSTOMER_CONFIG.MAX_PHONE_LENGTH}
+                          disabled={saving}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="customer-email">Email</Label>
+                        <Input
+                          id="customer-email"
+                          type="email"
+                          value={form.email || ''}
+                          onChange={(e) => setForm({ ...form, email: e.target.value })}
+                          maxLength={CUSTOMER_CONFIG.MAX_EMAIL_LENGTH}
+                          disabled={saving}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="customer-address">Address</Label>
+                        <Input
+                          id="customer-address"
+                          value={form.address || ''}
+                          onChange={(e) => setForm({ ...form, address: e.target.value })}
+                          maxLength={CUSTOMER_CONFIG.MAX_ADDRESS_LENGTH}
+                          disabled={saving}
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="customer-notes">Notes</Label>
+                      <Textarea
+                        id="customer-notes"
+                        rows={3}
+                        value={form.notes || ''}
+                        onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                        maxLength={CUSTOMER_CONFIG.MAX_NOTES_LENGTH}
+                        disabled={saving}
+                      />
+                    </div>
+                    <div className="space-y-3">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="customer-sms-opted-out"
+                          checked={optOuts.sms_opted_out}
+                          onCheckedChange={(checked) => setOptOuts({ ...optOuts, sms_opted_out: checked as boolean })}
+                          disabled={saving}
+                        />
+                        <Label htmlFor="customer-sms-opted-out">Don&apos;t text review requests</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="customer-email-opted-out"
+                          checked={optOuts.email_opted_out}
+                          onCheckedChange={(checked) => setOptOuts({ ...optOuts, email_opted_out: checked as boolean })}
+                          disabled={saving}
+                        />
+                        <Label htmlFor="customer-email-opted-out">Don&apos;t email review requests</Label>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button type="submit" disabled={saving || !form.name?.trim()}>
+                        {saving ? 'Saving...' : 'Save'}
+                      </Button>
+                      <Button type="button" variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                ) : (
+                  <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    {([
+                      ['Phone', customer.phone],
+                      ['Email', customer.email],
+                      ['Address', customer.address],
+                      ['Notes', customer.notes],
+                      ['Review request texts', customer.sms_opted_out_at
+                        ? `Opted out ${new Date(customer.sms_opted_out_at).toLocaleDateString()}`
+                        : 'Allowed'],
+                      ['Review request emails', customer.email_opted_out_at
+                        ? `Opted out ${new Date(customer.email_opted_out_at).toLocaleDateString()}`
+                        : 'Allowed'],
+                    ] as const).map(([label, value]) => (
+                      <div key={label}>
+                        <dt className="font-medium text-gray-500">{label}</dt>
+                        <dd className="text-gray-900 whitespace-pre-line">{value || '—'}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="border-0 shadow-xl bg-white">
+              <CardHeader className="border-b border-gray-100 pb-6">
+                <CardTitle className="text-2xl font-semibold text-gray-900">Reviews</CardTitle>
+                <CardDescription className="text-lg text-gray-600">
+                  {`Every review ${currentTeam?.name ?? 'your team'} has collected from ${customer.name}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pt-6">
+                {loading ? (
+                  <div className="space-y-4">
+                    {Array.from({ length: 3 }).map((_, i) => (
+                      <div key={i} className="p-6 border border-gray-200 rounded-2xl space-y-2">
+                        <Skeleton className="h-4 w-40" />
+                        <Skeleton className="h-3 w-64" />
+                      </div>
+                    ))}
+                  </div>
+                ) : error ? (
+                  <p className="text-center text-red-600 py-8">{error}</p>
+                ) : (
+                  <div className="space-y-4">
+                    {reviews.map((review) => (
+                      <ReviewCard key={review.id} review={review} jobTypes={jobTypes} onChanged={handleReviewChanged} />
+                    ))}
+
+                    {reviews.length === 0 && (
+                      <div className="text-center py-12">
+                        <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                          <MessageSquare className="h-8 w-8 text-gray-400" />
+                        </div>
+                        <p className="text-gray-500 text-lg font-medium">No reviews for this customer yet</p>
+                      </div>
+                    )}
+
+                    {hasMore && (
+                      <div className="text-center pt-2">
+                        <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                          {loadingMore ? 'Loading...' : 'Load more'}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { TeamSelector } from '@/components/TeamSelector'
+import { useAuth } from '@/hooks/useAuth'
+import { useCustomers } from '@/hooks/useCustomers'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { CUSTOMER_CONFIG } from '@/lib/constants'
+import { CustomerStats, CustomerStatsApiResponse } from '@/types'
+import { Repeat, Search, Users } from 'lucide-react'
+
+export default function CustomersPage() {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { currentTeam, teamsLoading } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [search, setSearch] = useState('')
+  const [q, setQ] = useState('')
+  const [stats, setStats] = useState<CustomerStats | null>(null)
+  const { customers, loading, loadingMore, error, hasMore, loadMore } = useCustomers(q)
+
+  useEffect(() => {
+    if (authLoading || teamsLoading) {
+      return
+    }
+
+    if (!user) {
+      router.push('/login')
+    }
+  }, [user, authLoading, teamsLoading, router])
+
+  // Search as the user types, after a short pause
+  useEffect(() => {
+    const timer = setTimeout(() => setQ(search.trim()), CUSTOMER_CONFIG.SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  // Reset the search when switching teams
+  useEffect(() => {
+    setSearch('')
+  }, [currentTeam?.id])
+
+  useEffect(() => {
+    if (!currentTeam) {
+      setStats(null)
+      return
+    }
+
+    let cancelled = false
+    authenticatedFetch(`/api/teams/${currentTeam.id}/customers/stats`)
+      .then(async response => {
+        if (!response.ok) throw new Error('Failed to fetch customer stats')
+        const data: CustomerStatsApiResponse = await response.json()
+        if (!cancelled) setStats(data.stats)
+      })
+      .catch(error => {
+        console.error('Error fetching customer stats:', error)
+        if (!cancelled) setStats(null)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentTeam, authenticatedFetch])
+
+  if (authLoading || teamsLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div>
+          <h1 className="font-serif text-4xl font-bold text-gray-900">Customers</h1>
+          <p className="text-gray-600 mt-2 text-lg">Everyone your team has collected a review from.</p>
+        </div>
+
+        <TeamSelector />
+
+        {currentTeam && stats && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+            <Card className="border-0 shadow-xl bg-white">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg font-semibold text-gray-900">Customers</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-4xl font-bold text-gray-900">{stats.total_customers}</div>
+              </CardContent>
+            </Card>
+            <Card className="border-0 shadow-xl bg-white">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg font-semibold text-gray-900">Repeat Customers</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-4xl font-bold text-gray-900">{stats.repeat_customers}</div>
+                <p className="text-sm text-gray-600 font-medium">More than one review</p>
+              </CardContent>
+            </Card>
+            <Card className="border-0 shadow-xl bg-white">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg font-semibold text-gray-900">Repeat Reviews</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-4xl font-bold text-gray-900">{stats.reviews_from_repeat_customers}</div>
+                <p className="text-sm text-gray-600 font-medium">Reviews from repeat customers</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {currentTeam && (
+          <Card className="border-0 shadow-xl bg-white">
+            <CardHeader className="border-b border-gray-100 pb-6">
+              <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+                <Users className="h-6 w-6 text-primary" />
+                Team Customers
+              </CardTitle>
+              <CardDescription className="text-lg text-gray-600">
+                Customers are added when a review is submitted and matched by email, phone or name
+              </CardDescription>
+              <div className="relative pt-4">
+                <Search className="absolute left-3 top-7 h-4 w-4 text-gray-400" />
+                <Input
+                  className="pl-9"
+                  placeholder="Search by name, email or phone"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  aria-label="Search customers"
+                />
+              </div>
+            </CardHeader>
+            <CardContent className="pt-6">
+              {loading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : error ? (
+                <p className="text-center text-red-600 py-8">{error}</p>
+              ) : customers.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">
+                  {q ? 'No customers match this search' : 'No customers yet'}
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="divide-y divide-gray-100">
+                    {customers.map((customer) => (
+                      <Link
+                        key={customer.id}
+                        href={`/customers/${customer.id}`}
+                        className="flex items-center justify-between gap-4 py-3 hover:bg-gray-50 rounded-md px-2"
+                      >
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">{customer.name}</p>
+                          <p className="text-sm text-gray-500 truncate">
+                            {[customer.phone, customer.email].filter(Boolean).join(' • ') || 'No contact details'}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-gray-600 shrink-0">
+                          {(customer.review_count ?? 0) > 1 && <Repeat className="h-4 w-4 text-primary" />}
+                          {customer.review_count ?? 0} review{customer.review_count === 1 ? '' : 's'}
+                        </div>
+                      </Link>
+                    ))}
+                  </div>
+
+                  {hasMore && (
+                    <div className="text-center pt-2">
+                      <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                        {loadingMore ? 'Loading...' : 'Load more'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,21 +2,35 @@
 
 import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Leaderboard } from '@/components/Leaderboard'
 import { TeamSelector } from '@/components/TeamSelector'
+import { OrganizationSelector } from '@/components/OrganizationSelector'
+import { ApprovalQueue } from '@/components/reviews/ApprovalQueue'
+import { ReviewRequestMetrics } from '@/components/reviews/ReviewRequestMetrics'
+import { PlatformReviews } from '@/components/reviews/PlatformReviews'
+import { TeamInvitations } from '@/components/teams/TeamInvitations'
+import { TeamDomains } from '@/components/teams/TeamDomains'
+import { TeamBrand } from '@/components/teams/TeamBrand'
 import { useAuth } from '@/hooks/useAuth'
 import { useDashboardStats } from '@/hooks/useDashboardStats'
+import { useOrganizations } from '@/hooks/useOrganizations'
+import { useTeamSettings } from '@/hooks/useTeamSettings'
 import { useTeam } from '@/contexts/TeamContext'
+import { getTeamHomePath } from '@/lib/team-roles'
 import { AuthDiagnostics } from '@/components/debug/AuthDiagnostics'
 import { BarChart3, Trophy, TrendingUp } from 'lucide-react'
 
 export default function DashboardPage() {
   const router = useRouter()
   const { user, loading: authLoading } = useAuth()
-  const { currentTeam, teamsLoading } = useTeam()
+  const { currentTeam, teamsLoading, isTeamAdmin, hasPermission } = useTeam()
   const { stats, loading, error } = useDashboardStats()
+  const organizations = useOrganizations()
+  const { settings } = useTeamSettings()
 
   useEffect(() => {
     console.log('🏢 Dashboard useEffect triggered')
@@ -37,14 +51,21 @@ export default function DashboardPage() {
       return
     }
 
-    if (user.role !== 'business_owner') {
-      console.log('🚫 User is not business_owner, redirecting to submit-review')
+    if (currentTeam) {
+      if (!hasPermission('analytics.view', currentTeam.id)) {
+        console.log('🚫 Team role cannot view analytics, redirecting:', currentTeam.user_role)
+        router.push(getTeamHomePath(currentTeam.user_role))
+        return
+      }
+    } else if (user.role !== 'business_owner') {
+      // Without a team, only business owners stay here to create one
+      console.log('🚫 User has no team and is not business_owner, redirecting to submit-review')
       router.push('/submit-review')
       return
     }
 
-    console.log('✅ User is business_owner, dashboard ready')
-  }, [user, authLoading, teamsLoading, currentTeam, router])
+    console.log('✅ Dashboard ready')
+  }, [user, authLoading, teamsLoading, currentTeam, hasPermission, router])
 
   // Show loading state while auth and teams are being checked
   if (authLoading || teamsLoading) {
@@ -152,8 +173,16 @@ export default function DashboardPage() {
         </div>
 
         {/* Team Selector */}
-        <div className="mb-8">
+        <div className="mb-8 space-y-4">
           <TeamSelector showCreateTeam={true} showManagement={true} />
+          <OrganizationSelector
+            organizations={organizations.organizations}
+            currentOrganization={organizations.currentOrganization}
+            loading={organizations.loading}
+            onSelect={organizations.selectOrganization}
+            onCreate={organizations.createOrganization}
+            showOverviewLink={true}
+          />
         </div>
 
         {!currentTeam ? (
@@ -170,7 +199,14 @@ export default function DashboardPage() {
           </div>
         ) : (
           <>
-        
+
+        <TeamBrand
+          name={currentTeam.name}
+          settings={settings}
+          subtitle={settings ? `Dates shown in ${settings.timezone}` : undefined}
+          className="mb-8"
+        />
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-12">
           <Card className="border-0 shadow-xl hover:shadow-2xl transition-all duration-300 hover:-translate-y-1 bg-gradient-to-br from-blue-50 to-white">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
@@ -228,8 +264,15 @@ export default function DashboardPage() {
 
           <Card className="border-0 shadow-xl bg-white">
             <CardHeader className="border-b border-gray-100 pb-6">
-              <CardTitle className="text-2xl font-semibold text-gray-900">Recent Reviews</CardTitle>
-              <CardDescription className="text-lg text-gray-600">Latest customer feedback from your team</CardDescription>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="text-2xl font-semibold text-gray-900">Recent Reviews</CardTitle>
+                  <CardDescription className="text-lg text-gray-600">Latest customer feedback from your team</CardDescription>
+                </div>
+                <Link href="/reviews">
+                  <Button variant="outline" size="sm">View all</Button>
+                </Link>
+              </div>
             </CardHeader>
             <CardContent className="pt-6">
               <div className="space-y-6">
@@ -243,7 +286,7 @@ export default function DashboardPage() {
                     </div>
                     <div className="text-right">
                       <p className="text-sm text-gray-500 font-medium">
-                        {new Date(review.created_at).toLocaleDateString()}
+                        {new Date(review.created_at).toLocaleDateString(undefined, { timeZone: settings?.timezone })}
                       </p>
                     </div>
                   </div>
@@ -266,6 +309,20 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
         </div>
+
+        {hasPermission('reviews.approve', currentTeam.id) && (
+          <div className="mt-10 space-y-10">
+            <ApprovalQueue />
+            <ReviewRequestMetrics />
+            <PlatformReviews />
+            {isTeamAdmin(currentTeam.id) && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+                <TeamInvitations />
+                <TeamDomains />
+              </div>
+            )}
+          </div>
+        )}
           </>
         )}
       </div>
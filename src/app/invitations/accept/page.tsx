@@ -0,0 +1,201 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CheckCircle, Loader2, Mail, XCircle } from 'lucide-react'
+import { useAuth } from '@/hooks/useAuth'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { describeTeamRole, getTeamHomePath } from '@/lib/team-roles'
+import { TeamInvitationPreview } from '@/types'
+
+const STATUS_MESSAGES: Record<Exclude<TeamInvitationPreview['status'], 'pending'>, string> = {
+  accepted: 'This invitation has already been used.',
+  revoked: 'This invitation was revoked by a team admin.',
+  expired: 'This invitation has expired. Ask a team admin to send a new one.',
+}
+
+export default function AcceptInvitationPage() {
+  const router = useRouter()
+  const { user, loading: authLoading, signOut } = useAuth()
+  const { refreshTeams } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [token, setToken] = useState<string | null>(null)
+  const [invitation, setInvitation] = useState<TeamInvitationPreview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [accepting, setAccepting] = useState(false)
+  const [accepted, setAccepted] = useState(false)
+
+  useEffect(() => {
+    const linkToken = new URLSearchParams(window.location.search).get('token')
+    setToken(linkToken)
+
+    if (!linkToken) {
+      setError('This invitation link is missing its token.')
+      setLoading(false)
+      return
+    }
+
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(`/api/invitations/preview?token=${encodeURIComponent(linkToken)}`)
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || 'This invitation link is invalid')
+        }
+
+        const data = await response.json()
+        setInvitation(data.invitation)
+      } catch (error) {
+        console.error('Error loading invitation:', error)
+        setError(error instanceof Error ? error.message : 'This invitation link is invalid')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadInvitation()
+  }, [])
+
+  const acceptInvitation = async () => {
+    if (!token) return
+
+    setAccepting(true)
+    setError(null)
+    try {
+      const response = await authenticatedFetch('/api/invitations/accept', {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to accept invitation')
+      }
+
+      await refreshTeams()
+      setAccepted(true)
+    } catch (error) {
+      console.error('Error accepting invitation:', error)
+      setError(error instanceof Error ? error.message : 'Failed to accept invitation')
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  const goToApp = () => {
+    router.push(getTeamHomePath(invitation?.role))
+  }
+
+  const returnPath = token ? `/invitations/accept?token=${encodeURIComponent(token)}` : '/'
+  const emailMatches = !!user && !!invitation && user.email.toLowerCase() === invitation.email
+
+  const renderBody = () => {
+    if (loading || authLoading) {
+      return (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-8 w-8 text-primary animate-spin" />
+        </div>
+      )
+    }
+
+    if (accepted && invitation) {
+      return (
+        <div className="text-center space-y-4">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto" />
+          <p className="text-gray-700">You&apos;ve joined {invitation.team_name}.</p>
+          <Button onClick={goToApp} className="w-full">Continue</Button>
+        </div>
+      )
+    }
+
+    if (!invitation) {
+      return (
+        <div className="text-center space-y-4">
+          <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+          <p className="text-gray-700">{error || 'This invitation link is invalid.'}</p>
+          <Button onClick={() => router.push('/')} variant="outline" className="w-full">
+            Go to Homepage
+          </Button>
+        </div>
+      )
+    }
+
+    if (invitation.status !== 'pending') {
+      return (
+        <div className="text-center space-y-4">
+          <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+          <p className="text-gray-700">{STATUS_MESSAGES[invitation.status]}</p>
+        </div>
+      )
+    }
+
+    if (!user) {
+      const next = encodeURIComponent(returnPath)
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600 text-center">
+            Sign in or create an account with <strong>{invitation.email}</strong> to accept.
+          </p>
+          <Button asChild className="w-full">
+            <Link href={`/signup?email=${encodeURIComponent(invitation.email)}&next=${next}`}>
+              Create an account
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="w-full">
+            <Link href={`/login?next=${next}`}>I already have an account</Link>
+          </Button>
+        </div>
+      )
+    }
+
+    if (!emailMatches) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600 text-center">
+            You&apos;re signed in as <strong>{user.email}</strong>, but this invitation was sent to{' '}
+            <strong>{invitation.email}</strong>. Sign in with that address to accept it.
+          </p>
+          <Button onClick={() => signOut()} variant="outline" className="w-full">
+            Sign out
+          </Button>
+        </div>
+      )
+    }
+
+    return (
+      <div className="space-y-3">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+        <Button onClick={acceptInvitation} className="w-full" disabled={accepting}>
+          {accepting ? 'Joining...' : `Join ${invitation.team_name}`}
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <Mail className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Team Invitation</CardTitle>
+          <CardDescription className="text-center">
+            {invitation
+              ? `You've been invited to join ${invitation.team_name} as ${describeTeamRole(invitation.role)}.`
+              : 'Checking your invitation...'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>{renderBody()}</CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -38,7 +38,7 @@ export default function RootLayout({
           <ProfileInitializer />
           <DataMigration />
           <Header />
-          <main className="pt-16 min-h-screen">{children}</main>
+          <main className="pt-16 print:pt-0 min-h-screen">{children}</main>
           <Footer />
         </TeamProvider>
       </body>
@@ -11,6 +11,7 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
 import { useAuth } from '@/hooks/useAuth'
+import { getRedirectPath } from '@/lib/utils'
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -26,6 +27,12 @@ export default function LoginPage() {
   const [error, setError] = useState<string | null>(null)
   const [role, setRole] = useState<'employee' | 'business_owner'>('employee')
   const [waitingForAuth, setWaitingForAuth] = useState(false)
+  const [signupHref, setSignupHref] = useState('/signup')
+
+  // Carry the redirect through to sign-up for people who don't have an account yet
+  useEffect(() => {
+    setSignupHref(`/signup${window.location.search}`)
+  }, [])
 
   const {
     register,
@@ -41,8 +48,11 @@ export default function LoginPage() {
       setWaitingForAuth(false)
       setIsLoading(false)
       
-      // Redirect based on user role
-      if (user.role === 'business_owner') {
+      // Redirect back to where sign-in was requested (e.g. an invitation), else by role
+      const next = getRedirectPath()
+      if (next) {
+        router.push(next)
+      } else if (user.role === 'business_owner') {
         router.push('/dashboard')
       } else {
         router.push('/submit-review')
@@ -163,7 +173,7 @@ export default function LoginPage() {
         <CardFooter className="flex flex-col space-y-2 text-center text-sm text-gray-600">
           <p>
             Don&apos;t have an account?{' '}
-            <Link href="/signup" className="text-primary hover:underline">
+            <Link href={signupHref} className="text-primary hover:underline">
               Sign up here
             </Link>
           </p>
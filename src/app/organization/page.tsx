@@ -0,0 +1,93 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { OrganizationSelector } from '@/components/OrganizationSelector'
+import { OrganizationStats } from '@/components/organizations/OrganizationStats'
+import { OrganizationLeaderboard } from '@/components/organizations/OrganizationLeaderboard'
+import { OrganizationManagement } from '@/components/organizations/OrganizationManagement'
+import { useAuth } from '@/hooks/useAuth'
+import { useOrganizations } from '@/hooks/useOrganizations'
+import { useTeam } from '@/contexts/TeamContext'
+import { Building2 } from 'lucide-react'
+
+export default function OrganizationPage() {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { teamsLoading } = useTeam()
+  const {
+    organizations,
+    currentOrganization,
+    loading: organizationsLoading,
+    selectOrganization,
+    createOrganization,
+    refetch
+  } = useOrganizations()
+  const [statsVersion, setStatsVersion] = useState(0)
+
+  useEffect(() => {
+    if (authLoading || teamsLoading) {
+      return
+    }
+
+    if (!user) {
+      router.push('/login')
+    }
+  }, [user, authLoading, teamsLoading, router])
+
+  if (authLoading || teamsLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-10">
+        <div>
+          <h1 className="font-serif text-4xl font-bold text-gray-900">Organization</h1>
+          <p className="text-gray-600 mt-2 text-lg">See how all of your locations are doing together.</p>
+        </div>
+
+        <OrganizationSelector
+          organizations={organizations}
+          currentOrganization={currentOrganization}
+          loading={organizationsLoading}
+          onSelect={selectOrganization}
+          onCreate={createOrganization}
+        />
+
+        {!organizationsLoading && !currentOrganization ? (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Building2 className="h-8 w-8 text-gray-400" />
+            </div>
+            <p className="text-gray-500 text-lg font-medium">You&apos;re not part of an organization yet</p>
+            <p className="text-gray-400 text-sm mt-1">
+              Team admins can create one from the selector above and add their other locations.
+            </p>
+          </div>
+        ) : currentOrganization && (
+          <>
+            {currentOrganization.is_admin && (
+              <OrganizationStats organization={currentOrganization} refreshKey={statsVersion} />
+            )}
+            <OrganizationLeaderboard key={`${currentOrganization.id}-${statsVersion}`} organization={currentOrganization} />
+            <OrganizationManagement
+              organization={currentOrganization}
+              onChanged={() => {
+                setStatsVersion(version => version + 1)
+                refetch()
+              }}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
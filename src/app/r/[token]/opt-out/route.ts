@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { optOutReviewRequestEmail } from '@/lib/review-request-messages'
+
+interface RouteParams {
+  token: string
+}
+
+function htmlPage(body: string, status = 200): NextResponse {
+  return new NextResponse(
+    `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Unsubscribe</title></head><body style="font-family:system-ui,sans-serif;max-width:32rem;margin:4rem auto;padding:0 1rem;color:#111827">${body}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  )
+}
+
+/**
+ * Public: confirm page for the unsubscribe link in review request emails.
+ * Opting out takes a POST so link scanners in mail clients don't trigger it.
+ */
+export async function GET() {
+  return htmlPage(
+    '<h1 style="font-size:1.5rem">Stop review request emails?</h1><p>You won\'t get any more review request emails from this business.</p><form method="post"><button type="submit" style="padding:.5rem 1rem;font-size:1rem">Unsubscribe</button></form>'
+  )
+}
+
+/**
+ * Public: opt the request's customer out of review request emails
+ */
+export async function POST(_req: NextRequest, { params }: { params: Promise<RouteParams> }) {
+  const { token } = await params
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  try {
+    if (await optOutReviewRequestEmail(supabase, token)) {
+      return htmlPage('<h1 style="font-size:1.5rem">You\'re unsubscribed</h1><p>You won\'t get any more review request emails from this business.</p>')
+    }
+  } catch (error) {
+    console.error('Error opting out of review request emails:', error)
+  }
+
+  return htmlPage('<p>This unsubscribe link is no longer valid.</p>', 404)
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { openReviewRequest } from '@/lib/review-requests'
+import { REVIEW_REQUEST_CONFIG } from '@/lib/constants'
+
+interface RouteParams {
+  token: string
+}
+
+/**
+ * Public: log that a customer opened a review request link or scanned its QR
+ * code, and send them on to the team's review destination
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<RouteParams> }) {
+  const { token } = await params
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  )
+
+  try {
+    const destination = await openReviewRequest(supabase, token, {
+      userAgent: req.headers.get('user-agent'),
+      source: req.nextUrl.searchParams.get(REVIEW_REQUEST_CONFIG.QR_SOURCE_PARAM) === 'qr' ? 'qr' : 'link'
+    })
+    if (destination) {
+      return NextResponse.redirect(destination, 302)
+    }
+  } catch (error) {
+    console.error('Error opening review request:', error)
+  }
+
+  return new NextResponse('This review link is no longer valid.', {
+    status: 404,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+  })
+}
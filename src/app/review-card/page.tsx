@@ -0,0 +1,214 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { TeamSelector } from '@/components/TeamSelector'
+import { TeamBrand } from '@/components/teams/TeamBrand'
+import { ReviewRequestQrCode } from '@/components/reviews/ReviewRequestQrCode'
+import { useAuth } from '@/hooks/useAuth'
+import { useTeamSettings } from '@/hooks/useTeamSettings'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { isRoleAtLeast } from '@/lib/team-roles'
+import { ReviewRequest, TeamMembersApiResponse } from '@/types'
+import { Download, Printer } from 'lucide-react'
+
+type Member = TeamMembersApiResponse['members'][number]
+
+export default function ReviewCardPage() {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { currentTeam, teamsLoading } = useTeam()
+  const { settings } = useTeamSettings()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [employeeId, setEmployeeId] = useState<string | null>(null)
+  const [members, setMembers] = useState<Member[]>([])
+  const [card, setCard] = useState<ReviewRequest | null>(null)
+  const [cardLoading, setCardLoading] = useState(true)
+  const [cardError, setCardError] = useState<string | null>(null)
+  const [downloading, setDownloading] = useState(false)
+
+  // Managers can print cards for anyone on the team
+  const isManager = currentTeam ? isRoleAtLeast(currentTeam.user_role, 'manager') : false
+
+  useEffect(() => {
+    if (authLoading || teamsLoading) {
+      return
+    }
+
+    if (!user) {
+      router.push('/login')
+    }
+  }, [user, authLoading, teamsLoading, router])
+
+  // Start from your own card when switching teams
+  useEffect(() => {
+    setEmployeeId(user?.id ?? null)
+  }, [user?.id, currentTeam?.id])
+
+  useEffect(() => {
+    if (!currentTeam || !isManager) {
+      setMembers([])
+      return
+    }
+
+    let cancelled = false
+    authenticatedFetch(`/api/teams/${currentTeam.id}/members`)
+      .then(async response => {
+        if (!response.ok) throw new Error('Failed to fetch team members')
+        const data: TeamMembersApiResponse = await response.json()
+        if (!cancelled) setMembers(data.members)
+      })
+      .catch(error => {
+        console.error('Error fetching team members for review cards:', error)
+        if (!cancelled) setMembers([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentTeam, isManager, authenticatedFetch])
+
+  useEffect(() => {
+    if (!currentTeam || !employeeId) {
+      setCard(null)
+      setCardLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setCardLoading(true)
+    setCardError(null)
+
+    authenticatedFetch(`/api/teams/${currentTeam.id}/review-requests/card`, {
+      method: 'POST',
+      body: JSON.stringify({ employee_id: employeeId }),
+    })
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load review card')
+        if (!cancelled) setCard(data.review_request)
+      })
+      .catch(error => {
+        console.error('Error loading review card:', error)
+        if (!cancelled) {
+          setCard(null)
+          setCardError(error instanceof Error ? error.message : 'Failed to load review card')
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setCardLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentTeam, employeeId, authenticatedFetch])
+
+  const handleDownload = async () => {
+    if (!currentTeam || !card) return
+
+    setDownloading(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/review-requests/${card.id}/qr?format=png&size=1024`)
+      if (!response.ok) throw new Error('Failed to download QR code')
+
+      const objectUrl = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = objectUrl
+      link.download = `review-qr-${card.employee?.name ?? 'employee'}.png`
+      link.click()
+      URL.revokeObjectURL(objectUrl)
+    } catch (error) {
+      console.error('Error downloading QR code:', error)
+      alert(`Failed to download QR code: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  if (authLoading || teamsLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 print:bg-white">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8 print:p-0">
+        <div className="print:hidden space-y-8">
+          <div>
+            <h1 className="font-serif text-4xl font-bold text-gray-900">Review Card</h1>
+            <p className="text-gray-600 mt-2 text-lg">
+              Print it or keep it on your phone; customers scan the code to leave a review.
+            </p>
+          </div>
+
+          <TeamSelector />
+
+          {currentTeam && (
+            <div className="flex flex-wrap items-end gap-4">
+              {isManager && members.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Employee</Label>
+                  <Select value={employeeId ?? undefined} onValueChange={setEmployeeId}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {members.map((member) => (
+                        <SelectItem key={member.user_id} value={member.user_id}>
+                          {member.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <Button onClick={() => window.print()} disabled={!card} className="flex items-center gap-2">
+                <Printer className="h-4 w-4" />
+                Print
+              </Button>
+              <Button variant="outline" onClick={handleDownload} disabled={!card || downloading} className="flex items-center gap-2">
+                <Download className="h-4 w-4" />
+                {downloading ? 'Downloading...' : 'Download PNG'}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {currentTeam && (cardLoading ? (
+          <Skeleton className="h-[28rem] w-80 mx-auto" />
+        ) : cardError || !card ? (
+          <p className="text-center text-red-600 py-8 print:hidden">{cardError || 'Review card not available'}</p>
+        ) : (
+          <div className="w-80 mx-auto bg-white rounded-2xl border border-gray-200 shadow-xl print:shadow-none p-8 space-y-6 text-center break-inside-avoid">
+            <TeamBrand name={currentTeam.name} settings={settings} className="justify-center" />
+            <div className="space-y-1">
+              <p className="text-lg font-semibold text-gray-900">How did we do?</p>
+              <p className="text-sm text-gray-600">
+                Scan to review your visit with {card.employee?.name ?? 'us'}
+              </p>
+            </div>
+            <ReviewRequestQrCode teamId={currentTeam.id} requestId={card.id} className="h-56 w-56 mx-auto" />
+            <p className="text-xs text-gray-400 break-all">{card.url}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
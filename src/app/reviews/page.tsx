@@ -0,0 +1,347 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { TeamSelector } from '@/components/TeamSelector'
+import { ReviewCard } from '@/components/reviews/ReviewCard'
+import { useAuth } from '@/hooks/useAuth'
+import { useTeamReviews } from '@/hooks/useTeamReviews'
+import { useJobTypes } from '@/hooks/useJobTypes'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { REVIEW_STATUSES } from '@/lib/constants'
+import { ReviewFilters, ReviewStatus, TeamMembersApiResponse } from '@/types'
+import { MessageSquare, Search } from 'lucide-react'
+
+const ALL = 'all'
+
+interface FilterDraft {
+  employee_id: string
+  job_type_id: string
+  has_photo: string
+  verified: string
+  from: string
+  to: string
+  q: string
+  status: string
+}
+
+const emptyDraft: FilterDraft = {
+  employee_id: ALL,
+  job_type_id: ALL,
+  has_photo: ALL,
+  verified: ALL,
+  from: '',
+  to: '',
+  q: '',
+  status: ALL,
+}
+
+// Convert the form draft into API filters, using local day boundaries for dates
+function toFilters(draft: FilterDraft): ReviewFilters {
+  return {
+    employee_id: draft.employee_id !== ALL ? draft.employee_id : undefined,
+    job_type_id: draft.job_type_id !== ALL ? draft.job_type_id : undefined,
+    has_photo: draft.has_photo !== ALL ? draft.has_photo === 'true' : undefined,
+    verified: draft.verified !== ALL ? draft.verified === 'true' : undefined,
+    from: draft.from ? new Date(`${draft.from}T00:00:00`).toISOString() : undefined,
+    to: draft.to ? new Date(`${draft.to}T23:59:59.999`).toISOString() : undefined,
+    q: draft.q.trim() || undefined,
+    status: draft.status !== ALL ? [draft.status as ReviewStatus] : undefined,
+  }
+}
+
+export default function ReviewsPage() {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { currentTeam, teamsLoading } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [draft, setDraft] = useState<FilterDraft>(emptyDraft)
+  const [filters, setFilters] = useState<ReviewFilters>({})
+  const [members, setMembers] = useState<TeamMembersApiResponse['members']>([])
+  const { reviews, loading, loadingMore, error, hasMore, loadMore, refetch } = useTeamReviews(filters)
+  const { jobTypes } = useJobTypes()
+
+  useEffect(() => {
+    if (authLoading || teamsLoading) {
+      return
+    }
+
+    if (!user) {
+      router.push('/login')
+    }
+  }, [user, authLoading, teamsLoading, router])
+
+  // Load team members for the employee filter
+  useEffect(() => {
+    if (!currentTeam) {
+      setMembers([])
+      return
+    }
+
+    let cancelled = false
+    authenticatedFetch(`/api/teams/${currentTeam.id}/members`)
+      .then(async response => {
+        if (!response.ok) throw new Error('Failed to fetch team members')
+        const data: TeamMembersApiResponse = await response.json()
+        if (!cancelled) setMembers(data.members)
+      })
+      .catch(error => {
+        console.error('Error fetching team members for review filters:', error)
+        if (!cancelled) setMembers([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentTeam, authenticatedFetch])
+
+  // Reset filters when switching teams
+  useEffect(() => {
+    setDraft(emptyDraft)
+    setFilters(previous => (Object.keys(previous).length > 0 ? {} : previous))
+  }, [currentTeam?.id])
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault()
+    setFilters(toFilters(draft))
+  }
+
+  const clearFilters = () => {
+    setDraft(emptyDraft)
+    setFilters({})
+  }
+
+  if (authLoading || teamsLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="font-serif text-4xl font-bold text-gray-900">Reviews</h1>
+            <p className="text-gray-600 mt-2 text-lg">Browse and search every review your team has submitted.</p>
+          </div>
+          <Link href="/customers">
+            <Button variant="outline">Customers</Button>
+          </Link>
+        </div>
+
+        <TeamSelector />
+
+        {currentTeam && (
+          <Card className="border-0 shadow-xl bg-white">
+            <CardHeader>
+              <CardTitle className="text-lg">Filters</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2 md:col-span-3">
+                  <Label htmlFor="q">Search</Label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="q"
+                      className="pl-9"
+                      placeholder="Search customer names and keywords"
+                      value={draft.q}
+                      onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Employee</Label>
+                  <Select
+                    value={draft.employee_id}
+                    onValueChange={(value) => setDraft({ ...draft, employee_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="All employees" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All employees</SelectItem>
+                      {members.map((member) => (
+                        <SelectItem key={member.user_id} value={member.user_id}>
+                          {member.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Job Type</Label>
+                  <Select
+                    value={draft.job_type_id}
+                    onValueChange={(value) => setDraft({ ...draft, job_type_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="All job types" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All job types</SelectItem>
+                      {jobTypes.map((jobType) => (
+                        <SelectItem key={jobType.id} value={jobType.id}>
+                          {jobType.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Photo</Label>
+                  <Select
+                    value={draft.has_photo}
+                    onValueChange={(value) => setDraft({ ...draft, has_photo: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Any</SelectItem>
+                      <SelectItem value="true">With photo</SelectItem>
+                      <SelectItem value="false">Without photo</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Verified</Label>
+                  <Select
+                    value={draft.verified}
+                    onValueChange={(value) => setDraft({ ...draft, verified: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Any</SelectItem>
+                      <SelectItem value="true">Found on a review site</SelectItem>
+                      <SelectItem value="false">Not found yet</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select
+                    value={draft.status}
+                    onValueChange={(value) => setDraft({ ...draft, status: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Any status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Any status</SelectItem>
+                      {REVIEW_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status} className="capitalize">
+                          {status}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="from">From</Label>
+                  <Input
+                    id="from"
+                    type="date"
+                    value={draft.from}
+                    onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="to">To</Label>
+                  <Input
+                    id="to"
+                    type="date"
+                    value={draft.to}
+                    onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+                  />
+                </div>
+
+                <div className="flex items-end gap-2">
+                  <Button type="submit" className="flex-1">Apply</Button>
+                  <Button type="button" variant="outline" onClick={clearFilters}>Clear</Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {currentTeam && (
+          <Card className="border-0 shadow-xl bg-white">
+            <CardHeader className="border-b border-gray-100 pb-6">
+              <CardTitle className="text-2xl font-semibold text-gray-900">Team Reviews</CardTitle>
+              <CardDescription className="text-lg text-gray-600">
+                {`Reviews submitted in ${currentTeam.name}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6">
+              {loading ? (
+                <div className="space-y-4">
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <div key={i} className="p-6 border border-gray-200 rounded-2xl space-y-2">
+                      <Skeleton className="h-4 w-40" />
+                      <Skeleton className="h-3 w-64" />
+                    </div>
+                  ))}
+                </div>
+              ) : error ? (
+                <p className="text-center text-red-600 py-8">{error}</p>
+              ) : (
+                <div className="space-y-4">
+                  {reviews.map((review) => (
+                    <ReviewCard key={review.id} review={review} jobTypes={jobTypes} onChanged={refetch} />
+                  ))}
+
+                  {reviews.length === 0 && (
+                    <div className="text-center py-12">
+                      <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                        <MessageSquare className="h-8 w-8 text-gray-400" />
+                      </div>
+                      <p className="text-gray-500 text-lg font-medium">No reviews match these filters</p>
+                    </div>
+                  )}
+
+                  {hasMore && (
+                    <div className="text-center pt-2">
+                      <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                        {loadingMore ? 'Loading...' : 'Load more'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import * as z from 'zod'
@@ -10,6 +10,7 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
 import { useAuth } from '@/hooks/useAuth'
+import { getRedirectPath } from '@/lib/utils'
 
 const signupSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -33,18 +34,27 @@ export default function SignupPage() {
   const {
     register,
     handleSubmit,
+    setValue,
     formState: { errors },
   } = useForm<SignupFormData>({
     resolver: zodResolver(signupSchema),
   })
 
+  // Invitation links pre-fill the invited address
+  useEffect(() => {
+    const invitedEmail = new URLSearchParams(window.location.search).get('email')
+    if (invitedEmail) {
+      setValue('email', invitedEmail)
+    }
+  }, [setValue])
+
   const onSubmit = async (data: SignupFormData) => {
     setIsLoading(true)
     setError(null)
     setSuccess(null)
 
     try {
-      const result = await signUp(data.email, data.password, data.name, role)
+      const result = await signUp(data.email, data.password, data.name, role, getRedirectPath() || undefined)
       
       // Check if email confirmation is needed
       if ('needsEmailConfirmation' in result && result.needsEmailConfirmation) {
@@ -9,7 +9,6 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
-import { Checkbox } from '@/components/ui/checkbox'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import {
   Select,
@@ -21,35 +20,44 @@ import {
 import { useAuth } from '@/hooks/useAuth'
 import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
 import { TeamSelector } from '@/components/TeamSelector'
+import { MySubmissions } from '@/components/reviews/MySubmissions'
+import { PhotoUploader } from '@/components/reviews/PhotoUploader'
+import { ReviewRequests } from '@/components/reviews/ReviewRequests'
+import { CustomerSearch } from '@/components/customers/CustomerSearch'
+import { Leaderboard } from '@/components/Leaderboard'
+import { TeamBrand } from '@/components/teams/TeamBrand'
+import { useTeamSettings } from '@/hooks/useTeamSettings'
+import { useJobTypes } from '@/hooks/useJobTypes'
+import { CUSTOMER_CONFIG, DEFAULT_JOB_TYPES } from '@/lib/constants'
+import { getTeamHomePath } from '@/lib/team-roles'
+import { Customer, ReviewAttachment, ReviewRequest, ReviewStatus } from '@/types'
 
 const reviewSchema = z.object({
   customerName: z.string().min(2, 'Customer name must be at least 2 characters'),
+  customerPhone: z.string().optional(),
+  customerEmail: z.string().email('Please enter a valid email').optional().or(z.literal('')),
   jobType: z.string().min(1, 'Please select a job type'),
-  hasPhoto: z.boolean(),
   keywords: z.string().min(10, 'Please provide at least 10 characters of keywords'),
 })
 
 type ReviewFormData = z.infer<typeof reviewSchema>
 
-const jobTypes = [
-  'Plumbing',
-  'Electrical',
-  'HVAC',
-  'Carpentry',
-  'Painting',
-  'Landscaping',
-  'Roofing',
-  'General Maintenance',
-  'Other',
-]
-
 export default function SubmitReviewPage() {
   const router = useRouter()
   const { user, loading: authLoading } = useAuth()
-  const { currentTeam, teamsLoading } = useTeam()
+  const { currentTeam, teamsLoading, hasPermission } = useTeam()
   const authenticatedFetch = useAuthenticatedFetch()
+  const { settings } = useTeamSettings()
+  const { jobTypes: catalog } = useJobTypes()
   const [isLoading, setIsLoading] = useState(false)
   const [success, setSuccess] = useState(false)
+  const [submittedStatus, setSubmittedStatus] = useState<ReviewStatus | null>(null)
+  const [flaggedDuplicate, setFlaggedDuplicate] = useState(false)
+  const [submissionCount, setSubmissionCount] = useState(0)
+  const [attachments, setAttachments] = useState<ReviewAttachment[]>([])
+  const [uploading, setUploading] = useState(false)
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
+  const [reviewRequest, setReviewRequest] = useState<ReviewRequest | null>(null)
 
   const {
     register,
@@ -57,16 +65,11 @@ export default function SubmitReviewPage() {
     setValue,
     watch,
     reset,
-    formState: { errors },
+    formState: { errors, isSubmitted },
   } = useForm<ReviewFormData>({
     resolver: zodResolver(reviewSchema),
-    defaultValues: {
-      hasPhoto: false,
-    },
   })
 
-  const hasPhoto = watch('hasPhoto')
-
 
   useEffect(() => {
     // Wait for auth and teams to finish loading before checking user
@@ -80,8 +83,15 @@ export default function SubmitReviewPage() {
       return
     }
 
-    if (user.role === 'business_owner') {
-      console.log('Business owner redirected to dashboard')
+    if (currentTeam) {
+      if (!hasPermission('reviews.submit', currentTeam.id)) {
+        console.log('Team role cannot submit reviews, redirecting:', currentTeam.user_role)
+        router.push(getTeamHomePath(currentTeam.user_role))
+        return
+      }
+    } else if (user.role === 'business_owner') {
+      // Business owners without a team create one from the dashboard
+      console.log('Business owner without a team redirected to dashboard')
       router.push('/dashboard')
       return
     }
@@ -94,7 +104,28 @@ export default function SubmitReviewPage() {
       teamsLoaded: !teamsLoading,
       currentTeam: currentTeam?.name
     })
-  }, [user, authLoading, teamsLoading, router, currentTeam])
+  }, [user, authLoading, teamsLoading, router, currentTeam, hasPermission])
+
+  // Uploads and customers belong to the team they were made in
+  useEffect(() => {
+    setAttachments([])
+    setSelectedCustomer(null)
+    setReviewRequest(null)
+  }, [currentTeam?.id])
+
+  // Fill in the customer from a review link; the submission credits that request
+  const handleRecordRequest = (request: ReviewRequest) => {
+    setReviewRequest(request)
+    setSelectedCustomer(request.customer ?? null)
+    setValue('customerName', request.customer?.name ?? '', { shouldValidate: isSubmitted })
+  }
+
+  // Active entries from the team's catalog; a team that has emptied its
+  // catalog gets the built-in list
+  const activeJobTypes = catalog.filter((jobType) => jobType.is_active)
+  const jobTypes = activeJobTypes.length > 0
+    ? activeJobTypes.map(({ name, points }) => ({ name, points }))
+    : DEFAULT_JOB_TYPES.map((name) => ({ name, points: null }))
 
   const onSubmit = async (data: ReviewFormData) => {
     if (!user) {
@@ -123,9 +154,14 @@ export default function SubmitReviewPage() {
         method: 'POST',
         body: JSON.stringify({
           customer_name: data.customerName,
+          // A picked customer is linked directly; otherwise contact details help match one
+          ...(selectedCustomer
+            ? { customer_id: selectedCustomer.id }
+            : { customer_phone: data.customerPhone || undefined, customer_email: data.customerEmail || undefined }),
           job_type: data.jobType,
-          has_photo: data.hasPhoto,
           keywords: data.keywords,
+          attachment_ids: attachments.map(attachment => attachment.id),
+          review_request_id: reviewRequest?.id,
           employee_id: user.id,
           team_id: currentTeam.id,
         }),
@@ -151,7 +187,13 @@ export default function SubmitReviewPage() {
       const result = await response.json()
       console.log('Review submitted successfully:', result)
       
+      setSubmittedStatus(result.status)
+      setFlaggedDuplicate(Boolean(result.duplicate_of_review_id))
+      setSubmissionCount(count => count + 1)
       setSuccess(true)
+      setAttachments([])
+      setSelectedCustomer(null)
+      setReviewRequest(null)
       reset()
       
       // Show success message for 3 seconds then reset
@@ -184,9 +226,10 @@ export default function SubmitReviewPage() {
       <div className="max-w-2xl mx-auto space-y-6">
         {/* Team Selector */}
         <TeamSelector showCreateTeam={true} />
-        
+
         <Card>
           <CardHeader>
+            {currentTeam && <TeamBrand name={currentTeam.name} settings={settings} className="mb-4" />}
             <CardTitle className="text-2xl font-bold">Submit a Review</CardTitle>
             <CardDescription>
               Help us improve by submitting customer feedback
@@ -195,7 +238,11 @@ export default function SubmitReviewPage() {
           <CardContent>
             {success && (
               <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
-                Review submitted successfully! You&apos;ve earned points.
+                {flaggedDuplicate
+                  ? 'Review submitted, but it looks similar to a recent review. An admin will check it before points are awarded.'
+                  : submittedStatus === 'pending'
+                  ? 'Review submitted! Points will be awarded once an admin approves it.'
+                  : <>Review submitted successfully! You&apos;ve earned points.</>}
               </div>
             )}
 
@@ -205,13 +252,24 @@ export default function SubmitReviewPage() {
               </div>
             )}
 
+            {reviewRequest && (
+              <div className="mb-6 flex items-center justify-between gap-4 bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded-md">
+                <span>Recording the review {reviewRequest.customer?.name ?? 'the customer'} left from your link.</span>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setReviewRequest(null)} disabled={isLoading}>
+                  Clear
+                </Button>
+              </div>
+            )}
+
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
               <div className="space-y-2">
                 <Label htmlFor="customerName">Customer Name</Label>
-                <Input
+                <CustomerSearch
                   id="customerName"
-                  placeholder="Enter customer's full name"
-                  {...register('customerName')}
+                  value={watch('customerName') || ''}
+                  onValueChange={(value) => setValue('customerName', value, { shouldValidate: isSubmitted })}
+                  selected={selectedCustomer}
+                  onSelect={setSelectedCustomer}
                   disabled={isLoading || !currentTeam}
                 />
                 {errors.customerName && (
@@ -219,9 +277,40 @@ export default function SubmitReviewPage() {
                 )}
               </div>
 
+              {!selectedCustomer && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="customerPhone">Customer Phone (optional)</Label>
+                    <Input
+                      id="customerPhone"
+                      type="tel"
+                      placeholder="(555) 123-4567"
+                      maxLength={CUSTOMER_CONFIG.MAX_PHONE_LENGTH}
+                      {...register('customerPhone')}
+                      disabled={isLoading || !currentTeam}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="customerEmail">Customer Email (optional)</Label>
+                    <Input
+                      id="customerEmail"
+                      type="email"
+                      placeholder="customer@example.com"
+                      maxLength={CUSTOMER_CONFIG.MAX_EMAIL_LENGTH}
+                      {...register('customerEmail')}
+                      disabled={isLoading || !currentTeam}
+                    />
+                    {errors.customerEmail && (
+                      <p className="text-sm text-red-600">{errors.customerEmail.message}</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="jobType">Job Type</Label>
                 <Select
+                  key={jobTypes.map((jobType) => jobType.name).join('|')}
                   onValueChange={(value) => setValue('jobType', value)}
                   disabled={isLoading || !currentTeam}
                 >
@@ -229,9 +318,10 @@ export default function SubmitReviewPage() {
                     <SelectValue placeholder="Select job type" />
                   </SelectTrigger>
                   <SelectContent>
-                    {jobTypes.map((type) => (
-                      <SelectItem key={type} value={type}>
-                        {type}
+                    {jobTypes.map((jobType) => (
+                      <SelectItem key={jobType.name} value={jobType.name}>
+                        {jobType.name}
+                        {jobType.points !== null && ` (${jobType.points} pts)`}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -241,20 +331,12 @@ export default function SubmitReviewPage() {
                 )}
               </div>
 
-              <div className="flex items-center space-x-2">
-                <Checkbox
-                  id="hasPhoto"
-                  checked={hasPhoto}
-                  onCheckedChange={(checked) => setValue('hasPhoto', checked as boolean)}
-                  disabled={isLoading || !currentTeam}
-                />
-                <Label
-                  htmlFor="hasPhoto"
-                  className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                >
-                  Customer provided a photo of completed work
-                </Label>
-              </div>
+              <PhotoUploader
+                attachments={attachments}
+                onChange={setAttachments}
+                onUploadingChange={setUploading}
+                disabled={isLoading || uploading || !currentTeam}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="keywords">Review Keywords</Label>
@@ -274,7 +356,7 @@ export default function SubmitReviewPage() {
                 <Button
                   type="submit"
                   className="flex-1"
-                  disabled={isLoading || !currentTeam}
+                  disabled={isLoading || uploading || !currentTeam}
                 >
                   {isLoading ? 'Submitting...' : !currentTeam ? 'Select Team First' : 'Submit Review'}
                 </Button>
@@ -290,6 +372,16 @@ export default function SubmitReviewPage() {
             </form>
           </CardContent>
         </Card>
+
+        {user && currentTeam && (
+          <ReviewRequests key={`${currentTeam.id}-${submissionCount}`} userId={user.id} onRecord={handleRecordRequest} />
+        )}
+
+        {user && currentTeam && (
+          <MySubmissions key={`${currentTeam.id}-${submissionCount}`} userId={user.id} />
+        )}
+
+        {currentTeam && <Leaderboard />}
       </div>
     </div>
   )
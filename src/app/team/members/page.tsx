@@ -0,0 +1,59 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { TeamSelector } from '@/components/TeamSelector'
+import { TeamMembers } from '@/components/teams/TeamMembers'
+import { MembershipRequests } from '@/components/teams/MembershipRequests'
+import { useAuth } from '@/hooks/useAuth'
+import { useTeam } from '@/contexts/TeamContext'
+
+export default function TeamMembersPage() {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { currentTeam, teamsLoading, isTeamAdmin } = useTeam()
+  const [membersVersion, setMembersVersion] = useState(0)
+
+  useEffect(() => {
+    if (authLoading || teamsLoading) {
+      return
+    }
+
+    if (!user) {
+      router.push('/login')
+    }
+  }, [user, authLoading, teamsLoading, router])
+
+  if (authLoading || teamsLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div>
+          <h1 className="font-serif text-4xl font-bold text-gray-900">Team Members</h1>
+          <p className="text-gray-600 mt-2 text-lg">See who is on your team and who is waiting to join.</p>
+        </div>
+
+        <TeamSelector />
+
+        {currentTeam && (
+          <>
+            {isTeamAdmin(currentTeam.id) && (
+              <MembershipRequests onChanged={() => setMembersVersion(version => version + 1)} />
+            )}
+            <TeamMembers refreshKey={membersVersion} />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
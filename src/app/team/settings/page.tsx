@@ -0,0 +1,65 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { TeamSelector } from '@/components/TeamSelector'
+import { TeamSettingsPanel } from '@/components/teams/TeamSettingsPanel'
+import { JobTypeCatalog } from '@/components/teams/JobTypeCatalog'
+import { ReviewPlatforms } from '@/components/teams/ReviewPlatforms'
+import { ArchiveTeam } from '@/components/teams/ArchiveTeam'
+import { ArchivedTeams } from '@/components/teams/ArchivedTeams'
+import { useAuth } from '@/hooks/useAuth'
+import { useTeam } from '@/contexts/TeamContext'
+
+export default function TeamSettingsPage() {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { currentTeam, teamsLoading, canManageTeam } = useTeam()
+
+  useEffect(() => {
+    if (authLoading || teamsLoading) {
+      return
+    }
+
+    if (!user) {
+      router.push('/login')
+    }
+  }, [user, authLoading, teamsLoading, router])
+
+  if (authLoading || teamsLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div>
+          <h1 className="font-serif text-4xl font-bold text-gray-900">Team Settings</h1>
+          <p className="text-gray-600 mt-2 text-lg">Branding, timezone, job types, review platforms and how your team works.</p>
+        </div>
+
+        <TeamSelector />
+
+        {currentTeam && (canManageTeam(currentTeam.id) ? (
+          <>
+            <TeamSettingsPanel key={currentTeam.id} />
+            <JobTypeCatalog key={`job-types-${currentTeam.id}`} />
+            <ReviewPlatforms key={`review-platforms-${currentTeam.id}`} />
+            <ArchiveTeam />
+          </>
+        ) : (
+          <p className="text-center text-gray-500 py-12">Only team admins can change these settings.</p>
+        ))}
+
+        <ArchivedTeams />
+      </div>
+    </div>
+  )
+}
@@ -1,22 +1,95 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
-import { Trophy, Medal, Award } from 'lucide-react'
-import { LeaderboardEntry } from '@/types'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Trophy, Medal, Award, ArrowUp, ArrowDown, Minus, EyeOff } from 'lucide-react'
+import { LeaderboardEntry, LeaderboardPeriod } from '@/types'
 import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { useTeamRealtime, TeamRealtimeChange } from '@/hooks/useTeamRealtime'
+import { useTeamSettings } from '@/hooks/useTeamSettings'
+
+const PERIOD_OPTIONS: Array<{ value: LeaderboardPeriod; label: string }> = [
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'all', label: 'All time' },
+  { value: 'custom', label: 'Custom' },
+]
+
+const PERIOD_DESCRIPTIONS: Record<LeaderboardPeriod, string> = {
+  week: 'this week',
+  month: 'this month',
+  quarter: 'this quarter',
+  all: 'of all time',
+  custom: 'in the selected range',
+}
+
+interface CustomRange {
+  from: string
+  to: string
+}
+
+// Build the query for a period; custom dates use local day boundaries with an exclusive end
+function buildPeriodQuery(period: LeaderboardPeriod, range: CustomRange): string | null {
+  const params = new URLSearchParams({ period })
+
+  if (period === 'custom') {
+    if (!range.from && !range.to) return null
+    if (range.from) params.set('from', new Date(`${range.from}T00:00:00`).toISOString())
+    if (range.to) {
+      const end = new Date(`${range.to}T00:00:00`)
+      end.setDate(end.getDate() + 1)
+      params.set('to', end.toISOString())
+    }
+  }
+
+  return params.toString()
+}
+
+// Apply a new all-time balance for one member and re-rank (ties share a rank)
+function applyBalance(entries: LeaderboardEntry[], employeeId: string, points: number): LeaderboardEntry[] {
+  if (!entries.some((entry) => entry.employee_id === employeeId)) return entries
+
+  const sorted = entries
+    .map((entry) => (entry.employee_id === employeeId ? { ...entry, total_points: points } : entry))
+    .sort((a, b) => b.total_points - a.total_points)
+
+  return sorted.map((entry) => ({
+    ...entry,
+    rank: sorted.findIndex((other) => other.total_points === entry.total_points) + 1,
+  }))
+}
 
 export function Leaderboard() {
-  const { currentTeam } = useTeam()
+  const { currentTeam, hasPermission } = useTeam()
+  const { settings, loading: settingsLoading } = useTeamSettings()
   const authenticatedFetch = useAuthenticatedFetch()
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([])
+  const [comparedTo, setComparedTo] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
+  const [period, setPeriod] = useState<LeaderboardPeriod>('all')
+  const [customDraft, setCustomDraft] = useState<CustomRange>({ from: '', to: '' })
+  const [customRange, setCustomRange] = useState<CustomRange>({ from: '', to: '' })
 
-  const fetchLeaderboard = useCallback(async () => {
-    if (!currentTeam) return
+  // Teams can keep the leaderboard to managers and admins
+  const hidden = settings?.leaderboard_visibility === 'managers' && !hasPermission('analytics.view')
+  const brandColor = settings?.brand_color || undefined
+
+  const fetchLeaderboard = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+    // Wait for the settings so a hidden leaderboard is never requested
+    if (!currentTeam || settingsLoading || hidden) return
+
+    const query = buildPeriodQuery(period, customRange)
+    if (!query) {
+      setLeaderboard([])
+      setLoading(false)
+      return
+    }
 
     try {
-      setLoading(true)
-      const response = await authenticatedFetch('/api/leaderboard')
+      if (!silent) setLoading(true)
+      const response = await authenticatedFetch(`/api/leaderboard?${query}`)
       if (!response.ok) {
         const errorData = await response.json()
         throw new Error(errorData.error || 'Failed to fetch leaderboard')
@@ -24,22 +97,39 @@ export function Leaderboard() {
       
       const data = await response.json()
       setLeaderboard(data.leaderboard || [])
+      setComparedTo(data.compared_to || null)
     } catch (error) {
       console.error('Error fetching leaderboard:', error)
       setLeaderboard([])
+      setComparedTo(null)
     } finally {
       setLoading(false)
     }
-  }, [currentTeam, authenticatedFetch])
+  }, [currentTeam, settingsLoading, hidden, authenticatedFetch, period, customRange])
 
   useEffect(() => {
-    if (currentTeam) {
+    if (currentTeam && !hidden) {
       fetchLeaderboard()
     } else {
       setLeaderboard([])
       setLoading(false)
     }
-  }, [currentTeam, fetchLeaderboard])
+  }, [currentTeam, hidden, fetchLeaderboard])
+
+  // Balances in the points table are all-time, so they can only be patched into that view;
+  // every change is then reconciled by a background refetch
+  const realtimeHandlers = useMemo(() => ({
+    onChange: ({ table, payload }: TeamRealtimeChange) => {
+      if (table !== 'points' || period !== 'all' || payload.eventType === 'DELETE') return
+      const { employee_id: employeeId, points } = payload.new
+      if (typeof employeeId === 'string' && typeof points === 'number') {
+        setLeaderboard((entries) => applyBalance(entries, employeeId, points))
+      }
+    },
+    onRefresh: () => fetchLeaderboard({ silent: true }),
+  }), [period, fetchLeaderboard])
+
+  const { status: realtimeStatus } = useTeamRealtime(currentTeam?.id, realtimeHandlers)
 
   const getRankIcon = (rank: number) => {
     switch (rank) {
@@ -54,12 +144,105 @@ export function Leaderboard() {
     }
   }
 
+  // Movement is only reported when there is an older snapshot to compare with
+  const getRankMovement = (entry: LeaderboardEntry) => {
+    if (!comparedTo) return null
+
+    const since = `since ${new Date(comparedTo).toLocaleDateString()}`
+
+    if (entry.previous_rank == null || entry.rank_delta == null) {
+      return <span className="text-xs font-medium text-blue-600" title={`Not ranked ${since}`}>New</span>
+    }
+    if (entry.rank_delta > 0) {
+      return (
+        <span className="flex items-center text-xs font-medium text-green-600" title={`Up ${entry.rank_delta} ${since}`}>
+          <ArrowUp className="h-3 w-3" />
+          {entry.rank_delta}
+        </span>
+      )
+    }
+    if (entry.rank_delta < 0) {
+      return (
+        <span className="flex items-center text-xs font-medium text-red-600" title={`Down ${-entry.rank_delta} ${since}`}>
+          <ArrowDown className="h-3 w-3" />
+          {-entry.rank_delta}
+        </span>
+      )
+    }
+    return (
+      <span className="flex items-center text-xs text-gray-400" title={`No change ${since}`}>
+        <Minus className="h-3 w-3" />
+      </span>
+    )
+  }
+
+  const periodSwitcher = (
+    <div className="space-y-2 pt-2">
+      <div className="flex flex-wrap gap-1">
+        {PERIOD_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            type="button"
+            size="sm"
+            variant={period === option.value ? 'default' : 'outline'}
+            onClick={() => setPeriod(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      {period === 'custom' && (
+        <form
+          className="flex flex-wrap items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            setCustomRange(customDraft)
+          }}
+        >
+          <Input
+            type="date"
+            className="w-40 h-8"
+            value={customDraft.from}
+            onChange={(e) => setCustomDraft({ ...customDraft, from: e.target.value })}
+            aria-label="From date"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <Input
+            type="date"
+            className="w-40 h-8"
+            value={customDraft.to}
+            onChange={(e) => setCustomDraft({ ...customDraft, to: e.target.value })}
+            aria-label="To date"
+          />
+          <Button type="submit" size="sm" variant="outline">Apply</Button>
+        </form>
+      )}
+    </div>
+  )
+
+  if (hidden) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Team Leaderboard</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8">
+            <EyeOff className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+            <p className="text-gray-500">Your team only shows the leaderboard to managers and admins.</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
   if (loading) {
     return (
       <Card>
         <CardHeader>
           <CardTitle>Team Leaderboard</CardTitle>
           <CardDescription>Loading team performance data...</CardDescription>
+          {periodSwitcher}
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
@@ -89,13 +272,25 @@ export function Leaderboard() {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Team Leaderboard</CardTitle>
+        <CardTitle className="flex items-center justify-between">
+          Team Leaderboard
+          {currentTeam && realtimeStatus !== 'connecting' && (
+            <span
+              className="flex items-center gap-1 text-xs font-normal text-gray-500"
+              title={realtimeStatus === 'live' ? 'Updates appear as they happen' : 'Refreshing periodically'}
+            >
+              <span className={`h-2 w-2 rounded-full ${realtimeStatus === 'live' ? 'bg-green-500' : 'bg-yellow-500'}`} />
+              {realtimeStatus === 'live' ? 'Live' : 'Auto-refresh'}
+            </span>
+          )}
+        </CardTitle>
         <CardDescription>
           {currentTeam 
-            ? `Top performing members in ${currentTeam.name}` 
+            ? `Top performing members in ${currentTeam.name} ${PERIOD_DESCRIPTIONS[period]}` 
             : 'Select a team to view leaderboard'
           }
         </CardDescription>
+        {periodSwitcher}
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
@@ -105,10 +300,12 @@ export function Leaderboard() {
               className={`flex items-center justify-between p-4 rounded-lg border ${
                 entry.rank <= 3 ? 'border-primary bg-primary/5' : 'border-gray-200'
               }`}
+              style={entry.rank <= 3 && brandColor ? { borderColor: brandColor, backgroundColor: `${brandColor}0d` } : undefined}
             >
               <div className="flex items-center space-x-4">
-                <div className="w-8 flex justify-center">
+                <div className="w-8 flex flex-col items-center">
                   {getRankIcon(entry.rank)}
+                  {getRankMovement(entry)}
                 </div>
                 <div>
                   <p className="font-medium">{entry.employee_name}</p>
@@ -124,7 +321,9 @@ export function Leaderboard() {
           
           {leaderboard.length === 0 && !loading && (
             <p className="text-center text-gray-500 py-8">
-              {currentTeam 
+              {currentTeam && period === 'custom' && !customRange.from && !customRange.to
+                ? 'Pick a date range to see the leaderboard.'
+                : currentTeam
                 ? 'No reviews submitted yet. Be the first to earn points!' 
                 : 'Select a team to view leaderboard'
               }
@@ -0,0 +1,147 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useTeam } from '@/contexts/TeamContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Building2, Crown, LayoutGrid, Plus } from 'lucide-react'
+import { OrganizationCreationForm, OrganizationSummary } from '@/types'
+
+interface OrganizationSelectorProps {
+  organizations: OrganizationSummary[]
+  currentOrganization: OrganizationSummary | null
+  loading: boolean
+  onSelect: (organizationId: string) => void
+  onCreate: (form: OrganizationCreationForm) => Promise<unknown>
+  showOverviewLink?: boolean
+  className?: string
+}
+
+/**
+ * Switch between organizations, or group the current team into a new one.
+ * Pair with useOrganizations() so the page and the selector share a selection.
+ */
+export function OrganizationSelector({
+  organizations,
+  currentOrganization,
+  loading,
+  onSelect,
+  onCreate,
+  showOverviewLink = false,
+  className = ''
+}: OrganizationSelectorProps) {
+  const { currentTeam, isTeamAdmin } = useTeam()
+  const [showCreateForm, setShowCreateForm] = useState(false)
+  const [name, setName] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  if (loading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-10 bg-gray-200 rounded-md"></div>
+      </div>
+    )
+  }
+
+  // Only admins of a team that isn't grouped yet can start an organization from it
+  const canCreate = !!currentTeam && isTeamAdmin(currentTeam.id) && !currentTeam.organization_id
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || !currentTeam) return
+
+    setCreating(true)
+    try {
+      await onCreate({ name: name.trim(), team_id: currentTeam.id })
+      setName('')
+      setShowCreateForm(false)
+    } catch (error) {
+      console.error('Error creating organization:', error)
+      alert(`Failed to create organization: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  if (organizations.length === 0 && !canCreate) {
+    return null
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center gap-4">
+        {organizations.length > 0 ? (
+          <div className="flex-1">
+            <Select value={currentOrganization?.id || ''} onValueChange={onSelect}>
+              <SelectTrigger className="w-full">
+                <div className="flex items-center gap-2">
+                  <Building2 className="h-4 w-4" />
+                  <SelectValue placeholder="Select an organization..." />
+                </div>
+              </SelectTrigger>
+              <SelectContent>
+                {organizations.map((organization) => (
+                  <SelectItem key={organization.id} value={organization.id}>
+                    <div className="flex items-center justify-between w-full">
+                      <span>{organization.name}</span>
+                      <span className="text-xs text-gray-500 ml-2">
+                        {organization.team_count} {organization.team_count === 1 ? 'team' : 'teams'}
+                      </span>
+                      {organization.is_admin && <Crown className="h-3 w-3 text-yellow-500 ml-2" />}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <p className="flex-1 text-sm text-gray-600 flex items-center gap-2">
+            <Building2 className="h-4 w-4" />
+            Have several locations? Group their teams into an organization to see totals across them.
+          </p>
+        )}
+
+        {showOverviewLink && currentOrganization && (
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/organization">
+              <LayoutGrid className="h-4 w-4 mr-1" />
+              Overview
+            </Link>
+          </Button>
+        )}
+
+        {canCreate && !showCreateForm && (
+          <Button variant="outline" size="sm" onClick={() => setShowCreateForm(true)} title="New organization">
+            <Plus className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {showCreateForm && currentTeam && (
+        <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="Organization name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={creating}
+            aria-label="Organization name"
+          />
+          <Button type="submit" disabled={creating || !name.trim()}>
+            {creating ? 'Creating...' : `Create with ${currentTeam.name}`}
+          </Button>
+          <Button type="button" variant="ghost" onClick={() => setShowCreateForm(false)} disabled={creating}>
+            Cancel
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
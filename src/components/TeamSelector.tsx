@@ -1,7 +1,10 @@
 'use client'
 
 import React, { useState } from 'react'
+import Link from 'next/link'
 import { useTeam } from '@/contexts/TeamContext'
+import { PendingMembershipNotice } from '@/components/teams/PendingMembershipNotice'
+import { TEAM_ROLE_LABELS, isRoleAtLeast } from '@/lib/team-roles'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import {
@@ -43,22 +46,27 @@ export function TeamSelector({
 
   if (userTeams.length === 0) {
     return (
-      <Card className={`border-dashed ${className}`}>
-        <CardHeader className="text-center">
-          <CardTitle className="text-lg">No Teams Found</CardTitle>
-          <CardDescription>
-            You haven&apos;t been added to any teams yet. Contact your administrator to get added to a team.
-          </CardDescription>
-        </CardHeader>
-        {showCreateTeam && (
-          <CardContent className="text-center">
-            <Button onClick={() => setShowCreateForm(true)}>
-              <Plus className="h-4 w-4 mr-2" />
-              Create New Team
-            </Button>
-          </CardContent>
-        )}
-      </Card>
+      <PendingMembershipNotice
+        className={className}
+        fallback={
+          <Card className={`border-dashed ${className}`}>
+            <CardHeader className="text-center">
+              <CardTitle className="text-lg">No Teams Found</CardTitle>
+              <CardDescription>
+                You haven&apos;t been added to any teams yet. Contact your administrator to get added to a team.
+              </CardDescription>
+            </CardHeader>
+            {showCreateTeam && (
+              <CardContent className="text-center">
+                <Button onClick={() => setShowCreateForm(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create New Team
+                </Button>
+              </CardContent>
+            )}
+          </Card>
+        }
+      />
     )
   }
 
@@ -89,7 +97,7 @@ export function TeamSelector({
                 <SelectItem key={team.id} value={team.id}>
                   <div className="flex items-center justify-between w-full">
                     <span>{team.name}</span>
-                    {team.user_role === 'admin' && (
+                    {isRoleAtLeast(team.user_role, 'admin') && (
                       <Crown className="h-3 w-3 text-yellow-500 ml-2" />
                     )}
                   </div>
@@ -122,7 +130,7 @@ export function TeamSelector({
                 <div>
                   <h3 className="font-medium text-gray-900">{currentTeam.name}</h3>
                   <p className="text-sm text-gray-600">
-                    Your role: {currentTeam.user_role === 'admin' ? 'Administrator' : 'Member'}
+                    Your role: {TEAM_ROLE_LABELS[currentTeam.user_role]}
                   </p>
                 </div>
               </div>
@@ -133,9 +141,17 @@ export function TeamSelector({
                     <UserPlus className="h-4 w-4 mr-1" />
                     Invite
                   </Button>
-                  <Button variant="outline" size="sm">
-                    <Settings className="h-4 w-4 mr-1" />
-                    Manage
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href="/team/members">
+                      <Users className="h-4 w-4 mr-1" />
+                      Manage
+                    </Link>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href="/team/settings">
+                      <Settings className="h-4 w-4 mr-1" />
+                      Settings
+                    </Link>
                   </Button>
                 </div>
               )}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Input } from '@/components/ui/input'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { CUSTOMER_CONFIG, VALIDATION_CONFIG } from '@/lib/constants'
+import { Customer, CustomersApiResponse } from '@/types'
+import { UserCheck, X } from 'lucide-react'
+
+interface CustomerSearchProps {
+  id?: string
+  value: string
+  onValueChange: (value: string) => void
+  selected: Customer | null
+  onSelect: (customer: Customer | null) => void
+  disabled?: boolean
+}
+
+/**
+ * Customer name input that suggests the team's existing customers while
+ * typing. Picking one links the review to that customer; a new name creates
+ * a customer on submit.
+ */
+export function CustomerSearch({ id, value, onValueChange, selected, onSelect, disabled }: CustomerSearchProps) {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [suggestions, setSuggestions] = useState<Customer[]>([])
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const term = value.trim()
+
+  useEffect(() => {
+    if (!currentTeam || selected || term.length < 2) {
+      setSuggestions([])
+      return
+    }
+
+    // Wait for a pause in typing; drop responses for earlier terms
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: term, limit: String(CUSTOMER_CONFIG.SEARCH_SUGGESTION_LIMIT) })
+        const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/customers?${params}`)
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || 'Failed to search customers')
+        }
+
+        const data: CustomersApiResponse = await response.json()
+        if (!cancelled) {
+          setSuggestions(data.customers)
+          setHighlighted(0)
+        }
+      } catch (error) {
+        console.error('Error searching customers:', error)
+        if (!cancelled) setSuggestions([])
+      }
+    }, CUSTOMER_CONFIG.SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [authenticatedFetch, currentTeam, selected, term])
+
+  const choose = (customer: Customer) => {
+    onSelect(customer)
+    onValueChange(customer.name)
+    setOpen(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlighted((highlighted + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      choose(suggestions[highlighted])
+    } else if (e.key === 'Escape') {
+      setOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        placeholder="Enter customer's full name"
+        value={value}
+        onChange={(e) => {
+          onValueChange(e.target.value)
+          if (selected) onSelect(null)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        maxLength={VALIDATION_CONFIG.MAX_CUSTOMER_NAME_LENGTH}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={open && suggestions.length > 0}
+        aria-autocomplete="list"
+        disabled={disabled}
+      />
+
+      {selected && (
+        <div className="mt-2 flex items-center gap-2 text-sm text-green-700">
+          <UserCheck className="h-4 w-4" />
+          <span>
+            Existing customer
+            {selected.review_count ? ` • ${selected.review_count} previous review${selected.review_count === 1 ? '' : 's'}` : ''}
+          </span>
+          <button
+            type="button"
+            className="ml-auto text-gray-500 hover:text-gray-700"
+            onClick={() => onSelect(null)}
+            disabled={disabled}
+            aria-label="Not this customer"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {open && !selected && suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-10 mt-1 w-full overflow-hidden rounded-md border border-gray-200 bg-white shadow-lg"
+        >
+          {suggestions.map((customer, index) => (
+            <li
+              key={customer.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // Keep focus in the input so the list doesn't close before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(customer)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`cursor-pointer px-3 py-2 ${index === highlighted ? 'bg-gray-100' : ''}`}
+            >
+              <p className="font-medium text-gray-900">{customer.name}</p>
+              <p className="text-xs text-gray-500">
+                {[customer.phone, customer.email].filter(Boolean).join(' • ') || 'No contact details'}
+                {` • ${customer.review_count ?? 0} review${customer.review_count === 1 ? '' : 's'}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
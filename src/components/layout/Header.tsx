@@ -6,8 +6,15 @@ import { usePathname } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { useAuth } from '@/hooks/useAuth'
 import { useTeam } from '@/contexts/TeamContext'
+import { getTeamHomePath } from '@/lib/team-roles'
 import { Menu, X, Trophy, Users } from 'lucide-react'
 
+const HOME_LABELS: Record<string, string> = {
+  '/dashboard': 'Dashboard',
+  '/submit-review': 'Submit Review',
+  '/reviews': 'Reviews',
+}
+
 export function Header() {
   const pathname = usePathname()
   const { user, signOut } = useAuth()
@@ -23,6 +30,12 @@ export function Header() {
     return () => window.removeEventListener('scroll', handleScroll)
   }, [])
 
+  // The team role decides where "home" is; before joining a team, fall back to the account type
+  const homePath = currentTeam
+    ? getTeamHomePath(currentTeam.user_role)
+    : user?.role === 'business_owner' ? '/dashboard' : '/submit-review'
+  const homeLabel = HOME_LABELS[homePath] ?? 'Reviews'
+
   const navigation = [
     { name: 'Home', href: '/' },
     { name: 'Features', href: '/features' },
@@ -39,7 +52,7 @@ export function Header() {
   }
 
   return (
-    <header className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${
+    <header className={`print:hidden fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${
       scrolled ? 'bg-white/80 backdrop-blur-lg shadow-lg' : 'bg-white/60 backdrop-blur-sm'
     }`}>
       <nav className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -84,19 +97,11 @@ export function Header() {
             
             {user ? (
               <>
-                {user.role === 'business_owner' ? (
-                  <Link href="/dashboard">
-                    <Button variant="outline" className="border-2 hover:bg-purple-50 transition-all duration-300">
-                      Dashboard
-                    </Button>
-                  </Link>
-                ) : (
-                  <Link href="/submit-review">
-                    <Button variant="outline" className="border-2 hover:bg-purple-50 transition-all duration-300">
-                      Submit Review
-                    </Button>
-                  </Link>
-                )}
+                <Link href={homePath}>
+                  <Button variant="outline" className="border-2 hover:bg-purple-50 transition-all duration-300">
+                    {homeLabel}
+                  </Button>
+                </Link>
                 <Button 
                   onClick={handleSignOut}
                   className="shadow-lg hover:shadow-xl transition-all duration-300"
@@ -154,19 +159,11 @@ export function Header() {
               <div className="pt-4 border-t border-gray-200 space-y-2">
                 {user ? (
                   <>
-                    {user.role === 'business_owner' ? (
-                      <Link href="/dashboard" onClick={() => setMobileMenuOpen(false)}>
-                        <Button variant="outline" className="w-full border-2 hover:bg-purple-50 transition-all duration-300">
-                          Dashboard
-                        </Button>
-                      </Link>
-                    ) : (
-                      <Link href="/submit-review" onClick={() => setMobileMenuOpen(false)}>
-                        <Button variant="outline" className="w-full border-2 hover:bg-purple-50 transition-all duration-300">
-                          Submit Review
-                        </Button>
-                      </Link>
-                    )}
+                    <Link href={homePath} onClick={() => setMobileMenuOpen(false)}>
+                      <Button variant="outline" className="w-full border-2 hover:bg-purple-50 transition-all duration-300">
+                        {homeLabel}
+                      </Button>
+                    </Link>
                     <Button 
                       onClick={handleSignOut}
                       className="w-full shadow-lg hover:shadow-xl transition-all duration-300"
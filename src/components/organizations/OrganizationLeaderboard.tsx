@@ -0,0 +1,130 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Button } from '@/components/ui/button'
+import { Trophy, Medal, Award } from 'lucide-react'
+import { useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { LeaderboardPeriod, OrganizationLeaderboardApiResponse, OrganizationLeaderboardEntry, OrganizationSummary } from '@/types'
+
+// Custom ranges stay on the team leaderboard; these cover the organization view
+const PERIOD_OPTIONS: Array<{ value: Exclude<LeaderboardPeriod, 'custom'>; label: string; description: string }> = [
+  { value: 'week', label: 'Week', description: 'this week' },
+  { value: 'month', label: 'Month', description: 'this month' },
+  { value: 'quarter', label: 'Quarter', description: 'this quarter' },
+  { value: 'all', label: 'All time', description: 'of all time' },
+]
+
+interface OrganizationLeaderboardProps {
+  organization: OrganizationSummary
+}
+
+export function OrganizationLeaderboard({ organization }: OrganizationLeaderboardProps) {
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [leaderboard, setLeaderboard] = useState<OrganizationLeaderboardEntry[]>([])
+  const [period, setPeriod] = useState<Exclude<LeaderboardPeriod, 'custom'>>('all')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLeaderboard = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch(`/api/organizations/${organization.id}/leaderboard?period=${period}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch leaderboard')
+      }
+
+      const data: OrganizationLeaderboardApiResponse = await response.json()
+      setLeaderboard(data.leaderboard)
+    } catch (error) {
+      console.error('Error fetching organization leaderboard:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch leaderboard')
+      setLeaderboard([])
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch, organization.id, period])
+
+  useEffect(() => {
+    fetchLeaderboard()
+  }, [fetchLeaderboard])
+
+  const getRankIcon = (rank: number) => {
+    switch (rank) {
+      case 1:
+        return <Trophy className="h-5 w-5 text-yellow-500" />
+      case 2:
+        return <Medal className="h-5 w-5 text-gray-400" />
+      case 3:
+        return <Award className="h-5 w-5 text-orange-600" />
+      default:
+        return <span className="text-gray-500 font-medium">{rank}</span>
+    }
+  }
+
+  const selected = PERIOD_OPTIONS.find((option) => option.value === period)!
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Organization Leaderboard</CardTitle>
+        <CardDescription>
+          Top performers across every team in {organization.name} {selected.description}
+        </CardDescription>
+        <div className="flex flex-wrap gap-1 pt-2">
+          {PERIOD_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={period === option.value ? 'default' : 'outline'}
+              onClick={() => setPeriod(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-8">{error}</p>
+        ) : leaderboard.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No points earned in this period yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {leaderboard.map((entry) => (
+              <div
+                key={entry.employee_id}
+                className={`flex items-center justify-between p-4 rounded-lg border ${
+                  entry.rank <= 3 ? 'border-primary bg-primary/5' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex items-center space-x-4">
+                  <div className="w-8 flex justify-center">{getRankIcon(entry.rank)}</div>
+                  <div>
+                    <p className="font-medium">{entry.employee_name}</p>
+                    <p className="text-sm text-gray-500">{entry.team_names}</p>
+                  </div>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold">{entry.total_points} points</p>
+                  <p className="text-sm text-gray-500">{entry.total_reviews} reviews</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
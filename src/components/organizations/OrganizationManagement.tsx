@@ -0,0 +1,250 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { useAuth } from '@/hooks/useAuth'
+import { TEAM_ROLE_LABELS, isRoleAtLeast } from '@/lib/team-roles'
+import { OrganizationApiResponse, OrganizationSummary } from '@/types'
+import { Building2, ShieldCheck, Trash2 } from 'lucide-react'
+
+interface OrganizationManagementProps {
+  organization: OrganizationSummary
+  onChanged?: () => void
+}
+
+/**
+ * The organization's teams and admins. Organization admins add their own
+ * teams and other admins here; team admins can take their team back out.
+ */
+export function OrganizationManagement({ organization, onChanged }: OrganizationManagementProps) {
+  const { userTeams, isTeamAdmin, refreshTeams } = useTeam()
+  const { user } = useAuth()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [details, setDetails] = useState<OrganizationApiResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [teamToAdd, setTeamToAdd] = useState('')
+  const [adminEmail, setAdminEmail] = useState('')
+
+  const fetchDetails = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch(`/api/organizations/${organization.id}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch organization')
+      }
+
+      setDetails(await response.json())
+    } catch (error) {
+      console.error('Error fetching organization:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch organization')
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch, organization.id])
+
+  useEffect(() => {
+    fetchDetails()
+  }, [fetchDetails])
+
+  // Run a change, then reload the details and let the page refresh its totals
+  const runChange = async (request: () => Promise<Response>, failure: string, teamsChanged = false) => {
+    setBusy(true)
+    try {
+      const response = await request()
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || failure)
+      }
+
+      await fetchDetails()
+      if (teamsChanged) {
+        await refreshTeams()
+      }
+      onChanged?.()
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const addTeam = async () => {
+    if (!teamToAdd) return
+
+    const added = await runChange(() => authenticatedFetch(`/api/organizations/${organization.id}/teams`, {
+      method: 'POST',
+      body: JSON.stringify({ team_id: teamToAdd }),
+    }), 'Failed to add team', true)
+    if (added) setTeamToAdd('')
+  }
+
+  const removeTeam = (teamId: string, teamName: string) => {
+    if (!confirm(`Take ${teamName} out of ${organization.name}? Its data stays with the team.`)) return
+
+    runChange(() => authenticatedFetch(
+      `/api/organizations/${organization.id}/teams?team_id=${teamId}`,
+      { method: 'DELETE' }
+    ), 'Failed to remove team', true)
+  }
+
+  const addAdmin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!adminEmail.trim()) return
+
+    const added = await runChange(() => authenticatedFetch(`/api/organizations/${organization.id}/admins`, {
+      method: 'POST',
+      body: JSON.stringify({ email: adminEmail.trim() }),
+    }), 'Failed to add admin')
+    if (added) setAdminEmail('')
+  }
+
+  const removeAdmin = (userId: string, name: string) => {
+    const self = userId === user?.id
+    if (!confirm(self ? `Stop being an admin of ${organization.name}?` : `Remove ${name} as an admin of ${organization.name}?`)) return
+
+    runChange(() => authenticatedFetch(
+      `/api/organizations/${organization.id}/admins?user_id=${userId}`,
+      { method: 'DELETE' }
+    ), 'Failed to remove admin')
+  }
+
+  if (loading) {
+    return <Skeleton className="h-64 w-full rounded-lg" />
+  }
+
+  if (error || !details) {
+    return <p className="text-center text-red-600 py-6">{error || 'Failed to fetch organization'}</p>
+  }
+
+  // Teams the user administers that aren't in an organization yet
+  const addableTeams = userTeams.filter((team) => isTeamAdmin(team.id) && !team.organization_id)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+      <Card className="border-0 shadow-xl bg-white">
+        <CardHeader className="border-b border-gray-100 pb-6">
+          <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+            <Building2 className="h-6 w-6 text-primary" />
+            Teams
+          </CardTitle>
+          <CardDescription className="text-lg text-gray-600">
+            Locations grouped in {organization.name}
+          </CardDescription>
+          {organization.is_admin && addableTeams.length > 0 && (
+            <div className="flex flex-col sm:flex-row gap-2 pt-4">
+              <Select value={teamToAdd} onValueChange={setTeamToAdd} disabled={busy}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Add one of your teams..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {addableTeams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={addTeam} disabled={busy || !teamToAdd}>Add team</Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="pt-6">
+          {details.teams.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No teams yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {details.teams.map((team) => (
+                <div key={team.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{team.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {team.member_count} {team.member_count === 1 ? 'member' : 'members'}
+                      {team.user_role && ` • You: ${TEAM_ROLE_LABELS[team.user_role]}`}
+                    </p>
+                  </div>
+                  {(organization.is_admin || isRoleAtLeast(team.user_role, 'admin')) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeTeam(team.id, team.name)}
+                      disabled={busy}
+                      title="Remove from organization"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-xl bg-white">
+        <CardHeader className="border-b border-gray-100 pb-6">
+          <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+            <ShieldCheck className="h-6 w-6 text-primary" />
+            Organization Admins
+          </CardTitle>
+          <CardDescription className="text-lg text-gray-600">
+            Admins see totals for every team and manage the organization
+          </CardDescription>
+          {organization.is_admin && (
+            <form onSubmit={addAdmin} className="flex flex-col sm:flex-row gap-2 pt-4">
+              <Input
+                type="email"
+                placeholder="Email of someone on one of these teams"
+                value={adminEmail}
+                onChange={(e) => setAdminEmail(e.target.value)}
+                disabled={busy}
+                aria-label="Email of the new organization admin"
+              />
+              <Button type="submit" disabled={busy || !adminEmail.trim()}>Add admin</Button>
+            </form>
+          )}
+        </CardHeader>
+        <CardContent className="pt-6">
+          <div className="divide-y divide-gray-100">
+            {details.admins.map((admin) => (
+              <div key={admin.user_id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{admin.name}</p>
+                  <p className="text-sm text-gray-500 truncate">{admin.email}</p>
+                </div>
+                {organization.is_admin && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeAdmin(admin.user_id, admin.name)}
+                    disabled={busy || details.admins.length <= 1}
+                    title={details.admins.length <= 1 ? 'An organization must keep at least one admin' : 'Remove admin'}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { OrganizationStatsApiResponse, OrganizationSummary } from '@/types'
+import { BarChart3, Clock, TrendingUp, Users } from 'lucide-react'
+
+interface OrganizationStatsProps {
+  organization: OrganizationSummary
+  // Bump to reload, e.g. after a team joins or leaves the organization
+  refreshKey?: number
+}
+
+/**
+ * Totals across the organization's teams, with a row per location
+ */
+export function OrganizationStats({ organization, refreshKey = 0 }: OrganizationStatsProps) {
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [stats, setStats] = useState<OrganizationStatsApiResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStats = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch(`/api/organizations/${organization.id}/stats`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch organization stats')
+      }
+
+      setStats(await response.json())
+    } catch (error) {
+      console.error('Error fetching organization stats:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch organization stats')
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch, organization.id])
+
+  useEffect(() => {
+    fetchStats()
+  }, [fetchStats, refreshKey])
+
+  if (loading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-32 w-full rounded-lg" />
+        ))}
+      </div>
+    )
+  }
+
+  if (error || !stats) {
+    return <p className="text-center text-red-600 py-8">{error || 'Failed to fetch organization stats'}</p>
+  }
+
+  const cards = [
+    { label: 'Total Reviews', value: stats.totals.total_reviews, note: 'Approved across all locations', icon: BarChart3 },
+    { label: 'Total Points', value: stats.totals.total_points, note: 'Earned across all locations', icon: TrendingUp },
+    { label: 'Team Members', value: stats.totals.total_members, note: 'Memberships across all locations', icon: Users },
+    { label: 'Pending Reviews', value: stats.totals.pending_reviews_count, note: 'Waiting for approval', icon: Clock },
+  ]
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
+        {cards.map(({ label, value, note, icon: Icon }) => (
+          <Card key={label} className="border-0 shadow-xl bg-gradient-to-br from-blue-50 to-white">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+              <CardTitle className="text-lg font-semibold text-gray-900">{label}</CardTitle>
+              <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-xl flex items-center justify-center">
+                <Icon className="h-5 w-5 text-white" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-4xl font-bold text-gray-900 mb-2">{value}</div>
+              <p className="text-sm text-gray-600 font-medium">{note}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="border-0 shadow-xl bg-white">
+        <CardHeader className="border-b border-gray-100 pb-6">
+          <CardTitle className="text-2xl font-semibold text-gray-900">Locations</CardTitle>
+          <CardDescription className="text-lg text-gray-600">
+            How each team in {organization.name} is doing
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6 overflow-x-auto">
+          {stats.teams.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No teams in this organization yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-100">
+                  <th className="py-2 pr-4 font-medium">Team</th>
+                  <th className="py-2 pr-4 font-medium text-right">Reviews</th>
+                  <th className="py-2 pr-4 font-medium text-right">Last 7 days</th>
+                  <th className="py-2 pr-4 font-medium text-right">Pending</th>
+                  <th className="py-2 pr-4 font-medium text-right">Points</th>
+                  <th className="py-2 pr-4 font-medium text-right">Members</th>
+                  <th className="py-2 font-medium">Top performer</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {stats.teams.map((team) => (
+                  <tr key={team.team_id}>
+                    <td className="py-3 pr-4 font-medium text-gray-900">{team.team_name}</td>
+                    <td className="py-3 pr-4 text-right">{team.total_reviews}</td>
+                    <td className="py-3 pr-4 text-right">{team.recent_reviews_count}</td>
+                    <td className="py-3 pr-4 text-right">{team.pending_reviews_count}</td>
+                    <td className="py-3 pr-4 text-right">{team.total_points}</td>
+                    <td className="py-3 pr-4 text-right">{team.total_members}</td>
+                    <td className="py-3 text-gray-600">
+                      {team.top_employee_name
+                        ? `${team.top_employee_name} (${team.top_employee_points} pts)`
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
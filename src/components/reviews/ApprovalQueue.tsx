@@ -0,0 +1,301 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ReviewThumbnails } from '@/components/reviews/ReviewThumbnails'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { REVIEW_CONFIG } from '@/lib/constants'
+import { Review, TeamSettings, TeamSettingsApiResponse, TeamSettingsForm } from '@/types'
+import { Camera, CheckCircle2, ClipboardCheck, XCircle } from 'lucide-react'
+
+type ReviewRules = Pick<TeamSettings, 'require_review_approval' | 'duplicate_window_hours' | 'duplicate_action'>
+
+interface ApprovalQueueProps {
+  onChanged?: () => void
+}
+
+export function ApprovalQueue({ onChanged }: ApprovalQueueProps) {
+  const { currentTeam, canManageTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [reviews, setReviews] = useState<Review[]>([])
+  const [totalPending, setTotalPending] = useState(0)
+  const [settings, setSettings] = useState<ReviewRules>({
+    require_review_approval: false,
+    duplicate_window_hours: REVIEW_CONFIG.DEFAULT_DUPLICATE_WINDOW_HOURS,
+    duplicate_action: 'reject',
+  })
+  const [windowDraft, setWindowDraft] = useState(String(REVIEW_CONFIG.DEFAULT_DUPLICATE_WINDOW_HOURS))
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [rejectionReason, setRejectionReason] = useState('')
+
+  const fetchQueue = useCallback(async () => {
+    if (!currentTeam) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [queueResponse, settingsResponse] = await Promise.all([
+        authenticatedFetch(`/api/teams/${currentTeam.id}/reviews/pending`),
+        authenticatedFetch(`/api/teams/${currentTeam.id}/settings`),
+      ])
+
+      if (!queueResponse.ok) {
+        const errorData = await queueResponse.json()
+        throw new Error(errorData.error || 'Failed to fetch pending reviews')
+      }
+
+      const queue = await queueResponse.json()
+      setReviews(queue.reviews)
+      setTotalPending(queue.total_pending)
+
+      if (settingsResponse.ok) {
+        const { settings: teamSettings }: TeamSettingsApiResponse = await settingsResponse.json()
+        setSettings({
+          require_review_approval: teamSettings.require_review_approval,
+          duplicate_window_hours: teamSettings.duplicate_window_hours,
+          duplicate_action: teamSettings.duplicate_action,
+        })
+        setWindowDraft(String(teamSettings.duplicate_window_hours))
+      }
+    } catch (error) {
+      console.error('Error fetching approval queue:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch pending reviews')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentTeam, authenticatedFetch])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  const saveSettings = async (changes: Partial<ReviewRules>) => {
+    if (!currentTeam) return
+
+    const previous = settings
+    setSettings({ ...settings, ...changes })
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/settings`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to update settings')
+      }
+    } catch (error) {
+      console.error('Error updating review settings:', error)
+      setSettings(previous)
+      setWindowDraft(String(previous.duplicate_window_hours))
+      alert(`Failed to update setting: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const saveWindow = () => {
+    const hours = Number(windowDraft)
+    if (!Number.isInteger(hours) || hours === settings.duplicate_window_hours) {
+      setWindowDraft(String(settings.duplicate_window_hours))
+      return
+    }
+    saveSettings({ duplicate_window_hours: hours })
+  }
+
+  const decide = async (review: Review, action: 'approve' | 'reject') => {
+    if (!currentTeam) return
+
+    setBusyId(review.id)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/reviews/${review.id}/${action}`, {
+        method: 'POST',
+        body: JSON.stringify(action === 'reject' ? { reason: rejectionReason.trim() } : {}),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `Failed to ${action} review`)
+      }
+
+      setRejectingId(null)
+      setRejectionReason('')
+      await fetchQueue()
+      onChanged?.()
+    } catch (error) {
+      console.error(`Error trying to ${action} review:`, error)
+      alert(`Failed to ${action} review: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!currentTeam) return null
+
+  // Managers work the queue; only admins change how it behaves
+  const settingsLocked = loading || !canManageTeam(currentTeam.id)
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+              <ClipboardCheck className="h-6 w-6 text-primary" />
+              Approval Queue
+            </CardTitle>
+            <CardDescription className="text-lg text-gray-600">
+              {totalPending === 1 ? '1 review is' : `${totalPending} reviews are`} waiting for approval
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="require-approval"
+              checked={settings.require_review_approval}
+              onCheckedChange={(checked) => saveSettings({ require_review_approval: checked as boolean })}
+              disabled={settingsLocked}
+            />
+            <Label htmlFor="require-approval" className="text-sm">Require approval</Label>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 pt-4 text-sm text-gray-600">
+          <span>Repeat customer + job type within</span>
+          <Input
+            type="number"
+            min={0}
+            max={REVIEW_CONFIG.MAX_DUPLICATE_WINDOW_HOURS}
+            className="w-20 h-8"
+            value={windowDraft}
+            onChange={(e) => setWindowDraft(e.target.value)}
+            onBlur={saveWindow}
+            disabled={settingsLocked}
+            aria-label="Duplicate window in hours"
+          />
+          <span>hours:</span>
+          <Select
+            value={settings.duplicate_action}
+            onValueChange={(value) => saveSettings({ duplicate_action: value as TeamSettingsForm['duplicate_action'] })}
+            disabled={settingsLocked}
+          >
+            <SelectTrigger className="w-44 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="reject">Reject submission</SelectItem>
+              <SelectItem value="review">Send to this queue</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-gray-400">(0 hours turns detection off)</span>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {loading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="p-6 border border-gray-200 rounded-2xl space-y-2">
+                <Skeleton className="h-4 w-40" />
+                <Skeleton className="h-3 w-64" />
+              </div>
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-8">{error}</p>
+        ) : reviews.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">
+            {settings.require_review_approval
+              ? 'Nothing to review. New submissions will appear here.'
+              : 'Reviews are approved automatically. Turn on approval to hold new submissions here.'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review) => (
+              <div key={review.id} className="p-6 bg-gradient-to-r from-yellow-50 to-white border border-yellow-200 rounded-2xl space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <p className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                      {review.customer_name}
+                      {review.has_photo && <Camera className="h-4 w-4 text-gray-400" />}
+                      {review.duplicate_of_review_id && (
+                        <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-orange-100 text-orange-800">
+                          Possible duplicate
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600 font-medium">
+                      {review.job_type} • By {review.employee?.name || 'Unknown'}
+                    </p>
+                    <p className="text-sm text-gray-500">{review.keywords}</p>
+                    <ReviewThumbnails attachments={review.attachments} />
+                  </div>
+                  <p className="text-sm text-gray-500 font-medium whitespace-nowrap">
+                    {new Date(review.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+
+                {rejectingId === review.id ? (
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Input
+                      placeholder="Reason shown to the employee"
+                      value={rejectionReason}
+                      onChange={(e) => setRejectionReason(e.target.value)}
+                      disabled={busyId === review.id}
+                    />
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => decide(review, 'reject')}
+                      disabled={busyId === review.id || !rejectionReason.trim()}
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRejectingId(null)}
+                      disabled={busyId === review.id}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => decide(review, 'approve')} disabled={busyId === review.id}>
+                      <CheckCircle2 className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setRejectingId(review.id)
+                        setRejectionReason('')
+                      }}
+                      disabled={busyId === review.id}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useTeamReviews } from '@/hooks/useTeamReviews'
+import { ReviewFilters } from '@/types'
+import { Clock, XCircle } from 'lucide-react'
+
+interface MySubmissionsProps {
+  userId: string
+}
+
+/**
+ * The signed-in employee's reviews that are still waiting for approval or were
+ * rejected, with the admin's reason
+ */
+export function MySubmissions({ userId }: MySubmissionsProps) {
+  const filters = useMemo<ReviewFilters>(() => ({
+    employee_id: userId,
+    status: ['pending', 'rejected'],
+  }), [userId])
+  const { reviews, loading, error } = useTeamReviews(filters)
+
+  if (!loading && !error && reviews.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl font-bold">My Submissions</CardTitle>
+        <CardDescription>Reviews waiting for approval or sent back by an admin</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <div className="space-y-3">
+            {reviews.map((review) => (
+              <div key={review.id} className="flex items-start justify-between gap-4 p-4 border border-gray-200 rounded-md">
+                <div className="space-y-1">
+                  <p className="font-medium text-gray-900">{review.customer_name}</p>
+                  <p className="text-sm text-gray-600">{review.job_type}</p>
+                  {review.status === 'rejected' && (
+                    <p className="text-sm text-red-600">
+                      {review.rejection_reason || 'No reason given'}
+                    </p>
+                  )}
+                </div>
+                {review.status === 'pending' ? (
+                  <span className="flex items-center gap-1 text-sm text-yellow-700 whitespace-nowrap">
+                    <Clock className="h-4 w-4" />
+                    Pending
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-1 text-sm text-red-600 whitespace-nowrap">
+                    <XCircle className="h-4 w-4" />
+                    Rejected
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { ATTACHMENT_CONFIG } from '@/lib/constants'
+import { ReviewAttachment } from '@/types'
+import { ImagePlus, X } from 'lucide-react'
+
+interface PhotoUploaderProps {
+  attachments: ReviewAttachment[]
+  onChange: (attachments: ReviewAttachment[]) => void
+  onUploadingChange?: (uploading: boolean) => void
+  disabled?: boolean
+}
+
+/**
+ * Uploads review photos as soon as they are picked. The parent sends the
+ * resulting attachment ids with the review submission.
+ */
+export function PhotoUploader({ attachments, onChange, onUploadingChange, disabled }: PhotoUploaderProps) {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const remaining = ATTACHMENT_CONFIG.MAX_ATTACHMENTS_PER_REVIEW - attachments.length
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || !currentTeam) return
+
+    const selected = Array.from(files).slice(0, remaining)
+    onUploadingChange?.(true)
+
+    const uploaded: ReviewAttachment[] = []
+    try {
+      for (const file of selected) {
+        if (file.size > ATTACHMENT_CONFIG.MAX_FILE_SIZE_BYTES) {
+          throw new Error(`${file.name} is larger than ${ATTACHMENT_CONFIG.MAX_FILE_SIZE_BYTES / (1024 * 1024)}MB`)
+        }
+
+        const formData = new FormData()
+        formData.append('file', file)
+
+        const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/attachments`, {
+          method: 'POST',
+          body: formData,
+        })
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || `Failed to upload ${file.name}`)
+        }
+
+        const result = await response.json()
+        uploaded.push(result.attachment)
+      }
+    } catch (error) {
+      console.error('Error uploading review photo:', error)
+      alert(`Failed to upload photo: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      if (uploaded.length > 0) {
+        onChange([...attachments, ...uploaded])
+      }
+      onUploadingChange?.(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="photos">Photos of completed work</Label>
+      <p className="text-sm text-gray-500">
+        Attach the customer&apos;s photo or a screenshot of the review to earn the photo bonus.
+      </p>
+
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="relative">
+              {/* eslint-disable-next-line @next/next/no-img-element -- signed URLs change on every fetch */}
+              <img
+                src={attachment.thumbnail_url || attachment.url}
+                alt={attachment.file_name}
+                className="h-20 w-20 rounded-md object-cover border border-gray-200"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(attachments.filter(item => item.id !== attachment.id))}
+                className="absolute -top-2 -right-2 rounded-full bg-white border border-gray-300 p-0.5 shadow"
+                aria-label={`Remove ${attachment.file_name}`}
+                disabled={disabled}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={inputRef}
+        id="photos"
+        type="file"
+        accept={ATTACHMENT_CONFIG.ALLOWED_CONTENT_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+        disabled={disabled || remaining <= 0}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || remaining <= 0}
+      >
+        <ImagePlus className="h-4 w-4 mr-2" />
+        {remaining > 0 ? 'Add photo' : 'Photo limit reached'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { useTeamReviews } from '@/hooks/useTeamReviews'
+import { REVIEW_PLATFORM_CONFIG, REVIEW_PLATFORM_LABELS } from '@/lib/constants'
+import { PlatformReview, PlatformReviewsApiResponse, ReviewFilters } from '@/types'
+import { BadgeCheck, Unlink } from 'lucide-react'
+
+type MatchFilter = 'unmatched' | 'matched' | 'all'
+
+const FILTER_OPTIONS: Array<{ value: MatchFilter; label: string }> = [
+  { value: 'unmatched', label: 'Unmatched' },
+  { value: 'matched', label: 'Matched' },
+  { value: 'all', label: 'All' },
+]
+
+// Submitted reviews offered for manual matching
+const UNVERIFIED_FILTERS: ReviewFilters = { verified: false, status: ['approved', 'pending'] }
+
+/**
+ * Reviews imported from the team's review platforms, which submitted review
+ * each one verifies, and manual fixes for the ones that didn't match
+ */
+export function PlatformReviews() {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [filter, setFilter] = useState<MatchFilter>('unmatched')
+  const [platformReviews, setPlatformReviews] = useState<PlatformReview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { reviews: unverifiedReviews, refetch: refetchUnverified } = useTeamReviews(UNVERIFIED_FILTERS)
+
+  const fetchPlatformReviews = useCallback(async () => {
+    if (!currentTeam) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({ limit: String(REVIEW_PLATFORM_CONFIG.RECENT_PLATFORM_REVIEWS_LIMIT) })
+      if (filter !== 'all') params.set('matched', String(filter === 'matched'))
+
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/platform-reviews?${params}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch imported reviews')
+      }
+
+      const data: PlatformReviewsApiResponse = await response.json()
+      setPlatformReviews(data.platform_reviews)
+    } catch (error) {
+      console.error('Error fetching imported reviews:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch imported reviews')
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch, currentTeam, filter])
+
+  useEffect(() => {
+    fetchPlatformReviews()
+  }, [fetchPlatformReviews])
+
+  const setMatch = async (platformReview: PlatformReview, reviewId: string | null) => {
+    if (!currentTeam) return
+
+    setBusyId(platformReview.id)
+    try {
+      const response = await authenticatedFetch(
+        `/api/teams/${currentTeam.id}/platform-reviews/${platformReview.id}`,
+        { method: 'PATCH', body: JSON.stringify({ review_id: reviewId }) }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to match review')
+      }
+
+      await Promise.all([fetchPlatformReviews(), refetchUnverified()])
+    } catch (error) {
+      console.error('Error matching imported review:', error)
+      alert(`Failed to match review: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+          <BadgeCheck className="h-6 w-6 text-primary" />
+          Imported Reviews
+        </CardTitle>
+        <CardDescription className="text-lg text-gray-600">
+          Reviews found on your review platforms verify the submissions they match
+        </CardDescription>
+        <div className="flex flex-wrap gap-2 pt-4">
+          {FILTER_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={filter === option.value ? 'default' : 'outline'}
+              onClick={() => setFilter(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-8">{error}</p>
+        ) : platformReviews.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">
+            {filter === 'unmatched' ? 'Every imported review is matched' : 'No reviews imported yet'}
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {platformReviews.map((platformReview) => (
+              <div key={platformReview.id} className="py-3 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {platformReview.reviewer_name || 'Anonymous'}
+                    {platformReview.rating !== null && (
+                      <span className="ml-2 text-yellow-500" aria-label={`${platformReview.rating} stars`}>
+                        {'★'.repeat(Math.round(platformReview.rating))}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {REVIEW_PLATFORM_LABELS[platformReview.platform]} • {new Date(platformReview.posted_at).toLocaleDateString()}
+                    {platformReview.review && (
+                      <>
+                        {' • Verifies '}
+                        {platformReview.review.customer_name}
+                        {platformReview.review.employee_name && ` (${platformReview.review.employee_name})`}
+                        {platformReview.match_source === 'manual' && ', matched by hand'}
+                      </>
+                    )}
+                  </p>
+                  {platformReview.text && <p className="text-sm text-gray-600 line-clamp-2">{platformReview.text}</p>}
+                </div>
+                <div className="shrink-0">
+                  {platformReview.review_id ? (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setMatch(platformReview, null)}
+                      disabled={busyId === platformReview.id}
+                      className="flex items-center gap-1"
+                    >
+                      <Unlink className="h-4 w-4" />
+                      Unmatch
+                    </Button>
+                  ) : (
+                    <Select
+                      value=""
+                      onValueChange={(reviewId) => setMatch(platformReview, reviewId)}
+                      disabled={busyId === platformReview.id || unverifiedReviews.length === 0}
+                    >
+                      <SelectTrigger className="w-64 h-8">
+                        <SelectValue placeholder="Match to a submitted review" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {unverifiedReviews.map((review) => (
+                          <SelectItem key={review.id} value={review.id}>
+                            {review.customer_name} • {review.employee?.name || 'Unknown'} • {new Date(review.created_at).toLocaleDateString()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,249 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ReviewThumbnails } from '@/components/reviews/ReviewThumbnails'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { REVIEW_PLATFORM_LABELS } from '@/lib/constants'
+import { JobType, Review, ReviewUpdateForm } from '@/types'
+import { BadgeCheck, Camera, Pencil, Trash2 } from 'lucide-react'
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  rejected: 'bg-red-100 text-red-700',
+}
+
+interface ReviewCardProps {
+  review: Review
+  // The team's job type catalog; editing offers these instead of free text
+  jobTypes?: JobType[]
+  onChanged?: () => void
+}
+
+export function ReviewCard({ review, jobTypes = [], onChanged }: ReviewCardProps) {
+  const { currentTeam, isTeamAdmin } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState<ReviewUpdateForm>({})
+
+  const canEdit = currentTeam ? isTeamAdmin(currentTeam.id) : false
+
+  const startEditing = () => {
+    setForm({
+      customer_name: review.customer_name,
+      job_type: review.job_type,
+      keywords: review.keywords,
+      note: '',
+    })
+    setEditing(true)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!currentTeam) return
+
+    setSaving(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/reviews/${review.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({
+          ...form,
+          // Unmapped job types are only sent when changed, so other edits still save
+          job_type: form.job_type !== review.job_type ? form.job_type : undefined,
+          note: form.note?.trim() || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to update review')
+      }
+
+      setEditing(false)
+      onChanged?.()
+    } catch (error) {
+      console.error('Error updating review:', error)
+      alert(`Failed to update review: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!currentTeam) return
+    if (!confirm(`Delete the review for ${review.customer_name}? Any points it earned will be reversed.`)) return
+
+    setSaving(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/reviews/${review.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to delete review')
+      }
+
+      onChanged?.()
+    } catch (error) {
+      console.error('Error deleting review:', error)
+      alert(`Failed to delete review: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSave} className="p-6 border border-primary rounded-2xl space-y-4 bg-white">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`customer-${review.id}`}>Customer Name</Label>
+            <Input
+              id={`customer-${review.id}`}
+              value={form.customer_name || ''}
+              onChange={(e) => setForm({ ...form, customer_name: e.target.value })}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`job-${review.id}`}>Job Type</Label>
+            {jobTypes.length > 0 ? (
+              <Select
+                value={form.job_type || ''}
+                onValueChange={(value) => setForm({ ...form, job_type: value })}
+                disabled={saving}
+              >
+                <SelectTrigger id={`job-${review.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!review.job_type_id && (
+                    <SelectItem value={review.job_type}>{review.job_type} (unmapped)</SelectItem>
+                  )}
+                  {jobTypes.map((jobType) => (
+                    <SelectItem key={jobType.id} value={jobType.name}>
+                      {jobType.name}{!jobType.is_active && ' (retired)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={`job-${review.id}`}
+                value={form.job_type || ''}
+                onChange={(e) => setForm({ ...form, job_type: e.target.value })}
+                disabled={saving}
+              />
+            )}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`keywords-${review.id}`}>Keywords</Label>
+          <Textarea
+            id={`keywords-${review.id}`}
+            rows={3}
+            value={form.keywords || ''}
+            onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+            disabled={saving}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`note-${review.id}`}>Reason for change (optional)</Label>
+          <Input
+            id={`note-${review.id}`}
+            value={form.note || ''}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            disabled={saving}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={saving}>
+            {saving ? 'Saving...' : 'Save changes'}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    )
+  }
+
+  return (
+    <div className="p-6 bg-gradient-to-r from-gray-50 to-white border border-gray-200 rounded-2xl">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            {review.customer_id ? (
+              <Link href={`/customers/${review.customer_id}`} className="hover:text-primary hover:underline">
+                {review.customer_name}
+              </Link>
+            ) : (
+              review.customer_name
+            )}
+            {review.has_photo && <Camera className="h-4 w-4 text-gray-400" />}
+            {review.verified_at && (
+              <span
+                className="inline-flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full bg-green-100 text-green-800"
+                title={`Found on ${review.verified_platform ? REVIEW_PLATFORM_LABELS[review.verified_platform] : 'a review site'}`}
+              >
+                <BadgeCheck className="h-3 w-3" />
+                Verified{review.verified_platform ? ` on ${REVIEW_PLATFORM_LABELS[review.verified_platform]}` : ''}
+              </span>
+            )}
+            {review.duplicate_of_review_id && review.status === 'pending' && (
+              <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-orange-100 text-orange-800">
+                Possible duplicate
+              </span>
+            )}
+            {review.status !== 'approved' && (
+              <span className={`text-xs font-medium px-2 py-0.5 rounded-full capitalize ${STATUS_STYLES[review.status] || ''}`}>
+                {review.status}
+              </span>
+            )}
+          </p>
+          <p className="text-sm text-gray-600 font-medium">
+            {review.job_type} • By {review.employee?.name || 'Unknown'}
+          </p>
+          <p className="text-sm text-gray-500">{review.keywords}</p>
+          <ReviewThumbnails attachments={review.attachments} />
+          {review.status === 'rejected' && review.rejection_reason && (
+            <p className="text-sm text-red-600">Rejected: {review.rejection_reason}</p>
+          )}
+          {review.updated_at && (
+            <p className="text-xs text-gray-400">
+              Edited {new Date(review.updated_at).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+        <div className="text-right space-y-2">
+          <p className="text-sm text-gray-500 font-medium whitespace-nowrap">
+            {new Date(review.created_at).toLocaleDateString()}
+          </p>
+          {canEdit && (
+            <div className="flex gap-1 justify-end">
+              <Button variant="ghost" size="sm" onClick={startEditing} disabled={saving}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleDelete} disabled={saving}>
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { LeaderboardPeriod, ReviewRequestMetrics as Metrics, ReviewRequestMetricsApiResponse } from '@/types'
+import { Link2 } from 'lucide-react'
+
+const PERIOD_OPTIONS: Array<{ value: Exclude<LeaderboardPeriod, 'custom'>; label: string }> = [
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'all', label: 'All time' },
+]
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`
+}
+
+/**
+ * Review links sent, opened and turned into reviews per employee, and how
+ * often their QR codes were scanned
+ */
+export function ReviewRequestMetrics() {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [period, setPeriod] = useState<LeaderboardPeriod>('month')
+  const [metrics, setMetrics] = useState<Metrics[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!currentTeam) {
+      setMetrics([])
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    authenticatedFetch(`/api/teams/${currentTeam.id}/review-requests/metrics?period=${period}`)
+      .then(async response => {
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || 'Failed to fetch review request metrics')
+        }
+        const data: ReviewRequestMetricsApiResponse = await response.json()
+        if (!cancelled) setMetrics(data.metrics)
+      })
+      .catch(error => {
+        console.error('Error fetching review request metrics:', error)
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to fetch review request metrics')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [currentTeam, authenticatedFetch, period])
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+          <Link2 className="h-6 w-6 text-primary" />
+          Review Requests
+        </CardTitle>
+        <CardDescription className="text-lg text-gray-600">
+          How often each employee&apos;s review links turn into reviews
+        </CardDescription>
+        <div className="flex flex-wrap gap-2 pt-4">
+          {PERIOD_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={period === option.value ? 'default' : 'outline'}
+              onClick={() => setPeriod(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-8">{error}</p>
+        ) : metrics.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No review links sent or scanned in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-100">
+                  <th className="py-2 font-medium">Employee</th>
+                  <th className="py-2 font-medium text-right">Sent</th>
+                  <th className="py-2 font-medium text-right">Opened</th>
+                  <th className="py-2 font-medium text-right">Reviews</th>
+                  <th className="py-2 font-medium text-right">Conversion</th>
+                  <th className="py-2 font-medium text-right">QR scans</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {metrics.map((row) => (
+                  <tr key={row.employee_id}>
+                    <td className="py-3 font-medium text-gray-900">{row.employee_name}</td>
+                    <td className="py-3 text-right text-gray-700">{row.requests_sent}</td>
+                    <td className="py-3 text-right text-gray-700">
+                      {row.requests_opened} <span className="text-gray-400">({formatRate(row.open_rate)})</span>
+                    </td>
+                    <td className="py-3 text-right text-gray-700">{row.requests_converted}</td>
+                    <td className="py-3 text-right font-semibold text-gray-900">{formatRate(row.conversion_rate)}</td>
+                    <td className="py-3 text-right text-gray-700">{row.qr_scans}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,58 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useAuthenticatedFetch } from '@/contexts/TeamContext'
+
+interface ReviewRequestQrCodeProps {
+  teamId: string
+  requestId: string
+  className?: string
+}
+
+/**
+ * A review request's QR code. The image endpoint needs the session token, so
+ * the SVG is fetched and shown from an object URL.
+ */
+export function ReviewRequestQrCode({ teamId, requestId, className = 'h-48 w-48' }: ReviewRequestQrCodeProps) {
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [src, setSrc] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    let objectUrl: string | null = null
+
+    setSrc(null)
+    setError(null)
+
+    authenticatedFetch(`/api/teams/${teamId}/review-requests/${requestId}/qr?format=svg`)
+      .then(async response => {
+        if (!response.ok) throw new Error('Failed to load QR code')
+        const blob = await response.blob()
+        if (cancelled) return
+        objectUrl = URL.createObjectURL(blob)
+        setSrc(objectUrl)
+      })
+      .catch(error => {
+        console.error('Error loading QR code:', error)
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to load QR code')
+      })
+
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [authenticatedFetch, teamId, requestId])
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>
+  }
+
+  if (!src) {
+    return <Skeleton className={className} />
+  }
+
+  // eslint-disable-next-line @next/next/no-img-element -- generated per request behind auth
+  return <img src={src} alt="Review link QR code" className={className} />
+}
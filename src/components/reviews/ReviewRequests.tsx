@@ -0,0 +1,250 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { CustomerSearch } from '@/components/customers/CustomerSearch'
+import { ReviewRequestQrCode } from '@/components/reviews/ReviewRequestQrCode'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { useReviewRequests } from '@/hooks/useReviewRequests'
+import { Customer, MessageChannel, MessageDeliveryStatus, ReviewRequest, ReviewRequestStatus } from '@/types'
+import { Copy, CreditCard, Link2, Mail, MessageSquare, QrCode } from 'lucide-react'
+
+const STATUS_STYLES: Record<ReviewRequestStatus, string> = {
+  sent: 'bg-gray-100 text-gray-700',
+  opened: 'bg-blue-100 text-blue-800',
+  converted: 'bg-green-100 text-green-800',
+}
+
+const DELIVERY_LABELS: Record<MessageDeliveryStatus, string> = {
+  queued: 'sending',
+  sent: 'sent',
+  delivered: 'delivered',
+  undelivered: 'not delivered',
+  failed: 'failed',
+}
+
+interface ReviewRequestsProps {
+  userId: string
+  onRecord: (request: ReviewRequest) => void
+}
+
+async function copyLink(url: string) {
+  try {
+    await navigator.clipboard.writeText(url)
+  } catch {
+    prompt('Copy this review link:', url)
+  }
+}
+
+// Why a request can't be sent on a channel, or null when it can
+function sendBlockedReason(request: ReviewRequest, channel: MessageChannel): string | null {
+  const customer = request.customer
+  if (!customer) return 'No customer'
+  if (channel === 'sms') {
+    if (customer.sms_opted_out_at) return `${customer.name} opted out of texts`
+    if (!customer.phone) return `No phone number for ${customer.name}`
+  } else {
+    if (customer.email_opted_out_at) return `${customer.name} opted out of emails`
+    if (!customer.email) return `No email address for ${customer.name}`
+  }
+  return null
+}
+
+/**
+ * Create a review link for a customer to text or email from the app, copy or
+ * show as a QR code, and follow the signed-in employee's recent links.
+ * Recording a review from a link credits the request when the review is
+ * submitted.
+ */
+export function ReviewRequests({ userId, onRecord }: ReviewRequestsProps) {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const { requests, loading, error, refetch } = useReviewRequests(userId)
+  const [customerName, setCustomerName] = useState('')
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [created, setCreated] = useState<ReviewRequest | null>(null)
+  const [qrRequestId, setQrRequestId] = useState<string | null>(null)
+  const [sendingId, setSendingId] = useState<string | null>(null)
+
+  const handleCreate = async () => {
+    if (!currentTeam) return
+
+    setCreating(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/review-requests`, {
+        method: 'POST',
+        body: JSON.stringify(selectedCustomer
+          ? { customer_id: selectedCustomer.id }
+          : { customer_name: customerName.trim() }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create review link')
+      }
+
+      setCreated(data.review_request)
+      setCustomerName('')
+      setSelectedCustomer(null)
+      refetch()
+    } catch (error) {
+      console.error('Error creating review request:', error)
+      alert(`Failed to create review link: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleSend = async (request: ReviewRequest, channel: MessageChannel) => {
+    if (!currentTeam) return
+
+    setSendingId(request.id)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/review-requests/${request.id}/send`, {
+        method: 'POST',
+        body: JSON.stringify({ channel }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send review request')
+      }
+    } catch (error) {
+      console.error('Error sending review request:', error)
+      alert(`Failed to send review request: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSendingId(null)
+      refetch()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-xl font-bold flex items-center gap-2">
+              <Link2 className="h-5 w-5 text-primary" />
+              Ask for a Review
+            </CardTitle>
+            <CardDescription>Text or email a customer a link to your team&apos;s review page, or let them scan it</CardDescription>
+          </div>
+          <Link href="/review-card">
+            <Button type="button" variant="outline" size="sm" className="flex items-center gap-1">
+              <CreditCard className="h-4 w-4" />
+              My review card
+            </Button>
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="flex-1">
+            <CustomerSearch
+              id="requestCustomerName"
+              value={customerName}
+              onValueChange={setCustomerName}
+              selected={selectedCustomer}
+              onSelect={setSelectedCustomer}
+              disabled={creating || !currentTeam}
+            />
+          </div>
+          <Button
+            type="button"
+            onClick={handleCreate}
+            disabled={creating || !currentTeam || (!selectedCustomer && customerName.trim().length < 2)}
+          >
+            {creating ? 'Creating...' : 'Create link'}
+          </Button>
+        </div>
+
+        {created && (
+          <div className="flex items-center gap-2 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            <span className="flex-1 text-sm truncate">{created.url}</span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => copyLink(created.url)} aria-label="Copy review link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : requests.length > 0 && (
+          <div className="divide-y divide-gray-100">
+            {requests.map((request) => (
+              <div key={request.id} className="py-3 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{request.customer?.name ?? 'Customer'}</p>
+                    <p className="text-sm text-gray-500">
+                      Created {new Date(request.created_at).toLocaleDateString()}
+                      {request.last_message_channel && request.last_message_status &&
+                        ` • ${request.last_message_channel === 'sms' ? 'Text' : 'Email'} ${DELIVERY_LABELS[request.last_message_status]}`}
+                      {request.open_count > 0 && ` • Opened ${request.open_count} time${request.open_count === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className={`text-xs font-medium px-2 py-0.5 rounded-full capitalize ${STATUS_STYLES[request.status]}`}>
+                      {request.status}
+                    </span>
+                    {request.status !== 'converted' && (
+                      <>
+                        {(['sms', 'email'] as const).map((channel) => {
+                          const blocked = sendBlockedReason(request, channel)
+                          const label = channel === 'sms' ? 'Send by text' : 'Send by email'
+                          return (
+                            <Button
+                              key={channel}
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleSend(request, channel)}
+                              disabled={!!blocked || sendingId === request.id}
+                              title={blocked ?? label}
+                              aria-label={label}
+                            >
+                              {channel === 'sms' ? <MessageSquare className="h-4 w-4" /> : <Mail className="h-4 w-4" />}
+                            </Button>
+                          )
+                        })}
+                        <Button type="button" variant="ghost" size="sm" onClick={() => copyLink(request.url)} aria-label="Copy review link">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setQrRequestId(qrRequestId === request.id ? null : request.id)}
+                          aria-label="Show QR code"
+                        >
+                          <QrCode className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="outline" size="sm" onClick={() => onRecord(request)}>
+                          Record review
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {qrRequestId === request.id && currentTeam && (
+                  <div className="flex justify-center">
+                    <ReviewRequestQrCode teamId={currentTeam.id} requestId={request.id} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
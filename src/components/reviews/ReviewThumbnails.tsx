@@ -0,0 +1,35 @@
+'use client'
+
+import { ReviewAttachment } from '@/types'
+
+interface ReviewThumbnailsProps {
+  attachments?: ReviewAttachment[]
+}
+
+export function ReviewThumbnails({ attachments }: ReviewThumbnailsProps) {
+  const visible = (attachments || []).filter(attachment => attachment.thumbnail_url)
+
+  if (visible.length === 0) return null
+
+  return (
+    <div className="flex gap-2 pt-2">
+      {visible.map((attachment) => (
+        <a
+          key={attachment.id}
+          href={attachment.url || attachment.thumbnail_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block"
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element -- signed URLs change on every fetch */}
+          <img
+            src={attachment.thumbnail_url}
+            alt={attachment.file_name}
+            className="h-16 w-16 rounded-lg object-cover border border-gray-200"
+            loading="lazy"
+          />
+        </a>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { downloadJson } from '@/lib/utils'
+import { Archive, Download } from 'lucide-react'
+
+/**
+ * Export or archive the current team (admin). Archived teams are listed by
+ * ArchivedTeams, where they can be restored or deleted for good.
+ */
+export function ArchiveTeam() {
+  const { currentTeam, refreshTeams } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [busy, setBusy] = useState(false)
+
+  if (!currentTeam) return null
+
+  const exportTeam = async () => {
+    setBusy(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/export`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to export team')
+      }
+
+      downloadJson(await response.json(), `${currentTeam.name}-export.json`)
+    } catch (error) {
+      console.error('Error exporting team:', error)
+      alert(`Failed to export team: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const archiveTeam = async () => {
+    if (!confirm(`Archive ${currentTeam.name}? It will be hidden from everyone on the team and become read-only until it is restored. Pending invitations are revoked.`)) return
+
+    setBusy(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/archive`, { method: 'POST' })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to archive team')
+      }
+
+      await refreshTeams()
+    } catch (error) {
+      console.error('Error archiving team:', error)
+      alert(`Failed to archive team: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+          <Archive className="h-6 w-6 text-primary" />
+          Archive Team
+        </CardTitle>
+        <CardDescription className="text-lg text-gray-600">
+          Retire {currentTeam.name} without losing its reviews and points
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 flex flex-col sm:flex-row gap-3">
+        <Button variant="outline" onClick={exportTeam} disabled={busy}>
+          <Download className="h-4 w-4 mr-1" />
+          Export data
+        </Button>
+        <Button variant="destructive" onClick={archiveTeam} disabled={busy}>
+          <Archive className="h-4 w-4 mr-1" />
+          Archive team
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { hasTeamPermission } from '@/lib/team-roles'
+import { downloadJson } from '@/lib/utils'
+import { TeamApiResponse, TeamDeletionRequestApiResponse, TeamExport, TeamWithUserRole } from '@/types'
+import { ArchiveRestore, Download, Trash2 } from 'lucide-react'
+
+/**
+ * Archived teams the user belongs to. Admins can restore or export them and
+ * the owner can delete them permanently after downloading a final export.
+ */
+export function ArchivedTeams() {
+  const { userTeams, refreshTeams } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [teams, setTeams] = useState<TeamWithUserRole[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyTeamId, setBusyTeamId] = useState<string | null>(null)
+
+  const fetchArchivedTeams = useCallback(async () => {
+    try {
+      const response = await authenticatedFetch('/api/teams?archived=true')
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch archived teams')
+      }
+
+      const data: TeamApiResponse = await response.json()
+      setTeams(data.teams)
+    } catch (error) {
+      console.error('Error fetching archived teams:', error)
+      setTeams([])
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch])
+
+  // Archiving a team changes userTeams, so reload alongside it
+  useEffect(() => {
+    fetchArchivedTeams()
+  }, [fetchArchivedTeams, userTeams.length])
+
+  // Run one team's action, reporting failures the same way for each
+  const runAction = async (team: TeamWithUserRole, failure: string, action: () => Promise<void>) => {
+    setBusyTeamId(team.id)
+    try {
+      await action()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyTeamId(null)
+    }
+  }
+
+  const request = async <T,>(url: string, init: RequestInit, failure: string): Promise<T> => {
+    const response = await authenticatedFetch(url, init)
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || failure)
+    }
+    return data
+  }
+
+  const restoreTeam = (team: TeamWithUserRole) => runAction(team, 'Failed to restore team', async () => {
+    await request(`/api/teams/${team.id}/restore`, { method: 'POST' }, 'Failed to restore team')
+    await refreshTeams()
+  })
+
+  const exportTeam = (team: TeamWithUserRole) => runAction(team, 'Failed to export team', async () => {
+    const data = await request<TeamExport>(`/api/teams/${team.id}/export`, {}, 'Failed to export team')
+    downloadJson(data, `${team.name}-export.json`)
+  })
+
+  const deleteTeam = (team: TeamWithUserRole) => {
+    const typed = prompt(
+      `This permanently deletes ${team.name} with all of its reviews, points and photos. ` +
+      `A final export will be downloaded.\n\nType the team name to confirm:`
+    )
+    if (typed === null) return
+    if (typed.trim() !== team.name) {
+      alert('The name did not match, so nothing was deleted.')
+      return
+    }
+
+    runAction(team, 'Failed to delete team', async () => {
+      const { confirmation_token } = await request<TeamDeletionRequestApiResponse>(
+        `/api/teams/${team.id}/deletion`,
+        { method: 'POST' },
+        'Failed to start team deletion'
+      )
+
+      const result = await request<{ export: TeamExport }>(
+        `/api/teams/${team.id}`,
+        { method: 'DELETE', body: JSON.stringify({ confirmation_token }) },
+        'Failed to delete team'
+      )
+
+      downloadJson(result.export, `${team.name}-final-export.json`)
+      setTeams((current) => current.filter((other) => other.id !== team.id))
+    })
+  }
+
+  if (loading || teams.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+          <ArchiveRestore className="h-6 w-6 text-primary" />
+          Archived Teams
+        </CardTitle>
+        <CardDescription className="text-lg text-gray-600">
+          Hidden, read-only teams you belong to
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6">
+        <div className="divide-y divide-gray-100">
+          {teams.map((team) => {
+            const busy = busyTeamId === team.id
+            const canManage = hasTeamPermission(team.user_role, 'team.manage')
+
+            return (
+              <div key={team.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{team.name}</p>
+                  {team.archived_at && (
+                    <p className="text-sm text-gray-500">
+                      Archived {new Date(team.archived_at).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => restoreTeam(team)} disabled={busy}>
+                      <ArchiveRestore className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => exportTeam(team)} disabled={busy}>
+                      <Download className="h-4 w-4 mr-1" />
+                      Export
+                    </Button>
+                    {hasTeamPermission(team.user_role, 'team.delete') && (
+                      <Button variant="destructive" size="sm" onClick={() => deleteTeam(team)} disabled={busy}>
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
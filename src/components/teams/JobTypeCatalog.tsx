@@ -0,0 +1,262 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { JobTypeMapping } from '@/components/teams/JobTypeMapping'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { useJobTypes } from '@/hooks/useJobTypes'
+import { POINT_RULES_CONFIG, TEAM_CONFIG, VALIDATION_CONFIG } from '@/lib/constants'
+import { JobType, JobTypeForm } from '@/types'
+import { ArrowDown, ArrowUp, Briefcase, Pencil, Trash2 } from 'lucide-react'
+
+interface JobTypeDraft {
+  name: string
+  points: string // blank uses the team's base points
+}
+
+const emptyDraft: JobTypeDraft = { name: '', points: '' }
+
+function toForm(draft: JobTypeDraft): JobTypeForm {
+  return {
+    name: draft.name.trim(),
+    points: draft.points.trim() === '' ? null : Number(draft.points),
+  }
+}
+
+/**
+ * The current team's job type catalog (admin): add, rename, price, reorder,
+ * retire or remove entries, then map old free-text values onto them
+ */
+export function JobTypeCatalog() {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const { jobTypes, loading, error, refetch } = useJobTypes()
+  const [draft, setDraft] = useState<JobTypeDraft>(emptyDraft)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editDraft, setEditDraft] = useState<JobTypeDraft>(emptyDraft)
+  const [busy, setBusy] = useState(false)
+
+  if (!currentTeam) return null
+
+  // Send changes to the catalog in order and reload it, reporting failures the same way for each
+  const send = async (requests: [string, RequestInit][], failure: string): Promise<boolean> => {
+    setBusy(true)
+    try {
+      for (const [url, init] of requests) {
+        const response = await authenticatedFetch(url, init)
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || failure)
+        }
+      }
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      return false
+    } finally {
+      await refetch()
+      setBusy(false)
+    }
+  }
+
+  const baseUrl = `/api/teams/${currentTeam.id}/job-types`
+
+  const addJobType = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft.name.trim()) return
+
+    const added = await send(
+      [[baseUrl, { method: 'POST', body: JSON.stringify(toForm(draft)) }]],
+      'Failed to add job type'
+    )
+    if (added) setDraft(emptyDraft)
+  }
+
+  const saveEdit = async (jobType: JobType) => {
+    const saved = await send(
+      [[`${baseUrl}/${jobType.id}`, { method: 'PATCH', body: JSON.stringify(toForm(editDraft)) }]],
+      'Failed to update job type'
+    )
+    if (saved) setEditingId(null)
+  }
+
+  const toggleActive = (jobType: JobType) =>
+    send(
+      [[`${baseUrl}/${jobType.id}`, { method: 'PATCH', body: JSON.stringify({ is_active: !jobType.is_active }) }]],
+      'Failed to update job type'
+    )
+
+  // Swap places with the neighbour, renumbering so equal sort orders can't stick
+  const move = (index: number, offset: number) => {
+    const reordered = [...jobTypes]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(index + offset, 0, moved)
+
+    const requests: [string, RequestInit][] = reordered
+      .map((jobType, position) => ({ jobType, sortOrder: position + 1 }))
+      .filter(({ jobType, sortOrder }) => jobType.sort_order !== sortOrder)
+      .map(({ jobType, sortOrder }) => [
+        `${baseUrl}/${jobType.id}`,
+        { method: 'PATCH', body: JSON.stringify({ sort_order: sortOrder }) },
+      ])
+
+    send(requests, 'Failed to reorder job types')
+  }
+
+  const removeJobType = (jobType: JobType) => {
+    if (!confirm(`Delete ${jobType.name}? Its reviews keep the name but show up as unmapped. Retiring it keeps them linked instead.`)) return
+    send([[`${baseUrl}/${jobType.id}`, { method: 'DELETE' }]], 'Failed to delete job type')
+  }
+
+  return (
+    <>
+      <Card className="border-0 shadow-xl bg-white">
+        <CardHeader className="border-b border-gray-100 pb-6">
+          <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+            <Briefcase className="h-6 w-6 text-primary" />
+            Job Types
+          </CardTitle>
+          <CardDescription className="text-lg text-gray-600">
+            The jobs your team picks from when submitting a review, up to {TEAM_CONFIG.MAX_JOB_TYPES}
+          </CardDescription>
+          <form onSubmit={addJobType} className="flex flex-col sm:flex-row gap-2 pt-4">
+            <Input
+              placeholder="Water heater install"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              maxLength={VALIDATION_CONFIG.MAX_JOB_TYPE_LENGTH}
+              disabled={busy}
+              aria-label="Job type name"
+            />
+            <Input
+              type="number"
+              min={0}
+              max={POINT_RULES_CONFIG.MAX_RULE_POINTS}
+              placeholder="Points (optional)"
+              value={draft.points}
+              onChange={(e) => setDraft({ ...draft, points: e.target.value })}
+              disabled={busy}
+              className="sm:w-44"
+              aria-label="Points for this job type"
+            />
+            <Button type="submit" disabled={busy || !draft.name.trim()}>
+              Add job type
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <p className="text-center text-red-600 py-6">{error}</p>
+          ) : jobTypes.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">
+              No job types yet. Until you add one, reviews can use any job type.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {jobTypes.map((jobType, index) => (
+                <div key={jobType.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3">
+                  {editingId === jobType.id ? (
+                    <div className="flex flex-1 flex-col sm:flex-row gap-2">
+                      <Input
+                        value={editDraft.name}
+                        onChange={(e) => setEditDraft({ ...editDraft, name: e.target.value })}
+                        maxLength={VALIDATION_CONFIG.MAX_JOB_TYPE_LENGTH}
+                        disabled={busy}
+                        aria-label="Job type name"
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        max={POINT_RULES_CONFIG.MAX_RULE_POINTS}
+                        placeholder="Base points"
+                        value={editDraft.points}
+                        onChange={(e) => setEditDraft({ ...editDraft, points: e.target.value })}
+                        disabled={busy}
+                        className="sm:w-36"
+                        aria-label="Points for this job type"
+                      />
+                      <Button size="sm" onClick={() => saveEdit(jobType)} disabled={busy || !editDraft.name.trim()}>
+                        Save
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={busy}>
+                        Cancel
+                      </Button>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="min-w-0">
+                        <p className={`font-medium truncate ${jobType.is_active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                          {jobType.name}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {jobType.points !== null ? `${jobType.points} points` : 'Base points'}
+                          {!jobType.is_active && ' • Retired'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => move(index, -1)}
+                          disabled={busy || index === 0}
+                          aria-label={`Move ${jobType.name} up`}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => move(index, 1)}
+                          disabled={busy || index === jobTypes.length - 1}
+                          aria-label={`Move ${jobType.name} down`}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditingId(jobType.id)
+                            setEditDraft({ name: jobType.name, points: jobType.points === null ? '' : String(jobType.points) })
+                          }}
+                          disabled={busy}
+                          aria-label={`Edit ${jobType.name}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => toggleActive(jobType)} disabled={busy}>
+                          {jobType.is_active ? 'Retire' : 'Reactivate'}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeJobType(jobType)}
+                          disabled={busy}
+                          aria-label={`Delete ${jobType.name}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {jobTypes.length > 0 && <JobTypeMapping jobTypes={jobTypes} />}
+    </>
+  )
+}
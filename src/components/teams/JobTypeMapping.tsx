@@ -0,0 +1,151 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { JobType, JobTypeMapping as JobTypeMappingEntry, UnmappedJobType, UnmappedJobTypesApiResponse } from '@/types'
+import { Shuffle } from 'lucide-react'
+
+const SKIP = 'skip'
+
+interface JobTypeMappingProps {
+  jobTypes: JobType[]
+}
+
+/**
+ * One-time cleanup for reviews recorded before the catalog: pick a catalog
+ * entry for each free-text job type and relabel those reviews (admin)
+ */
+export function JobTypeMapping({ jobTypes }: JobTypeMappingProps) {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [unmapped, setUnmapped] = useState<UnmappedJobType[]>([])
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [result, setResult] = useState<string | null>(null)
+
+  const fetchUnmapped = useCallback(async () => {
+    if (!currentTeam) return
+
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/job-types/mapping`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch unmapped job types')
+      }
+
+      const data: UnmappedJobTypesApiResponse = await response.json()
+      setUnmapped(data.unmapped)
+    } catch (error) {
+      console.error('Error fetching unmapped job types:', error)
+      setUnmapped([])
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch, currentTeam])
+
+  // Catalog changes (new entries, deletions) change what is unmapped
+  useEffect(() => {
+    fetchUnmapped()
+  }, [fetchUnmapped, jobTypes])
+
+  const mappings: JobTypeMappingEntry[] = unmapped
+    .filter(({ job_type }) => choices[job_type] && choices[job_type] !== SKIP)
+    .map(({ job_type }) => ({ job_type, job_type_id: choices[job_type] }))
+
+  const applyMappings = async () => {
+    if (!currentTeam || mappings.length === 0) return
+
+    setSaving(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/job-types/mapping`, {
+        method: 'POST',
+        body: JSON.stringify({ mappings }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to map job types')
+      }
+
+      setUnmapped(data.unmapped)
+      setChoices({})
+      setResult(`Updated ${data.reviews_updated} review${data.reviews_updated === 1 ? '' : 's'}.`)
+    } catch (error) {
+      console.error('Error mapping job types:', error)
+      alert(`Failed to map job types: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading || (unmapped.length === 0 && !result)) {
+    return null
+  }
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+          <Shuffle className="h-6 w-6 text-primary" />
+          Map Old Job Types
+        </CardTitle>
+        <CardDescription className="text-lg text-gray-600">
+          Existing reviews use job types that aren&apos;t in the catalog. Points already awarded don&apos;t change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        {unmapped.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">{result} Every review now uses a catalog job type.</p>
+        ) : (
+          <>
+            <div className="divide-y divide-gray-100">
+              {unmapped.map(({ job_type, review_count }) => (
+                <div key={job_type} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{job_type}</p>
+                    <p className="text-sm text-gray-500">
+                      {review_count} review{review_count === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <Select
+                    value={choices[job_type] || SKIP}
+                    onValueChange={(value) => setChoices({ ...choices, [job_type]: value })}
+                    disabled={saving}
+                  >
+                    <SelectTrigger className="w-full sm:w-64" aria-label={`Catalog job type for ${job_type}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP}>Leave as is</SelectItem>
+                      {jobTypes.map((jobType) => (
+                        <SelectItem key={jobType.id} value={jobType.id}>
+                          {jobType.name}{!jobType.is_active && ' (retired)'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-gray-600">{result}</p>
+              <Button onClick={applyMappings} disabled={saving || mappings.length === 0}>
+                {saving ? 'Mapping...' : `Map ${mappings.length} job type${mappings.length === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,186 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import {
+  TeamMembershipRequest,
+  TeamMembershipRequestsApiResponse,
+  TeamSettingsApiResponse
+} from '@/types'
+import { CheckCircle2, UserCheck, XCircle } from 'lucide-react'
+
+interface MembershipRequestsProps {
+  onChanged?: () => void
+}
+
+export function MembershipRequests({ onChanged }: MembershipRequestsProps) {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [requests, setRequests] = useState<TeamMembershipRequest[]>([])
+  const [requireApproval, setRequireApproval] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const fetchRequests = useCallback(async () => {
+    if (!currentTeam) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [requestsResponse, settingsResponse] = await Promise.all([
+        authenticatedFetch(`/api/teams/${currentTeam.id}/membership-requests`),
+        authenticatedFetch(`/api/teams/${currentTeam.id}/settings`),
+      ])
+
+      if (!requestsResponse.ok) {
+        const errorData = await requestsResponse.json()
+        throw new Error(errorData.error || 'Failed to fetch membership requests')
+      }
+
+      const data: TeamMembershipRequestsApiResponse = await requestsResponse.json()
+      setRequests(data.requests)
+
+      if (settingsResponse.ok) {
+        const { settings }: TeamSettingsApiResponse = await settingsResponse.json()
+        setRequireApproval(settings.require_member_approval)
+      }
+    } catch (error) {
+      console.error('Error fetching membership requests:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch membership requests')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentTeam, authenticatedFetch])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  const saveRequireApproval = async (checked: boolean) => {
+    if (!currentTeam) return
+
+    setRequireApproval(checked)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/settings`, {
+        method: 'PATCH',
+        body: JSON.stringify({ require_member_approval: checked }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to update settings')
+      }
+    } catch (error) {
+      console.error('Error updating membership settings:', error)
+      setRequireApproval(!checked)
+      alert(`Failed to update setting: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const decide = async (request: TeamMembershipRequest, action: 'approve' | 'reject') => {
+    if (!currentTeam) return
+    if (action === 'reject' && !confirm(`Reject ${request.user_email}'s request to join ${currentTeam.name}?`)) return
+
+    setBusyId(request.id)
+    try {
+      const response = await authenticatedFetch(
+        `/api/teams/${currentTeam.id}/membership-requests/${request.id}/${action}`,
+        { method: 'POST' }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `Failed to ${action} request`)
+      }
+
+      await fetchRequests()
+      onChanged?.()
+    } catch (error) {
+      console.error(`Error trying to ${action} membership request:`, error)
+      alert(`Failed to ${action} request: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!currentTeam) return null
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+              <UserCheck className="h-6 w-6 text-primary" />
+              Membership Requests
+            </CardTitle>
+            <CardDescription className="text-lg text-gray-600">
+              {requests.length === 1 ? '1 person is' : `${requests.length} people are`} waiting to join
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="require-member-approval"
+              checked={requireApproval}
+              onCheckedChange={(checked) => saveRequireApproval(checked as boolean)}
+              disabled={loading}
+            />
+            <Label htmlFor="require-member-approval" className="text-sm">Approve domain signups</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-6">{error}</p>
+        ) : requests.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">
+            {requireApproval
+              ? 'No one is waiting. Signups from your verified domains will appear here.'
+              : 'Signups from your verified domains join automatically. Turn on approval to hold them here.'}
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{request.user_name}</p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {request.user_email} • Requested {new Date(request.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => decide(request, 'approve')} disabled={busyId === request.id}>
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => decide(request, 'reject')}
+                    disabled={busyId === request.id}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
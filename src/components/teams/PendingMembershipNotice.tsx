@@ -0,0 +1,91 @@
+'use client'
+
+import { useState, useEffect, type ReactNode } from 'react'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { MyMembershipRequest, MyMembershipRequestsApiResponse } from '@/types'
+import { Clock } from 'lucide-react'
+
+interface PendingMembershipNoticeProps {
+  // Shown when the user has no open membership request
+  fallback: ReactNode
+  className?: string
+}
+
+/**
+ * Tells a user without teams that their domain signup is waiting for an
+ * admin, instead of showing an empty team state
+ */
+export function PendingMembershipNotice({ fallback, className = '' }: PendingMembershipNoticeProps) {
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [requests, setRequests] = useState<MyMembershipRequest[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchRequests = async () => {
+      try {
+        const response = await authenticatedFetch('/api/membership-requests')
+        if (!response.ok) {
+          throw new Error('Failed to fetch membership requests')
+        }
+
+        const data: MyMembershipRequestsApiResponse = await response.json()
+        if (!cancelled) setRequests(data.requests)
+      } catch (error) {
+        console.error('Error fetching own membership requests:', error)
+        if (!cancelled) setRequests([])
+      }
+    }
+
+    fetchRequests()
+
+    return () => {
+      cancelled = true
+    }
+  }, [authenticatedFetch])
+
+  if (requests === null) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-24 bg-gray-200 rounded-md"></div>
+      </div>
+    )
+  }
+
+  const pending = requests.filter(request => request.status === 'pending')
+  const rejected = requests.filter(request => request.status === 'rejected')
+
+  if (pending.length > 0) {
+    return (
+      <Card className={`border-dashed border-yellow-300 bg-yellow-50 ${className}`}>
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-2">
+            <Clock className="h-8 w-8 text-yellow-600" />
+          </div>
+          <CardTitle className="text-lg">Waiting for approval</CardTitle>
+          <CardDescription>
+            Your request to join {pending.map(request => request.team_name).join(', ')} is waiting for a team
+            admin. You&apos;ll have access as soon as it&apos;s approved.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  if (rejected.length > 0) {
+    return (
+      <Card className={`border-dashed ${className}`}>
+        <CardHeader className="text-center">
+          <CardTitle className="text-lg">Request declined</CardTitle>
+          <CardDescription>
+            A team admin declined your request to join {rejected[0].team_name}. Contact your administrator if you
+            think this is a mistake.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  return <>{fallback}</>
+}
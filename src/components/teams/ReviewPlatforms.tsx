@@ -0,0 +1,363 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { REVIEW_PLATFORMS, REVIEW_PLATFORM_CONFIG, REVIEW_PLATFORM_LABELS } from '@/lib/constants'
+import {
+  ReviewPlatform,
+  ReviewPlatformConnection,
+  ReviewPlatformConnectionForm,
+  ReviewPlatformConnectionsApiResponse,
+  ReviewPlatformSyncResult,
+} from '@/types'
+import { KeyRound, Pause, Play, RefreshCw, Star, Trash2 } from 'lucide-react'
+
+// What each platform calls the listing id, and whether it needs a token
+const PLATFORM_FIELDS: Record<ReviewPlatform, { idLabel: string; idPlaceholder: string; tokenLabel: string | null }> = {
+  google: { idLabel: 'Location', idPlaceholder: 'accounts/123/locations/456', tokenLabel: 'OAuth refresh token' },
+  yelp: { idLabel: 'Business ID or alias', idPlaceholder: 'acme-plumbing-austin', tokenLabel: null },
+  facebook: { idLabel: 'Page ID', idPlaceholder: '1234567890', tokenLabel: 'Page access token' },
+  fake: { idLabel: 'Fixture key', idPlaceholder: 'demo-business', tokenLabel: null },
+}
+
+const AVAILABLE_PLATFORMS = REVIEW_PLATFORMS.filter(
+  (platform) => platform !== 'fake' || process.env.NODE_ENV !== 'production'
+)
+
+function describeSync(connection: ReviewPlatformConnection): string {
+  if (!connection.last_synced_at) return 'Not synced yet'
+  const when = new Date(connection.last_synced_at).toLocaleString()
+  if (connection.last_sync_status === 'error') return `Sync failed ${when}`
+  return `Synced ${when} • ${connection.last_sync_imported ?? 0} new, ${connection.last_sync_matched ?? 0} matched`
+}
+
+/**
+ * Connect the team's Google, Yelp and Facebook listings so posted reviews
+ * are imported and matched to submitted ones (admin only)
+ */
+export function ReviewPlatforms() {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [connections, setConnections] = useState<ReviewPlatformConnection[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [platform, setPlatform] = useState<ReviewPlatform>('google')
+  const [externalId, setExternalId] = useState('')
+  const [displayName, setDisplayName] = useState('')
+  const [accessToken, setAccessToken] = useState('')
+
+  const fields = PLATFORM_FIELDS[platform]
+
+  const fetchConnections = useCallback(async () => {
+    if (!currentTeam) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/review-platforms`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch review platforms')
+      }
+
+      const data: ReviewPlatformConnectionsApiResponse = await response.json()
+      setConnections(data.connections)
+    } catch (error) {
+      console.error('Error fetching review platforms:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch review platforms')
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch, currentTeam])
+
+  useEffect(() => {
+    fetchConnections()
+  }, [fetchConnections])
+
+  const replaceConnection = (connection: ReviewPlatformConnection) => {
+    setConnections((current) => current.map((item) => (item.id === connection.id ? connection : item)))
+  }
+
+  const handleConnect = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!currentTeam) return
+
+    const body: ReviewPlatformConnectionForm = {
+      platform,
+      external_id: externalId.trim(),
+      display_name: displayName.trim() || null,
+      ...(fields.tokenLabel && accessToken.trim() && { access_token: accessToken.trim() }),
+    }
+
+    setSaving(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/review-platforms`, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to connect review platform')
+      }
+
+      setConnections((current) => [...current, data.connection])
+      setExternalId('')
+      setDisplayName('')
+      setAccessToken('')
+    } catch (error) {
+      console.error('Error connecting review platform:', error)
+      alert(`Failed to connect review platform: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateConnection = async (connection: ReviewPlatformConnection, changes: ReviewPlatformConnectionForm) => {
+    if (!currentTeam) return
+
+    setBusyId(connection.id)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/review-platforms/${connection.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update review platform')
+      }
+
+      replaceConnection(data.connection)
+    } catch (error) {
+      console.error('Error updating review platform:', error)
+      alert(`Failed to update review platform: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleUpdateToken = (connection: ReviewPlatformConnection) => {
+    const label = PLATFORM_FIELDS[connection.platform].tokenLabel
+    const token = label ? prompt(`New ${label.toLowerCase()} for ${REVIEW_PLATFORM_LABELS[connection.platform]}:`) : null
+    if (token?.trim()) {
+      updateConnection(connection, { access_token: token.trim() })
+    }
+  }
+
+  const handleSync = async (connection: ReviewPlatformConnection) => {
+    if (!currentTeam) return
+
+    setBusyId(connection.id)
+    try {
+      const response = await authenticatedFetch(
+        `/api/teams/${currentTeam.id}/review-platforms/${connection.id}/sync`,
+        { method: 'POST' }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sync review platform')
+      }
+
+      replaceConnection((data as ReviewPlatformSyncResult).connection)
+    } catch (error) {
+      console.error('Error syncing review platform:', error)
+      alert(`Failed to sync review platform: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDisconnect = async (connection: ReviewPlatformConnection) => {
+    if (!currentTeam) return
+    if (!confirm(`Disconnect ${REVIEW_PLATFORM_LABELS[connection.platform]}? Its imported reviews are removed and the reviews they verified become unverified.`)) return
+
+    setBusyId(connection.id)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/review-platforms/${connection.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to disconnect review platform')
+      }
+
+      setConnections((current) => current.filter((item) => item.id !== connection.id))
+    } catch (error) {
+      console.error('Error disconnecting review platform:', error)
+      alert(`Failed to disconnect review platform: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!currentTeam) return null
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+          <Star className="h-6 w-6 text-primary" />
+          Review Platforms
+        </CardTitle>
+        <CardDescription className="text-lg text-gray-600">
+          Reviews posted on these listings are imported every few hours and matched to the reviews your team submits
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        <form onSubmit={handleConnect} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="review-platform">Platform</Label>
+              <Select value={platform} onValueChange={(value) => setPlatform(value as ReviewPlatform)} disabled={saving}>
+                <SelectTrigger id="review-platform">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AVAILABLE_PLATFORMS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {REVIEW_PLATFORM_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="review-platform-external-id">{fields.idLabel}</Label>
+              <Input
+                id="review-platform-external-id"
+                placeholder={fields.idPlaceholder}
+                value={externalId}
+                maxLength={REVIEW_PLATFORM_CONFIG.MAX_EXTERNAL_ID_LENGTH}
+                onChange={(e) => setExternalId(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="review-platform-name">Name (optional)</Label>
+              <Input
+                id="review-platform-name"
+                placeholder="Downtown location"
+                value={displayName}
+                maxLength={REVIEW_PLATFORM_CONFIG.MAX_DISPLAY_NAME_LENGTH}
+                onChange={(e) => setDisplayName(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          {fields.tokenLabel && (
+            <div className="space-y-2">
+              <Label htmlFor="review-platform-token">{fields.tokenLabel}</Label>
+              <Input
+                id="review-platform-token"
+                type="password"
+                autoComplete="off"
+                value={accessToken}
+                maxLength={REVIEW_PLATFORM_CONFIG.MAX_ACCESS_TOKEN_LENGTH}
+                onChange={(e) => setAccessToken(e.target.value)}
+                disabled={saving}
+              />
+              <p className="text-sm text-gray-500">Stored where only the sync job can read it; it is never shown again</p>
+            </div>
+          )}
+          <Button type="submit" disabled={saving || !externalId.trim() || (!!fields.tokenLabel && !accessToken.trim())}>
+            {saving ? 'Connecting...' : 'Connect'}
+          </Button>
+        </form>
+
+        {loading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : connections.length === 0 ? (
+          <p className="text-sm text-gray-500">No review platforms connected yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {connections.map((connection) => (
+              <div key={connection.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">
+                    {REVIEW_PLATFORM_LABELS[connection.platform]}
+                    {connection.display_name && ` • ${connection.display_name}`}
+                    {!connection.is_active && <span className="ml-2 text-xs font-medium text-gray-500">(paused)</span>}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">{connection.external_id}</p>
+                  <p className={`text-sm ${connection.last_sync_status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+                    {describeSync(connection)}
+                  </p>
+                  {connection.last_sync_status === 'error' && connection.last_sync_error && (
+                    <p className="text-sm text-red-600">{connection.last_sync_error}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleSync(connection)}
+                    disabled={busyId === connection.id}
+                    aria-label="Sync now"
+                  >
+                    <RefreshCw className={`h-4 w-4 ${busyId === connection.id ? 'animate-spin' : ''}`} />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateConnection(connection, { is_active: !connection.is_active })}
+                    disabled={busyId === connection.id}
+                    aria-label={connection.is_active ? 'Pause syncing' : 'Resume syncing'}
+                  >
+                    {connection.is_active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  {PLATFORM_FIELDS[connection.platform].tokenLabel && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleUpdateToken(connection)}
+                      disabled={busyId === connection.id}
+                      aria-label="Replace access token"
+                    >
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDisconnect(connection)}
+                    disabled={busyId === connection.id}
+                    aria-label="Disconnect"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,45 @@
+'use client'
+
+import { TeamSettings } from '@/types'
+
+interface TeamBrandProps {
+  name: string
+  settings: Pick<TeamSettings, 'logo_url' | 'brand_color'> | null
+  subtitle?: string
+  className?: string
+}
+
+/**
+ * A team's logo and name in its brand color. Teams without a logo get their
+ * initial on a colored tile.
+ */
+export function TeamBrand({ name, settings, subtitle, className = '' }: TeamBrandProps) {
+  const brandColor = settings?.brand_color || undefined
+
+  return (
+    <div className={`flex items-center gap-4 ${className}`}>
+      {settings?.logo_url ? (
+        // eslint-disable-next-line @next/next/no-img-element -- logos are hosted by each team
+        <img
+          src={settings.logo_url}
+          alt={`${name} logo`}
+          className="h-12 w-12 rounded-xl object-contain bg-white border border-gray-200"
+        />
+      ) : (
+        <div
+          className="h-12 w-12 rounded-xl flex items-center justify-center text-xl font-bold text-white bg-primary"
+          style={brandColor ? { backgroundColor: brandColor } : undefined}
+          aria-hidden="true"
+        >
+          {name.charAt(0).toUpperCase()}
+        </div>
+      )}
+      <div className="min-w-0">
+        <p className="text-xl font-semibold truncate" style={brandColor ? { color: brandColor } : undefined}>
+          {name}
+        </p>
+        {subtitle && <p className="text-sm text-gray-600">{subtitle}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { useAuth } from '@/hooks/useAuth'
+import { TeamDomainWithVerification, TeamDomainsApiResponse } from '@/types'
+import { BadgeCheck, Globe, ShieldAlert, Trash2 } from 'lucide-react'
+
+export function TeamDomains() {
+  const { currentTeam } = useTeam()
+  const { user } = useAuth()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [domains, setDomains] = useState<TeamDomainWithVerification[]>([])
+  const [draft, setDraft] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchDomains = useCallback(async () => {
+    if (!currentTeam) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/domains`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch domains')
+      }
+
+      const data: TeamDomainsApiResponse = await response.json()
+      setDomains(data.domains)
+    } catch (error) {
+      console.error('Error fetching team domains:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch domains')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentTeam, authenticatedFetch])
+
+  useEffect(() => {
+    fetchDomains()
+  }, [fetchDomains])
+
+  const addDomain = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!currentTeam || !draft.trim()) return
+
+    setSaving(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/domains`, {
+        method: 'POST',
+        body: JSON.stringify({ domain: draft.trim() }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to add domain')
+      }
+
+      setDraft('')
+      await fetchDomains()
+    } catch (error) {
+      console.error('Error adding team domain:', error)
+      alert(`Failed to add domain: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const verifyDomain = async (mapping: TeamDomainWithVerification, method: 'dns_txt' | 'member_email') => {
+    if (!currentTeam) return
+
+    setBusyId(mapping.id)
+    try {
+      const response = await authenticatedFetch(
+        `/api/teams/${currentTeam.id}/domains/${mapping.id}/verify`,
+        { method: 'POST', body: JSON.stringify({ method }) }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to verify domain')
+      }
+
+      await fetchDomains()
+    } catch (error) {
+      console.error('Error verifying team domain:', error)
+      alert(`Could not verify ${mapping.domain_name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const removeDomain = async (mapping: TeamDomainWithVerification) => {
+    if (!currentTeam) return
+    if (!confirm(`Stop adding new ${mapping.domain_name} signups to ${currentTeam.name}? Existing members stay on the team.`)) return
+
+    setBusyId(mapping.id)
+    try {
+      const response = await authenticatedFetch(
+        `/api/teams/${currentTeam.id}/domains?domain_id=${mapping.id}`,
+        { method: 'DELETE' }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to remove domain')
+      }
+
+      await fetchDomains()
+    } catch (error) {
+      console.error('Error removing team domain:', error)
+      alert(`Failed to remove domain: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!currentTeam) return null
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+          <Globe className="h-6 w-6 text-primary" />
+          Email Domains
+        </CardTitle>
+        <CardDescription className="text-lg text-gray-600">
+          New signups with these email domains join {currentTeam.name} automatically
+        </CardDescription>
+        <form onSubmit={addDomain} className="flex flex-col sm:flex-row gap-2 pt-4">
+          <Input
+            placeholder="acme.com"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            disabled={saving}
+            aria-label="Email domain"
+          />
+          <Button type="submit" disabled={saving || !draft.trim()}>
+            {saving ? 'Adding...' : 'Add domain'}
+          </Button>
+        </form>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-6">{error}</p>
+        ) : domains.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">
+            No domains mapped. Add one to place new signups on this team.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {domains.map((mapping) => (
+              <div key={mapping.id} className="flex items-start justify-between gap-4 py-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium text-gray-900 flex items-center gap-2">
+                    {mapping.domain_name}
+                    {mapping.verified_at ? (
+                      <span className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+                        <BadgeCheck className="h-3 w-3" />
+                        Verified
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">
+                        <ShieldAlert className="h-3 w-3" />
+                        Unverified
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Added {new Date(mapping.created_at).toLocaleDateString()}
+                  </p>
+                  {mapping.verification_record && (
+                    <div className="text-sm text-gray-600 space-y-2 pt-1">
+                      <p>
+                        Signups are not auto-assigned until the domain is verified. Add this TXT record to{' '}
+                        <strong>{mapping.verification_record.host}</strong>:
+                      </p>
+                      <code className="block break-all rounded bg-gray-100 px-2 py-1 text-xs">
+                        {mapping.verification_record.value}
+                      </code>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => verifyDomain(mapping, 'dns_txt')}
+                          disabled={busyId === mapping.id}
+                        >
+                          Check DNS record
+                        </Button>
+                        {user?.email.toLowerCase().endsWith(mapping.domain_name) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => verifyDomain(mapping, 'member_email')}
+                            disabled={busyId === mapping.id}
+                          >
+                            Verify with my email
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeDomain(mapping)}
+                  disabled={busyId === mapping.id}
+                  title="Remove domain"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
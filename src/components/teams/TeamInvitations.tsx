@@ -0,0 +1,211 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ASSIGNABLE_TEAM_ROLES, TEAM_ROLE_LABELS } from '@/lib/team-roles'
+import { TeamInvitation, TeamInvitationsApiResponse, TeamRole } from '@/types'
+import { MailPlus, RotateCw, XCircle } from 'lucide-react'
+
+const STATUS_STYLES: Record<TeamInvitation['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-600',
+  expired: 'bg-red-100 text-red-700',
+}
+
+export function TeamInvitations() {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [invitations, setInvitations] = useState<TeamInvitation[]>([])
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<TeamRole>('member')
+  const [loading, setLoading] = useState(true)
+  const [sending, setSending] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchInvitations = useCallback(async () => {
+    if (!currentTeam) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/invitations`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch invitations')
+      }
+
+      const data: TeamInvitationsApiResponse = await response.json()
+      setInvitations(data.invitations)
+    } catch (error) {
+      console.error('Error fetching invitations:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch invitations')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentTeam, authenticatedFetch])
+
+  useEffect(() => {
+    fetchInvitations()
+  }, [fetchInvitations])
+
+  const sendInvitation = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!currentTeam || !email.trim()) return
+
+    setSending(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/invitations`, {
+        method: 'POST',
+        body: JSON.stringify({ email: email.trim(), role }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to send invitation')
+      }
+
+      setEmail('')
+      setRole('member')
+      await fetchInvitations()
+    } catch (error) {
+      console.error('Error sending invitation:', error)
+      alert(`Failed to send invitation: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const updateInvitation = async (invitation: TeamInvitation, action: 'resend' | 'revoke') => {
+    if (!currentTeam) return
+    if (action === 'revoke' && !confirm(`Revoke the invitation for ${invitation.email}?`)) return
+
+    setBusyId(invitation.id)
+    try {
+      const basePath = `/api/teams/${currentTeam.id}/invitations/${invitation.id}`
+      const response = action === 'resend'
+        ? await authenticatedFetch(`${basePath}/resend`, { method: 'POST' })
+        : await authenticatedFetch(basePath, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `Failed to ${action} invitation`)
+      }
+
+      await fetchInvitations()
+    } catch (error) {
+      console.error(`Error trying to ${action} invitation:`, error)
+      alert(`Failed to ${action} invitation: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!currentTeam) return null
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+          <MailPlus className="h-6 w-6 text-primary" />
+          Invite Teammates
+        </CardTitle>
+        <CardDescription className="text-lg text-gray-600">
+          Invite people by email, even if they haven&apos;t signed up yet
+        </CardDescription>
+        <form onSubmit={sendInvitation} className="flex flex-col sm:flex-row gap-2 pt-4">
+          <Input
+            type="email"
+            placeholder="name@company.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={sending}
+            aria-label="Email address to invite"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as TeamRole)} disabled={sending}>
+            <SelectTrigger className="sm:w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ASSIGNABLE_TEAM_ROLES.map((option) => (
+                <SelectItem key={option} value={option}>{TEAM_ROLE_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={sending || !email.trim()}>
+            {sending ? 'Sending...' : 'Send invite'}
+          </Button>
+        </form>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-6">{error}</p>
+        ) : invitations.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">No invitations sent yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{invitation.email}</p>
+                  <p className="text-sm text-gray-500">
+                    {TEAM_ROLE_LABELS[invitation.role]} •{' '}
+                    {invitation.status === 'pending'
+                      ? `Expires ${new Date(invitation.expires_at).toLocaleDateString()}`
+                      : `Sent ${new Date(invitation.last_sent_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${STATUS_STYLES[invitation.status]}`}>
+                    {invitation.status}
+                  </span>
+                  {(invitation.status === 'pending' || invitation.status === 'expired') && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateInvitation(invitation, 'resend')}
+                      disabled={busyId === invitation.id}
+                      title="Resend with a new link"
+                    >
+                      <RotateCw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {invitation.status === 'pending' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateInvitation(invitation, 'revoke')}
+                      disabled={busyId === invitation.id}
+                      title="Revoke invitation"
+                    >
+                      <XCircle className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
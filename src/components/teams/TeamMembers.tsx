@@ -0,0 +1,213 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { useAuth } from '@/hooks/useAuth'
+import { ASSIGNABLE_TEAM_ROLES, TEAM_ROLE_LABELS, isRoleAtLeast } from '@/lib/team-roles'
+import { TeamMembersApiResponse, TeamRole } from '@/types'
+import { Crown, KeyRound, Trash2, Users } from 'lucide-react'
+
+type Member = TeamMembersApiResponse['members'][number]
+
+interface TeamMembersProps {
+  // Bump to reload the list, e.g. after a membership request is approved
+  refreshKey?: number
+}
+
+export function TeamMembers({ refreshKey = 0 }: TeamMembersProps) {
+  const { currentTeam, isTeamAdmin, refreshTeams } = useTeam()
+  const { user } = useAuth()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [members, setMembers] = useState<Member[]>([])
+  const [ownerId, setOwnerId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const fetchMembers = useCallback(async () => {
+    if (!currentTeam) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/members`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch team members')
+      }
+
+      const data: TeamMembersApiResponse = await response.json()
+      setMembers(data.members)
+      setOwnerId(data.owner_id)
+    } catch (error) {
+      console.error('Error fetching team members:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch team members')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentTeam, authenticatedFetch])
+
+  useEffect(() => {
+    fetchMembers()
+  }, [fetchMembers, refreshKey])
+
+  // Run a member change, then reload the list (and the caller's own teams if they changed themselves)
+  const updateMember = async (member: Member, request: () => Promise<Response>, failure: string) => {
+    setBusyId(member.user_id)
+    try {
+      const response = await request()
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || failure)
+      }
+
+      await fetchMembers()
+      if (member.user_id === user?.id) {
+        await refreshTeams()
+      }
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const changeRole = (member: Member, role: TeamRole) => {
+    if (!currentTeam || role === member.role) return
+
+    updateMember(member, () => authenticatedFetch(`/api/teams/${currentTeam.id}/members`, {
+      method: 'PATCH',
+      body: JSON.stringify({ user_id: member.user_id, role }),
+    }), 'Failed to change role')
+  }
+
+  const removeMember = (member: Member) => {
+    if (!currentTeam) return
+    if (!confirm(`Remove ${member.name} from ${currentTeam.name}?`)) return
+
+    updateMember(member, () => authenticatedFetch(
+      `/api/teams/${currentTeam.id}/members?user_id=${member.user_id}`,
+      { method: 'DELETE' }
+    ), 'Failed to remove member')
+  }
+
+  const transferOwnership = (member: Member) => {
+    if (!currentTeam) return
+    if (!confirm(`Make ${member.name} the owner of ${currentTeam.name}? You will stay on the team as an admin.`)) return
+
+    updateMember(member, () => authenticatedFetch(`/api/teams/${currentTeam.id}/ownership`, {
+      method: 'POST',
+      body: JSON.stringify({ user_id: member.user_id }),
+    }), 'Failed to transfer ownership')
+  }
+
+  if (!currentTeam) return null
+
+  const canManage = isTeamAdmin(currentTeam.id)
+  // The owner hands the team over; any admin can claim a team whose owner is gone
+  const canTransfer = canManage && (ownerId === null || ownerId === user?.id)
+
+  return (
+    <Card className="border-0 shadow-xl bg-white">
+      <CardHeader className="border-b border-gray-100 pb-6">
+        <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+          <Users className="h-6 w-6 text-primary" />
+          Members
+        </CardTitle>
+        <CardDescription className="text-lg text-gray-600">
+          {loading ? 'Loading members...' : `${members.length} ${members.length === 1 ? 'person is' : 'people are'} on ${currentTeam.name}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {loading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-6">{error}</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {members.map((member) => (
+              <div key={member.user_id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate flex items-center gap-2">
+                    {member.name}
+                    {isRoleAtLeast(member.role, 'admin') && <Crown className="h-3 w-3 text-yellow-500" />}
+                    {member.is_owner && (
+                      <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-purple-100 text-purple-800">
+                        Owner
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {member.email} • Joined {new Date(member.joined_at).toLocaleDateString()}
+                  </p>
+                </div>
+                {canManage ? (
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => changeRole(member, value as TeamRole)}
+                      disabled={busyId === member.user_id || member.is_owner}
+                    >
+                      <SelectTrigger className="w-28 h-8" aria-label={`Role for ${member.name}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {member.is_owner && (
+                          <SelectItem value="owner">{TEAM_ROLE_LABELS.owner}</SelectItem>
+                        )}
+                        {ASSIGNABLE_TEAM_ROLES.map((option) => (
+                          <SelectItem key={option} value={option}>{TEAM_ROLE_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {canTransfer && !member.is_owner && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => transferOwnership(member)}
+                        disabled={busyId === member.user_id}
+                        title="Make owner"
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMember(member)}
+                      disabled={busyId === member.user_id || member.is_owner}
+                      title={member.is_owner ? 'Transfer ownership before removing the owner' : 'Remove member'}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                    {TEAM_ROLE_LABELS[member.role]}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,409 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { TeamBrand } from '@/components/teams/TeamBrand'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { REVIEW_CONFIG, REVIEW_REQUEST_CONFIG, REVIEW_REQUEST_MESSAGE_CONFIG, TEAM_CONFIG } from '@/lib/constants'
+import { LeaderboardVisibility, TeamDetailsApiResponse, TeamSettings, TeamUpdateForm } from '@/types'
+import { Palette, Settings } from 'lucide-react'
+
+const DEFAULT_BRAND_COLOR = '#7c3aed'
+
+interface SettingsDraft {
+  name: string
+  description: string
+  timezone: string
+  logo_url: string
+  brand_color: string | null
+  leaderboard_visibility: LeaderboardVisibility
+  require_review_approval: boolean
+  require_member_approval: boolean
+  duplicate_window_hours: string
+  duplicate_action: TeamSettings['duplicate_action']
+  review_destination_url: string
+  review_request_sms_template: string
+  review_request_email_subject: string
+  review_request_email_template: string
+}
+
+function toDraft({ team, settings }: TeamDetailsApiResponse): SettingsDraft {
+  return {
+    name: team.name,
+    description: team.description || '',
+    timezone: settings.timezone,
+    logo_url: settings.logo_url || '',
+    brand_color: settings.brand_color,
+    leaderboard_visibility: settings.leaderboard_visibility,
+    require_review_approval: settings.require_review_approval,
+    require_member_approval: settings.require_member_approval,
+    duplicate_window_hours: String(settings.duplicate_window_hours),
+    duplicate_action: settings.duplicate_action,
+    review_destination_url: settings.review_destination_url || '',
+    review_request_sms_template: settings.review_request_sms_template || '',
+    review_request_email_subject: settings.review_request_email_subject || '',
+    review_request_email_template: settings.review_request_email_template || '',
+  }
+}
+
+interface TeamSettingsPanelProps {
+  onSaved?: () => void
+}
+
+/**
+ * Team name, branding, timezone, leaderboard visibility and review rules
+ * for the current team (admin only)
+ */
+export function TeamSettingsPanel({ onSaved }: TeamSettingsPanelProps) {
+  const { currentTeam, refreshTeams } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [draft, setDraft] = useState<SettingsDraft | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<string | null>(null)
+
+  const fetchDetails = useCallback(async () => {
+    if (!currentTeam) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch team settings')
+      }
+
+      const data: TeamDetailsApiResponse = await response.json()
+      setDraft(toDraft(data))
+      setSavedAt(data.settings.updated_at || null)
+    } catch (error) {
+      console.error('Error fetching team settings:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch team settings')
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch, currentTeam])
+
+  useEffect(() => {
+    fetchDetails()
+  }, [fetchDetails])
+
+  const update = (changes: Partial<SettingsDraft>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current))
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!currentTeam || !draft) return
+
+    const body: TeamUpdateForm = {
+      name: draft.name,
+      description: draft.description.trim() || null,
+      timezone: draft.timezone.trim(),
+      logo_url: draft.logo_url.trim() || null,
+      brand_color: draft.brand_color,
+      leaderboard_visibility: draft.leaderboard_visibility,
+      require_review_approval: draft.require_review_approval,
+      require_member_approval: draft.require_member_approval,
+      duplicate_window_hours: Number(draft.duplicate_window_hours),
+      duplicate_action: draft.duplicate_action,
+      review_destination_url: draft.review_destination_url.trim() || null,
+      review_request_sms_template: draft.review_request_sms_template.trim() || null,
+      review_request_email_subject: draft.review_request_email_subject.trim() || null,
+      review_request_email_template: draft.review_request_email_template.trim() || null,
+    }
+
+    setSaving(true)
+    try {
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to save team settings')
+      }
+
+      const data: TeamDetailsApiResponse = await response.json()
+      setDraft(toDraft(data))
+      setSavedAt(data.settings.updated_at || null)
+      await refreshTeams()
+      onSaved?.()
+    } catch (error) {
+      console.error('Error saving team settings:', error)
+      alert(`Failed to save team settings: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <Skeleton className="h-96 w-full rounded-lg" />
+  }
+
+  if (error || !draft) {
+    return <p className="text-center text-red-600 py-6">{error || 'Failed to fetch team settings'}</p>
+  }
+
+  const timezones = Intl.supportedValuesOf('timeZone')
+
+  return (
+    <form onSubmit={handleSave} className="space-y-10">
+      <Card className="border-0 shadow-xl bg-white">
+        <CardHeader className="border-b border-gray-100 pb-6">
+          <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+            <Palette className="h-6 w-6 text-primary" />
+            Team &amp; Branding
+          </CardTitle>
+          <CardDescription className="text-lg text-gray-600">
+            How your team appears on the dashboard, leaderboard and review form
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          <TeamBrand
+            name={draft.name || 'Your team'}
+            settings={{ logo_url: draft.logo_url.startsWith('https://') ? draft.logo_url : null, brand_color: draft.brand_color }}
+            subtitle="Preview"
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="team-name">Team name</Label>
+              <Input
+                id="team-name"
+                value={draft.name}
+                maxLength={TEAM_CONFIG.MAX_TEAM_NAME_LENGTH}
+                onChange={(e) => update({ name: e.target.value })}
+                disabled={saving}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-timezone">Timezone</Label>
+              <Input
+                id="team-timezone"
+                list="team-timezones"
+                value={draft.timezone}
+                onChange={(e) => update({ timezone: e.target.value })}
+                disabled={saving}
+                required
+              />
+              <datalist id="team-timezones">
+                {timezones.map((timezone) => (
+                  <option key={timezone} value={timezone} />
+                ))}
+              </datalist>
+              <p className="text-xs text-gray-500">Leaderboard weeks, months and quarters start at midnight here.</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="team-description">Description</Label>
+            <Textarea
+              id="team-description"
+              rows={2}
+              value={draft.description}
+              maxLength={TEAM_CONFIG.MAX_DESCRIPTION_LENGTH}
+              onChange={(e) => update({ description: e.target.value })}
+              disabled={saving}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="team-logo">Logo URL</Label>
+              <Input
+                id="team-logo"
+                type="url"
+                placeholder="https://example.com/logo.png"
+                value={draft.logo_url}
+                maxLength={TEAM_CONFIG.MAX_LOGO_URL_LENGTH}
+                onChange={(e) => update({ logo_url: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-color">Brand color</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="team-color"
+                  type="color"
+                  className="w-16 h-10 p-1"
+                  value={draft.brand_color || DEFAULT_BRAND_COLOR}
+                  onChange={(e) => update({ brand_color: e.target.value })}
+                  disabled={saving}
+                />
+                {draft.brand_color && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => update({ brand_color: null })} disabled={saving}>
+                    Use default
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-xl bg-white">
+        <CardHeader className="border-b border-gray-100 pb-6">
+          <CardTitle className="text-2xl font-semibold text-gray-900 flex items-center gap-2">
+            <Settings className="h-6 w-6 text-primary" />
+            Preferences
+          </CardTitle>
+          <CardDescription className="text-lg text-gray-600">
+            Leaderboard visibility and review rules
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          <div className="space-y-2">
+            <Label>Who can see the leaderboard</Label>
+            <Select
+              value={draft.leaderboard_visibility}
+              onValueChange={(value) => update({ leaderboard_visibility: value as LeaderboardVisibility })}
+              disabled={saving}
+            >
+              <SelectTrigger className="w-full md:w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="team">Everyone on the team</SelectItem>
+                <SelectItem value="managers">Managers and admins only</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="team-require-review-approval"
+                checked={draft.require_review_approval}
+                onCheckedChange={(checked) => update({ require_review_approval: checked as boolean })}
+                disabled={saving}
+              />
+              <Label htmlFor="team-require-review-approval">Hold new reviews for approval before awarding points</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="team-require-member-approval"
+                checked={draft.require_member_approval}
+                onCheckedChange={(checked) => update({ require_member_approval: checked as boolean })}
+                disabled={saving}
+              />
+              <Label htmlFor="team-require-member-approval">Approve people who join through your email domain</Label>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>Repeat customer + job type within</span>
+            <Input
+              type="number"
+              min={0}
+              max={REVIEW_CONFIG.MAX_DUPLICATE_WINDOW_HOURS}
+              className="w-20 h-8"
+              value={draft.duplicate_window_hours}
+              onChange={(e) => update({ duplicate_window_hours: e.target.value })}
+              disabled={saving}
+              aria-label="Duplicate window in hours"
+            />
+            <span>hours:</span>
+            <Select
+              value={draft.duplicate_action}
+              onValueChange={(value) => update({ duplicate_action: value as TeamSettings['duplicate_action'] })}
+              disabled={saving}
+            >
+              <SelectTrigger className="w-44 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="reject">Reject submission</SelectItem>
+                <SelectItem value="review">Send to approval queue</SelectItem>
+              </SelectContent>
+            </Select>
+            <span className="text-gray-400">(0 hours turns detection off)</span>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="team-review-destination">Review destination URL</Label>
+            <Input
+              id="team-review-destination"
+              type="url"
+              placeholder="https://g.page/r/your-business/review"
+              value={draft.review_destination_url}
+              maxLength={REVIEW_REQUEST_CONFIG.MAX_DESTINATION_URL_LENGTH}
+              onChange={(e) => update({ review_destination_url: e.target.value })}
+              disabled={saving}
+            />
+            <p className="text-sm text-gray-500">Where review request links send customers</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="team-sms-template">Review request text</Label>
+            <Textarea
+              id="team-sms-template"
+              rows={3}
+              placeholder={REVIEW_REQUEST_MESSAGE_CONFIG.DEFAULT_SMS_TEMPLATE}
+              value={draft.review_request_sms_template}
+              maxLength={REVIEW_REQUEST_MESSAGE_CONFIG.MAX_SMS_TEMPLATE_LENGTH}
+              onChange={(e) => update({ review_request_sms_template: e.target.value })}
+              disabled={saving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="team-email-subject">Review request email</Label>
+            <Input
+              id="team-email-subject"
+              placeholder={REVIEW_REQUEST_MESSAGE_CONFIG.DEFAULT_EMAIL_SUBJECT}
+              value={draft.review_request_email_subject}
+              maxLength={REVIEW_REQUEST_MESSAGE_CONFIG.MAX_EMAIL_SUBJECT_LENGTH}
+              onChange={(e) => update({ review_request_email_subject: e.target.value })}
+              disabled={saving}
+              aria-label="Email subject"
+            />
+            <Textarea
+              id="team-email-template"
+              rows={6}
+              placeholder={REVIEW_REQUEST_MESSAGE_CONFIG.DEFAULT_EMAIL_TEMPLATE}
+              value={draft.review_request_email_template}
+              maxLength={REVIEW_REQUEST_MESSAGE_CONFIG.MAX_EMAIL_TEMPLATE_LENGTH}
+              onChange={(e) => update({ review_request_email_template: e.target.value })}
+              disabled={saving}
+              aria-label="Email message"
+            />
+            <p className="text-sm text-gray-500">
+              Leave blank for the default. Use {REVIEW_REQUEST_MESSAGE_CONFIG.TEMPLATE_PLACEHOLDERS.join(', ')}; messages
+              must include {'{link}'}. Texts end with &ldquo;{REVIEW_REQUEST_MESSAGE_CONFIG.SMS_OPT_OUT_NOTICE}&rdquo; and
+              emails with an unsubscribe link.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-end gap-4">
+        {savedAt && (
+          <p className="text-sm text-gray-500">Last saved {new Date(savedAt).toLocaleString()}</p>
+        )}
+        <Button type="submit" disabled={saving || !draft.name.trim()}>
+          {saving ? 'Saving...' : 'Save settings'}
+        </Button>
+      </div>
+    </form>
+  )
+}
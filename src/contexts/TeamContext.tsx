@@ -5,6 +5,7 @@ import { TeamWithUserRole, TeamApiResponse } from '@/types'
 import { useAuth } from '@/hooks/useAuth'
 import { createSupabaseBrowser } from '@/lib/supabase-browser'
 import { RETRY_CONFIG, SESSION_CONFIG } from '@/lib/constants'
+import { TeamPermission, hasTeamPermission, isRoleAtLeast } from '@/lib/team-roles'
 
 // State machine types for team management
 type TeamState = 
@@ -77,6 +78,7 @@ interface TeamContextType {
   // Helper functions
   isTeamAdmin: (teamId?: string) => boolean
   canManageTeam: (teamId?: string) => boolean
+  hasPermission: (permission: TeamPermission, teamId?: string) => boolean
 }
 
 const TeamContext = createContext<TeamContextType | undefined>(undefined)
@@ -340,19 +342,28 @@ export function TeamProvider({ children }: { children: React.ReactNode }) {
     localStorage.setItem('currentTeamId', team.id)
   }, [])
 
-  // Check if user is admin of current team (or specified team)
-  const isTeamAdmin = useCallback((teamId?: string) => {
+  // The user's role in the current team (or specified team)
+  const getTeamRole = useCallback((teamId?: string) => {
     const targetTeamId = teamId || currentTeam?.id
-    if (!targetTeamId) return false
-    
-    const team = userTeams.find(t => t.id === targetTeamId)
-    return team?.user_role === 'admin'
+    if (!targetTeamId) return null
+
+    return userTeams.find(t => t.id === targetTeamId)?.user_role ?? null
   }, [currentTeam, userTeams])
 
-  // Check if user can manage the team (admin permissions)
+  // Check if user is an owner or admin of current team (or specified team)
+  const isTeamAdmin = useCallback((teamId?: string) => {
+    return isRoleAtLeast(getTeamRole(teamId), 'admin')
+  }, [getTeamRole])
+
+  // Check if user can manage the team's settings
   const canManageTeam = useCallback((teamId?: string) => {
-    return isTeamAdmin(teamId)
-  }, [isTeamAdmin])
+    return hasTeamPermission(getTeamRole(teamId), 'team.manage')
+  }, [getTeamRole])
+
+  // Check a permission from the role matrix in src/lib/team-roles.ts
+  const hasPermission = useCallback((permission: TeamPermission, teamId?: string) => {
+    return hasTeamPermission(getTeamRole(teamId), permission)
+  }, [getTeamRole])
 
   const value: TeamContextType = {
     currentTeam,
@@ -361,7 +372,8 @@ export function TeamProvider({ children }: { children: React.ReactNode }) {
     selectTeam,
     refreshTeams,
     isTeamAdmin,
-    canManageTeam
+    canManageTeam,
+    hasPermission
   }
 
   return (
@@ -415,10 +427,13 @@ export function useAuthenticatedFetch() {
         console.log('⚠️ AuthenticatedFetch: Team-scoped endpoint called without currentTeam:', url)
       }
 
+      // Let the browser set the multipart boundary for file uploads
+      const isFormData = typeof FormData !== 'undefined' && options.body instanceof FormData
+
       const headers = {
         [SESSION_CONFIG.AUTH_TOKEN_HEADER]: `Bearer ${session.access_token}`,
         [SESSION_CONFIG.JWT_TOKEN_HEADER]: session.access_token, // Add explicit JWT token header for API validation
-        'Content-Type': 'application/json',
+        ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
         ...options.headers
       }
       
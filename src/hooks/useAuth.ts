@@ -49,8 +49,8 @@ export function useAuth() {
     return await authManager.signIn(email, password)
   }, [])
 
-  const signUp = useCallback(async (email: string, password: string, name: string, role: 'employee' | 'business_owner') => {
-    return await authManager.signUp(email, password, name, role)
+  const signUp = useCallback(async (email: string, password: string, name: string, role: 'employee' | 'business_owner', nextPath?: string) => {
+    return await authManager.signUp(email, password, name, role, nextPath)
   }, [])
 
   const signOut = useCallback(async () => {
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { Customer, CustomersApiResponse } from '@/types'
+import { PAGINATION_CONFIG } from '@/lib/constants'
+
+/**
+ * The current team's customers, newest first, optionally narrowed by a
+ * name, email or phone search
+ */
+export function useCustomers(q: string) {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    if (!currentTeam) {
+      return null
+    }
+
+    const params = new URLSearchParams({ limit: String(PAGINATION_CONFIG.DEFAULT_PAGE_SIZE) })
+    if (q) params.set('q', q)
+    if (cursor) params.set('cursor', cursor)
+
+    const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/customers?${params}`)
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to fetch customers')
+    }
+
+    return await response.json() as CustomersApiResponse
+  }, [currentTeam, authenticatedFetch, q])
+
+  const refetch = useCallback(async () => {
+    if (!currentTeam) {
+      setCustomers([])
+      setNextCursor(null)
+      setLoading(false)
+      setError(null)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await fetchPage(null)
+      setCustomers(data?.customers || [])
+      setNextCursor(data?.next_cursor || null)
+    } catch (error) {
+      console.error('Error fetching customers:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch customers')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentTeam, fetchPage])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return
+
+    try {
+      setLoadingMore(true)
+      const data = await fetchPage(nextCursor)
+      setCustomers(previous => [...previous, ...(data?.customers || [])])
+      setNextCursor(data?.next_cursor || null)
+    } catch (error) {
+      console.error('Error loading more customers:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load more customers')
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [nextCursor, loadingMore, fetchPage])
+
+  useEffect(() => {
+    refetch()
+  }, [refetch])
+
+  return {
+    customers,
+    loading,
+    loadingMore,
+    error,
+    hasMore: nextCursor !== null,
+    loadMore,
+    refetch
+  }
+}
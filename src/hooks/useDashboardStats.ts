@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { useTeamRealtime } from '@/hooks/useTeamRealtime'
 
 interface DashboardStats {
   totalReviews: number
@@ -18,6 +19,7 @@ interface DashboardStats {
     created_at: string
   }>
   recentReviewsCount: number
+  pendingReviewsCount: number
   team_id: string
 }
 
@@ -28,6 +30,7 @@ const initialStats: DashboardStats = {
   topEmployee: null,
   recentReviews: [],
   recentReviewsCount: 0,
+  pendingReviewsCount: 0,
   team_id: '',
 }
 
@@ -38,7 +41,8 @@ export function useDashboardStats() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  const fetchStats = useCallback(async () => {
+  // Background refreshes keep the current numbers on screen instead of a skeleton
+  const fetchStats = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
     if (!currentTeam) {
       setStats(initialStats)
       setLoading(false)
@@ -47,7 +51,7 @@ export function useDashboardStats() {
     }
 
     try {
-      setLoading(true)
+      if (!silent) setLoading(true)
       setError(null)
       
       const response = await authenticatedFetch('/api/dashboard/stats')
@@ -70,10 +74,15 @@ export function useDashboardStats() {
     fetchStats()
   }, [fetchStats])
 
+  const refreshSilently = useCallback(() => fetchStats({ silent: true }), [fetchStats])
+  const realtimeHandlers = useMemo(() => ({ onRefresh: refreshSilently }), [refreshSilently])
+  const { status: realtimeStatus } = useTeamRealtime(currentTeam?.id, realtimeHandlers)
+
   return { 
     stats, 
     loading, 
     error,
-    refetch: fetchStats 
+    realtimeStatus,
+    refetch: refreshSilently
   }
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { JobType, JobTypesApiResponse } from '@/types'
+
+/**
+ * The current team's job type catalog in display order, retired entries
+ * included (filter on is_active for new reviews)
+ */
+export function useJobTypes() {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [jobTypes, setJobTypes] = useState<JobType[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchJobTypes = useCallback(async () => {
+    if (!currentTeam) {
+      setJobTypes([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/job-types`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch job types')
+      }
+
+      const data: JobTypesApiResponse = await response.json()
+      setJobTypes(data.job_types)
+    } catch (error) {
+      console.error('Error fetching job types:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch job types')
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch, currentTeam])
+
+  useEffect(() => {
+    fetchJobTypes()
+  }, [fetchJobTypes])
+
+  return {
+    jobTypes,
+    loading,
+    error,
+    refetch: fetchJobTypes
+  }
+}
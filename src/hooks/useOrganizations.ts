@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { OrganizationCreationForm, OrganizationsApiResponse, OrganizationSummary } from '@/types'
+
+const CURRENT_ORGANIZATION_KEY = 'currentOrganizationId'
+
+/**
+ * Organizations the user can see, with the selected one remembered across
+ * pages like the current team
+ */
+export function useOrganizations() {
+  const { currentTeam, userTeams, refreshTeams } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [organizations, setOrganizations] = useState<OrganizationSummary[]>([])
+  const [currentOrganizationId, setCurrentOrganizationId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchOrganizations = useCallback(async () => {
+    if (userTeams.length === 0) {
+      setOrganizations([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch('/api/organizations')
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch organizations')
+      }
+
+      const data: OrganizationsApiResponse = await response.json()
+      setOrganizations(data.organizations)
+    } catch (error) {
+      console.error('Error fetching organizations:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch organizations')
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch, userTeams.length])
+
+  useEffect(() => {
+    fetchOrganizations()
+  }, [fetchOrganizations])
+
+  // Prefer the saved organization, then the current team's, then the first one
+  useEffect(() => {
+    if (organizations.length === 0) {
+      setCurrentOrganizationId(null)
+      return
+    }
+
+    setCurrentOrganizationId((selected) => {
+      const candidates = [
+        selected,
+        localStorage.getItem(CURRENT_ORGANIZATION_KEY),
+        currentTeam?.organization_id,
+      ]
+      return candidates.find((id) => organizations.some((org) => org.id === id)) ?? organizations[0].id
+    })
+  }, [organizations, currentTeam?.organization_id])
+
+  const selectOrganization = useCallback((organizationId: string) => {
+    setCurrentOrganizationId(organizationId)
+    localStorage.setItem(CURRENT_ORGANIZATION_KEY, organizationId)
+  }, [])
+
+  const createOrganization = useCallback(async (form: OrganizationCreationForm) => {
+    const response = await authenticatedFetch('/api/organizations', {
+      method: 'POST',
+      body: JSON.stringify(form),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to create organization')
+    }
+
+    const { organization }: { organization: OrganizationSummary } = await response.json()
+    selectOrganization(organization.id)
+    await fetchOrganizations()
+    // The moved team now reports its organization
+    if (form.team_id) {
+      await refreshTeams()
+    }
+    return organization
+  }, [authenticatedFetch, fetchOrganizations, refreshTeams, selectOrganization])
+
+  const currentOrganization = organizations.find((org) => org.id === currentOrganizationId) ?? null
+
+  return {
+    organizations,
+    currentOrganization,
+    loading,
+    error,
+    selectOrganization,
+    createOrganization,
+    refetch: fetchOrganizations,
+  }
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { ReviewRequest, ReviewRequestsApiResponse } from '@/types'
+import { REVIEW_REQUEST_CONFIG } from '@/lib/constants'
+
+/**
+ * The current team's most recent review requests for an employee
+ */
+export function useReviewRequests(employeeId: string | null) {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [requests, setRequests] = useState<ReviewRequest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refetch = useCallback(async () => {
+    if (!currentTeam || !employeeId) {
+      setRequests([])
+      setLoading(false)
+      setError(null)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams({
+        employee_id: employeeId,
+        limit: String(REVIEW_REQUEST_CONFIG.RECENT_REQUESTS_LIMIT)
+      })
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/review-requests?${params}`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch review requests')
+      }
+
+      const data: ReviewRequestsApiResponse = await response.json()
+      setRequests(data.review_requests)
+    } catch (error) {
+      console.error('Error fetching review requests:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch review requests')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentTeam, authenticatedFetch, employeeId])
+
+  useEffect(() => {
+    refetch()
+  }, [refetch])
+
+  return {
+    requests,
+    loading,
+    error,
+    refetch
+  }
+}
@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js'
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { createSupabaseBrowser } from '@/lib/supabase-browser'
+import { REALTIME_CONFIG } from '@/lib/constants'
+
+export type TeamRealtimeTable = 'reviews' | 'points'
+
+export interface TeamRealtimeChange {
+  table: TeamRealtimeTable
+  payload: RealtimePostgresChangesPayload<Record<string, unknown>>
+}
+
+export type TeamRealtimeStatus = 'connecting' | 'live' | 'polling'
+
+interface TeamRealtimeHandlers {
+  // Called immediately for each change, for views that can patch themselves
+  onChange?: (change: TeamRealtimeChange) => void
+  // Called once per burst of changes, and on every poll while offline
+  onRefresh: () => void
+}
+
+/**
+ * Subscribe to review and points changes for a team.
+ *
+ * Row-level security limits events to teams the user belongs to. While the
+ * channel is unavailable, onRefresh is called every POLL_INTERVAL_MS instead.
+ */
+export function useTeamRealtime(teamId: string | null | undefined, handlers: TeamRealtimeHandlers) {
+  const supabase = useMemo(() => createSupabaseBrowser(), [])
+  const [status, setStatus] = useState<TeamRealtimeStatus>('connecting')
+
+  // Keep the latest handlers without resubscribing on every render
+  const handlersRef = useRef(handlers)
+  useEffect(() => {
+    handlersRef.current = handlers
+  }, [handlers])
+
+  useEffect(() => {
+    if (!teamId) return
+
+    let pollTimer: ReturnType<typeof setInterval> | null = null
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null
+
+    const scheduleRefresh = () => {
+      if (refreshTimer) clearTimeout(refreshTimer)
+      refreshTimer = setTimeout(() => {
+        refreshTimer = null
+        handlersRef.current.onRefresh()
+      }, REALTIME_CONFIG.REFRESH_DEBOUNCE_MS)
+    }
+
+    const startPolling = () => {
+      if (pollTimer) return
+      setStatus('polling')
+      pollTimer = setInterval(() => handlersRef.current.onRefresh(), REALTIME_CONFIG.POLL_INTERVAL_MS)
+    }
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer)
+        pollTimer = null
+      }
+    }
+
+    const filter = `team_id=eq.${teamId}`
+    const channel = supabase.channel(`team-activity:${teamId}`)
+
+    for (const table of ['reviews', 'points'] as const) {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter },
+        (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+          handlersRef.current.onChange?.({ table, payload })
+          scheduleRefresh()
+        }
+      )
+    }
+
+    setStatus('connecting')
+    channel.subscribe((state, err) => {
+      if (state === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+        const recovering = pollTimer !== null
+        stopPolling()
+        setStatus('live')
+        // Catch up on anything missed while the channel was down
+        if (recovering) scheduleRefresh()
+      } else {
+        if (err) {
+          console.warn(`Realtime channel for team ${teamId} unavailable, falling back to polling:`, err)
+        }
+        startPolling()
+      }
+    })
+
+    return () => {
+      stopPolling()
+      if (refreshTimer) clearTimeout(refreshTimer)
+      supabase.removeChannel(channel)
+    }
+  }, [supabase, teamId])
+
+  return { status }
+}
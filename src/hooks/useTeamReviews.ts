@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { Review, ReviewFilters, ReviewsApiResponse } from '@/types'
+import { PAGINATION_CONFIG } from '@/lib/constants'
+
+function buildQuery(filters: ReviewFilters, cursor: string | null): string {
+  const params = new URLSearchParams()
+  params.set('limit', String(PAGINATION_CONFIG.DEFAULT_PAGE_SIZE))
+
+  if (filters.employee_id) params.set('employee_id', filters.employee_id)
+  if (filters.job_type) params.set('job_type', filters.job_type)
+  if (filters.job_type_id) params.set('job_type_id', filters.job_type_id)
+  if (filters.customer_id) params.set('customer_id', filters.customer_id)
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.has_photo !== undefined) params.set('has_photo', String(filters.has_photo))
+  if (filters.verified !== undefined) params.set('verified', String(filters.verified))
+  if (filters.q) params.set('q', filters.q)
+  if (filters.status?.length) params.set('status', filters.status.join(','))
+  if (cursor) params.set('cursor', cursor)
+
+  return params.toString()
+}
+
+export function useTeamReviews(filters: ReviewFilters) {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [reviews, setReviews] = useState<Review[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    if (!currentTeam) {
+      return null
+    }
+
+    const response = await authenticatedFetch(
+      `/api/teams/${currentTeam.id}/reviews?${buildQuery(filters, cursor)}`
+    )
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to fetch reviews')
+    }
+
+    return await response.json() as ReviewsApiResponse
+  }, [currentTeam, authenticatedFetch, filters])
+
+  const refetch = useCallback(async () => {
+    if (!currentTeam) {
+      setReviews([])
+      setNextCursor(null)
+      setLoading(false)
+      setError(null)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await fetchPage(null)
+      setReviews(data?.reviews || [])
+      setNextCursor(data?.next_cursor || null)
+    } catch (error) {
+      console.error('Error fetching reviews:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch reviews')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentTeam, fetchPage])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return
+
+    try {
+      setLoadingMore(true)
+      const data = await fetchPage(nextCursor)
+      setReviews(previous => [...previous, ...(data?.reviews || [])])
+      setNextCursor(data?.next_cursor || null)
+    } catch (error) {
+      console.error('Error loading more reviews:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load more reviews')
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [nextCursor, loadingMore, fetchPage])
+
+  useEffect(() => {
+    refetch()
+  }, [refetch])
+
+  return {
+    reviews,
+    loading,
+    loadingMore,
+    error,
+    hasMore: nextCursor !== null,
+    loadMore,
+    refetch
+  }
+}
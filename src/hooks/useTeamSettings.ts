@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useTeam, useAuthenticatedFetch } from '@/contexts/TeamContext'
+import { TeamSettings, TeamSettingsApiResponse } from '@/types'
+
+/**
+ * The current team's settings: timezone, branding, leaderboard visibility
+ * and review rules
+ */
+export function useTeamSettings() {
+  const { currentTeam } = useTeam()
+  const authenticatedFetch = useAuthenticatedFetch()
+  const [settings, setSettings] = useState<TeamSettings | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSettings = useCallback(async () => {
+    if (!currentTeam) {
+      setSettings(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await authenticatedFetch(`/api/teams/${currentTeam.id}/settings`)
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch team settings')
+      }
+
+      const data: TeamSettingsApiResponse = await response.json()
+      setSettings(data.settings)
+    } catch (error) {
+      console.error('Error fetching team settings:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch team settings')
+    } finally {
+      setLoading(false)
+    }
+  }, [authenticatedFetch, currentTeam])
+
+  useEffect(() => {
+    fetchSettings()
+  }, [fetchSettings])
+
+  return {
+    settings,
+    loading,
+    error,
+    refetch: fetchSettings
+  }
+}
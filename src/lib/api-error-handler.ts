@@ -85,6 +85,16 @@ export class ResourceError extends Error {
   }
 }
 
+export class ConflictError extends Error {
+  constructor(
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message)
+    this.name = 'ConflictError'
+  }
+}
+
 export class BusinessLogicError extends Error {
   constructor(
     message: string,
@@ -157,6 +167,16 @@ export class ApiErrorHandler {
         requestId
       }
       status = 404
+    } else if (error instanceof ConflictError) {
+      response = {
+        error: error.message,
+        code: ErrorCodes.RESOURCE_CONFLICT,
+        details: error.details,
+        timestamp,
+        path,
+        requestId
+      }
+      status = 409
     } else if (error instanceof BusinessLogicError) {
       response = {
         error: error.message,
@@ -165,7 +185,11 @@ export class ApiErrorHandler {
         path,
         requestId
       }
-      status = 400
+      status = error.code === ErrorCodes.RATE_LIMITED
+        ? 429
+        : error.code === ErrorCodes.SERVICE_UNAVAILABLE
+        ? 503
+        : 400
     } else if (error instanceof DatabaseError) {
       console.error('Database error:', error.originalError)
       response = {
@@ -224,6 +248,14 @@ export class ApiErrorHandler {
     return new BusinessLogicError(message, ErrorCodes.TEAM_ADMIN_REQUIRED)
   }
 
+  static rateLimited(message = 'Too many requests; try again later'): BusinessLogicError {
+    return new BusinessLogicError(message, ErrorCodes.RATE_LIMITED)
+  }
+
+  static serviceUnavailable(message = 'Service temporarily unavailable'): BusinessLogicError {
+    return new BusinessLogicError(message, ErrorCodes.SERVICE_UNAVAILABLE)
+  }
+
   static resourceNotFound(resourceType?: string, resourceId?: string): ResourceError {
     const message = resourceType 
       ? `${resourceType}${resourceId ? ` with ID ${resourceId}` : ''} not found`
@@ -231,6 +263,10 @@ export class ApiErrorHandler {
     return new ResourceError(message, resourceType, resourceId)
   }
 
+  static resourceConflict(message: string, details?: Record<string, unknown>): ConflictError {
+    return new ConflictError(message, details)
+  }
+
   static validationError(message: string, details?: Record<string, unknown>): ValidationError {
     return new ValidationError(message, details)
   }
@@ -0,0 +1,153 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ATTACHMENT_CONFIG } from '@/lib/constants'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+
+export interface UrlOptions {
+  expiresInSeconds?: number
+  // Request a square thumbnail of this size where the backend supports it
+  thumbnailSize?: number
+}
+
+/**
+ * Where review photos are stored. Paths are always "<team_id>/<file>" so
+ * storage policies can scope access by team.
+ */
+export interface AttachmentStorage {
+  upload(storagePath: string, data: Buffer, contentType: string): Promise<void>
+  getUrl(storagePath: string, options?: UrlOptions): Promise<string>
+  remove(storagePaths: string[]): Promise<void>
+}
+
+/**
+ * Supabase Storage backend. Uses the caller's client so bucket policies apply.
+ */
+export class SupabaseAttachmentStorage implements AttachmentStorage {
+  constructor(private supabase: SupabaseClient, private bucket: string = ATTACHMENT_CONFIG.BUCKET) {}
+
+  async upload(storagePath: string, data: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.supabase.storage
+      .from(this.bucket)
+      .upload(storagePath, data, { contentType, upsert: false })
+
+    if (error) {
+      console.error('Error uploading attachment to storage:', error)
+      throw ApiErrorHandler.databaseError('Failed to store attachment', error)
+    }
+  }
+
+  async getUrl(storagePath: string, options: UrlOptions = {}): Promise<string> {
+    const expiresIn = options.expiresInSeconds || ATTACHMENT_CONFIG.SIGNED_URL_TTL_SECONDS
+    const { data, error } = await this.supabase.storage
+      .from(this.bucket)
+      .createSignedUrl(storagePath, expiresIn, options.thumbnailSize
+        ? { transform: { width: options.thumbnailSize, height: options.thumbnailSize, resize: 'cover' } }
+        : undefined)
+
+    if (error || !data) {
+      console.error('Error signing attachment URL:', error)
+      throw ApiErrorHandler.databaseError('Failed to create attachment URL', error)
+    }
+
+    return data.signedUrl
+  }
+
+  async remove(storagePaths: string[]): Promise<void> {
+    if (storagePaths.length === 0) return
+
+    const { error } = await this.supabase.storage.from(this.bucket).remove(storagePaths)
+    if (error) {
+      console.error('Error removing attachments from storage:', error)
+      throw ApiErrorHandler.databaseError('Failed to remove attachment', error)
+    }
+  }
+}
+
+function getLocalSigningSecret(): string {
+  const secret = process.env.LOCAL_UPLOAD_SIGNING_SECRET
+  if (secret) return secret
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('LOCAL_UPLOAD_SIGNING_SECRET must be set to use local attachment storage in production')
+  }
+
+  return 'reviewboost-local-uploads'
+}
+
+function signLocalPath(storagePath: string, expires: number): string {
+  return createHmac('sha256', getLocalSigningSecret())
+    .update(`${storagePath}:${expires}`)
+    .digest('base64url')
+}
+
+/**
+ * Check a signed local attachment URL. Used by the route that serves local files.
+ */
+export function verifyLocalSignature(storagePath: string, expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+    return false
+  }
+
+  const expected = Buffer.from(signLocalPath(storagePath, expires))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Local filesystem backend for development. Files are served back through
+ * /api/attachments/local with an HMAC-signed, expiring URL.
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  constructor(private rootDir: string = process.env.LOCAL_UPLOAD_DIR || ATTACHMENT_CONFIG.DEFAULT_LOCAL_DIR) {}
+
+  resolve(storagePath: string): string {
+    const root = path.resolve(this.rootDir)
+    const resolved = path.resolve(root, storagePath)
+    if (!resolved.startsWith(root + path.sep)) {
+      throw ApiErrorHandler.validationError('Invalid attachment path', { field: 'path', received: storagePath })
+    }
+    return resolved
+  }
+
+  async upload(storagePath: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(storagePath)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, data, { flag: 'wx' })
+  }
+
+  async getUrl(storagePath: string, options: UrlOptions = {}): Promise<string> {
+    const expiresIn = options.expiresInSeconds || ATTACHMENT_CONFIG.SIGNED_URL_TTL_SECONDS
+    const expires = Math.floor(Date.now() / 1000) + expiresIn
+    const params = new URLSearchParams({
+      path: storagePath,
+      expires: String(expires),
+      signature: signLocalPath(storagePath, expires)
+    })
+    return `/api/attachments/local?${params.toString()}`
+  }
+
+  async read(storagePath: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(storagePath))
+  }
+
+  async remove(storagePaths: string[]): Promise<void> {
+    await Promise.all(storagePaths.map(storagePath =>
+      fs.rm(this.resolve(storagePath), { force: true })
+    ))
+  }
+}
+
+/**
+ * Pick the storage backend. ATTACHMENT_STORAGE=local|supabase overrides the
+ * default of local files in development and Supabase Storage elsewhere.
+ */
+export function getAttachmentStorage(supabase: SupabaseClient): AttachmentStorage {
+  const backend = process.env.ATTACHMENT_STORAGE
+    || (process.env.NODE_ENV === 'development' ? 'local' : 'supabase')
+
+  return backend === 'local'
+    ? new LocalAttachmentStorage()
+    : new SupabaseAttachmentStorage(supabase)
+}
@@ -202,10 +202,13 @@ class AuthManager extends EventTarget {
     return { data, error }
   }
 
-  async signUp(email: string, password: string, name: string, role: 'employee' | 'business_owner') {
+  async signUp(email: string, password: string, name: string, role: 'employee' | 'business_owner', nextPath?: string) {
     console.log('📝 AuthManager: Sign up attempt for:', email)
     
-    const redirectUrl = `${window.location.origin}/auth/callback`
+    // nextPath is where the confirmation link should land after verification
+    const redirectUrl = nextPath
+      ? `${window.location.origin}/auth/callback?next=${encodeURIComponent(nextPath)}`
+      : `${window.location.origin}/auth/callback`
     
     const { data, error } = await this.supabase.auth.signUp({
       email,
@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js'
 import { NextRequest, NextResponse } from 'next/server'
+import { isRoleAtLeast } from '@/lib/team-roles'
+import type { TeamRole } from '@/types'
 
 export interface AuthenticatedUser {
   id: string
@@ -10,7 +12,7 @@ export interface AuthenticatedUser {
 export interface TeamMember {
   user_id: string
   team_id: string
-  role: 'admin' | 'member'
+  role: TeamRole
   joined_at: string
 }
 
@@ -75,7 +77,7 @@ export async function getAuthContext(request: NextRequest): Promise<AuthContext
 export async function validateTeamMembership(
   request: NextRequest, 
   teamId: string
-): Promise<{ isValid: boolean; user: AuthenticatedUser | null; role: 'admin' | 'member' | null }> {
+): Promise<{ isValid: boolean; user: AuthenticatedUser | null; role: TeamRole | null }> {
   const authContext = await getAuthContext(request)
   
   if (!authContext) {
@@ -92,7 +94,7 @@ export async function validateTeamMembership(
 }
 
 /**
- * Validate if user is admin of a specific team
+ * Validate if user is an admin (or the owner) of a specific team
  */
 export async function validateTeamAdmin(
   request: NextRequest, 
@@ -101,7 +103,7 @@ export async function validateTeamAdmin(
   const validation = await validateTeamMembership(request, teamId)
   
   return {
-    isValid: validation.isValid && validation.role === 'admin',
+    isValid: validation.isValid && isRoleAtLeast(validation.role, 'admin'),
     user: validation.user
   }
 }
@@ -7,6 +7,13 @@ export const POINTS_CONFIG = {
   PHOTO_BONUS_POINTS: 5
 } as const
 
+export const POINT_RULES_CONFIG = {
+  MAX_RULE_NAME_LENGTH: 100,
+  MAX_RULE_POINTS: 1000,
+  MAX_MULTIPLIER: 10,
+  MAX_KEYWORDS_PER_RULE: 50
+} as const
+
 // ============================================================================
 // RETRY CONFIGURATION
 // ============================================================================
@@ -46,7 +53,207 @@ export const SESSION_CONFIG = {
 export const TEAM_CONFIG = {
   MAX_TEAM_NAME_LENGTH: 100,
   MAX_DESCRIPTION_LENGTH: 500,
-  DEFAULT_TEAM_ROLE: 'member'
+  DEFAULT_TEAM_ROLE: 'member',
+  DEFAULT_TIMEZONE: 'UTC',
+  MAX_JOB_TYPES: 50,
+  MAX_LOGO_URL_LENGTH: 2048,
+  // How long a permanent-delete confirmation token stays valid
+  DELETION_CONFIRMATION_MINUTES: 15
+} as const
+
+// ============================================================================
+// REVIEW CONFIGURATION
+// ============================================================================
+
+// Each new team's job type catalog starts with these (default_job_type_names()
+// in 030_job_type_catalog.sql keeps the same list)
+export const DEFAULT_JOB_TYPES = [
+  'Plumbing',
+  'Electrical',
+  'HVAC',
+  'Carpentry',
+  'Painting',
+  'Landscaping',
+  'Roofing',
+  'General Maintenance',
+  'Other',
+] as const
+
+export const REVIEW_STATUSES = ['pending', 'approved', 'rejected'] as const
+
+export const REVIEW_CONFIG = {
+  MAX_NOTE_LENGTH: 500,
+  MAX_REJECTION_REASON_LENGTH: 500,
+  APPROVAL_QUEUE_LIMIT: 50,
+  DEFAULT_DUPLICATE_WINDOW_HOURS: 72,
+  MAX_DUPLICATE_WINDOW_HOURS: 24 * 365
+} as const
+
+// What to do with a submission that matches a recent review
+export const DUPLICATE_REVIEW_ACTIONS = ['reject', 'review'] as const
+
+// ============================================================================
+// CUSTOMER CONFIGURATION
+// ============================================================================
+
+export const CUSTOMER_CONFIG = {
+  MAX_PHONE_LENGTH: 30,
+  MAX_EMAIL_LENGTH: 254,
+  MAX_ADDRESS_LENGTH: 500,
+  MAX_NOTES_LENGTH: 2000,
+  // Suggestions shown while typing a customer name
+  SEARCH_SUGGESTION_LIMIT: 8,
+  SEARCH_DEBOUNCE_MS: 250
+} as const
+
+// ============================================================================
+// REVIEW REQUEST CONFIGURATION
+// ============================================================================
+
+export const REVIEW_REQUEST_STATUSES = ['sent', 'opened', 'converted'] as const
+
+export const QR_CODE_FORMATS = ['png', 'svg'] as const
+
+export const REVIEW_REQUEST_CONFIG = {
+  TOKEN_BYTES: 12,
+  // Public links are "<origin>/r/<token>"
+  LINK_PATH: '/r',
+  MAX_DESTINATION_URL_LENGTH: 2048,
+  // A new review converts an open request for the same customer made this recently
+  AUTO_MATCH_WINDOW_DAYS: 30,
+  RECENT_REQUESTS_LIMIT: 10,
+  // QR codes open "<link>?via=qr" so scans are told apart from clicks
+  QR_SOURCE_PARAM: 'via',
+  QR_DEFAULT_SIZE: 512,
+  QR_MIN_SIZE: 128,
+  QR_MAX_SIZE: 2048
+} as const
+
+export const MESSAGE_CHANNELS = ['sms', 'email'] as const
+
+export const REVIEW_REQUEST_MESSAGE_CONFIG = {
+  // Templates fill in these placeholders; SMS and email bodies must include {link}
+  TEMPLATE_PLACEHOLDERS: ['{customer_name}', '{employee_name}', '{team_name}', '{link}'],
+  DEFAULT_SMS_TEMPLATE: 'Hi {customer_name}, thanks for choosing {team_name}! {employee_name} would love to hear how it went: {link}',
+  DEFAULT_EMAIL_SUBJECT: 'How did {employee_name} do?',
+  DEFAULT_EMAIL_TEMPLATE: 'Hi {customer_name},\n\nThanks for choosing {team_name}. {employee_name} would really appreciate a quick review of your visit:\n\n{link}\n\nThank you!',
+  SMS_OPT_OUT_NOTICE: 'Reply STOP to opt out.',
+  MAX_SMS_TEMPLATE_LENGTH: 480,
+  MAX_EMAIL_SUBJECT_LENGTH: 200,
+  MAX_EMAIL_TEMPLATE_LENGTH: 5000,
+  // Throttling: one message per customer and channel per cooldown, a cap per
+  // request, and a cap on the team's sends per hour
+  CUSTOMER_COOLDOWN_HOURS: 24,
+  MAX_MESSAGES_PER_REQUEST: 3,
+  TEAM_HOURLY_LIMIT: 100,
+  DEFAULT_SMS_OUTBOX_DIR: '.outbox/sms'
+} as const
+
+// 'fake' reads reviews from a fixture file for development and tests
+export const REVIEW_PLATFORMS = ['google', 'yelp', 'facebook', 'fake'] as const
+
+export const REVIEW_PLATFORM_LABELS: Record<(typeof REVIEW_PLATFORMS)[number], string> = {
+  google: 'Google',
+  yelp: 'Yelp',
+  facebook: 'Facebook',
+  fake: 'Test fixtures'
+}
+
+export const REVIEW_PLATFORM_CONFIG = {
+  MAX_EXTERNAL_ID_LENGTH: 200,
+  MAX_DISPLAY_NAME_LENGTH: 100,
+  MAX_ACCESS_TOKEN_LENGTH: 4096,
+  // A platform review matches a submitted review for the same customer
+  // created within this many days of it, either side
+  MATCH_WINDOW_DAYS: 14,
+  // Each sync reads back this far before the last one to pick up edits
+  SYNC_OVERLAP_DAYS: 7,
+  MAX_REVIEWS_PER_SYNC: 500,
+  RECENT_PLATFORM_REVIEWS_LIMIT: 20,
+  DEFAULT_FIXTURES_PATH: 'supabase/fixtures/platform-reviews.json'
+} as const
+
+// ============================================================================
+// LEADERBOARD CONFIGURATION
+// ============================================================================
+
+export const LEADERBOARD_PERIODS = ['week', 'month', 'quarter', 'all', 'custom'] as const
+
+// 'team': everyone on the team; 'managers': managers and admins only
+export const LEADERBOARD_VISIBILITIES = ['team', 'managers'] as const
+
+export const LEADERBOARD_CONFIG = {
+  // Rank movement compares against the latest snapshot at least this old
+  RANK_COMPARISON_DAYS: 7,
+  DEFAULT_HISTORY_LIMIT: 12,
+  MAX_HISTORY_LIMIT: 90
+} as const
+
+// ============================================================================
+// REALTIME CONFIGURATION
+// ============================================================================
+
+export const REALTIME_CONFIG = {
+  // Refetch interval used while the realtime channel is unavailable
+  POLL_INTERVAL_MS: 30000,
+  // Bursts of changes (e.g. review + points) collapse into one refresh
+  REFRESH_DEBOUNCE_MS: 750
+} as const
+
+// ============================================================================
+// ATTACHMENT CONFIGURATION
+// ============================================================================
+
+export const ATTACHMENT_CONFIG = {
+  BUCKET: 'review-attachments',
+  MAX_FILE_SIZE_BYTES: 5 * 1024 * 1024,
+  MAX_ATTACHMENTS_PER_REVIEW: 3,
+  ALLOWED_CONTENT_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
+  SIGNED_URL_TTL_SECONDS: 60 * 60,
+  THUMBNAIL_SIZE: 160,
+  DEFAULT_LOCAL_DIR: '.uploads'
+} as const
+
+// ============================================================================
+// INVITATION CONFIGURATION
+// ============================================================================
+
+export const INVITATION_CONFIG = {
+  EXPIRY_DAYS: 7,
+  // Minimum gap between sends of the same invitation
+  RESEND_COOLDOWN_SECONDS: 60,
+  ACCEPT_PATH: '/invitations/accept'
+} as const
+
+// ============================================================================
+// DOMAIN MAPPING CONFIGURATION
+// ============================================================================
+
+export const DOMAIN_CONFIG = {
+  MAX_DOMAIN_LENGTH: 253,
+  MAX_DOMAINS_PER_TEAM: 20,
+  // TXT record value is "<prefix>=<verification_token>" on the domain itself
+  VERIFICATION_TXT_PREFIX: 'reviewboost-verification'
+} as const
+
+// Shared inboxes can never prove company ownership, so they cannot be mapped.
+// Keep in sync with public.public_email_domains (migration 023).
+export const PUBLIC_EMAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.uk', 'ymail.com',
+  'outlook.com', 'hotmail.com', 'hotmail.co.uk', 'live.com', 'msn.com',
+  'icloud.com', 'me.com', 'mac.com', 'aol.com', 'proton.me',
+  'protonmail.com', 'gmx.com', 'gmx.net', 'mail.com', 'zoho.com',
+  'yandex.com', 'fastmail.com', 'hey.com', 'tutanota.com', 'qq.com',
+  '163.com', 'web.de', 'comcast.net', 'verizon.net', 'att.net'
+] as const
+
+// ============================================================================
+// EMAIL CONFIGURATION
+// ============================================================================
+
+export const EMAIL_CONFIG = {
+  DEFAULT_FROM: 'ReviewBoost <no-reply@reviewboost.app>',
+  DEFAULT_OUTBOX_DIR: '.outbox'
 } as const
 
 // ============================================================================
@@ -0,0 +1,21 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest } from 'next/server'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+
+/**
+ * Check a scheduled job's "Authorization: Bearer $CRON_SECRET" header. Jobs
+ * also need the service role, so both must be configured.
+ */
+export function assertCronRequest(req: NextRequest, jobName: string): void {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error(`${jobName} is not configured: CRON_SECRET and SUPABASE_SERVICE_ROLE_KEY are required`)
+    throw ApiErrorHandler.serviceUnavailable('Scheduled jobs are not configured')
+  }
+
+  const expected = Buffer.from(`Bearer ${cronSecret}`)
+  const received = Buffer.from(req.headers.get('authorization') || '')
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw ApiErrorHandler.authInvalid('Invalid cron secret')
+  }
+}
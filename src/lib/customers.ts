@@ -0,0 +1,294 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler, validateEmail, validateStringLength } from '@/lib/api-error-handler'
+import { CUSTOMER_CONFIG, VALIDATION_CONFIG } from '@/lib/constants'
+import { decodeCursor, encodeCursor, sanitizeSearchTerm } from '@/lib/pagination'
+import type { Customer, CustomerForm, CustomerStats } from '@/types'
+
+const CUSTOMER_SELECT = `
+  id,
+  team_id,
+  name,
+  phone,
+  email,
+  address,
+  notes,
+  sms_opted_out_at,
+  email_opted_out_at,
+  created_by,
+  created_at,
+  updated_at,
+  reviews(count)
+`
+
+interface CustomerRow extends Omit<Customer, 'review_count'> {
+  reviews?: { count: number }[]
+}
+
+function formatCustomer(row: CustomerRow): Customer {
+  const { reviews, ...customer } = row
+  return { ...customer, review_count: reviews?.[0]?.count ?? 0 }
+}
+
+// Map customer errors: exceptions raised by the functions in
+// 031_customers.sql and contact details already taken by another customer
+function mapCustomerError(error: { code?: string; message: string }, fallback: string): never {
+  if (error.code === 'P0001') {
+    if (error.message.startsWith('Only ')) {
+      throw ApiErrorHandler.permissionDenied(error.message)
+    }
+    if (error.message === 'Customer not found') {
+      throw ApiErrorHandler.resourceNotFound('customer')
+    }
+    throw ApiErrorHandler.resourceConflict(error.message)
+  }
+  if (error.code === '23505') {
+    throw ApiErrorHandler.resourceConflict('Another customer already has this email or phone number')
+  }
+  console.error(`${fallback}:`, error)
+  throw ApiErrorHandler.databaseError(fallback, error)
+}
+
+/**
+ * Digits only, so "(555) 123-4567" and "555.123.4567" match. Keep in sync
+ * with public.normalize_phone in 031_customers.sql.
+ */
+export function normalizePhone(phone: string): string {
+  return phone.replace(/[^0-9]/g, '')
+}
+
+// Optional contact fields: blank clears the value
+function parseOptionalText(value: unknown, field: string, maxLength: number): string | null {
+  if (value === null) return null
+  if (typeof value !== 'string') {
+    throw ApiErrorHandler.validationError(`${field} must be a string`, { field, received: value })
+  }
+  const trimmed = value.trim()
+  return trimmed ? validateStringLength(trimmed, field, 1, maxLength) : null
+}
+
+function parseOptOut(value: unknown, field: string): string | null {
+  if (typeof value !== 'boolean') {
+    throw ApiErrorHandler.validationError(`${field} must be a boolean`, { field, received: value })
+  }
+  return value ? new Date().toISOString() : null
+}
+
+/**
+ * Validate the customer fields present in a request body. A name is required
+ * when creating a customer; missing fields are left out otherwise. The
+ * sms_opted_out and email_opted_out flags record when a customer asked not
+ * to be messaged.
+ */
+export function parseCustomerFields(
+  body: Record<string, unknown>,
+  { requireName = false }: { requireName?: boolean } = {}
+): CustomerForm {
+  const { name, phone, email, address, notes, sms_opted_out, email_opted_out } = body
+  const fields: CustomerForm = {}
+
+  if (name !== undefined || requireName) {
+    if (typeof name !== 'string') {
+      throw ApiErrorHandler.validationError('name is required', { field: 'name' })
+    }
+    fields.name = validateStringLength(name.trim(), 'name', 1, VALIDATION_CONFIG.MAX_CUSTOMER_NAME_LENGTH)
+  }
+
+  if (phone !== undefined) {
+    fields.phone = parseOptionalText(phone, 'phone', CUSTOMER_CONFIG.MAX_PHONE_LENGTH)
+    if (fields.phone && !normalizePhone(fields.phone)) {
+      throw ApiErrorHandler.validationError('phone must contain digits', { field: 'phone', received: phone })
+    }
+  }
+
+  if (email !== undefined) {
+    fields.email = parseOptionalText(email, 'email', CUSTOMER_CONFIG.MAX_EMAIL_LENGTH)
+    if (fields.email) validateEmail(fields.email)
+  }
+
+  if (address !== undefined) {
+    fields.address = parseOptionalText(address, 'address', CUSTOMER_CONFIG.MAX_ADDRESS_LENGTH)
+  }
+
+  if (notes !== undefined) {
+    fields.notes = parseOptionalText(notes, 'notes', CUSTOMER_CONFIG.MAX_NOTES_LENGTH)
+  }
+
+  if (sms_opted_out !== undefined) {
+    fields.sms_opted_out_at = parseOptOut(sms_opted_out, 'sms_opted_out')
+  }
+
+  if (email_opted_out !== undefined) {
+    fields.email_opted_out_at = parseOptOut(email_opted_out, 'email_opted_out')
+  }
+
+  return fields
+}
+
+/**
+ * Return the team's customer matching the email, phone or name, filling in
+ * contact details it was missing, or create one. Notes only apply to a new
+ * customer.
+ */
+export async function findOrCreateCustomer(
+  supabase: SupabaseClient,
+  teamId: string,
+  fields: CustomerForm & { name: string }
+): Promise<{ customer: Customer; created: boolean }> {
+  const { data: match, error } = await supabase.rpc('find_or_create_customer', {
+    team_uuid: teamId,
+    customer_name: fields.name,
+    customer_phone: fields.phone ?? null,
+    customer_email: fields.email ?? null,
+    customer_address: fields.address ?? null,
+    customer_notes: fields.notes ?? null
+  })
+
+  if (error) {
+    mapCustomerError(error, 'Failed to save customer')
+  }
+
+  const { customer_id: customerId, created } = match as { customer_id: string; created: boolean }
+
+  return { customer: await getCustomer(supabase, teamId, customerId), created }
+}
+
+/**
+ * A page of the team's customers, newest first. A search term matches the
+ * name, email or phone number, so it can back search-as-you-type.
+ */
+export async function searchCustomers(
+  supabase: SupabaseClient,
+  teamId: string,
+  { q, limit, cursor }: { q?: string | null; limit: number; cursor?: string | null }
+): Promise<{ customers: Customer[]; next_cursor: string | null }> {
+  let query = supabase
+    .from('customers')
+    .select(CUSTOMER_SELECT)
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  const term = q ? sanitizeSearchTerm(q) : ''
+  if (term) {
+    const filters = [`name.ilike.*${term}*`, `email_normalized.ilike.*${term.toLowerCase()}*`]
+    const digits = normalizePhone(term)
+    if (digits.length >= 3) {
+      filters.push(`phone_normalized.like.*${digits}*`)
+    }
+    query = query.or(filters.join(','))
+  }
+
+  if (cursor) {
+    const { created_at: createdAt, id } = decodeCursor(cursor)
+    query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`)
+  }
+
+  const { data: rows, error } = await query
+
+  if (error) {
+    console.error('Error fetching customers:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch customers', error)
+  }
+
+  const pageRows = (rows || []).slice(0, limit)
+  const lastRow = pageRows[pageRows.length - 1]
+
+  return {
+    customers: pageRows.map(formatCustomer),
+    next_cursor: (rows?.length || 0) > limit && lastRow
+      ? encodeCursor({ created_at: lastRow.created_at, id: lastRow.id })
+      : null
+  }
+}
+
+export async function getCustomer(supabase: SupabaseClient, teamId: string, customerId: string): Promise<Customer> {
+  const { data: customer, error } = await supabase
+    .from('customers')
+    .select(CUSTOMER_SELECT)
+    .eq('id', customerId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching customer:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch customer', error)
+  }
+
+  if (!customer) {
+    throw ApiErrorHandler.resourceNotFound('customer', customerId)
+  }
+
+  return formatCustomer(customer)
+}
+
+/**
+ * Update a customer's details. Renaming a customer doesn't change the name
+ * recorded on their past reviews.
+ */
+export async function updateCustomer(
+  supabase: SupabaseClient,
+  teamId: string,
+  customerId: string,
+  changes: CustomerForm
+): Promise<Customer> {
+  const { data: customer, error } = await supabase
+    .from('customers')
+    .update(changes)
+    .eq('id', customerId)
+    .eq('team_id', teamId)
+    .select(CUSTOMER_SELECT)
+    .maybeSingle()
+
+  if (error) {
+    mapCustomerError(error, 'Failed to update customer')
+  }
+
+  if (!customer) {
+    throw ApiErrorHandler.resourceNotFound('customer', customerId)
+  }
+
+  return formatCustomer(customer)
+}
+
+/**
+ * Remove a customer. Only customers without reviews can be removed, so a
+ * review never loses its customer.
+ */
+export async function deleteCustomer(supabase: SupabaseClient, teamId: string, customerId: string): Promise<void> {
+  const customer = await getCustomer(supabase, teamId, customerId)
+  if (customer.review_count) {
+    throw ApiErrorHandler.resourceConflict(
+      'Customers with reviews cannot be deleted',
+      { review_count: customer.review_count }
+    )
+  }
+
+  const { error } = await supabase
+    .from('customers')
+    .delete()
+    .eq('id', customerId)
+    .eq('team_id', teamId)
+
+  if (error) {
+    mapCustomerError(error, 'Failed to delete customer')
+  }
+}
+
+/**
+ * Customer totals for the team; rejected reviews don't count toward repeats
+ */
+export async function getCustomerStats(supabase: SupabaseClient, teamId: string): Promise<CustomerStats> {
+  const { data, error } = await supabase.rpc('get_customer_stats', { team_uuid: teamId })
+
+  if (error) {
+    mapCustomerError(error, 'Failed to fetch customer stats')
+  }
+
+  const row = data?.[0]
+  return {
+    total_customers: Number(row?.total_customers ?? 0),
+    repeat_customers: Number(row?.repeat_customers ?? 0),
+    reviews_from_repeat_customers: Number(row?.reviews_from_repeat_customers ?? 0)
+  }
+}
@@ -0,0 +1,83 @@
+import { promises as dns } from 'dns'
+import { DOMAIN_CONFIG } from '@/lib/constants'
+
+/**
+ * Looks up TXT records. Each record is returned as its list of string chunks,
+ * matching Node's dns.resolveTxt.
+ */
+export interface DnsTxtResolver {
+  resolveTxt(hostname: string): Promise<string[][]>
+}
+
+/**
+ * Resolver backed by the system's DNS
+ */
+export class NodeDnsTxtResolver implements DnsTxtResolver {
+  async resolveTxt(hostname: string): Promise<string[][]> {
+    try {
+      return await dns.resolveTxt(hostname)
+    } catch (error) {
+      // No records (or no such domain) just means "not verified yet"
+      const code = (error as NodeJS.ErrnoException).code
+      if (code === 'ENODATA' || code === 'ENOTFOUND') {
+        return []
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * Fixed records for local development and tests, e.g.
+ * DOMAIN_VERIFICATION_STUB_RECORDS='{"acme.com":["reviewboost-verification=abc123"]}'
+ */
+export class StubDnsTxtResolver implements DnsTxtResolver {
+  constructor(private records: Record<string, string[]> = parseStubRecords()) {}
+
+  async resolveTxt(hostname: string): Promise<string[][]> {
+    return (this.records[hostname] || []).map((record) => [record])
+  }
+}
+
+function parseStubRecords(): Record<string, string[]> {
+  const raw = process.env.DOMAIN_VERIFICATION_STUB_RECORDS
+  if (!raw) return {}
+
+  try {
+    return JSON.parse(raw)
+  } catch {
+    console.error('DOMAIN_VERIFICATION_STUB_RECORDS is not valid JSON; ignoring it')
+    return {}
+  }
+}
+
+/**
+ * Pick the resolver. DOMAIN_VERIFICATION_RESOLVER=dns|stub; dns is the default.
+ */
+export function getDnsTxtResolver(): DnsTxtResolver {
+  return process.env.DOMAIN_VERIFICATION_RESOLVER === 'stub'
+    ? new StubDnsTxtResolver()
+    : new NodeDnsTxtResolver()
+}
+
+/**
+ * The TXT record value a team publishes to prove it owns a domain
+ */
+export function expectedTxtRecord(verificationToken: string): string {
+  return `${DOMAIN_CONFIG.VERIFICATION_TXT_PREFIX}=${verificationToken}`
+}
+
+/**
+ * Check whether the domain ("@acme.com" or "acme.com") publishes the team's token
+ */
+export async function hasVerificationRecord(
+  resolver: DnsTxtResolver,
+  domainName: string,
+  verificationToken: string
+): Promise<boolean> {
+  const expected = expectedTxtRecord(verificationToken)
+  const records = await resolver.resolveTxt(domainName.replace(/^@/, ''))
+
+  // Long TXT values are split into chunks; join them back before comparing
+  return records.some((chunks) => chunks.join('').trim() === expected)
+}
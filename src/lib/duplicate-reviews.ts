@@ -0,0 +1,63 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+
+export interface DuplicateMatch {
+  id: string
+  customer_name: string
+  job_type: string
+  employee_id: string
+  status: string
+  created_at: string
+}
+
+/**
+ * Normalize a customer name for duplicate matching: lowercase, drop
+ * punctuation and collapse whitespace. Mirrors the generated
+ * reviews.customer_name_normalized column.
+ */
+export function normalizeCustomerName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Find the most recent non-rejected review in the team with the same
+ * normalized customer name and job type inside the window.
+ * Returns null when detection is disabled (window of 0 hours).
+ */
+export async function findDuplicateReview(
+  supabase: SupabaseClient,
+  teamId: string,
+  review: { customer_name: string; job_type: string },
+  windowHours: number,
+  now: Date = new Date()
+): Promise<DuplicateMatch | null> {
+  const normalizedName = normalizeCustomerName(review.customer_name)
+  if (windowHours <= 0 || !normalizedName) {
+    return null
+  }
+
+  const windowStart = new Date(now.getTime() - windowHours * 60 * 60 * 1000)
+
+  const { data: match, error } = await supabase
+    .from('reviews')
+    .select('id, customer_name, job_type, employee_id, status, created_at')
+    .eq('team_id', teamId)
+    .eq('job_type', review.job_type)
+    .eq('customer_name_normalized', normalizedName)
+    .neq('status', 'rejected')
+    .gte('created_at', windowStart.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error checking for duplicate reviews:', error)
+    throw ApiErrorHandler.databaseError('Failed to check for duplicate reviews', error)
+  }
+
+  return match
+}
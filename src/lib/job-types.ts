@@ -0,0 +1,285 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler, validateStringLength, validateUUID } from '@/lib/api-error-handler'
+import { POINT_RULES_CONFIG, TEAM_CONFIG, VALIDATION_CONFIG } from '@/lib/constants'
+import type { JobType, JobTypeForm, JobTypeMapping, UnmappedJobType } from '@/types'
+
+// Map catalog errors: exceptions raised by the functions in
+// 030_job_type_catalog.sql and duplicate names
+function mapJobTypeError(error: { code?: string; message: string }, fallback: string): never {
+  if (error.code === 'P0001') {
+    if (error.message.startsWith('Only ')) {
+      throw ApiErrorHandler.permissionDenied(error.message)
+    }
+    if (error.message === 'Job type not found') {
+      throw ApiErrorHandler.resourceNotFound('job type')
+    }
+    throw ApiErrorHandler.resourceConflict(error.message)
+  }
+  if (error.code === '23505') {
+    throw ApiErrorHandler.resourceConflict('This team already has a job type with that name')
+  }
+  console.error(`${fallback}:`, error)
+  throw ApiErrorHandler.databaseError(fallback, error)
+}
+
+/**
+ * Validate the job type fields present in a request body. A name is required
+ * when creating an entry; missing fields are left out otherwise.
+ */
+export function parseJobTypeFields(
+  body: Record<string, unknown>,
+  { requireName = false }: { requireName?: boolean } = {}
+): JobTypeForm {
+  const { name, points, is_active, sort_order } = body
+  const fields: JobTypeForm = {}
+
+  if (name !== undefined || requireName) {
+    if (typeof name !== 'string') {
+      throw ApiErrorHandler.validationError('name is required', { field: 'name' })
+    }
+    fields.name = validateStringLength(name.trim(), 'name', 1, VALIDATION_CONFIG.MAX_JOB_TYPE_LENGTH)
+  }
+
+  if (points !== undefined) {
+    if (
+      points !== null &&
+      (typeof points !== 'number' || !Number.isInteger(points) || points < 0 || points > POINT_RULES_CONFIG.MAX_RULE_POINTS)
+    ) {
+      throw ApiErrorHandler.validationError(
+        `points must be a whole number between 0 and ${POINT_RULES_CONFIG.MAX_RULE_POINTS}, or null to use the base points`,
+        { field: 'points', received: points }
+      )
+    }
+    fields.points = points
+  }
+
+  if (is_active !== undefined) {
+    if (typeof is_active !== 'boolean') {
+      throw ApiErrorHandler.validationError('is_active must be true or false', { field: 'is_active', received: is_active })
+    }
+    fields.is_active = is_active
+  }
+
+  if (sort_order !== undefined) {
+    if (typeof sort_order !== 'number' || !Number.isInteger(sort_order)) {
+      throw ApiErrorHandler.validationError('sort_order must be a whole number', { field: 'sort_order', received: sort_order })
+    }
+    fields.sort_order = sort_order
+  }
+
+  return fields
+}
+
+/**
+ * The team's job type catalog in display order, retired entries included
+ */
+export async function listJobTypes(supabase: SupabaseClient, teamId: string): Promise<JobType[]> {
+  const { data: jobTypes, error } = await supabase
+    .from('team_job_types')
+    .select('*')
+    .eq('team_id', teamId)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching job types:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch job types', error)
+  }
+
+  return jobTypes || []
+}
+
+/**
+ * Find the catalog entry a job type value refers to, ignoring case
+ */
+export async function findJobType(
+  supabase: SupabaseClient,
+  teamId: string,
+  value: string
+): Promise<JobType | null> {
+  const jobTypes = await listJobTypes(supabase, teamId)
+  const normalized = value.trim().toLowerCase()
+  return jobTypes.find(jobType => jobType.name.toLowerCase() === normalized) || null
+}
+
+/**
+ * Check a submitted job type against the team's catalog and return the
+ * entry's spelling. New reviews need an active entry; edits may keep a
+ * retired one. Teams that have emptied their catalog accept free text.
+ */
+export async function resolveJobTypeName(
+  supabase: SupabaseClient,
+  teamId: string,
+  value: string,
+  { allowInactive = false }: { allowInactive?: boolean } = {}
+): Promise<string> {
+  const jobTypes = await listJobTypes(supabase, teamId)
+  if (jobTypes.length === 0) {
+    return value.trim()
+  }
+
+  const normalized = value.trim().toLowerCase()
+  const match = jobTypes.find(jobType =>
+    jobType.name.toLowerCase() === normalized && (jobType.is_active || allowInactive)
+  )
+
+  if (!match) {
+    throw ApiErrorHandler.validationError(
+      'job_type must be one of the team\'s job types',
+      {
+        field: 'job_type',
+        received: value,
+        allowed: jobTypes.filter(jobType => jobType.is_active).map(jobType => jobType.name)
+      }
+    )
+  }
+
+  return match.name
+}
+
+export async function createJobType(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string,
+  fields: JobTypeForm
+): Promise<JobType> {
+  const existing = await listJobTypes(supabase, teamId)
+  if (existing.length >= TEAM_CONFIG.MAX_JOB_TYPES) {
+    throw ApiErrorHandler.validationError(
+      `A team can have at most ${TEAM_CONFIG.MAX_JOB_TYPES} job types`,
+      { max: TEAM_CONFIG.MAX_JOB_TYPES }
+    )
+  }
+
+  // New entries go to the end of the list unless placed explicitly
+  const lastSortOrder = existing.reduce((max, jobType) => Math.max(max, jobType.sort_order), 0)
+
+  const { data: jobType, error } = await supabase
+    .from('team_job_types')
+    .insert({
+      team_id: teamId,
+      name: fields.name,
+      points: fields.points ?? null,
+      is_active: fields.is_active ?? true,
+      sort_order: fields.sort_order ?? lastSortOrder + 1,
+      created_by: userId
+    })
+    .select()
+    .single()
+
+  if (error) {
+    mapJobTypeError(error, 'Failed to create job type')
+  }
+
+  return jobType
+}
+
+/**
+ * Update a catalog entry. Renaming it relabels the reviews linked to it.
+ */
+export async function updateJobType(
+  supabase: SupabaseClient,
+  teamId: string,
+  jobTypeId: string,
+  changes: JobTypeForm
+): Promise<JobType> {
+  const { data: jobType, error } = await supabase
+    .from('team_job_types')
+    .update(changes)
+    .eq('id', jobTypeId)
+    .eq('team_id', teamId)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    mapJobTypeError(error, 'Failed to update job type')
+  }
+
+  if (!jobType) {
+    throw ApiErrorHandler.resourceNotFound('job type', jobTypeId)
+  }
+
+  return jobType
+}
+
+/**
+ * Remove a catalog entry. Its reviews keep their job type text and show up
+ * as unmapped; deactivating the entry keeps them linked instead.
+ */
+export async function deleteJobType(supabase: SupabaseClient, teamId: string, jobTypeId: string): Promise<void> {
+  const { data: deleted, error } = await supabase
+    .from('team_job_types')
+    .delete()
+    .eq('id', jobTypeId)
+    .eq('team_id', teamId)
+    .select('id')
+
+  if (error) {
+    mapJobTypeError(error, 'Failed to delete job type')
+  }
+
+  if (!deleted || deleted.length === 0) {
+    throw ApiErrorHandler.resourceNotFound('job type', jobTypeId)
+  }
+}
+
+/**
+ * Job type values on the team's reviews that aren't linked to the catalog,
+ * most used first
+ */
+export async function getUnmappedJobTypes(supabase: SupabaseClient, teamId: string): Promise<UnmappedJobType[]> {
+  const { data, error } = await supabase.rpc('get_unmapped_job_types', { team_uuid: teamId })
+
+  if (error) {
+    mapJobTypeError(error, 'Failed to fetch unmapped job types')
+  }
+
+  return (data || []).map((row: UnmappedJobType) => ({
+    job_type: row.job_type,
+    review_count: Number(row.review_count)
+  }))
+}
+
+/**
+ * Validate the mappings list sent to the mapping tool
+ */
+export function parseJobTypeMappings(value: unknown): JobTypeMapping[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw ApiErrorHandler.validationError('mappings must be a non-empty list', { field: 'mappings' })
+  }
+
+  return value.map((mapping, index) => {
+    const field = `mappings[${index}]`
+    if (!mapping || typeof mapping.job_type !== 'string' || typeof mapping.job_type_id !== 'string') {
+      throw ApiErrorHandler.validationError(
+        `${field} must have a job_type and a job_type_id`,
+        { field, received: mapping }
+      )
+    }
+    return {
+      job_type: mapping.job_type,
+      job_type_id: validateUUID(mapping.job_type_id, `${field}.job_type_id`)
+    }
+  })
+}
+
+/**
+ * Relabel unlinked reviews onto catalog entries in one transaction. Points
+ * already awarded are kept. Returns the number of reviews updated.
+ */
+export async function mapJobTypes(
+  supabase: SupabaseClient,
+  teamId: string,
+  mappings: JobTypeMapping[]
+): Promise<number> {
+  const { data: updatedCount, error } = await supabase.rpc('map_team_job_types', {
+    team_uuid: teamId,
+    mappings
+  })
+
+  if (error) {
+    mapJobTypeError(error, 'Failed to map job types')
+  }
+
+  return updatedCount as number
+}
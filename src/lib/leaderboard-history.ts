@@ -0,0 +1,143 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import type { LeaderboardEntry, LeaderboardSnapshot } from '@/types'
+
+interface SnapshotEntryRow {
+  employee_id: string
+  rank: number
+  total_points: number
+  total_reviews: number
+  employee: { name: string } | { name: string }[] | null
+}
+
+interface SnapshotRow {
+  id: string
+  team_id: string
+  captured_at: string
+  entries: SnapshotEntryRow[] | null
+}
+
+/**
+ * Capture today's leaderboard snapshot for one team, or for every team when
+ * teamId is null (service role only). Returns the number of snapshots created.
+ */
+export async function captureLeaderboardSnapshots(
+  supabase: SupabaseClient,
+  teamId: string | null
+): Promise<number> {
+  const { data: createdCount, error } = await supabase
+    .rpc('capture_leaderboard_snapshots', { team_uuid: teamId })
+
+  if (error) {
+    console.error('Error capturing leaderboard snapshots:', error)
+    throw ApiErrorHandler.databaseError('Failed to capture leaderboard snapshots', error)
+  }
+
+  return createdCount || 0
+}
+
+/**
+ * Add previous rank and rank movement to leaderboard entries, comparing with
+ * the latest snapshot taken on or before compareBefore.
+ * Returns the snapshot time used, or null when there is no snapshot that old.
+ */
+export async function withRankMovement(
+  supabase: SupabaseClient,
+  teamId: string,
+  entries: LeaderboardEntry[],
+  compareBefore: Date
+): Promise<{ entries: LeaderboardEntry[]; comparedTo: string | null }> {
+  const { data: snapshot, error } = await supabase
+    .from('leaderboard_snapshots')
+    .select('id, captured_at, entries:leaderboard_snapshot_entries(employee_id, rank)')
+    .eq('team_id', teamId)
+    .lte('captured_at', compareBefore.toISOString())
+    .order('captured_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching leaderboard snapshot:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch leaderboard history', error)
+  }
+
+  if (!snapshot) {
+    return {
+      entries: entries.map(entry => ({ ...entry, previous_rank: null, rank_delta: null })),
+      comparedTo: null
+    }
+  }
+
+  const previousRanks = new Map<string, number>(
+    (snapshot.entries || []).map((entry: { employee_id: string; rank: number }) => [entry.employee_id, entry.rank])
+  )
+
+  return {
+    entries: entries.map(entry => {
+      const previousRank = previousRanks.get(entry.employee_id) ?? null
+      return {
+        ...entry,
+        previous_rank: previousRank,
+        rank_delta: previousRank !== null ? previousRank - entry.rank : null
+      }
+    }),
+    comparedTo: snapshot.captured_at
+  }
+}
+
+/**
+ * Load a team's most recent snapshots, newest first, optionally narrowed to
+ * one employee's entries
+ */
+export async function getLeaderboardHistory(
+  supabase: SupabaseClient,
+  teamId: string,
+  options: { limit: number; employeeId?: string | null }
+): Promise<LeaderboardSnapshot[]> {
+  let query = supabase
+    .from('leaderboard_snapshots')
+    .select(`
+      id,
+      team_id,
+      captured_at,
+      entries:leaderboard_snapshot_entries(
+        employee_id,
+        rank,
+        total_points,
+        total_reviews,
+        employee:users(name)
+      )
+    `)
+    .eq('team_id', teamId)
+    .order('captured_at', { ascending: false })
+    .limit(options.limit)
+
+  if (options.employeeId) {
+    query = query.eq('leaderboard_snapshot_entries.employee_id', options.employeeId)
+  }
+
+  const { data: rows, error } = await query
+
+  if (error) {
+    console.error('Error fetching leaderboard history:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch leaderboard history', error)
+  }
+
+  return ((rows || []) as SnapshotRow[]).map(row => ({
+    id: row.id,
+    team_id: row.team_id,
+    captured_at: row.captured_at,
+    entries: (row.entries || [])
+      .map(entry => {
+        const employee = Array.isArray(entry.employee) ? entry.employee[0] : entry.employee
+        return {
+          employee_id: entry.employee_id,
+          employee_name: employee?.name,
+          rank: entry.rank,
+          total_points: entry.total_points,
+          total_reviews: entry.total_reviews
+        }
+      })
+      .sort((a, b) => a.rank - b.rank)
+  }))
+}
@@ -0,0 +1,138 @@
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import { LEADERBOARD_PERIODS, TEAM_CONFIG } from '@/lib/constants'
+import type { LeaderboardPeriod, LeaderboardPeriodRange } from '@/types'
+
+interface ZonedDate {
+  year: number
+  month: number // 0-based, like Date
+  day: number
+  weekday: number // 0 = Sunday, like Date
+}
+
+// Calendar date of an instant as seen in the given timezone
+function getZonedDate(date: Date, timeZone: string): ZonedDate {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric'
+  }).formatToParts(date)
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value)
+
+  const year = part('year')
+  const month = part('month') - 1
+  const day = part('day')
+  return { year, month, day, weekday: new Date(Date.UTC(year, month, day)).getUTCDay() }
+}
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+function getTimezoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date)
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value)
+
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'))
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+// The instant local midnight starts on a calendar date in the timezone.
+// Date.UTC normalises overflowing months and days, e.g. month 12.
+function startOfZonedDay(year: number, month: number, day: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month, day)
+  const guess = wallClock - getTimezoneOffset(new Date(wallClock), timeZone)
+  // The offset can differ on the other side of a DST change
+  return new Date(wallClock - getTimezoneOffset(new Date(guess), timeZone))
+}
+
+/**
+ * The half-open [start, end) range of the calendar day containing `date` in
+ * the timezone, as UTC instants
+ */
+export function getZonedDayRange(date: Date, timeZone: string): { start: Date; end: Date } {
+  const today = getZonedDate(date, timeZone)
+  return {
+    start: startOfZonedDay(today.year, today.month, today.day, timeZone),
+    end: startOfZonedDay(today.year, today.month, today.day + 1, timeZone)
+  }
+}
+
+function parseBoundary(value: string | null, field: string): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw ApiErrorHandler.validationError(`${field} must be a valid date`, { field, received: value })
+  }
+  return date
+}
+
+/**
+ * Resolve a leaderboard period into a half-open [start, end) range, returned
+ * as UTC instants. Weeks start on Monday; months and quarters follow the
+ * calendar in the team's timezone. Custom periods take explicit from/to
+ * values. "all" has no bounds.
+ */
+export function resolveLeaderboardPeriod(
+  period: string | null,
+  from: string | null = null,
+  to: string | null = null,
+  now: Date = new Date(),
+  timeZone: string = TEAM_CONFIG.DEFAULT_TIMEZONE
+): LeaderboardPeriodRange {
+  const selected = (period || 'all') as LeaderboardPeriod
+
+  if (!(LEADERBOARD_PERIODS as readonly string[]).includes(selected)) {
+    throw ApiErrorHandler.validationError(
+      `period must be one of: ${LEADERBOARD_PERIODS.join(', ')}`,
+      { field: 'period', received: period }
+    )
+  }
+
+  const today = getZonedDate(now, timeZone)
+  let start: Date | null = null
+  let end: Date | null = null
+
+  switch (selected) {
+    case 'week': {
+      const monday = today.day - (today.weekday + 6) % 7
+      start = startOfZonedDay(today.year, today.month, monday, timeZone)
+      end = startOfZonedDay(today.year, today.month, monday + 7, timeZone)
+      break
+    }
+    case 'month':
+      start = startOfZonedDay(today.year, today.month, 1, timeZone)
+      end = startOfZonedDay(today.year, today.month + 1, 1, timeZone)
+      break
+    case 'quarter': {
+      const quarterMonth = Math.floor(today.month / 3) * 3
+      start = startOfZonedDay(today.year, quarterMonth, 1, timeZone)
+      end = startOfZonedDay(today.year, quarterMonth + 3, 1, timeZone)
+      break
+    }
+    case 'custom':
+      start = parseBoundary(from, 'from')
+      end = parseBoundary(to, 'to')
+      if (!start && !end) {
+        throw ApiErrorHandler.validationError('A custom period needs from and/or to', { field: 'from' })
+      }
+      if (start && end && start >= end) {
+        throw ApiErrorHandler.validationError('from must be before to', { field: 'from', received: from })
+      }
+      break
+    case 'all':
+      break
+  }
+
+  return {
+    period: selected,
+    start: start ? start.toISOString() : null,
+    end: end ? end.toISOString() : null
+  }
+}
@@ -0,0 +1,110 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import type { MyMembershipRequest, TeamMembershipRequest } from '@/types'
+
+/**
+ * Pending requests for a team, oldest first. Admin only.
+ */
+export async function listTeamMembershipRequests(
+  supabase: SupabaseClient,
+  teamId: string
+): Promise<TeamMembershipRequest[]> {
+  const { data, error } = await supabase
+    .rpc('get_team_membership_requests', { team_uuid: teamId })
+
+  if (error) {
+    console.error('Error fetching membership requests:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch membership requests', error)
+  }
+
+  return data || []
+}
+
+/**
+ * The signed-in user's pending and rejected requests
+ */
+export async function listMyMembershipRequests(
+  supabase: SupabaseClient
+): Promise<MyMembershipRequest[]> {
+  const { data, error } = await supabase.rpc('get_my_membership_requests')
+
+  if (error) {
+    console.error('Error fetching own membership requests:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch membership requests', error)
+  }
+
+  return data || []
+}
+
+/**
+ * Make sure a request belongs to the team in the URL before deciding it
+ */
+async function assertTeamRequest(
+  supabase: SupabaseClient,
+  teamId: string,
+  requestId: string
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('team_membership_requests')
+    .select('id')
+    .eq('id', requestId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching membership request:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch membership request', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('membership request', requestId)
+  }
+}
+
+/**
+ * Approve a pending request, adding the requester to the team as a member.
+ * Returns the new member's user id.
+ */
+export async function approveMembershipRequest(
+  supabase: SupabaseClient,
+  teamId: string,
+  requestId: string
+): Promise<string> {
+  await assertTeamRequest(supabase, teamId, requestId)
+
+  const { data: userId, error } = await supabase
+    .rpc('approve_membership_request', { request_uuid: requestId })
+
+  if (error) {
+    // Raised by the function when the request was already decided
+    if (error.code === 'P0001') {
+      throw ApiErrorHandler.resourceConflict(error.message)
+    }
+    console.error('Error approving membership request:', error)
+    throw ApiErrorHandler.databaseError('Failed to approve membership request', error)
+  }
+
+  return userId
+}
+
+/**
+ * Reject a pending request. The requester is not added to the team.
+ */
+export async function rejectMembershipRequest(
+  supabase: SupabaseClient,
+  teamId: string,
+  requestId: string
+): Promise<void> {
+  await assertTeamRequest(supabase, teamId, requestId)
+
+  const { error } = await supabase
+    .rpc('reject_membership_request', { request_uuid: requestId })
+
+  if (error) {
+    if (error.code === 'P0001') {
+      throw ApiErrorHandler.resourceConflict(error.message)
+    }
+    console.error('Error rejecting membership request:', error)
+    throw ApiErrorHandler.databaseError('Failed to reject membership request', error)
+  }
+}
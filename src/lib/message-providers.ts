@@ -0,0 +1,234 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import { getEmailSender, type EmailSender } from '@/lib/email-sender'
+import { REVIEW_REQUEST_MESSAGE_CONFIG } from '@/lib/constants'
+import type { MessageChannel, MessageDeliveryStatus } from '@/types'
+
+export interface OutgoingMessage {
+  channel: MessageChannel
+  to: string // E.164 phone number for SMS, address for email
+  subject?: string
+  text: string
+  html?: string
+  // Where the provider reports delivery updates, if it supports them
+  statusCallbackUrl?: string
+}
+
+export interface MessageDelivery {
+  providerMessageId: string | null
+  status: MessageDeliveryStatus
+}
+
+/**
+ * Sends texts or emails to customers. Implementations should throw when a
+ * message cannot be handed off so the attempt is recorded as failed.
+ */
+export interface MessageProvider {
+  readonly name: string
+  send(message: OutgoingMessage): Promise<MessageDelivery>
+}
+
+/**
+ * Development provider: prints each message to the server log
+ */
+export class ConsoleMessageProvider implements MessageProvider {
+  readonly name = 'console'
+
+  async send(message: OutgoingMessage): Promise<MessageDelivery> {
+    console.log(`💬 ${message.channel.toUpperCase()} to ${message.to}\n${message.text}\n`)
+    return { providerMessageId: null, status: 'sent' }
+  }
+}
+
+/**
+ * Development provider: writes each message as a JSON file to an outbox
+ * directory
+ */
+export class OutboxMessageProvider implements MessageProvider {
+  readonly name = 'outbox'
+
+  constructor(private outboxDir: string) {}
+
+  async send(message: OutgoingMessage): Promise<MessageDelivery> {
+    const dir = path.resolve(this.outboxDir)
+    await fs.mkdir(dir, { recursive: true })
+
+    const recipient = message.to.replace(/[^a-z0-9@+._-]/gi, '_')
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.json`
+
+    await fs.writeFile(
+      path.join(dir, fileName),
+      JSON.stringify({ sent_at: new Date().toISOString(), ...message }, null, 2)
+    )
+    return { providerMessageId: fileName, status: 'sent' }
+  }
+}
+
+/**
+ * Email through the configured email transport (EMAIL_TRANSPORT)
+ */
+export class EmailMessageProvider implements MessageProvider {
+  readonly name: string
+
+  constructor(private sender: EmailSender = getEmailSender()) {
+    this.name = sender.transport
+  }
+
+  async send(message: OutgoingMessage): Promise<MessageDelivery> {
+    const { messageId } = await this.sender.send({
+      to: message.to,
+      subject: message.subject || '',
+      text: message.text,
+      html: message.html
+    })
+    return { providerMessageId: messageId, status: 'sent' }
+  }
+}
+
+// Twilio message states mapped onto ours; "accepted" and "sending" are
+// still on their way
+const TWILIO_STATUSES: Record<string, MessageDeliveryStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  undelivered: 'undelivered',
+  failed: 'failed',
+  canceled: 'failed'
+}
+
+export function mapTwilioStatus(status: string | null): MessageDeliveryStatus | null {
+  return (status && TWILIO_STATUSES[status]) || null
+}
+
+/**
+ * SMS through Twilio's Messages API. Needs TWILIO_ACCOUNT_SID,
+ * TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER or TWILIO_MESSAGING_SERVICE_SID.
+ */
+export class TwilioSmsProvider implements MessageProvider {
+  readonly name = 'twilio'
+
+  constructor(
+    private accountSid: string | undefined = process.env.TWILIO_ACCOUNT_SID,
+    private authToken: string | undefined = process.env.TWILIO_AUTH_TOKEN,
+    private from: string | undefined = process.env.TWILIO_FROM_NUMBER,
+    private messagingServiceSid: string | undefined = process.env.TWILIO_MESSAGING_SERVICE_SID
+  ) {
+    if (!accountSid || !authToken || !(from || messagingServiceSid)) {
+      throw new Error(
+        'TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER or TWILIO_MESSAGING_SERVICE_SID are required when SMS_TRANSPORT is "twilio"'
+      )
+    }
+  }
+
+  async send(message: OutgoingMessage): Promise<MessageDelivery> {
+    const form = new URLSearchParams({ To: message.to, Body: message.text })
+    if (this.messagingServiceSid) {
+      form.set('MessagingServiceSid', this.messagingServiceSid)
+    } else {
+      form.set('From', this.from!)
+    }
+    if (message.statusCallbackUrl) {
+      form.set('StatusCallback', message.statusCallbackUrl)
+    }
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: form
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(`Twilio rejected the message: ${data.message || response.statusText}`)
+    }
+
+    return {
+      providerMessageId: data.sid ?? null,
+      status: mapTwilioStatus(data.status) ?? 'queued'
+    }
+  }
+}
+
+/**
+ * Check the X-Twilio-Signature header of a webhook: an HMAC-SHA1 of the full
+ * URL followed by each POST parameter name and value, sorted by name
+ */
+export function verifyTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  signature: string | null,
+  authToken: string | undefined = process.env.TWILIO_AUTH_TOKEN
+): boolean {
+  if (!signature || !authToken) return false
+
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url)
+  const expected = createHmac('sha1', authToken).update(payload).digest('base64')
+
+  const expectedBuffer = Buffer.from(expected)
+  const signatureBuffer = Buffer.from(signature)
+  return expectedBuffer.length === signatureBuffer.length && timingSafeEqual(expectedBuffer, signatureBuffer)
+}
+
+/**
+ * Read a Twilio webhook's form parameters, rejecting requests without a valid
+ * signature. The signed URL is rebuilt from NEXT_PUBLIC_APP_URL when set, as
+ * the request URL seen behind a proxy differs from the one Twilio called.
+ */
+export async function readTwilioWebhook(req: NextRequest): Promise<Record<string, string>> {
+  if (!process.env.TWILIO_AUTH_TOKEN || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('Twilio webhooks are not configured: TWILIO_AUTH_TOKEN and SUPABASE_SERVICE_ROLE_KEY are required')
+    throw ApiErrorHandler.permissionDenied('Twilio webhooks are not configured')
+  }
+
+  const form = await req.formData()
+  const params: Record<string, string> = {}
+  form.forEach((value, key) => {
+    if (typeof value === 'string') params[key] = value
+  })
+
+  const url = process.env.NEXT_PUBLIC_APP_URL
+    ? new URL(req.nextUrl.pathname + req.nextUrl.search, process.env.NEXT_PUBLIC_APP_URL).toString()
+    : req.url
+  if (!verifyTwilioSignature(url, params, req.headers.get('x-twilio-signature'))) {
+    throw ApiErrorHandler.authInvalid('Invalid Twilio signature')
+  }
+
+  return params
+}
+
+/**
+ * Pick the provider for a channel. Email uses EMAIL_TRANSPORT (console, file
+ * or smtp); SMS uses SMS_TRANSPORT=console|outbox|twilio, console by default.
+ */
+export function getMessageProvider(channel: MessageChannel): MessageProvider {
+  if (channel === 'email') {
+    return new EmailMessageProvider()
+  }
+
+  const transport = process.env.SMS_TRANSPORT || 'console'
+
+  switch (transport) {
+    case 'twilio':
+      return new TwilioSmsProvider()
+    case 'outbox':
+      return new OutboxMessageProvider(process.env.SMS_OUTBOX_DIR || REVIEW_REQUEST_MESSAGE_CONFIG.DEFAULT_SMS_OUTBOX_DIR)
+    case 'console':
+      if (process.env.NODE_ENV === 'production') {
+        console.warn('SMS_TRANSPORT is "console" in production; texts are only written to the log')
+      }
+      return new ConsoleMessageProvider()
+    default:
+      throw new Error(`Unknown SMS_TRANSPORT "${transport}"`)
+  }
+}
@@ -0,0 +1,367 @@
+import { NextRequest } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+import { createUserClient, getRequestToken } from '@/lib/team-request'
+import { canViewLeaderboard, getTeamSettings } from '@/lib/team-settings'
+import type {
+  OrganizationAdmin,
+  OrganizationLeaderboardEntry,
+  OrganizationStatsApiResponse,
+  OrganizationSummary,
+  OrganizationTeam,
+  OrganizationTeamStats,
+  TeamRole
+} from '@/types'
+
+export interface OrganizationRequestContext {
+  supabase: SupabaseClient
+  user: {
+    id: string
+    email: string
+  }
+  organizationId: string
+  isAdmin: boolean
+}
+
+interface OrganizationRequestOptions {
+  requireAdmin?: boolean
+}
+
+/**
+ * Authenticate the caller and verify they can see an organization: its admins,
+ * and anyone on one of its teams. Mirrors getTeamRequestContext.
+ */
+export async function getOrganizationRequestContext(
+  req: NextRequest,
+  organizationId: string,
+  options: OrganizationRequestOptions = {}
+): Promise<OrganizationRequestContext> {
+  validateUUID(organizationId, 'organization_id')
+
+  const token = getRequestToken(req)
+  if (!token) {
+    throw ApiErrorHandler.authRequired()
+  }
+
+  const supabase = createUserClient(token)
+
+  const { data: { user: authUser }, error: authError } = await supabase.auth.getUser(token)
+  if (authError || !authUser) {
+    throw ApiErrorHandler.authInvalid()
+  }
+
+  const [access, admin] = await Promise.all([
+    supabase.rpc('user_has_organization_access', { user_uuid: authUser.id, org_uuid: organizationId }),
+    supabase.rpc('is_organization_admin', { user_uuid: authUser.id, org_uuid: organizationId })
+  ])
+
+  if (access.error || admin.error) {
+    console.error('Error checking organization access:', access.error || admin.error)
+    throw ApiErrorHandler.databaseError('Failed to check organization access', access.error || admin.error)
+  }
+
+  if (!access.data) {
+    throw ApiErrorHandler.permissionDenied('Access denied: you are not part of this organization')
+  }
+
+  if (options.requireAdmin && !admin.data) {
+    throw ApiErrorHandler.permissionDenied('Organization administrator access required')
+  }
+
+  return {
+    supabase,
+    user: {
+      id: authUser.id,
+      email: authUser.email || ''
+    },
+    organizationId,
+    isAdmin: !!admin.data
+  }
+}
+
+/**
+ * Raised by the organization functions for permission, lookup and
+ * last-admin failures
+ */
+function mapOrganizationFunctionError(error: { code?: string; message: string }, fallback: string): never {
+  if (error.code === 'P0001') {
+    if (error.message.startsWith('Only ')) {
+      throw ApiErrorHandler.permissionDenied(error.message)
+    }
+    if (error.message.endsWith(' not found')) {
+      throw ApiErrorHandler.resourceNotFound(error.message.replace(/ not found$/, '').toLowerCase())
+    }
+    throw ApiErrorHandler.resourceConflict(error.message)
+  }
+  console.error(`${fallback}:`, error)
+  throw ApiErrorHandler.databaseError(fallback, error)
+}
+
+export async function listMyOrganizations(supabase: SupabaseClient): Promise<OrganizationSummary[]> {
+  const { data, error } = await supabase.rpc('get_my_organizations')
+
+  if (error) {
+    console.error('Error fetching organizations:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch organizations', error)
+  }
+
+  return (data || []).map((organization: OrganizationSummary) => ({
+    ...organization,
+    team_count: Number(organization.team_count)
+  }))
+}
+
+export async function getOrganization(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<{ organization: OrganizationSummary; teams: OrganizationTeam[]; admins: OrganizationAdmin[] }> {
+  const [organizations, teamsResult, adminsResult] = await Promise.all([
+    listMyOrganizations(supabase),
+    supabase.rpc('get_organization_teams', { org_uuid: organizationId }),
+    supabase.rpc('get_organization_admins', { org_uuid: organizationId })
+  ])
+
+  const organization = organizations.find(org => org.id === organizationId)
+  if (!organization) {
+    throw ApiErrorHandler.resourceNotFound('organization', organizationId)
+  }
+
+  if (teamsResult.error || adminsResult.error) {
+    const error = teamsResult.error || adminsResult.error
+    console.error('Error fetching organization details:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch organization details', error)
+  }
+
+  const teams = (teamsResult.data || []).map((team: OrganizationTeam) => ({
+    ...team,
+    member_count: Number(team.member_count)
+  }))
+
+  return { organization, teams, admins: adminsResult.data || [] }
+}
+
+/**
+ * Create an organization with the caller as its first admin. Passing a team
+ * the caller administers moves it into the new organization.
+ */
+export async function createOrganization(
+  supabase: SupabaseClient,
+  input: { name: string; description?: string | null; teamId?: string | null }
+): Promise<string> {
+  const { data, error } = await supabase
+    .rpc('create_organization', {
+      org_name: input.name,
+      org_description: input.description ?? null,
+      first_team_id: input.teamId ?? null
+    })
+
+  if (error) {
+    mapOrganizationFunctionError(error, 'Failed to create organization')
+  }
+
+  return data as string
+}
+
+export async function updateOrganization(
+  supabase: SupabaseClient,
+  organizationId: string,
+  changes: { name?: string; description?: string | null }
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .update(changes)
+    .eq('id', organizationId)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error updating organization:', error)
+    throw ApiErrorHandler.databaseError('Failed to update organization', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('organization', organizationId)
+  }
+}
+
+/**
+ * Delete an organization. Its teams stay as they are, outside any organization.
+ */
+export async function deleteOrganization(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .delete()
+    .eq('id', organizationId)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error deleting organization:', error)
+    throw ApiErrorHandler.databaseError('Failed to delete organization', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('organization', organizationId)
+  }
+}
+
+/**
+ * Move a team into an organization, or out of it when organizationId is null
+ */
+export async function setTeamOrganization(
+  supabase: SupabaseClient,
+  teamId: string,
+  organizationId: string | null
+): Promise<void> {
+  const { error } = await supabase
+    .rpc('set_team_organization', {
+      team_uuid: teamId,
+      org_uuid: organizationId
+    })
+
+  if (error) {
+    mapOrganizationFunctionError(error, 'Failed to update team organization')
+  }
+}
+
+/**
+ * Make someone on one of the organization's teams an organization admin.
+ * Returns their user id.
+ */
+export async function addOrganizationAdmin(
+  supabase: SupabaseClient,
+  organizationId: string,
+  email: string
+): Promise<string> {
+  const { data, error } = await supabase
+    .rpc('add_organization_admin', {
+      org_uuid: organizationId,
+      admin_email: email
+    })
+
+  if (error) {
+    if (error.code === 'P0001' && error.message.startsWith('No one ')) {
+      throw ApiErrorHandler.validationError(error.message, { field: 'email' })
+    }
+    mapOrganizationFunctionError(error, 'Failed to add organization admin')
+  }
+
+  return data as string
+}
+
+export async function removeOrganizationAdmin(
+  supabase: SupabaseClient,
+  organizationId: string,
+  userId: string
+): Promise<void> {
+  const { error } = await supabase
+    .rpc('remove_organization_admin', {
+      org_uuid: organizationId,
+      target_user_id: userId
+    })
+
+  if (error) {
+    mapOrganizationFunctionError(error, 'Failed to remove organization admin')
+  }
+}
+
+/**
+ * Per-team dashboard stats for every team in the organization, plus their sum
+ */
+export async function getOrganizationStats(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<OrganizationStatsApiResponse> {
+  const { data, error } = await supabase
+    .rpc('get_organization_team_stats', { org_uuid: organizationId })
+
+  if (error) {
+    mapOrganizationFunctionError(error, 'Failed to fetch organization stats')
+  }
+
+  const teams: OrganizationTeamStats[] = (data || []).map((team: OrganizationTeamStats) => ({
+    ...team,
+    total_reviews: Number(team.total_reviews),
+    total_points: Number(team.total_points),
+    total_members: Number(team.total_members),
+    recent_reviews_count: Number(team.recent_reviews_count),
+    pending_reviews_count: Number(team.pending_reviews_count)
+  }))
+
+  const totals = teams.reduce((sum, team) => ({
+    total_reviews: sum.total_reviews + team.total_reviews,
+    total_points: sum.total_points + team.total_points,
+    total_members: sum.total_members + team.total_members,
+    recent_reviews_count: sum.recent_reviews_count + team.recent_reviews_count,
+    pending_reviews_count: sum.pending_reviews_count + team.pending_reviews_count
+  }), {
+    total_reviews: 0,
+    total_points: 0,
+    total_members: 0,
+    recent_reviews_count: 0,
+    pending_reviews_count: 0
+  })
+
+  return { organization_id: organizationId, totals, teams }
+}
+
+/**
+ * Teams can keep their leaderboard to managers and admins. The organization
+ * leaderboard leaves those teams out for everyone else, and callers who can't
+ * see the leaderboard of any of their own teams can't open it at all.
+ * Organization admins see every team.
+ */
+export async function assertOrganizationLeaderboardVisible(
+  context: OrganizationRequestContext
+): Promise<void> {
+  if (context.isAdmin) return
+
+  const { supabase, organizationId } = context
+  const { data, error } = await supabase.rpc('get_organization_teams', { org_uuid: organizationId })
+
+  if (error) {
+    mapOrganizationFunctionError(error, 'Failed to fetch organization teams')
+  }
+
+  const myTeams = ((data || []) as OrganizationTeam[]).filter(team => team.user_role)
+  const settings = await Promise.all(myTeams.map(team => getTeamSettings(supabase, team.id)))
+
+  if (!myTeams.some((team, i) => canViewLeaderboard(settings[i], team.user_role as TeamRole))) {
+    throw ApiErrorHandler.permissionDenied(
+      'Your teams only show the leaderboard to managers and admins',
+      'analytics.view'
+    )
+  }
+}
+
+export async function getOrganizationLeaderboard(
+  supabase: SupabaseClient,
+  organizationId: string,
+  period: { start: string | null; end: string | null },
+  limit: number
+): Promise<OrganizationLeaderboardEntry[]> {
+  const { data, error } = await supabase
+    .rpc('get_organization_leaderboard', {
+      org_uuid: organizationId,
+      limit_count: limit,
+      period_start: period.start,
+      period_end: period.end
+    })
+
+  if (error) {
+    mapOrganizationFunctionError(error, 'Failed to fetch organization leaderboard')
+  }
+
+  return (data || []).map((entry: OrganizationLeaderboardEntry) => ({
+    employee_id: entry.employee_id,
+    employee_name: entry.employee_name,
+    employee_email: entry.employee_email,
+    team_names: entry.team_names,
+    total_reviews: Number(entry.total_reviews),
+    total_points: entry.total_points,
+    rank: Number(entry.rank)
+  }))
+}
@@ -0,0 +1,64 @@
+import { PAGINATION_CONFIG } from '@/lib/constants'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+
+export interface PageCursor {
+  created_at: string
+  id: string
+}
+
+/**
+ * Encode a keyset cursor (created_at + id) as an opaque URL-safe string
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(`${cursor.created_at}|${cursor.id}`, 'utf8').toString('base64url')
+}
+
+// Timestamps as PostgREST returns them, e.g. 2024-05-01T12:30:00.123456+00:00
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.(\d{1,6}))?(?:Z|[+-]\d{2}:\d{2})$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Decode a cursor produced by encodeCursor, rejecting anything malformed.
+ * Callers interpolate the values into PostgREST filters, so the timestamp is
+ * rebuilt in UTC rather than passed through (keeping microseconds, which
+ * Date drops, so keyset pages don't skip rows).
+ */
+export function decodeCursor(value: string): PageCursor {
+  const decoded = Buffer.from(value, 'base64url').toString('utf8')
+  const [createdAt, id, ...rest] = decoded.split('|')
+  const timestamp = createdAt ? TIMESTAMP_PATTERN.exec(createdAt) : null
+  const time = createdAt ? new Date(createdAt).getTime() : NaN
+
+  if (!timestamp || Number.isNaN(time) || !id || !UUID_PATTERN.test(id) || rest.length > 0) {
+    throw ApiErrorHandler.validationError('Invalid cursor', { field: 'cursor', received: value })
+  }
+
+  const microseconds = (timestamp[1] || '').slice(3)
+  return {
+    created_at: new Date(time).toISOString().replace('Z', `${microseconds}Z`),
+    id: id.toLowerCase()
+  }
+}
+
+/**
+ * Parse a requested page size, clamped to PAGINATION_CONFIG.MAX_PAGE_SIZE
+ */
+export function parsePageSize(value: string | null): number {
+  if (!value) {
+    return PAGINATION_CONFIG.DEFAULT_PAGE_SIZE
+  }
+
+  const size = parseInt(value, 10)
+  if (Number.isNaN(size) || size < 1) {
+    throw ApiErrorHandler.validationError('limit must be a positive integer', { field: 'limit', received: value })
+  }
+
+  return Math.min(size, PAGINATION_CONFIG.MAX_PAGE_SIZE)
+}
+
+/**
+ * Strip characters that have meaning in PostgREST filter expressions
+ */
+export function sanitizeSearchTerm(value: string): string {
+  return value.replace(/[,()%*\\:"]/g, ' ').replace(/\s+/g, ' ').trim()
+}
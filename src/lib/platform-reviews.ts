@@ -0,0 +1,744 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler, validateStringLength } from '@/lib/api-error-handler'
+import { createServiceClient } from '@/lib/auth-utils'
+import { REVIEW_PLATFORMS, REVIEW_PLATFORM_CONFIG } from '@/lib/constants'
+import { decodeCursor, encodeCursor } from '@/lib/pagination'
+import { getReviewConnector, type FetchedPlatformReview } from '@/lib/review-connectors'
+import type {
+  PlatformReview,
+  ReviewPlatform,
+  ReviewPlatformConnection,
+  ReviewPlatformConnectionForm,
+  ReviewPlatformSyncResult
+} from '@/types'
+
+const CONNECTION_SELECT = `
+  id,
+  team_id,
+  platform,
+  external_id,
+  display_name,
+  is_active,
+  credentials_updated_at,
+  last_synced_at,
+  last_sync_status,
+  last_sync_error,
+  last_sync_imported,
+  last_sync_matched,
+  created_by,
+  created_at,
+  updated_at
+`
+
+const PLATFORM_REVIEW_SELECT = `
+  id,
+  team_id,
+  connection_id,
+  platform,
+  external_review_id,
+  reviewer_name,
+  rating,
+  text,
+  url,
+  posted_at,
+  review_id,
+  matched_at,
+  match_source,
+  created_at,
+  updated_at,
+  review:reviews(id, customer_name, created_at, employee:users!reviews_employee_id_fkey(name))
+`
+
+type Joined<T> = T | T[] | null
+
+interface PlatformReviewRow extends Omit<PlatformReview, 'review'> {
+  review: Joined<{
+    id: string
+    customer_name: string
+    created_at: string
+    employee: Joined<{ name: string }>
+  }>
+}
+
+// Map errors raised by the functions in 035_review_platform_connectors.sql
+// and duplicate connections
+function mapPlatformReviewError(error: { code?: string; message: string }, fallback: string): never {
+  if (error.code === 'P0001') {
+    if (error.message.startsWith('Only ')) {
+      throw ApiErrorHandler.permissionDenied(error.message)
+    }
+    if (error.message === 'Platform review not found') {
+      throw ApiErrorHandler.resourceNotFound('platform review')
+    }
+    if (error.message === 'Review not found') {
+      throw ApiErrorHandler.resourceNotFound('review')
+    }
+    throw ApiErrorHandler.resourceConflict(error.message)
+  }
+  if (error.code === '23505') {
+    throw ApiErrorHandler.resourceConflict('This team is already connected to that listing')
+  }
+  console.error(`${fallback}:`, error)
+  throw ApiErrorHandler.databaseError(fallback, error)
+}
+
+function first<T>(value: Joined<T>): T | undefined {
+  return (Array.isArray(value) ? value[0] : value) ?? undefined
+}
+
+function formatPlatformReview(row: PlatformReviewRow): PlatformReview {
+  const review = first(row.review)
+  return {
+    ...row,
+    rating: row.rating === null ? null : Number(row.rating),
+    review: review
+      ? {
+          id: review.id,
+          customer_name: review.customer_name,
+          created_at: review.created_at,
+          employee_name: first(review.employee)?.name ?? null
+        }
+      : undefined
+  }
+}
+
+export function parseReviewPlatform(value: unknown): ReviewPlatform {
+  if (!(REVIEW_PLATFORMS as readonly unknown[]).includes(value)) {
+    throw ApiErrorHandler.validationError(
+      `platform must be one of: ${REVIEW_PLATFORMS.join(', ')}`,
+      { field: 'platform', received: value }
+    )
+  }
+  if (value === 'fake' && process.env.NODE_ENV === 'production') {
+    throw ApiErrorHandler.validationError('The fake platform is only available in development', { field: 'platform' })
+  }
+  return value as ReviewPlatform
+}
+
+/**
+ * Validate the connection fields present in a request body. A platform and
+ * external id are required when connecting; the platform can't change later.
+ */
+export function parseReviewPlatformConnectionFields(
+  body: Record<string, unknown>,
+  { requirePlatform = false }: { requirePlatform?: boolean } = {}
+): ReviewPlatformConnectionForm {
+  const { platform, external_id, display_name, is_active, access_token } = body
+  const fields: ReviewPlatformConnectionForm = {}
+
+  if (requirePlatform) {
+    fields.platform = parseReviewPlatform(platform)
+  } else if (platform !== undefined) {
+    throw ApiErrorHandler.validationError('platform cannot be changed; connect the listing again instead', { field: 'platform' })
+  }
+
+  if (external_id !== undefined || requirePlatform) {
+    if (typeof external_id !== 'string') {
+      throw ApiErrorHandler.validationError('external_id is required', { field: 'external_id' })
+    }
+    fields.external_id = validateStringLength(
+      external_id.trim(),
+      'external_id',
+      1,
+      REVIEW_PLATFORM_CONFIG.MAX_EXTERNAL_ID_LENGTH
+    )
+  }
+
+  if (display_name !== undefined) {
+    if (display_name !== null && typeof display_name !== 'string') {
+      throw ApiErrorHandler.validationError('display_name must be a string', { field: 'display_name' })
+    }
+    fields.display_name = display_name?.trim()
+      ? validateStringLength(display_name.trim(), 'display_name', 1, REVIEW_PLATFORM_CONFIG.MAX_DISPLAY_NAME_LENGTH)
+      : null
+  }
+
+  if (is_active !== undefined) {
+    if (typeof is_active !== 'boolean') {
+      throw ApiErrorHandler.validationError('is_active must be true or false', { field: 'is_active', received: is_active })
+    }
+    fields.is_active = is_active
+  }
+
+  if (access_token !== undefined) {
+    if (typeof access_token !== 'string') {
+      throw ApiErrorHandler.validationError('access_token must be a string', { field: 'access_token' })
+    }
+    fields.access_token = validateStringLength(
+      access_token.trim(),
+      'access_token',
+      1,
+      REVIEW_PLATFORM_CONFIG.MAX_ACCESS_TOKEN_LENGTH
+    )
+  }
+
+  return fields
+}
+
+/**
+ * The team's connected review platform listings
+ */
+export async function listReviewPlatformConnections(
+  supabase: SupabaseClient,
+  teamId: string
+): Promise<ReviewPlatformConnection[]> {
+  const { data, error } = await supabase
+    .from('review_platform_connections')
+    .select(CONNECTION_SELECT)
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching review platform connections:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch review platform connections', error)
+  }
+
+  return (data || []) as ReviewPlatformConnection[]
+}
+
+export async function getReviewPlatformConnection(
+  supabase: SupabaseClient,
+  teamId: string,
+  connectionId: string
+): Promise<ReviewPlatformConnection> {
+  const { data, error } = await supabase
+    .from('review_platform_connections')
+    .select(CONNECTION_SELECT)
+    .eq('team_id', teamId)
+    .eq('id', connectionId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching review platform connection:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch review platform connection', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('review platform connection', connectionId)
+  }
+
+  return data as ReviewPlatformConnection
+}
+
+/**
+ * Connect a listing (admin). The access token, if any, is saved separately
+ * with saveReviewPlatformCredentials.
+ */
+export async function createReviewPlatformConnection(
+  supabase: SupabaseClient,
+  teamId: string,
+  createdBy: string,
+  { platform, external_id, display_name, is_active }: ReviewPlatformConnectionForm
+): Promise<ReviewPlatformConnection> {
+  const { data, error } = await supabase
+    .from('review_platform_connections')
+    .insert({
+      team_id: teamId,
+      platform,
+      external_id,
+      display_name: display_name ?? null,
+      is_active: is_active ?? true,
+      created_by: createdBy
+    })
+    .select(CONNECTION_SELECT)
+    .single()
+
+  if (error) {
+    mapPlatformReviewError(error, 'Failed to connect review platform')
+  }
+
+  return data as ReviewPlatformConnection
+}
+
+export async function updateReviewPlatformConnection(
+  supabase: SupabaseClient,
+  teamId: string,
+  connectionId: string,
+  { external_id, display_name, is_active }: ReviewPlatformConnectionForm
+): Promise<ReviewPlatformConnection> {
+  const changes = Object.fromEntries(
+    Object.entries({ external_id, display_name, is_active }).filter(([, value]) => value !== undefined)
+  )
+
+  if (Object.keys(changes).length === 0) {
+    return getReviewPlatformConnection(supabase, teamId, connectionId)
+  }
+
+  const { data, error } = await supabase
+    .from('review_platform_connections')
+    .update(changes)
+    .eq('team_id', teamId)
+    .eq('id', connectionId)
+    .select(CONNECTION_SELECT)
+    .maybeSingle()
+
+  if (error) {
+    mapPlatformReviewError(error, 'Failed to update review platform connection')
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('review platform connection', connectionId)
+  }
+
+  return data as ReviewPlatformConnection
+}
+
+/**
+ * Disconnect a listing. Its imported reviews go with it, which clears the
+ * verification of the reviews they were matched to.
+ */
+export async function deleteReviewPlatformConnection(
+  supabase: SupabaseClient,
+  teamId: string,
+  connectionId: string
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('review_platform_connections')
+    .delete()
+    .eq('team_id', teamId)
+    .eq('id', connectionId)
+    .select('id')
+
+  if (error) {
+    mapPlatformReviewError(error, 'Failed to remove review platform connection')
+  }
+
+  if (!data || data.length === 0) {
+    throw ApiErrorHandler.resourceNotFound('review platform connection', connectionId)
+  }
+}
+
+/**
+ * The client for credentials and syncing, which need the service role
+ */
+export function getReviewPlatformServiceClient(): SupabaseClient {
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('Review platform sync is not configured: SUPABASE_SERVICE_ROLE_KEY is required')
+    throw ApiErrorHandler.serviceUnavailable('Review platform sync is not configured')
+  }
+  return createServiceClient()
+}
+
+/**
+ * Store a connection's access token. Only the service role can read or write
+ * credentials.
+ */
+export async function saveReviewPlatformCredentials(
+  serviceClient: SupabaseClient,
+  connectionId: string,
+  accessToken: string
+): Promise<ReviewPlatformConnection> {
+  const { error } = await serviceClient
+    .from('review_platform_credentials')
+    .upsert({ connection_id: connectionId, access_token: accessToken })
+
+  if (error) {
+    console.error('Error saving review platform credentials:', error)
+    throw ApiErrorHandler.databaseError('Failed to save review platform credentials', error)
+  }
+
+  const { data, error: updateError } = await serviceClient
+    .from('review_platform_connections')
+    .update({ credentials_updated_at: new Date().toISOString() })
+    .eq('id', connectionId)
+    .select(CONNECTION_SELECT)
+    .single()
+
+  if (updateError) {
+    console.error('Error updating review platform connection:', updateError)
+    throw ApiErrorHandler.databaseError('Failed to update review platform connection', updateError)
+  }
+
+  return data as ReviewPlatformConnection
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+/**
+ * How well a platform reviewer's name fits a customer's: 2 for the same
+ * first and last name, 1 when only the first names agree and one side is
+ * shortened ("John D." on Yelp, or a customer saved as "John"), 0 otherwise
+ */
+export function scoreReviewerName(reviewerName: string, customerName: string): number {
+  const reviewer = nameTokens(reviewerName)
+  const customer = nameTokens(customerName)
+  if (reviewer.length === 0 || customer.length === 0 || reviewer[0] !== customer[0]) return 0
+
+  if (reviewer.length === 1 && customer.length === 1) return 2
+  if (reviewer.length === 1 || customer.length === 1) return 1
+
+  const reviewerLast = reviewer[reviewer.length - 1]
+  const customerLast = customer[customer.length - 1]
+  if (reviewerLast === customerLast) return 2
+  if ((reviewerLast.length === 1 && customerLast.startsWith(reviewerLast))
+    || (customerLast.length === 1 && reviewerLast.startsWith(customerLast))) {
+    return 1
+  }
+  return 0
+}
+
+interface MatchCandidate {
+  id: string
+  customer_name: string
+  created_at: string
+}
+
+/**
+ * Pair platform reviews with submitted reviews for the same customer created
+ * within the match window, oldest platform review first. The best name
+ * match wins, then the closest date; a shortened name that fits several
+ * customers is left for a manager to match.
+ */
+export function findReviewMatches(
+  platformReviews: Pick<PlatformReview, 'id' | 'reviewer_name' | 'posted_at'>[],
+  candidates: MatchCandidate[],
+  windowDays: number = REVIEW_PLATFORM_CONFIG.MATCH_WINDOW_DAYS
+): { platformReviewId: string; reviewId: string }[] {
+  const windowMs = windowDays * 24 * 60 * 60 * 1000
+  const available = new Map(candidates.map(candidate => [candidate.id, candidate]))
+  const matches: { platformReviewId: string; reviewId: string }[] = []
+
+  const ordered = [...platformReviews].sort((a, b) => a.posted_at.localeCompare(b.posted_at))
+  for (const platformReview of ordered) {
+    const postedAt = new Date(platformReview.posted_at).getTime()
+    const scored = Array.from(available.values())
+      .map(candidate => ({
+        candidate,
+        score: scoreReviewerName(platformReview.reviewer_name, candidate.customer_name),
+        distance: Math.abs(new Date(candidate.created_at).getTime() - postedAt)
+      }))
+      .filter(({ score, distance }) => score > 0 && distance <= windowMs)
+      .sort((a, b) => b.score - a.score || a.distance - b.distance)
+
+    const best = scored[0]
+    if (!best) continue
+
+    const customerNames = new Set(
+      scored
+        .filter(({ score }) => score === best.score)
+        .map(({ candidate }) => nameTokens(candidate.customer_name).join(' '))
+    )
+    if (best.score === 1 && customerNames.size > 1) continue
+
+    matches.push({ platformReviewId: platformReview.id, reviewId: best.candidate.id })
+    available.delete(best.candidate.id)
+  }
+
+  return matches
+}
+
+/**
+ * Match the team's unmatched platform reviews to its unverified submitted
+ * reviews, skipping any a manager unmatched by hand. Needs the service role;
+ * returns how many were matched.
+ */
+export async function matchPlatformReviews(serviceClient: SupabaseClient, teamId: string): Promise<number> {
+  const { data: unmatched, error } = await serviceClient
+    .from('platform_reviews')
+    .select('id, reviewer_name, posted_at')
+    .eq('team_id', teamId)
+    .is('review_id', null)
+    .is('match_source', null)
+    .neq('reviewer_name', '')
+    .order('posted_at', { ascending: false })
+    .limit(REVIEW_PLATFORM_CONFIG.MAX_REVIEWS_PER_SYNC)
+
+  if (error) {
+    console.error('Error fetching unmatched platform reviews:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch unmatched platform reviews', error)
+  }
+
+  if (!unmatched || unmatched.length === 0) return 0
+
+  const windowMs = REVIEW_PLATFORM_CONFIG.MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  const postedTimes = unmatched.map(row => new Date(row.posted_at).getTime())
+
+  const { data: candidates, error: candidatesError } = await serviceClient
+    .from('reviews')
+    .select('id, customer_name, created_at')
+    .eq('team_id', teamId)
+    .is('verified_at', null)
+    .neq('status', 'rejected')
+    .gte('created_at', new Date(Math.min(...postedTimes) - windowMs).toISOString())
+    .lte('created_at', new Date(Math.max(...postedTimes) + windowMs).toISOString())
+
+  if (candidatesError) {
+    console.error('Error fetching reviews to verify:', candidatesError)
+    throw ApiErrorHandler.databaseError('Failed to fetch reviews to verify', candidatesError)
+  }
+
+  let matched = 0
+  for (const { platformReviewId, reviewId } of findReviewMatches(unmatched, candidates || [])) {
+    const { data, error: matchError } = await serviceClient
+      .from('platform_reviews')
+      .update({ review_id: reviewId, matched_at: new Date().toISOString(), match_source: 'auto' })
+      .eq('id', platformReviewId)
+      .is('review_id', null)
+      .is('match_source', null)
+      .select('id')
+
+    // A manager may have matched or unmatched the review in the meantime
+    if (matchError && matchError.code !== '23505') {
+      console.error('Error matching platform review:', matchError)
+      throw ApiErrorHandler.databaseError('Failed to match platform review', matchError)
+    }
+
+    matched += data?.length ?? 0
+  }
+
+  return matched
+}
+
+async function importPlatformReviews(
+  serviceClient: SupabaseClient,
+  connection: ReviewPlatformConnection,
+  reviews: FetchedPlatformReview[]
+): Promise<number> {
+  if (reviews.length === 0) return 0
+
+  const { data: existing, error } = await serviceClient
+    .from('platform_reviews')
+    .select('external_review_id')
+    .eq('connection_id', connection.id)
+    .in('external_review_id', reviews.map(review => review.externalReviewId))
+
+  if (error) {
+    console.error('Error fetching platform reviews:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch platform reviews', error)
+  }
+
+  // Edited reviews are updated in place; their match is kept
+  const { error: upsertError } = await serviceClient
+    .from('platform_reviews')
+    .upsert(
+      reviews.map(review => ({
+        team_id: connection.team_id,
+        connection_id: connection.id,
+        platform: connection.platform,
+        external_review_id: review.externalReviewId,
+        reviewer_name: review.reviewerName,
+        rating: review.rating,
+        text: review.text,
+        url: review.url,
+        posted_at: review.postedAt
+      })),
+      { onConflict: 'connection_id,external_review_id' }
+    )
+
+  if (upsertError) {
+    console.error('Error importing platform reviews:', upsertError)
+    throw ApiErrorHandler.databaseError('Failed to import platform reviews', upsertError)
+  }
+
+  return reviews.length - (existing || []).length
+}
+
+/**
+ * Pull a connection's new and edited reviews, match them and record the
+ * outcome on the connection. Platform failures are recorded rather than
+ * thrown so one broken listing doesn't stop the others. Needs the service
+ * role.
+ */
+export async function syncReviewPlatformConnection(
+  serviceClient: SupabaseClient,
+  connection: ReviewPlatformConnection
+): Promise<ReviewPlatformSyncResult> {
+  const connector = getReviewConnector(connection.platform)
+  let imported = 0
+  let matched = 0
+  let syncError: string | null = null
+
+  try {
+    let accessToken: string | null = null
+    if (connector.requiresAccessToken) {
+      const { data, error } = await serviceClient
+        .from('review_platform_credentials')
+        .select('access_token')
+        .eq('connection_id', connection.id)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to load credentials: ${error.message}`)
+      }
+      accessToken = data?.access_token ?? null
+    }
+
+    const since = connection.last_synced_at
+      ? new Date(
+          new Date(connection.last_synced_at).getTime() - REVIEW_PLATFORM_CONFIG.SYNC_OVERLAP_DAYS * 24 * 60 * 60 * 1000
+        ).toISOString()
+      : null
+
+    const reviews = await connector.fetchReviews(
+      { externalId: connection.external_id, accessToken },
+      { since, limit: REVIEW_PLATFORM_CONFIG.MAX_REVIEWS_PER_SYNC }
+    )
+
+    imported = await importPlatformReviews(serviceClient, connection, reviews)
+    matched = await matchPlatformReviews(serviceClient, connection.team_id)
+  } catch (error) {
+    console.error(`Error syncing ${connection.platform} reviews for connection ${connection.id}:`, error)
+    syncError = error instanceof Error ? error.message.slice(0, 500) : 'Unknown error'
+  }
+
+  const { data, error } = await serviceClient
+    .from('review_platform_connections')
+    .update({
+      last_synced_at: new Date().toISOString(),
+      last_sync_status: syncError ? 'error' : 'ok',
+      last_sync_error: syncError,
+      last_sync_imported: imported,
+      last_sync_matched: matched
+    })
+    .eq('id', connection.id)
+    .select(CONNECTION_SELECT)
+    .single()
+
+  if (error) {
+    console.error('Error recording review platform sync:', error)
+    throw ApiErrorHandler.databaseError('Failed to record review platform sync', error)
+  }
+
+  return { connection: data as ReviewPlatformConnection, imported, matched }
+}
+
+/**
+ * Sync every active connection of teams that aren't archived. Needs the
+ * service role.
+ */
+export async function syncAllReviewPlatformConnections(
+  serviceClient: SupabaseClient
+): Promise<ReviewPlatformSyncResult[]> {
+  const { data, error } = await serviceClient
+    .from('review_platform_connections')
+    // The empty embed only filters on the team; none of its fields are returned
+    .select(`${CONNECTION_SELECT}, teams!inner()`)
+    .eq('is_active', true)
+    .is('teams.archived_at', null)
+    .order('last_synced_at', { ascending: true, nullsFirst: true })
+
+  if (error) {
+    console.error('Error fetching review platform connections:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch review platform connections', error)
+  }
+
+  const results: ReviewPlatformSyncResult[] = []
+  for (const connection of (data || []) as ReviewPlatformConnection[]) {
+    // One at a time keeps us inside the platforms' rate limits
+    results.push(await syncReviewPlatformConnection(serviceClient, connection))
+  }
+
+  return results
+}
+
+/**
+ * A page of the team's imported reviews, newest first (`matched` filters on
+ * whether they verify a submitted review)
+ */
+export async function listPlatformReviews(
+  supabase: SupabaseClient,
+  teamId: string,
+  {
+    matched,
+    connectionId,
+    limit,
+    cursor
+  }: {
+    matched?: boolean | null
+    connectionId?: string | null
+    limit: number
+    cursor?: string | null
+  }
+): Promise<{ platform_reviews: PlatformReview[]; next_cursor: string | null }> {
+  let query = supabase
+    .from('platform_reviews')
+    .select(PLATFORM_REVIEW_SELECT)
+    .eq('team_id', teamId)
+    .order('posted_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  if (matched === true) query = query.not('review_id', 'is', null)
+  if (matched === false) query = query.is('review_id', null)
+  if (connectionId) query = query.eq('connection_id', connectionId)
+
+  if (cursor) {
+    const { created_at: postedAt, id } = decodeCursor(cursor)
+    query = query.or(`posted_at.lt."${postedAt}",and(posted_at.eq."${postedAt}",id.lt.${id})`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching platform reviews:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch platform reviews', error)
+  }
+
+  const rows = (data || []) as unknown as PlatformReviewRow[]
+  const pageRows = rows.slice(0, limit)
+  const lastRow = pageRows[pageRows.length - 1]
+
+  return {
+    platform_reviews: pageRows.map(formatPlatformReview),
+    next_cursor: rows.length > limit && lastRow
+      ? encodeCursor({ created_at: lastRow.posted_at, id: lastRow.id })
+      : null
+  }
+}
+
+/**
+ * Match an imported review to a submitted one by hand, or clear its match
+ * with null (managers)
+ */
+export async function setPlatformReviewMatch(
+  supabase: SupabaseClient,
+  teamId: string,
+  platformReviewId: string,
+  reviewId: string | null
+): Promise<PlatformReview> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('platform_reviews')
+    .select('id')
+    .eq('team_id', teamId)
+    .eq('id', platformReviewId)
+    .maybeSingle()
+
+  if (fetchError) {
+    console.error('Error fetching platform review:', fetchError)
+    throw ApiErrorHandler.databaseError('Failed to fetch platform review', fetchError)
+  }
+
+  if (!existing) {
+    throw ApiErrorHandler.resourceNotFound('platform review', platformReviewId)
+  }
+
+  const { error } = await supabase.rpc('set_platform_review_match', {
+    platform_review_uuid: platformReviewId,
+    review_uuid: reviewId
+  })
+
+  if (error) {
+    mapPlatformReviewError(error, 'Failed to match platform review')
+  }
+
+  const { data, error: refetchError } = await supabase
+    .from('platform_reviews')
+    .select(PLATFORM_REVIEW_SELECT)
+    .eq('id', platformReviewId)
+    .single()
+
+  if (refetchError) {
+    console.error('Error fetching platform review:', refetchError)
+    throw ApiErrorHandler.databaseError('Failed to fetch platform review', refetchError)
+  }
+
+  return formatPlatformReview(data as unknown as PlatformReviewRow)
+}
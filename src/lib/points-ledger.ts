@@ -0,0 +1,215 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceClient } from '@/lib/auth-utils'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+
+/**
+ * Review awards are scored by the rules engine on the server, so the database
+ * only accepts them from the service role; members can't call the award
+ * functions with an amount of their choosing.
+ */
+export function getPointsServiceClient(): SupabaseClient {
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('Review awards are not configured: SUPABASE_SERVICE_ROLE_KEY is required')
+    throw ApiErrorHandler.serviceUnavailable('Review points are not configured')
+  }
+  return createServiceClient()
+}
+
+/**
+ * Record a review award in the append-only points ledger.
+ * The database derives the employee's balance from the ledger, so there is
+ * no read-modify-write of the points counter here.
+ */
+export async function awardReviewPoints(
+  serviceClient: SupabaseClient,
+  reviewId: string,
+  amount: number,
+  actingUserId: string,
+  metadata: Record<string, unknown> = {}
+): Promise<string | null> {
+  const { data: transactionId, error } = await serviceClient
+    .rpc('award_review_points', {
+      review_uuid: reviewId,
+      points_amount: amount,
+      acting_user_uuid: actingUserId,
+      award_metadata: metadata
+    })
+
+  if (error) {
+    console.error('Error recording review points:', error)
+    throw ApiErrorHandler.databaseError('Failed to award review points', error)
+  }
+
+  return transactionId
+}
+
+/**
+ * Remove a review whose award couldn't be recorded, so it isn't left approved
+ * without points. Its uploads are detached first so they can be submitted
+ * again. Failures are logged; the caller reports the original error.
+ */
+export async function discardUnawardedReview(serviceClient: SupabaseClient, reviewId: string): Promise<void> {
+  const { error: detachError } = await serviceClient
+    .from('review_attachments')
+    .update({ review_id: null })
+    .eq('review_id', reviewId)
+
+  if (detachError) {
+    console.error('Error detaching attachments from unawarded review:', detachError)
+  }
+
+  const { error } = await serviceClient
+    .from('reviews')
+    .delete()
+    .eq('id', reviewId)
+
+  if (error) {
+    console.error(`Error removing unawarded review ${reviewId}:`, error)
+  }
+}
+
+/**
+ * Record an admin adjustment (positive or negative) for an employee
+ */
+export async function adjustEmployeePoints(
+  supabase: SupabaseClient,
+  teamId: string,
+  employeeId: string,
+  amount: number,
+  note: string
+): Promise<string> {
+  const { data: transactionId, error } = await supabase
+    .rpc('adjust_employee_points', {
+      team_uuid: teamId,
+      employee_uuid: employeeId,
+      points_amount: amount,
+      adjustment_note: note
+    })
+
+  if (error) {
+    console.error('Error adjusting employee points:', error)
+    throw ApiErrorHandler.databaseError('Failed to adjust points', error)
+  }
+
+  return transactionId
+}
+
+/**
+ * Reverse a previous ledger transaction by recording its negation
+ */
+export async function reversePointTransaction(
+  supabase: SupabaseClient,
+  transactionId: string,
+  note?: string
+): Promise<string> {
+  const { data: reversalId, error } = await supabase
+    .rpc('reverse_point_transaction', {
+      transaction_uuid: transactionId,
+      reversal_note: note || null
+    })
+
+  if (error) {
+    console.error('Error reversing point transaction:', error)
+    throw ApiErrorHandler.databaseError('Failed to reverse point transaction', error)
+  }
+
+  return reversalId
+}
+
+/**
+ * Apply review edits and move the review's points to the recalculated total
+ * in a single database transaction. Returns the change in points.
+ */
+export async function updateReviewWithPoints(
+  supabase: SupabaseClient,
+  reviewId: string,
+  changes: Record<string, unknown>,
+  newPoints: number,
+  metadata: Record<string, unknown> = {},
+  note?: string
+): Promise<number> {
+  const { data: pointsDelta, error } = await supabase
+    .rpc('update_review_with_points', {
+      review_uuid: reviewId,
+      review_changes: changes,
+      new_points: newPoints,
+      points_metadata: metadata,
+      change_note: note || null
+    })
+
+  if (error) {
+    console.error('Error updating review points:', error)
+    throw ApiErrorHandler.databaseError('Failed to update review', error)
+  }
+
+  return pointsDelta
+}
+
+/**
+ * Delete a review and reverse every point it earned in a single database transaction.
+ * Returns the change in points (zero or negative).
+ */
+export async function deleteReviewWithReversal(
+  supabase: SupabaseClient,
+  reviewId: string,
+  note?: string
+): Promise<number> {
+  const { data: pointsDelta, error } = await supabase
+    .rpc('delete_review_with_reversal', {
+      review_uuid: reviewId,
+      deletion_note: note || null
+    })
+
+  if (error) {
+    console.error('Error deleting review:', error)
+    throw ApiErrorHandler.databaseError('Failed to delete review', error)
+  }
+
+  return pointsDelta
+}
+
+/**
+ * Approve a held review and award its points in a single database transaction.
+ * Returns the award transaction id, or null when the review earned no points.
+ */
+export async function approveReview(
+  reviewId: string,
+  amount: number,
+  actingUserId: string,
+  metadata: Record<string, unknown> = {}
+): Promise<string | null> {
+  const { data: transactionId, error } = await getPointsServiceClient()
+    .rpc('approve_review', {
+      review_uuid: reviewId,
+      points_amount: amount,
+      acting_user_uuid: actingUserId,
+      award_metadata: metadata
+    })
+
+  if (error) {
+    console.error('Error approving review:', error)
+    throw ApiErrorHandler.databaseError('Failed to approve review', error)
+  }
+
+  return transactionId
+}
+
+/**
+ * Reject a held review. No points are recorded.
+ */
+export async function rejectReview(
+  supabase: SupabaseClient,
+  reviewId: string,
+  reason: string
+): Promise<void> {
+  const { error } = await supabase
+    .rpc('reject_review', {
+      review_uuid: reviewId,
+      reason
+    })
+
+  if (error) {
+    console.error('Error rejecting review:', error)
+    throw ApiErrorHandler.databaseError('Failed to reject review', error)
+  }
+}
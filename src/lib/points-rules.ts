@@ -0,0 +1,409 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { POINTS_CONFIG, POINT_RULES_CONFIG } from '@/lib/constants'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import { findJobType } from '@/lib/job-types'
+import { getZonedDayRange } from '@/lib/leaderboard-periods'
+import { getTeamSettings } from '@/lib/team-settings'
+import type { JobType, PointRule, PointRuleType, PointsBreakdownItem, PointsCalculation } from '@/types'
+
+export const POINT_RULE_TYPES: PointRuleType[] = [
+  'base_points',
+  'job_type_points',
+  'photo_bonus',
+  'keyword_bonus',
+  'min_keyword_length',
+  'daily_cap',
+  'multiplier'
+]
+
+export interface ReviewForScoring {
+  job_type: string
+  has_photo: boolean
+  keywords: string
+}
+
+export interface ScoringContext {
+  now: Date
+  pointsAwardedToday: number
+  // The review's catalog entry, which may carry its own point value
+  jobType?: Pick<JobType, 'name' | 'points'> | null
+}
+
+// ============================================================================
+// CONFIG VALIDATION
+// ============================================================================
+
+function requirePositiveInteger(config: Record<string, unknown>, field: string, max: number): number {
+  const value = config[field]
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > max) {
+    throw ApiErrorHandler.validationError(
+      `config.${field} must be an integer between 0 and ${max}`,
+      { field: `config.${field}`, received: value }
+    )
+  }
+  return value
+}
+
+function requireNonEmptyString(config: Record<string, unknown>, field: string): string {
+  const value = config[field]
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw ApiErrorHandler.validationError(
+      `config.${field} is required`,
+      { field: `config.${field}`, received: value }
+    )
+  }
+  return value.trim()
+}
+
+/**
+ * Validate and normalize the config object for a rule type.
+ * Returns a config containing only the fields the evaluator reads.
+ */
+export function validatePointRuleConfig(
+  ruleType: PointRuleType,
+  config: unknown
+): Record<string, unknown> {
+  if (!POINT_RULE_TYPES.includes(ruleType)) {
+    throw ApiErrorHandler.validationError(
+      `Invalid rule_type. Must be one of: ${POINT_RULE_TYPES.join(', ')}`,
+      { field: 'rule_type', received: ruleType }
+    )
+  }
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw ApiErrorHandler.validationError('config must be an object', { field: 'config' })
+  }
+
+  const raw = config as Record<string, unknown>
+
+  switch (ruleType) {
+    case 'base_points':
+    case 'photo_bonus':
+      return { points: requirePositiveInteger(raw, 'points', POINT_RULES_CONFIG.MAX_RULE_POINTS) }
+
+    case 'job_type_points':
+      return {
+        job_type: requireNonEmptyString(raw, 'job_type'),
+        points: requirePositiveInteger(raw, 'points', POINT_RULES_CONFIG.MAX_RULE_POINTS)
+      }
+
+    case 'keyword_bonus': {
+      const keywords = raw.keywords
+      if (
+        !Array.isArray(keywords) ||
+        keywords.length === 0 ||
+        keywords.length > POINT_RULES_CONFIG.MAX_KEYWORDS_PER_RULE ||
+        !keywords.every(keyword => typeof keyword === 'string' && keyword.trim().length > 0)
+      ) {
+        throw ApiErrorHandler.validationError(
+          `config.keywords must be a list of 1 to ${POINT_RULES_CONFIG.MAX_KEYWORDS_PER_RULE} keywords`,
+          { field: 'config.keywords', received: keywords }
+        )
+      }
+      return {
+        keywords: (keywords as string[]).map(keyword => keyword.trim().toLowerCase()),
+        points: requirePositiveInteger(raw, 'points', POINT_RULES_CONFIG.MAX_RULE_POINTS)
+      }
+    }
+
+    case 'min_keyword_length':
+      return { min_length: requirePositiveInteger(raw, 'min_length', 1000) }
+
+    case 'daily_cap':
+      return { max_points: requirePositiveInteger(raw, 'max_points', POINT_RULES_CONFIG.MAX_RULE_POINTS * 100) }
+
+    case 'multiplier': {
+      const factor = raw.factor
+      if (typeof factor !== 'number' || factor <= 0 || factor > POINT_RULES_CONFIG.MAX_MULTIPLIER) {
+        throw ApiErrorHandler.validationError(
+          `config.factor must be greater than 0 and at most ${POINT_RULES_CONFIG.MAX_MULTIPLIER}`,
+          { field: 'config.factor', received: factor }
+        )
+      }
+      return { factor }
+    }
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function isRuleInEffect(rule: PointRule, now: Date): boolean {
+  if (!rule.is_active) return false
+  if (rule.starts_at && new Date(rule.starts_at) > now) return false
+  if (rule.ends_at && new Date(rule.ends_at) <= now) return false
+  return true
+}
+
+function numberFrom(config: Record<string, unknown>, field: string): number {
+  const value = config[field]
+  return typeof value === 'number' ? value : 0
+}
+
+/**
+ * Score a review against a team's rules.
+ *
+ * Order of evaluation: base points (a matching job type rule, then the job
+ * type's catalog value, replaces the base), photo and keyword bonuses,
+ * multipliers, then the daily cap. With no rules the result matches
+ * POINTS_CONFIG.
+ */
+export function evaluatePointRules(
+  rules: PointRule[],
+  review: ReviewForScoring,
+  context: ScoringContext
+): PointsCalculation {
+  const activeRules = rules.filter(rule => isRuleInEffect(rule, context.now))
+  const ofType = (type: PointRuleType) => activeRules.filter(rule => rule.rule_type === type)
+
+  const breakdown: PointsBreakdownItem[] = []
+  const violations: string[] = []
+
+  // Minimum keyword length is a gate: failing it means the review is not accepted
+  for (const rule of ofType('min_keyword_length')) {
+    const minLength = numberFrom(rule.config, 'min_length')
+    if (review.keywords.trim().length < minLength) {
+      violations.push(`Keywords must be at least ${minLength} characters for this team`)
+    }
+  }
+
+  // Base award: job type specific rule first, then the catalog entry's value,
+  // then team base rule, then global default
+  const normalizedJobType = review.job_type.trim().toLowerCase()
+  const jobTypeRule = ofType('job_type_points').find(rule =>
+    String(rule.config.job_type || '').trim().toLowerCase() === normalizedJobType
+  )
+  const baseRule = ofType('base_points')[0]
+
+  if (jobTypeRule) {
+    breakdown.push({
+      rule_id: jobTypeRule.id,
+      rule_type: 'job_type_points',
+      label: jobTypeRule.name,
+      points: numberFrom(jobTypeRule.config, 'points')
+    })
+  } else if (context.jobType && context.jobType.points !== null) {
+    breakdown.push({
+      rule_id: null,
+      rule_type: 'job_type_points',
+      label: `${context.jobType.name} job`,
+      points: context.jobType.points
+    })
+  } else if (baseRule) {
+    breakdown.push({
+      rule_id: baseRule.id,
+      rule_type: 'base_points',
+      label: baseRule.name,
+      points: numberFrom(baseRule.config, 'points')
+    })
+  } else {
+    breakdown.push({
+      rule_id: null,
+      rule_type: 'base_points',
+      label: 'Base review points',
+      points: POINTS_CONFIG.BASE_REVIEW_POINTS
+    })
+  }
+
+  if (review.has_photo) {
+    const photoRule = ofType('photo_bonus')[0]
+    breakdown.push({
+      rule_id: photoRule?.id || null,
+      rule_type: 'photo_bonus',
+      label: photoRule?.name || 'Photo bonus',
+      points: photoRule ? numberFrom(photoRule.config, 'points') : POINTS_CONFIG.PHOTO_BONUS_POINTS
+    })
+  }
+
+  // Keyword bonuses award the rule's points once per matched keyword
+  const reviewText = review.keywords.toLowerCase()
+  for (const rule of ofType('keyword_bonus')) {
+    const keywords = Array.isArray(rule.config.keywords) ? rule.config.keywords as string[] : []
+    const matches = keywords.filter(keyword => keyword && reviewText.includes(keyword.toLowerCase()))
+    if (matches.length > 0) {
+      breakdown.push({
+        rule_id: rule.id,
+        rule_type: 'keyword_bonus',
+        label: `${rule.name} (${matches.join(', ')})`,
+        points: numberFrom(rule.config, 'points') * matches.length
+      })
+    }
+  }
+
+  const subtotal = breakdown.reduce((sum, item) => sum + item.points, 0)
+
+  const multiplier = ofType('multiplier').reduce(
+    (product, rule) => product * (numberFrom(rule.config, 'factor') || 1),
+    1
+  )
+  let points = Math.round(subtotal * multiplier)
+
+  if (multiplier !== 1) {
+    const multiplierRules = ofType('multiplier')
+    breakdown.push({
+      rule_id: multiplierRules.length === 1 ? multiplierRules[0].id : null,
+      rule_type: 'multiplier',
+      label: `${multiplierRules.map(rule => rule.name).join(', ')} (x${multiplier})`,
+      points: points - subtotal
+    })
+  }
+
+  // Daily cap limits what one employee can earn per day; the strictest cap wins
+  let capped = false
+  const caps = ofType('daily_cap').map(rule => ({ rule, max: numberFrom(rule.config, 'max_points') }))
+  if (caps.length > 0) {
+    const strictest = caps.reduce((min, cap) => (cap.max < min.max ? cap : min))
+    const remaining = Math.max(0, strictest.max - context.pointsAwardedToday)
+    if (points > remaining) {
+      breakdown.push({
+        rule_id: strictest.rule.id,
+        rule_type: 'daily_cap',
+        label: strictest.rule.name,
+        points: remaining - points
+      })
+      points = remaining
+      capped = true
+    }
+  }
+
+  return {
+    points,
+    breakdown,
+    multiplier,
+    capped,
+    violations
+  }
+}
+
+// ============================================================================
+// DATA ACCESS
+// ============================================================================
+
+/**
+ * Load the team's active rules (time windows are checked during evaluation)
+ */
+export async function loadActivePointRules(
+  supabase: SupabaseClient,
+  teamId: string
+): Promise<PointRule[]> {
+  const { data: rules, error } = await supabase
+    .from('team_point_rules')
+    .select('*')
+    .eq('team_id', teamId)
+    .eq('is_active', true)
+
+  if (error) {
+    console.error('Error loading point rules:', error)
+    throw ApiErrorHandler.databaseError('Failed to load point rules', error)
+  }
+
+  return rules || []
+}
+
+/**
+ * Sum of review awards an employee received on the day containing `now` in
+ * the team's timezone, used by daily caps. A review being re-scored can be
+ * excluded from the total. The award functions re-check the cap under a lock,
+ * so concurrent submissions can't both spend the same allowance.
+ */
+export async function getPointsAwardedToday(
+  supabase: SupabaseClient,
+  teamId: string,
+  employeeId: string,
+  now: Date,
+  timeZone: string,
+  excludeReviewId?: string
+): Promise<number> {
+  const { start: startOfDay, end: endOfDay } = getZonedDayRange(now, timeZone)
+
+  let query = supabase
+    .from('point_transactions')
+    .select('amount')
+    .eq('team_id', teamId)
+    .eq('employee_id', employeeId)
+    .eq('reason', 'review_award')
+    .gte('created_at', startOfDay.toISOString())
+    .lt('created_at', endOfDay.toISOString())
+
+  if (excludeReviewId) {
+    query = query.neq('review_id', excludeReviewId)
+  }
+
+  const { data: transactions, error } = await query
+
+  if (error) {
+    console.error('Error loading today\'s points:', error)
+    throw ApiErrorHandler.databaseError('Failed to load today\'s points', error)
+  }
+
+  return (transactions || []).reduce((sum, transaction) => sum + transaction.amount, 0)
+}
+
+interface CalculateOptions {
+  // Point in time the rules are evaluated at (defaults to now)
+  now?: Date
+  // When the award is recorded, which picks the daily cap's day (defaults to
+  // now); held reviews are scored as submitted but awarded on approval
+  awardedAt?: Date
+  // Review being re-scored, excluded from the daily cap total
+  excludeReviewId?: string
+  // The team's timezone, which sets the daily cap's day (loaded when omitted)
+  timeZone?: string
+}
+
+/**
+ * Load the team's rules and the review's job type, and score the review for
+ * an employee
+ */
+export async function calculateReviewPoints(
+  supabase: SupabaseClient,
+  teamId: string,
+  employeeId: string,
+  review: ReviewForScoring,
+  options: CalculateOptions = {}
+): Promise<PointsCalculation> {
+  const now = options.now || new Date()
+  const timeZone = options.timeZone || (await getTeamSettings(supabase, teamId)).timezone
+  const [rules, pointsAwardedToday, jobType] = await Promise.all([
+    loadActivePointRules(supabase, teamId),
+    getPointsAwardedToday(supabase, teamId, employeeId, options.awardedAt || new Date(), timeZone, options.excludeReviewId),
+    findJobType(supabase, teamId, review.job_type)
+  ])
+
+  return evaluatePointRules(rules, review, { now, pointsAwardedToday, jobType })
+}
+
+/**
+ * Validate an optional time window for a rule, returning normalized ISO strings
+ */
+export function validateRuleWindow(
+  startsAt: unknown,
+  endsAt: unknown
+): { starts_at: string | null; ends_at: string | null } {
+  const parse = (value: unknown, field: string): string | null => {
+    if (value === null || value === undefined || value === '') return null
+    const date = new Date(String(value))
+    if (Number.isNaN(date.getTime())) {
+      throw ApiErrorHandler.validationError(
+        `${field} must be a valid date`,
+        { field, received: value }
+      )
+    }
+    return date.toISOString()
+  }
+
+  const window = {
+    starts_at: parse(startsAt, 'starts_at'),
+    ends_at: parse(endsAt, 'ends_at')
+  }
+
+  if (window.starts_at && window.ends_at && window.starts_at >= window.ends_at) {
+    throw ApiErrorHandler.validationError(
+      'starts_at must be before ends_at',
+      { field: 'ends_at', received: window.ends_at }
+    )
+  }
+
+  return window
+}
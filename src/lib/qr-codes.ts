@@ -0,0 +1,52 @@
+import QRCode from 'qrcode'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import { QR_CODE_FORMATS, REVIEW_REQUEST_CONFIG } from '@/lib/constants'
+import type { QrCodeFormat } from '@/types'
+
+export function parseQrCodeFormat(value: string | null): QrCodeFormat {
+  if (!value) return 'png'
+  if (!(QR_CODE_FORMATS as readonly string[]).includes(value)) {
+    throw ApiErrorHandler.validationError(
+      `format must be one of: ${QR_CODE_FORMATS.join(', ')}`,
+      { field: 'format', received: value }
+    )
+  }
+  return value as QrCodeFormat
+}
+
+export function parseQrCodeSize(value: string | null): number {
+  if (!value) return REVIEW_REQUEST_CONFIG.QR_DEFAULT_SIZE
+
+  const size = Number(value)
+  if (!Number.isInteger(size) || size < REVIEW_REQUEST_CONFIG.QR_MIN_SIZE || size > REVIEW_REQUEST_CONFIG.QR_MAX_SIZE) {
+    throw ApiErrorHandler.validationError(
+      `size must be a whole number of pixels between ${REVIEW_REQUEST_CONFIG.QR_MIN_SIZE} and ${REVIEW_REQUEST_CONFIG.QR_MAX_SIZE}`,
+      { field: 'size', received: value }
+    )
+  }
+  return size
+}
+
+/**
+ * Render a QR code locally, as a PNG image or SVG markup. Medium error
+ * correction keeps printed codes readable when slightly worn.
+ */
+export async function renderQrCode(
+  text: string,
+  format: QrCodeFormat,
+  size: number
+): Promise<{ body: Buffer | string; contentType: string }> {
+  const options = { errorCorrectionLevel: 'M' as const, margin: 2, width: size }
+
+  if (format === 'svg') {
+    return {
+      body: await QRCode.toString(text, { ...options, type: 'svg' }),
+      contentType: 'image/svg+xml'
+    }
+  }
+
+  return {
+    body: await QRCode.toBuffer(text, { ...options, type: 'png' }),
+    contentType: 'image/png'
+  }
+}
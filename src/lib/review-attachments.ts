@@ -0,0 +1,211 @@
+import { randomUUID } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ATTACHMENT_CONFIG } from '@/lib/constants'
+import { ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+import { AttachmentStorage } from '@/lib/attachment-storage'
+import type { Review, ReviewAttachment } from '@/types'
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+}
+
+/**
+ * Check an uploaded file against the allowed image types and size limit
+ */
+export function validateAttachmentFile(file: unknown): File {
+  if (!(file instanceof File)) {
+    throw ApiErrorHandler.validationError('file is required', { field: 'file' })
+  }
+
+  if (!(ATTACHMENT_CONFIG.ALLOWED_CONTENT_TYPES as readonly string[]).includes(file.type)) {
+    throw ApiErrorHandler.validationError(
+      `file must be one of: ${ATTACHMENT_CONFIG.ALLOWED_CONTENT_TYPES.join(', ')}`,
+      { field: 'file', received: file.type }
+    )
+  }
+
+  if (file.size <= 0 || file.size > ATTACHMENT_CONFIG.MAX_FILE_SIZE_BYTES) {
+    throw ApiErrorHandler.validationError(
+      `file must be smaller than ${Math.floor(ATTACHMENT_CONFIG.MAX_FILE_SIZE_BYTES / (1024 * 1024))}MB`,
+      { field: 'file', received: file.size }
+    )
+  }
+
+  return file
+}
+
+/**
+ * Store an uploaded photo and record its metadata. The attachment stays
+ * unlinked until the uploader submits a review with its id.
+ */
+export async function uploadReviewAttachment(
+  supabase: SupabaseClient,
+  storage: AttachmentStorage,
+  teamId: string,
+  userId: string,
+  file: File
+): Promise<ReviewAttachment> {
+  const attachmentId = randomUUID()
+  const storagePath = `${teamId}/${attachmentId}.${EXTENSIONS[file.type]}`
+
+  await storage.upload(storagePath, Buffer.from(await file.arrayBuffer()), file.type)
+
+  const { data: attachment, error } = await supabase
+    .from('review_attachments')
+    .insert({
+      id: attachmentId,
+      team_id: teamId,
+      uploaded_by: userId,
+      storage_path: storagePath,
+      file_name: file.name.slice(0, 255) || `photo.${EXTENSIONS[file.type]}`,
+      content_type: file.type,
+      size_bytes: file.size
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error recording attachment:', error)
+    await storage.remove([storagePath]).catch(removeError =>
+      console.error('Error cleaning up stored attachment:', removeError)
+    )
+    throw ApiErrorHandler.databaseError('Failed to save attachment', error)
+  }
+
+  return attachment
+}
+
+/**
+ * Validate attachment ids sent with a review submission. They must be the
+ * caller's own uploads in this team that are not attached to another review.
+ */
+export async function getLinkableAttachments(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string,
+  attachmentIds: unknown
+): Promise<string[]> {
+  if (attachmentIds === undefined || attachmentIds === null) {
+    return []
+  }
+
+  if (!Array.isArray(attachmentIds)) {
+    throw ApiErrorHandler.validationError('attachment_ids must be an array', { field: 'attachment_ids' })
+  }
+
+  const ids = Array.from(new Set(attachmentIds.map(id => validateUUID(String(id), 'attachment_ids'))))
+
+  if (ids.length > ATTACHMENT_CONFIG.MAX_ATTACHMENTS_PER_REVIEW) {
+    throw ApiErrorHandler.validationError(
+      `A review can have at most ${ATTACHMENT_CONFIG.MAX_ATTACHMENTS_PER_REVIEW} photos`,
+      { field: 'attachment_ids', received: ids.length }
+    )
+  }
+
+  if (ids.length === 0) {
+    return []
+  }
+
+  const { data: attachments, error } = await supabase
+    .from('review_attachments')
+    .select('id')
+    .in('id', ids)
+    .eq('team_id', teamId)
+    .eq('uploaded_by', userId)
+    .is('review_id', null)
+
+  if (error) {
+    console.error('Error validating attachments:', error)
+    throw ApiErrorHandler.databaseError('Failed to validate attachments', error)
+  }
+
+  if ((attachments?.length || 0) !== ids.length) {
+    throw ApiErrorHandler.validationError('One or more attachments are invalid or already used', {
+      field: 'attachment_ids'
+    })
+  }
+
+  return ids
+}
+
+export interface ReviewSubmission {
+  team_id: string
+  employee_id: string
+  customer_id: string
+  customer_name: string
+  job_type: string
+  keywords: string
+  // Held for approval when set
+  duplicate_of_review_id: string | null
+}
+
+/**
+ * Insert a review and attach validated uploads to it in one transaction, so
+ * a failed link never leaves a review behind. The database sets the review's
+ * has_photo flag from its attachments and records the caller as submitter.
+ */
+export async function submitReviewWithAttachments(
+  supabase: SupabaseClient,
+  submission: ReviewSubmission,
+  attachmentIds: string[]
+): Promise<Review> {
+  const { data: review, error } = await supabase
+    .rpc('submit_review', {
+      team_uuid: submission.team_id,
+      employee_uuid: submission.employee_id,
+      customer_uuid: submission.customer_id,
+      customer_name_text: submission.customer_name,
+      job_type_text: submission.job_type,
+      keywords_text: submission.keywords,
+      duplicate_of_uuid: submission.duplicate_of_review_id,
+      attachment_uuids: attachmentIds
+    })
+    .single()
+
+  if (error) {
+    if (error.code === 'P0001' && error.message.includes('attachments')) {
+      throw ApiErrorHandler.validationError(error.message, { field: 'attachment_ids' })
+    }
+    console.error('Error inserting review:', error)
+    throw ApiErrorHandler.databaseError('Failed to submit review', error)
+  }
+
+  return review as Review
+}
+
+/**
+ * Add short-lived URLs (full size and thumbnail) to an attachment
+ */
+export async function withAttachmentUrl(
+  storage: AttachmentStorage,
+  attachment: ReviewAttachment
+): Promise<ReviewAttachment> {
+  try {
+    const [url, thumbnailUrl] = await Promise.all([
+      storage.getUrl(attachment.storage_path),
+      storage.getUrl(attachment.storage_path, { thumbnailSize: ATTACHMENT_CONFIG.THUMBNAIL_SIZE })
+    ])
+    return { ...attachment, url, thumbnail_url: thumbnailUrl }
+  } catch (error) {
+    // A missing file should not break the whole listing
+    console.error('Error creating attachment URL:', error)
+    return attachment
+  }
+}
+
+/**
+ * Add attachment URLs to every review in a listing
+ */
+export async function withReviewAttachmentUrls(
+  storage: AttachmentStorage,
+  reviews: Review[]
+): Promise<Review[]> {
+  return Promise.all(reviews.map(async review => ({
+    ...review,
+    attachments: review.attachments?.length
+      ? await Promise.all(review.attachments.map(attachment => withAttachmentUrl(storage, attachment)))
+      : []
+  })))
+}
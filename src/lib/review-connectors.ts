@@ -0,0 +1,309 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { REVIEW_PLATFORM_CONFIG } from '@/lib/constants'
+import type { ReviewPlatform } from '@/types'
+
+export interface FetchedPlatformReview {
+  externalReviewId: string
+  reviewerName: string
+  rating: number | null // 0-5 stars; null when the platform has no star rating
+  text: string | null
+  url: string | null
+  postedAt: string // ISO timestamp
+}
+
+export interface ReviewConnectorAccount {
+  externalId: string
+  accessToken: string | null
+}
+
+/**
+ * Reads the reviews posted for one business on a review platform.
+ * Implementations throw when the platform can't be reached or rejects the
+ * account, so the sync is recorded as failed.
+ */
+export interface ReviewConnector {
+  readonly platform: ReviewPlatform
+  // Whether each connection needs its own token (Google, Facebook)
+  readonly requiresAccessToken: boolean
+  fetchReviews(
+    account: ReviewConnectorAccount,
+    options: { since: string | null; limit: number }
+  ): Promise<FetchedPlatformReview[]>
+}
+
+async function fetchJson<T>(label: string, url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init)
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    const message = data?.error?.message || data?.error_description || data?.error?.description || response.statusText
+    throw new Error(`${label} rejected the request: ${message}`)
+  }
+  return data as T
+}
+
+function requireToken(account: ReviewConnectorAccount, label: string): string {
+  if (!account.accessToken) {
+    throw new Error(`Add a ${label} access token to this connection before syncing`)
+  }
+  return account.accessToken
+}
+
+const GOOGLE_STAR_RATINGS: Record<string, number> = {
+  ONE: 1,
+  TWO: 2,
+  THREE: 3,
+  FOUR: 4,
+  FIVE: 5
+}
+
+interface GoogleReviewsPage {
+  reviews?: {
+    reviewId: string
+    reviewer?: { displayName?: string; isAnonymous?: boolean }
+    starRating?: string
+    comment?: string
+    createTime: string
+    updateTime?: string
+  }[]
+  nextPageToken?: string
+}
+
+/**
+ * Google Business Profile. The connection's token is an OAuth refresh token
+ * with the business.manage scope, exchanged with GOOGLE_CLIENT_ID and
+ * GOOGLE_CLIENT_SECRET on every sync; its external id is the location name,
+ * "accounts/{account}/locations/{location}".
+ */
+export class GoogleBusinessProfileConnector implements ReviewConnector {
+  readonly platform = 'google'
+  readonly requiresAccessToken = true
+
+  constructor(
+    private clientId: string | undefined = process.env.GOOGLE_CLIENT_ID,
+    private clientSecret: string | undefined = process.env.GOOGLE_CLIENT_SECRET
+  ) {}
+
+  private async getAccessToken(refreshToken: string): Promise<string> {
+    if (!this.clientId || !this.clientSecret) {
+      throw new Error('GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET are required to sync Google reviews')
+    }
+
+    const data = await fetchJson<{ access_token: string }>('Google', 'https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        refresh_token: refreshToken,
+        grant_type: 'refresh_token'
+      })
+    })
+    return data.access_token
+  }
+
+  async fetchReviews(
+    account: ReviewConnectorAccount,
+    { since, limit }: { since: string | null; limit: number }
+  ): Promise<FetchedPlatformReview[]> {
+    const accessToken = await this.getAccessToken(requireToken(account, 'Google'))
+    const reviews: FetchedPlatformReview[] = []
+    let pageToken: string | undefined
+
+    // Newest first, so paging stops at the first review older than `since`
+    do {
+      const params = new URLSearchParams({ pageSize: '50', orderBy: 'updateTime desc' })
+      if (pageToken) params.set('pageToken', pageToken)
+
+      const page = await fetchJson<GoogleReviewsPage>(
+        'Google',
+        `https://mybusiness.googleapis.com/v4/${account.externalId}/reviews?${params}`,
+        { headers: { Authorization: `Bearer ${accessToken}` } }
+      )
+
+      for (const review of page.reviews || []) {
+        if (since && (review.updateTime || review.createTime) < since) return reviews
+        reviews.push({
+          externalReviewId: review.reviewId,
+          reviewerName: review.reviewer?.isAnonymous ? '' : review.reviewer?.displayName || '',
+          rating: (review.starRating && GOOGLE_STAR_RATINGS[review.starRating]) || null,
+          text: review.comment || null,
+          url: null,
+          postedAt: new Date(review.createTime).toISOString()
+        })
+        if (reviews.length >= limit) return reviews
+      }
+
+      pageToken = page.nextPageToken
+    } while (pageToken)
+
+    return reviews
+  }
+}
+
+interface YelpReviewsPage {
+  reviews?: {
+    id: string
+    url?: string
+    text?: string
+    rating?: number
+    time_created: string
+    user?: { name?: string }
+  }[]
+}
+
+/**
+ * Yelp Fusion. Uses the app-wide YELP_API_KEY; the connection's external id
+ * is the business id or alias. Yelp only returns a business's newest few
+ * reviews, so frequent syncs matter.
+ */
+export class YelpConnector implements ReviewConnector {
+  readonly platform = 'yelp'
+  readonly requiresAccessToken = false
+
+  constructor(private apiKey: string | undefined = process.env.YELP_API_KEY) {}
+
+  async fetchReviews(
+    account: ReviewConnectorAccount,
+    { limit }: { since: string | null; limit: number }
+  ): Promise<FetchedPlatformReview[]> {
+    if (!this.apiKey) {
+      throw new Error('YELP_API_KEY is required to sync Yelp reviews')
+    }
+
+    const page = await fetchJson<YelpReviewsPage>(
+      'Yelp',
+      `https://api.yelp.com/v3/businesses/${encodeURIComponent(account.externalId)}/reviews?sort_by=newest&limit=${Math.min(limit, 50)}`,
+      { headers: { Authorization: `Bearer ${this.apiKey}` } }
+    )
+
+    // time_created is the business's local time without an offset; read as
+    // UTC it is off by hours at most, well inside the match window
+    return (page.reviews || []).map((review) => ({
+      externalReviewId: review.id,
+      reviewerName: review.user?.name || '',
+      rating: review.rating ?? null,
+      text: review.text || null,
+      url: review.url || null,
+      postedAt: new Date(`${review.time_created.replace(' ', 'T')}Z`).toISOString()
+    }))
+  }
+}
+
+interface FacebookRatingsPage {
+  data?: {
+    created_time: string
+    rating?: number
+    recommendation_type?: 'positive' | 'negative'
+    review_text?: string
+    reviewer?: { id?: string; name?: string }
+    open_graph_story?: { id: string }
+  }[]
+  paging?: { next?: string }
+}
+
+/**
+ * Facebook Page recommendations. The connection's token is a page access
+ * token with pages_read_user_content; its external id is the page id.
+ */
+export class FacebookConnector implements ReviewConnector {
+  readonly platform = 'facebook'
+  readonly requiresAccessToken = true
+
+  async fetchReviews(
+    account: ReviewConnectorAccount,
+    { since, limit }: { since: string | null; limit: number }
+  ): Promise<FetchedPlatformReview[]> {
+    const params = new URLSearchParams({
+      fields: 'created_time,rating,recommendation_type,review_text,reviewer{id,name},open_graph_story{id}',
+      limit: '100',
+      access_token: requireToken(account, 'Facebook')
+    })
+    const reviews: FetchedPlatformReview[] = []
+    let next: string | undefined = `https://graph.facebook.com/v19.0/${encodeURIComponent(account.externalId)}/ratings?${params}`
+
+    while (next) {
+      const page: FacebookRatingsPage = await fetchJson<FacebookRatingsPage>('Facebook', next)
+
+      for (const rating of page.data || []) {
+        const postedAt = new Date(rating.created_time).toISOString()
+        if (since && postedAt < since) return reviews
+        reviews.push({
+          // Recommendations without a story id get a stable id from who and when
+          externalReviewId: rating.open_graph_story?.id
+            || createHash('sha256').update(`${rating.reviewer?.id ?? ''}|${rating.created_time}`).digest('hex').slice(0, 32),
+          reviewerName: rating.reviewer?.name || '',
+          rating: rating.rating ?? null,
+          text: rating.review_text || null,
+          url: rating.open_graph_story ? `https://www.facebook.com/${rating.open_graph_story.id}` : null,
+          postedAt
+        })
+        if (reviews.length >= limit) return reviews
+      }
+
+      next = page.paging?.next
+    }
+
+    return reviews
+  }
+}
+
+interface FixtureReview {
+  id: string
+  reviewer_name: string
+  rating?: number | null
+  text?: string | null
+  url?: string | null
+  posted_at?: string
+  // Relative dates keep fixtures matching recently submitted reviews
+  posted_days_ago?: number
+}
+
+/**
+ * Development and test connector: reads reviews from a JSON fixture file
+ * (REVIEW_CONNECTOR_FIXTURES) keyed by the connection's external id
+ */
+export class FakeReviewConnector implements ReviewConnector {
+  readonly platform = 'fake'
+  readonly requiresAccessToken = false
+
+  constructor(
+    private fixturesPath: string = process.env.REVIEW_CONNECTOR_FIXTURES || REVIEW_PLATFORM_CONFIG.DEFAULT_FIXTURES_PATH
+  ) {}
+
+  async fetchReviews(
+    account: ReviewConnectorAccount,
+    { limit }: { since: string | null; limit: number }
+  ): Promise<FetchedPlatformReview[]> {
+    const raw = await fs.readFile(path.resolve(this.fixturesPath), 'utf8')
+    const fixtures: Record<string, FixtureReview[]> = JSON.parse(raw)
+
+    return (fixtures[account.externalId] || []).slice(0, limit).map((review) => ({
+      externalReviewId: review.id,
+      reviewerName: review.reviewer_name,
+      rating: review.rating ?? null,
+      text: review.text ?? null,
+      url: review.url ?? null,
+      postedAt: review.posted_at
+        ? new Date(review.posted_at).toISOString()
+        : new Date(Date.now() - (review.posted_days_ago ?? 0) * 24 * 60 * 60 * 1000).toISOString()
+    }))
+  }
+}
+
+/**
+ * The connector for a platform
+ */
+export function getReviewConnector(platform: ReviewPlatform): ReviewConnector {
+  switch (platform) {
+    case 'google':
+      return new GoogleBusinessProfileConnector()
+    case 'yelp':
+      return new YelpConnector()
+    case 'facebook':
+      return new FacebookConnector()
+    case 'fake':
+      return new FakeReviewConnector()
+  }
+}
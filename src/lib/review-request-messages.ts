@@ -0,0 +1,362 @@
+import { NextRequest } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import { MESSAGE_CHANNELS, REVIEW_REQUEST_MESSAGE_CONFIG } from '@/lib/constants'
+import { normalizePhone } from '@/lib/customers'
+import { escapeHtml } from '@/lib/email-sender'
+import { getMessageProvider, type OutgoingMessage } from '@/lib/message-providers'
+import { buildReviewRequestUrl, type ReviewRequestRow } from '@/lib/review-requests'
+import type {
+  MessageChannel,
+  MessageDeliveryStatus,
+  ReviewRequestMessage,
+  TeamSettings
+} from '@/types'
+
+const MESSAGE_SELECT = `
+  id,
+  team_id,
+  request_id,
+  customer_id,
+  channel,
+  recipient,
+  subject,
+  body,
+  provider,
+  provider_message_id,
+  status,
+  error,
+  sent_by,
+  status_updated_at,
+  created_at,
+  updated_at
+`
+
+export function parseMessageChannel(value: unknown): MessageChannel {
+  if (!(MESSAGE_CHANNELS as readonly unknown[]).includes(value)) {
+    throw ApiErrorHandler.validationError(
+      `channel must be one of: ${MESSAGE_CHANNELS.join(', ')}`,
+      { field: 'channel', received: value }
+    )
+  }
+  return value as MessageChannel
+}
+
+/**
+ * A customer's phone number in E.164 form for sending texts. Ten-digit
+ * numbers get SMS_DEFAULT_COUNTRY_CODE (1 when unset); returns null when the
+ * number can't be dialed.
+ */
+export function formatSmsRecipient(phone: string): string | null {
+  const digits = normalizePhone(phone)
+  if (phone.trim().startsWith('+')) return digits ? `+${digits}` : null
+  if (digits.length === 10) return `+${process.env.SMS_DEFAULT_COUNTRY_CODE || '1'}${digits}`
+  return digits.length > 10 ? `+${digits}` : null
+}
+
+/**
+ * Fill in {customer_name}, {employee_name}, {team_name} and {link}
+ */
+export function renderMessageTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(customer_name|employee_name|team_name|link)\}/g, (_, key: string) => values[key] ?? '')
+}
+
+function buildOptOutUrl(req: NextRequest, token: string): string {
+  return `${buildReviewRequestUrl(req, token)}/opt-out`
+}
+
+function buildStatusCallbackUrl(req: NextRequest): string {
+  const origin = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin
+  return new URL('/api/webhooks/twilio/status', origin).toString()
+}
+
+/**
+ * The text or email for a request, from the team's templates. Texts get the
+ * STOP notice unless the template mentions it; emails get an opt-out link.
+ */
+function buildMessage(
+  req: NextRequest,
+  token: string,
+  channel: MessageChannel,
+  { recipient, customerName, employeeName, teamName, settings }: {
+    recipient: string
+    customerName: string
+    employeeName: string
+    teamName: string
+    settings: TeamSettings
+  }
+): OutgoingMessage {
+  const values = {
+    customer_name: customerName,
+    employee_name: employeeName,
+    team_name: teamName,
+    link: buildReviewRequestUrl(req, token)
+  }
+
+  if (channel === 'sms') {
+    const text = renderMessageTemplate(
+      settings.review_request_sms_template || REVIEW_REQUEST_MESSAGE_CONFIG.DEFAULT_SMS_TEMPLATE,
+      values
+    )
+    return {
+      channel,
+      to: recipient,
+      text: /\bSTOP\b/i.test(text) ? text : `${text} ${REVIEW_REQUEST_MESSAGE_CONFIG.SMS_OPT_OUT_NOTICE}`,
+      statusCallbackUrl: buildStatusCallbackUrl(req)
+    }
+  }
+
+  const text = renderMessageTemplate(
+    settings.review_request_email_template || REVIEW_REQUEST_MESSAGE_CONFIG.DEFAULT_EMAIL_TEMPLATE,
+    values
+  )
+  const optOutUrl = buildOptOutUrl(req, token)
+  const html = escapeHtml(text)
+    .replace(escapeHtml(values.link), `<a href="${escapeHtml(values.link)}">${escapeHtml(values.link)}</a>`)
+    .replace(/\n/g, '<br>')
+
+  return {
+    channel,
+    to: recipient,
+    subject: renderMessageTemplate(
+      settings.review_request_email_subject || REVIEW_REQUEST_MESSAGE_CONFIG.DEFAULT_EMAIL_SUBJECT,
+      values
+    ),
+    text: `${text}\n\nDon't want these emails? ${optOutUrl}`,
+    html: `<p>${html}</p><p style="color:#6b7280;font-size:12px"><a href="${escapeHtml(optOutUrl)}">Stop getting review requests from ${escapeHtml(teamName)}</a></p>`
+  }
+}
+
+/**
+ * Hold back a send when the customer heard from the team on this channel
+ * recently, the request was sent too often, or the team hit its hourly cap
+ */
+async function assertCanSend(supabase: SupabaseClient, requestId: string, channel: MessageChannel): Promise<void> {
+  const { data, error } = await supabase
+    .rpc('get_review_request_send_state', { request_uuid: requestId, message_channel: channel })
+    .single()
+
+  if (error) {
+    if (error.code === 'P0001' && error.message.startsWith('Only ')) {
+      throw ApiErrorHandler.permissionDenied(error.message)
+    }
+    console.error('Error checking review request send limits:', error)
+    throw ApiErrorHandler.databaseError('Failed to check review request send limits', error)
+  }
+
+  const state = data as {
+    last_customer_message_at: string | null
+    team_messages_last_hour: number
+    request_message_count: number
+  }
+
+  if (Number(state.request_message_count) >= REVIEW_REQUEST_MESSAGE_CONFIG.MAX_MESSAGES_PER_REQUEST) {
+    throw ApiErrorHandler.rateLimited(
+      `This review request was already sent ${REVIEW_REQUEST_MESSAGE_CONFIG.MAX_MESSAGES_PER_REQUEST} times`
+    )
+  }
+
+  const cooldownMs = REVIEW_REQUEST_MESSAGE_CONFIG.CUSTOMER_COOLDOWN_HOURS * 60 * 60 * 1000
+  if (state.last_customer_message_at && Date.now() - new Date(state.last_customer_message_at).getTime() < cooldownMs) {
+    throw ApiErrorHandler.rateLimited(
+      `This customer was already sent a review request ${channel === 'sms' ? 'text' : 'email'} in the last ${REVIEW_REQUEST_MESSAGE_CONFIG.CUSTOMER_COOLDOWN_HOURS} hours`
+    )
+  }
+
+  if (Number(state.team_messages_last_hour) >= REVIEW_REQUEST_MESSAGE_CONFIG.TEAM_HOURLY_LIMIT) {
+    throw ApiErrorHandler.rateLimited('Your team has sent too many review requests in the last hour; try again later')
+  }
+}
+
+/**
+ * Text or email a review request to its customer and record the attempt,
+ * including failed ones, with the provider's delivery status
+ */
+export async function sendReviewRequestMessage(
+  supabase: SupabaseClient,
+  req: NextRequest,
+  request: ReviewRequestRow,
+  channel: MessageChannel,
+  { teamName, settings, sentBy }: { teamName: string; settings: TeamSettings; sentBy: string }
+): Promise<ReviewRequestMessage> {
+  const customer = Array.isArray(request.customer) ? request.customer[0] : request.customer
+  if (!customer) {
+    throw ApiErrorHandler.resourceConflict('Review card links are shared in person and cannot be sent')
+  }
+
+  if (request.review_id) {
+    throw ApiErrorHandler.resourceConflict('This review request has already been converted')
+  }
+
+  const optedOutAt = channel === 'sms' ? customer.sms_opted_out_at : customer.email_opted_out_at
+  if (optedOutAt) {
+    throw ApiErrorHandler.resourceConflict(
+      `${customer.name} opted out of review request ${channel === 'sms' ? 'texts' : 'emails'}`
+    )
+  }
+
+  const recipient = channel === 'sms'
+    ? customer.phone && formatSmsRecipient(customer.phone)
+    : customer.email
+  if (!recipient) {
+    throw ApiErrorHandler.resourceConflict(
+      channel === 'sms'
+        ? `Add a phone number with an area code for ${customer.name} before texting them`
+        : `Add an email address for ${customer.name} before emailing them`
+    )
+  }
+
+  await assertCanSend(supabase, request.id, channel)
+
+  const employee = Array.isArray(request.employee) ? request.employee[0] : request.employee
+  const message = buildMessage(req, request.token, channel, {
+    recipient,
+    customerName: customer.name,
+    employeeName: employee?.name || teamName,
+    teamName,
+    settings
+  })
+
+  let providerName: string = channel
+  let delivery: { providerMessageId: string | null; status: MessageDeliveryStatus; error: string | null }
+  try {
+    const provider = getMessageProvider(channel)
+    providerName = provider.name
+    delivery = { ...(await provider.send(message)), error: null }
+  } catch (error) {
+    console.error(`Error sending review request ${channel}:`, error)
+    delivery = {
+      providerMessageId: null,
+      status: 'failed',
+      error: error instanceof Error ? error.message.slice(0, 500) : 'Unknown error'
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('review_request_messages')
+    .insert({
+      team_id: request.team_id,
+      request_id: request.id,
+      customer_id: customer.id,
+      channel,
+      recipient,
+      subject: message.subject ?? null,
+      body: message.text,
+      provider: providerName,
+      provider_message_id: delivery.providerMessageId,
+      status: delivery.status,
+      error: delivery.error,
+      sent_by: sentBy
+    })
+    .select(MESSAGE_SELECT)
+    .single()
+
+  if (error) {
+    console.error('Error recording review request message:', error)
+    throw ApiErrorHandler.databaseError('Failed to record review request message', error)
+  }
+
+  if (delivery.status === 'failed') {
+    throw ApiErrorHandler.serviceUnavailable(
+      `The ${channel === 'sms' ? 'text' : 'email'} could not be sent; try again later`
+    )
+  }
+
+  return data as ReviewRequestMessage
+}
+
+/**
+ * Texts and emails sent for a request, newest first
+ */
+export async function listReviewRequestMessages(
+  supabase: SupabaseClient,
+  teamId: string,
+  requestId: string
+): Promise<ReviewRequestMessage[]> {
+  const { data, error } = await supabase
+    .from('review_request_messages')
+    .select(MESSAGE_SELECT)
+    .eq('team_id', teamId)
+    .eq('request_id', requestId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching review request messages:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch review request messages', error)
+  }
+
+  return (data || []) as ReviewRequestMessage[]
+}
+
+/**
+ * Apply a provider's delivery update. Needs the service role; returns
+ * whether a message matched.
+ */
+export async function updateMessageDeliveryStatus(
+  serviceClient: SupabaseClient,
+  { provider, providerMessageId, status, error }: {
+    provider: string
+    providerMessageId: string
+    status: MessageDeliveryStatus
+    error: string | null
+  }
+): Promise<boolean> {
+  const { data, error: updateError } = await serviceClient
+    .from('review_request_messages')
+    .update({ status, error, status_updated_at: new Date().toISOString() })
+    .eq('provider', provider)
+    .eq('provider_message_id', providerMessageId)
+    .select('id')
+
+  if (updateError) {
+    console.error('Error updating message delivery status:', updateError)
+    throw ApiErrorHandler.databaseError('Failed to update message delivery status', updateError)
+  }
+
+  return (data || []).length > 0
+}
+
+/**
+ * Record a STOP (or START) reply from a phone number on every customer with
+ * that number; the sending number is shared by all teams. Needs the service
+ * role. Returns how many customers changed.
+ */
+export async function setSmsOptOut(serviceClient: SupabaseClient, phone: string, optedOut: boolean): Promise<number> {
+  const digits = normalizePhone(phone)
+  if (!digits) return 0
+
+  // Customers are usually saved without the country code
+  const countryCode = process.env.SMS_DEFAULT_COUNTRY_CODE || '1'
+  const candidates = digits.startsWith(countryCode) && digits.length - countryCode.length === 10
+    ? [digits, digits.slice(countryCode.length)]
+    : [digits]
+
+  const { data, error } = await serviceClient
+    .from('customers')
+    .update({ sms_opted_out_at: optedOut ? new Date().toISOString() : null })
+    .in('phone_normalized', candidates)
+    .select('id')
+
+  if (error) {
+    console.error('Error recording SMS opt-out:', error)
+    throw ApiErrorHandler.databaseError('Failed to record SMS opt-out', error)
+  }
+
+  return (data || []).length
+}
+
+/**
+ * Opt a request's customer out of review request emails from the link in
+ * the email. Works without a signed-in user; returns whether the link was
+ * valid.
+ */
+export async function optOutReviewRequestEmail(supabase: SupabaseClient, token: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('opt_out_review_request_email', { request_token: token })
+
+  if (error) {
+    console.error('Error recording email opt-out:', error)
+    throw ApiErrorHandler.databaseError('Failed to record email opt-out', error)
+  }
+
+  return Boolean(data)
+}
@@ -0,0 +1,404 @@
+import { randomBytes } from 'crypto'
+import { NextRequest } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+import { REVIEW_REQUEST_CONFIG, REVIEW_REQUEST_STATUSES } from '@/lib/constants'
+import { decodeCursor, encodeCursor } from '@/lib/pagination'
+import { isRoleAtLeast } from '@/lib/team-roles'
+import type {
+  Customer,
+  LeaderboardPeriodRange,
+  ReviewRequest,
+  ReviewRequestMetrics,
+  ReviewRequestStatus,
+  TeamRole
+} from '@/types'
+
+const REVIEW_REQUEST_SELECT = `
+  id,
+  team_id,
+  employee_id,
+  customer_id,
+  token,
+  open_count,
+  first_opened_at,
+  last_opened_at,
+  review_id,
+  converted_at,
+  conversion_source,
+  last_message_channel,
+  last_message_status,
+  last_message_at,
+  created_by,
+  created_at,
+  updated_at,
+  customer:customers(id, team_id, name, phone, email, address, notes, sms_opted_out_at, email_opted_out_at, created_by, created_at, updated_at),
+  employee:users!review_requests_employee_id_fkey(name, email)
+`
+
+type Joined<T> = T | T[] | null
+
+export interface ReviewRequestRow extends Omit<ReviewRequest, 'url' | 'qr_url' | 'status' | 'customer' | 'employee'> {
+  customer: Joined<Customer>
+  employee: Joined<{ name: string; email: string }>
+}
+
+// Map review request errors raised by the functions in 032_review_requests.sql
+function mapReviewRequestError(error: { code?: string; message: string }, fallback: string): never {
+  if (error.code === 'P0001') {
+    if (error.message.startsWith('Only ')) {
+      throw ApiErrorHandler.permissionDenied(error.message)
+    }
+    if (error.message === 'Review request not found') {
+      throw ApiErrorHandler.resourceNotFound('review request')
+    }
+    if (error.message === 'Review not found') {
+      throw ApiErrorHandler.resourceNotFound('review')
+    }
+    throw ApiErrorHandler.resourceConflict(error.message)
+  }
+  console.error(`${fallback}:`, error)
+  throw ApiErrorHandler.databaseError(fallback, error)
+}
+
+function first<T>(value: Joined<T>): T | undefined {
+  return (Array.isArray(value) ? value[0] : value) ?? undefined
+}
+
+/**
+ * Public link for a request. NEXT_PUBLIC_APP_URL wins over the request
+ * origin so links are right behind proxies.
+ */
+export function buildReviewRequestUrl(req: NextRequest, token: string): string {
+  const origin = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin
+  return new URL(`${REVIEW_REQUEST_CONFIG.LINK_PATH}/${token}`, origin).toString()
+}
+
+/**
+ * The link encoded in a request's QR code; opening it records a scan
+ */
+export function buildReviewRequestQrUrl(req: NextRequest, token: string): string {
+  const url = new URL(buildReviewRequestUrl(req, token))
+  url.searchParams.set(REVIEW_REQUEST_CONFIG.QR_SOURCE_PARAM, 'qr')
+  return url.toString()
+}
+
+export function getReviewRequestStatus(row: Pick<ReviewRequestRow, 'review_id' | 'first_opened_at'>): ReviewRequestStatus {
+  if (row.review_id) return 'converted'
+  return row.first_opened_at ? 'opened' : 'sent'
+}
+
+/**
+ * Normalize a joined row into the API shape, with its public link and status
+ */
+export function formatReviewRequest(req: NextRequest, row: ReviewRequestRow): ReviewRequest {
+  const employee = first(row.employee)
+  return {
+    ...row,
+    url: buildReviewRequestUrl(req, row.token),
+    qr_url: buildReviewRequestQrUrl(req, row.token),
+    status: getReviewRequestStatus(row),
+    customer: first(row.customer),
+    employee: employee ? { name: employee.name, email: employee.email } : undefined
+  }
+}
+
+export function parseReviewRequestStatus(value: string | null): ReviewRequestStatus | null {
+  if (!value) return null
+  if (!(REVIEW_REQUEST_STATUSES as readonly string[]).includes(value)) {
+    throw ApiErrorHandler.validationError(
+      `status must be one of: ${REVIEW_REQUEST_STATUSES.join(', ')}`,
+      { field: 'status', received: value }
+    )
+  }
+  return value as ReviewRequestStatus
+}
+
+/**
+ * The employee a request is made for: the caller, or with `employee_id` a
+ * teammate when the caller is a manager
+ */
+export async function resolveReviewRequestEmployee(
+  supabase: SupabaseClient,
+  teamId: string,
+  { userId, role }: { userId: string; role: TeamRole },
+  employeeId: unknown
+): Promise<string> {
+  if (!employeeId || employeeId === userId) return userId
+
+  validateUUID(employeeId as string, 'employee_id')
+  if (!isRoleAtLeast(role, 'manager')) {
+    throw ApiErrorHandler.permissionDenied('Only managers can create review requests for other employees')
+  }
+
+  const { data: membership, error } = await supabase
+    .from('team_members')
+    .select('user_id')
+    .eq('team_id', teamId)
+    .eq('user_id', employeeId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error checking employee membership:', error)
+    throw ApiErrorHandler.databaseError('Failed to verify employee', error)
+  }
+
+  if (!membership) {
+    throw ApiErrorHandler.resourceNotFound('employee', employeeId as string)
+  }
+
+  return employeeId as string
+}
+
+export async function createReviewRequest(
+  supabase: SupabaseClient,
+  teamId: string,
+  { employeeId, customerId, createdBy }: { employeeId: string; customerId: string; createdBy: string }
+): Promise<ReviewRequestRow> {
+  const { data, error } = await supabase
+    .from('review_requests')
+    .insert({
+      team_id: teamId,
+      employee_id: employeeId,
+      customer_id: customerId,
+      token: randomBytes(REVIEW_REQUEST_CONFIG.TOKEN_BYTES).toString('base64url'),
+      created_by: createdBy
+    })
+    .select(REVIEW_REQUEST_SELECT)
+    .single()
+
+  if (error) {
+    mapReviewRequestError(error, 'Failed to create review request')
+  }
+
+  return data as unknown as ReviewRequestRow
+}
+
+/**
+ * An employee's card link, the customer-less request printed on their review
+ * card, created the first time it is asked for
+ */
+export async function getOrCreateReviewCard(
+  supabase: SupabaseClient,
+  teamId: string,
+  { employeeId, createdBy }: { employeeId: string; createdBy: string }
+): Promise<ReviewRequestRow> {
+  const findCard = async () => {
+    const { data, error } = await supabase
+      .from('review_requests')
+      .select(REVIEW_REQUEST_SELECT)
+      .eq('team_id', teamId)
+      .eq('employee_id', employeeId)
+      .is('customer_id', null)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching review card:', error)
+      throw ApiErrorHandler.databaseError('Failed to fetch review card', error)
+    }
+
+    return data as unknown as ReviewRequestRow | null
+  }
+
+  const existing = await findCard()
+  if (existing) return existing
+
+  const { data, error } = await supabase
+    .from('review_requests')
+    .insert({
+      team_id: teamId,
+      employee_id: employeeId,
+      customer_id: null,
+      token: randomBytes(REVIEW_REQUEST_CONFIG.TOKEN_BYTES).toString('base64url'),
+      created_by: createdBy
+    })
+    .select(REVIEW_REQUEST_SELECT)
+    .single()
+
+  if (error) {
+    // Created by a concurrent request; use that one
+    if (error.code === '23505') {
+      const card = await findCard()
+      if (card) return card
+    }
+    mapReviewRequestError(error, 'Failed to create review card')
+  }
+
+  return data as unknown as ReviewRequestRow
+}
+
+/**
+ * A page of the team's customer review requests, newest first. Members only
+ * see their own; the database enforces that too.
+ */
+export async function listReviewRequests(
+  supabase: SupabaseClient,
+  teamId: string,
+  {
+    employeeId,
+    customerId,
+    status,
+    limit,
+    cursor
+  }: {
+    employeeId?: string | null
+    customerId?: string | null
+    status?: ReviewRequestStatus | null
+    limit: number
+    cursor?: string | null
+  }
+): Promise<{ rows: ReviewRequestRow[]; next_cursor: string | null }> {
+  let query = supabase
+    .from('review_requests')
+    .select(REVIEW_REQUEST_SELECT)
+    .eq('team_id', teamId)
+    .not('customer_id', 'is', null)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  if (employeeId) query = query.eq('employee_id', employeeId)
+  if (customerId) query = query.eq('customer_id', customerId)
+  if (status === 'converted') query = query.not('review_id', 'is', null)
+  if (status === 'opened') query = query.is('review_id', null).not('first_opened_at', 'is', null)
+  if (status === 'sent') query = query.is('review_id', null).is('first_opened_at', null)
+
+  if (cursor) {
+    const { created_at: createdAt, id } = decodeCursor(cursor)
+    query = query.or(`created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching review requests:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch review requests', error)
+  }
+
+  const rows = (data || []) as unknown as ReviewRequestRow[]
+  const pageRows = rows.slice(0, limit)
+  const lastRow = pageRows[pageRows.length - 1]
+
+  return {
+    rows: pageRows,
+    next_cursor: rows.length > limit && lastRow
+      ? encodeCursor({ created_at: lastRow.created_at, id: lastRow.id })
+      : null
+  }
+}
+
+export async function getReviewRequest(
+  supabase: SupabaseClient,
+  teamId: string,
+  requestId: string
+): Promise<ReviewRequestRow> {
+  const { data, error } = await supabase
+    .from('review_requests')
+    .select(REVIEW_REQUEST_SELECT)
+    .eq('id', requestId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching review request:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch review request', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('review request', requestId)
+  }
+
+  return data as unknown as ReviewRequestRow
+}
+
+/**
+ * Record that a review came from a request (the requesting employee or a
+ * manager)
+ */
+export async function convertReviewRequest(supabase: SupabaseClient, requestId: string, reviewId: string): Promise<void> {
+  const { error } = await supabase.rpc('convert_review_request', {
+    request_uuid: requestId,
+    review_uuid: reviewId
+  })
+
+  if (error) {
+    mapReviewRequestError(error, 'Failed to convert review request')
+  }
+}
+
+/**
+ * Convert the open request for the review's customer, if there is one.
+ * Returns the converted request's id.
+ */
+export async function matchReviewRequest(supabase: SupabaseClient, reviewId: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('match_review_request', {
+    review_uuid: reviewId,
+    match_window_days: REVIEW_REQUEST_CONFIG.AUTO_MATCH_WINDOW_DAYS
+  })
+
+  if (error) {
+    mapReviewRequestError(error, 'Failed to match review request')
+  }
+
+  return (data as string | null) ?? null
+}
+
+/**
+ * Log an opened link (or a QR code scan) and return the team's review
+ * destination, or null when the link is unknown, its team is archived or has
+ * no destination
+ */
+export async function openReviewRequest(
+  supabase: SupabaseClient,
+  token: string,
+  { userAgent, source }: { userAgent: string | null; source: 'link' | 'qr' }
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('open_review_request', {
+    request_token: token,
+    opener_user_agent: userAgent,
+    open_source: source
+  })
+
+  if (error) {
+    mapReviewRequestError(error, 'Failed to open review request')
+  }
+
+  return (data as string | null) ?? null
+}
+
+/**
+ * Customer requests sent, opened and converted per employee for requests
+ * created in the period, with open and conversion rates, plus QR code scans
+ * in the period
+ */
+export async function getReviewRequestMetrics(
+  supabase: SupabaseClient,
+  teamId: string,
+  period: LeaderboardPeriodRange
+): Promise<ReviewRequestMetrics[]> {
+  const { data, error } = await supabase.rpc('get_review_request_metrics', {
+    team_uuid: teamId,
+    period_start: period.start,
+    period_end: period.end
+  })
+
+  if (error) {
+    mapReviewRequestError(error, 'Failed to fetch review request metrics')
+  }
+
+  return (data || []).map((row: Omit<ReviewRequestMetrics, 'open_rate' | 'conversion_rate'>) => {
+    const sent = Number(row.requests_sent)
+    const opened = Number(row.requests_opened)
+    const converted = Number(row.requests_converted)
+    return {
+      employee_id: row.employee_id,
+      employee_name: row.employee_name,
+      requests_sent: sent,
+      requests_opened: opened,
+      requests_converted: converted,
+      qr_scans: Number(row.qr_scans),
+      open_rate: sent > 0 ? opened / sent : 0,
+      conversion_rate: sent > 0 ? converted / sent : 0
+    }
+  })
+}
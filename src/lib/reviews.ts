@@ -0,0 +1,44 @@
+import type { Review } from '@/types'
+
+/**
+ * Column list for review listings. The employee join names the foreign key
+ * explicitly so it stays unambiguous if reviews gain more references to users.
+ */
+export const REVIEW_LIST_SELECT = `
+  id,
+  customer_name,
+  customer_id,
+  job_type,
+  job_type_id,
+  has_photo,
+  keywords,
+  employee_id,
+  team_id,
+  created_at,
+  updated_at,
+  updated_by,
+  status,
+  reviewed_by,
+  reviewed_at,
+  rejection_reason,
+  duplicate_of_review_id,
+  verified_at,
+  verified_platform,
+  attachments:review_attachments(id, team_id, review_id, storage_path, file_name, content_type, size_bytes, created_at),
+  employee:users!reviews_employee_id_fkey(name, email)
+`
+
+interface ReviewRow extends Omit<Review, 'employee'> {
+  employee: { name: string; email: string } | { name: string; email: string }[] | null
+}
+
+/**
+ * Normalize a joined review row into the Review API shape
+ */
+export function formatReview(row: ReviewRow): Review {
+  const employee = Array.isArray(row.employee) ? row.employee[0] : row.employee
+  return {
+    ...row,
+    employee: employee ? { name: employee.name, email: employee.email } : undefined
+  }
+}
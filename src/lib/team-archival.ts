@@ -0,0 +1,208 @@
+import { createHash, randomBytes } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import { getAttachmentStorage } from '@/lib/attachment-storage'
+import { createServiceClient } from '@/lib/auth-utils'
+import { TEAM_CONFIG } from '@/lib/constants'
+import { listTeamMembers } from '@/lib/team-members'
+import { getTeam, getTeamSettings } from '@/lib/team-settings'
+import type {
+  Customer,
+  JobType,
+  PlatformReview,
+  PointRule,
+  PointTransaction,
+  Review,
+  ReviewAttachment,
+  ReviewPlatformConnection,
+  ReviewRequestMessage,
+  TeamDomainMapping,
+  TeamExport
+} from '@/types'
+
+// PostgREST returns at most this many rows per request
+const EXPORT_PAGE_SIZE = 1000
+
+// Map exceptions raised by the archival functions in 029_team_archival.sql
+function mapArchivalFunctionError(error: { code?: string; message: string }, fallback: string): never {
+  if (error.code === 'P0001') {
+    if (error.message.startsWith('Only ')) {
+      throw ApiErrorHandler.permissionDenied(error.message)
+    }
+    if (error.message === 'Team not found') {
+      throw ApiErrorHandler.resourceNotFound('team')
+    }
+    if (error.message.startsWith('Confirmation token')) {
+      throw ApiErrorHandler.validationError(error.message, { field: 'confirmation_token' })
+    }
+    throw ApiErrorHandler.resourceConflict(error.message)
+  }
+  console.error(`${fallback}:`, error)
+  throw ApiErrorHandler.databaseError(fallback, error)
+}
+
+function hashConfirmationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Hide a team from its members' team lists and make its data read-only.
+ * Pending invitations are revoked.
+ */
+export async function archiveTeam(supabase: SupabaseClient, teamId: string): Promise<void> {
+  const { error } = await supabase.rpc('archive_team', { team_uuid: teamId })
+
+  if (error) {
+    mapArchivalFunctionError(error, 'Failed to archive team')
+  }
+}
+
+export async function restoreTeam(supabase: SupabaseClient, teamId: string): Promise<void> {
+  const { error } = await supabase.rpc('restore_team', { team_uuid: teamId })
+
+  if (error) {
+    mapArchivalFunctionError(error, 'Failed to restore team')
+  }
+}
+
+/**
+ * Issue a short-lived token the owner must send back to delete an archived
+ * team. Only its hash is stored; a new request replaces the previous token.
+ */
+export async function requestTeamDeletion(
+  supabase: SupabaseClient,
+  teamId: string
+): Promise<{ token: string; expiresAt: string }> {
+  const token = randomBytes(24).toString('base64url')
+
+  const { data, error } = await supabase.rpc('request_team_deletion', {
+    team_uuid: teamId,
+    confirmation_token_hash: hashConfirmationToken(token),
+    valid_for_minutes: TEAM_CONFIG.DELETION_CONFIRMATION_MINUTES
+  })
+
+  if (error) {
+    mapArchivalFunctionError(error, 'Failed to start team deletion')
+  }
+
+  return { token, expiresAt: data as string }
+}
+
+/**
+ * Permanently delete an archived team. Returns the export taken just before
+ * the delete so the caller can hand it to the owner.
+ */
+export async function deleteTeamPermanently(
+  supabase: SupabaseClient,
+  teamId: string,
+  token: string
+): Promise<TeamExport> {
+  const finalExport = await exportTeamData(supabase, teamId)
+
+  const { error } = await supabase.rpc('delete_team_permanently', {
+    team_uuid: teamId,
+    confirmation_token_hash: hashConfirmationToken(token)
+  })
+
+  if (error) {
+    mapArchivalFunctionError(error, 'Failed to delete team')
+  }
+
+  // Storage policies check team membership, which is gone now, so files are
+  // removed with the service role when it is configured
+  const storagePaths = finalExport.review_attachments.map(attachment => attachment.storage_path)
+  if (storagePaths.length > 0) {
+    const storageClient = process.env.SUPABASE_SERVICE_ROLE_KEY ? createServiceClient() : supabase
+    await getAttachmentStorage(storageClient).remove(storagePaths).catch(removeError =>
+      console.error(`Failed to remove ${storagePaths.length} attachment files for deleted team ${teamId}:`, removeError)
+    )
+  }
+
+  return finalExport
+}
+
+// Read every row of a team-scoped table, a page at a time
+async function selectAllTeamRows<T>(
+  supabase: SupabaseClient,
+  table: string,
+  teamId: string,
+  orderBy = 'created_at'
+): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('team_id', teamId)
+      .order(orderBy, { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + EXPORT_PAGE_SIZE - 1)
+
+    if (error) {
+      console.error(`Error exporting ${table}:`, error)
+      throw ApiErrorHandler.databaseError(`Failed to export ${table}`, error)
+    }
+
+    rows.push(...(data as T[]))
+    if (data.length < EXPORT_PAGE_SIZE) return rows
+  }
+}
+
+/**
+ * Everything a team holds: its details and settings, members, reviews with
+ * attachment metadata, customers, review requests, the points ledger, point rules, job types
+ * and email domains
+ */
+export async function exportTeamData(supabase: SupabaseClient, teamId: string): Promise<TeamExport> {
+  const [
+    team,
+    settings,
+    { members },
+    reviews,
+    reviewAttachments,
+    customers,
+    reviewRequests,
+    reviewRequestMessages,
+    reviewPlatformConnections,
+    platformReviews,
+    pointTransactions,
+    pointRules,
+    jobTypes,
+    domains
+  ] =
+    await Promise.all([
+      getTeam(supabase, teamId),
+      getTeamSettings(supabase, teamId),
+      listTeamMembers(supabase, teamId),
+      selectAllTeamRows<Review>(supabase, 'reviews', teamId),
+      selectAllTeamRows<ReviewAttachment>(supabase, 'review_attachments', teamId),
+      selectAllTeamRows<Customer>(supabase, 'customers', teamId),
+      selectAllTeamRows<TeamExport['review_requests'][number]>(supabase, 'review_requests', teamId),
+      selectAllTeamRows<ReviewRequestMessage>(supabase, 'review_request_messages', teamId),
+      selectAllTeamRows<ReviewPlatformConnection>(supabase, 'review_platform_connections', teamId),
+      selectAllTeamRows<PlatformReview>(supabase, 'platform_reviews', teamId),
+      selectAllTeamRows<PointTransaction>(supabase, 'point_transactions', teamId),
+      selectAllTeamRows<PointRule>(supabase, 'team_point_rules', teamId),
+      selectAllTeamRows<JobType>(supabase, 'team_job_types', teamId),
+      selectAllTeamRows<TeamDomainMapping>(supabase, 'team_domain_mapping', teamId)
+    ])
+
+  return {
+    exported_at: new Date().toISOString(),
+    team,
+    settings,
+    members,
+    reviews,
+    review_attachments: reviewAttachments,
+    customers,
+    review_requests: reviewRequests,
+    review_request_messages: reviewRequestMessages,
+    review_platform_connections: reviewPlatformConnections,
+    platform_reviews: platformReviews,
+    point_transactions: pointTransactions,
+    point_rules: pointRules,
+    job_types: jobTypes,
+    domains
+  }
+}
@@ -0,0 +1,272 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { DOMAIN_CONFIG, PUBLIC_EMAIL_DOMAINS } from '@/lib/constants'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import { createServiceClient } from '@/lib/auth-utils'
+import { DnsTxtResolver, expectedTxtRecord, hasVerificationRecord } from '@/lib/domain-verification'
+import type { TeamDomainMapping } from '@/types'
+
+const DOMAIN_SELECT = `
+  id,
+  team_id,
+  domain_name,
+  created_at,
+  verified_at,
+  verified_by,
+  verification_method,
+  verification_token
+`
+
+// One or more dot-separated labels followed by an alphabetic TLD
+const DOMAIN_PATTERN = /^(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))*\.[a-z]{2,63}$/
+
+/**
+ * Normalize user input ("Acme.com", "@acme.com", "jane@acme.com",
+ * "https://acme.com/") to the stored "@acme.com" form used by auto-assign-team
+ */
+export function normalizeDomain(input: string): string {
+  let domain = input.trim().toLowerCase()
+
+  domain = domain.replace(/^[a-z]+:\/\//, '')
+  domain = domain.split(/[/?#]/)[0]
+  domain = domain.slice(domain.lastIndexOf('@') + 1)
+  domain = domain.replace(/\.$/, '')
+
+  if (!domain || domain.length > DOMAIN_CONFIG.MAX_DOMAIN_LENGTH || !DOMAIN_PATTERN.test(domain)) {
+    throw ApiErrorHandler.validationError('Enter a valid email domain such as acme.com', {
+      field: 'domain',
+      received: input
+    })
+  }
+
+  if ((PUBLIC_EMAIL_DOMAINS as readonly string[]).includes(domain)) {
+    throw ApiErrorHandler.validationError(
+      `${domain} is a public email provider and cannot be mapped to a team`,
+      { field: 'domain', received: input }
+    )
+  }
+
+  return `@${domain}`
+}
+
+/**
+ * DNS instructions shown while a mapping is unverified
+ */
+export function withVerificationInstructions(mapping: TeamDomainMapping) {
+  return {
+    ...mapping,
+    verification_record: mapping.verified_at || !mapping.verification_token
+      ? null
+      : {
+          type: 'TXT' as const,
+          host: mapping.domain_name.replace(/^@/, ''),
+          value: expectedTxtRecord(mapping.verification_token)
+        }
+  }
+}
+
+export async function listTeamDomains(
+  supabase: SupabaseClient,
+  teamId: string
+): Promise<TeamDomainMapping[]> {
+  const { data, error } = await supabase
+    .from('team_domain_mapping')
+    .select(DOMAIN_SELECT)
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching team domains:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch domain mappings', error)
+  }
+
+  return data || []
+}
+
+/**
+ * Map an email domain to a team. Each domain can belong to one team only.
+ */
+export async function addTeamDomain(
+  supabase: SupabaseClient,
+  teamId: string,
+  domainInput: string
+): Promise<TeamDomainMapping> {
+  const domainName = normalizeDomain(domainInput)
+  const existing = await listTeamDomains(supabase, teamId)
+
+  if (existing.some((mapping) => mapping.domain_name === domainName)) {
+    throw ApiErrorHandler.resourceConflict(`${domainName} is already mapped to this team`, {
+      domain_name: domainName
+    })
+  }
+
+  if (existing.length >= DOMAIN_CONFIG.MAX_DOMAINS_PER_TEAM) {
+    throw ApiErrorHandler.validationError(
+      `A team can have at most ${DOMAIN_CONFIG.MAX_DOMAINS_PER_TEAM} domains`,
+      { field: 'domain' }
+    )
+  }
+
+  const { data, error } = await supabase
+    .from('team_domain_mapping')
+    .insert({ team_id: teamId, domain_name: domainName })
+    .select(DOMAIN_SELECT)
+    .single()
+
+  if (error) {
+    // Mappings of other teams are hidden by RLS, so the unique index is the only signal
+    if (error.code === '23505') {
+      throw ApiErrorHandler.resourceConflict(`${domainName} is already mapped to another team`, {
+        domain_name: domainName
+      })
+    }
+    // Raised by the guard trigger, e.g. for public email providers
+    if (error.code === 'P0001') {
+      throw ApiErrorHandler.validationError(error.message, { field: 'domain' })
+    }
+    console.error('Error creating team domain:', error)
+    throw ApiErrorHandler.databaseError('Failed to add domain mapping', error)
+  }
+
+  return data
+}
+
+async function getTeamDomain(
+  supabase: SupabaseClient,
+  teamId: string,
+  mappingId: string
+): Promise<TeamDomainMapping> {
+  const { data, error } = await supabase
+    .from('team_domain_mapping')
+    .select(DOMAIN_SELECT)
+    .eq('id', mappingId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching team domain:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch domain mapping', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('Domain mapping', mappingId)
+  }
+
+  return data
+}
+
+/**
+ * Verify a mapping by finding its token in the domain's TXT records.
+ * The verified flag is written with the service role because admins cannot
+ * set it themselves under RLS.
+ */
+export async function verifyTeamDomainByDns(
+  supabase: SupabaseClient,
+  teamId: string,
+  mappingId: string,
+  verifiedBy: string,
+  resolver: DnsTxtResolver
+): Promise<TeamDomainMapping> {
+  const mapping = await getTeamDomain(supabase, teamId, mappingId)
+  if (mapping.verified_at) return mapping
+
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('DNS verification is not configured: SUPABASE_SERVICE_ROLE_KEY is required')
+    throw ApiErrorHandler.serviceUnavailable('DNS verification is not configured')
+  }
+
+  let found: boolean
+  try {
+    found = await hasVerificationRecord(resolver, mapping.domain_name, mapping.verification_token || '')
+  } catch (error) {
+    console.error('Error resolving domain TXT records:', error)
+    throw ApiErrorHandler.validationError(`Could not look up DNS records for ${mapping.domain_name}; try again later`)
+  }
+
+  if (!found) {
+    throw ApiErrorHandler.validationError(
+      `TXT record not found on ${mapping.domain_name.replace(/^@/, '')}. DNS changes can take a while to appear.`,
+      { expected: expectedTxtRecord(mapping.verification_token || '') }
+    )
+  }
+
+  const { data, error } = await createServiceClient()
+    .from('team_domain_mapping')
+    .update({
+      verified_at: new Date().toISOString(),
+      verified_by: verifiedBy,
+      verification_method: 'dns_txt'
+    })
+    .eq('id', mappingId)
+    .eq('team_id', teamId)
+    // Only the domain and token that were checked; admins can edit both
+    .eq('domain_name', mapping.domain_name)
+    .eq('verification_token', mapping.verification_token)
+    .select(DOMAIN_SELECT)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error marking domain verified:', error)
+    throw ApiErrorHandler.databaseError('Failed to verify domain', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceConflict('The domain mapping changed while it was being verified; check it again')
+  }
+
+  return data
+}
+
+/**
+ * Verify a mapping because the caller's confirmed email is on that domain.
+ * Any team member may do this, so only the verification time is returned
+ * (mappings themselves are visible to admins only).
+ */
+export async function verifyTeamDomainByMemberEmail(
+  supabase: SupabaseClient,
+  mappingId: string
+): Promise<string> {
+  const { data: verifiedAt, error } = await supabase
+    .rpc('confirm_team_domain_ownership', { mapping_uuid: mappingId })
+
+  if (error) {
+    // Raised by the function when the mapping is missing or the caller's email doesn't qualify
+    if (error.code === 'P0001') {
+      throw ApiErrorHandler.validationError(error.message)
+    }
+    console.error('Error confirming domain ownership:', error)
+    throw ApiErrorHandler.databaseError('Failed to verify domain', error)
+  }
+
+  return verifiedAt
+}
+
+/**
+ * Remove a mapping by id or by domain name. Existing members are unaffected.
+ */
+export async function removeTeamDomain(
+  supabase: SupabaseClient,
+  teamId: string,
+  target: { id?: string; domain?: string }
+): Promise<TeamDomainMapping> {
+  let query = supabase
+    .from('team_domain_mapping')
+    .delete()
+    .eq('team_id', teamId)
+
+  query = target.id
+    ? query.eq('id', target.id)
+    : query.eq('domain_name', normalizeDomain(target.domain || ''))
+
+  const { data, error } = await query.select(DOMAIN_SELECT).maybeSingle()
+
+  if (error) {
+    console.error('Error removing team domain:', error)
+    throw ApiErrorHandler.databaseError('Failed to remove domain mapping', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('Domain mapping', target.id || target.domain)
+  }
+
+  return data
+}
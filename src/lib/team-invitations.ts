@@ -0,0 +1,403 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { NextRequest } from 'next/server'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { INVITATION_CONFIG } from '@/lib/constants'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import { escapeHtml, getEmailSender } from '@/lib/email-sender'
+import { describeTeamRole } from '@/lib/team-roles'
+import type { TeamInvitation, TeamInvitationPreview, TeamInvitationStatus, TeamRole } from '@/types'
+
+export const INVITATION_SELECT = `
+  id,
+  team_id,
+  email,
+  role,
+  invited_by,
+  expires_at,
+  last_sent_at,
+  send_count,
+  accepted_at,
+  revoked_at,
+  created_at
+`
+
+interface InvitationRow extends Omit<TeamInvitation, 'status'> {
+  accepted_by?: string | null
+}
+
+interface IssuedInvitation {
+  invitation: TeamInvitation
+  token: string
+}
+
+function getInvitationSigningSecret(): string {
+  const secret = process.env.INVITATION_SIGNING_SECRET
+  if (secret) return secret
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('INVITATION_SIGNING_SECRET must be set to send team invitations in production')
+  }
+
+  return 'reviewboost-local-invitations'
+}
+
+function signPayload(payload: string): string {
+  return createHmac('sha256', getInvitationSigningSecret()).update(payload).digest('base64url')
+}
+
+/**
+ * Issue a token for an invitation: "<payload>.<signature>", where the payload
+ * carries the invitation id, expiry and a random nonce
+ */
+export function createInvitationToken(invitationId: string, expiresAt: Date): string {
+  const payload = Buffer.from(JSON.stringify({
+    i: invitationId,
+    e: Math.floor(expiresAt.getTime() / 1000),
+    n: randomBytes(16).toString('base64url')
+  })).toString('base64url')
+
+  return `${payload}.${signPayload(payload)}`
+}
+
+/**
+ * Check a token's signature and expiry. The database still decides whether the
+ * invitation is open, since it may have been revoked or re-sent.
+ */
+export function verifyInvitationToken(token: string): { invitationId: string; expiresAt: Date } | null {
+  const [payload, signature, ...rest] = token.split('.')
+  if (!payload || !signature || rest.length > 0) return null
+
+  const expected = Buffer.from(signPayload(payload))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null
+  }
+
+  try {
+    const { i, e } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    if (typeof i !== 'string' || typeof e !== 'number' || e < Math.floor(Date.now() / 1000)) {
+      return null
+    }
+    return { invitationId: i, expiresAt: new Date(e * 1000) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Tokens are stored hashed so a database leak does not expose working links
+ */
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function invitationStatus(row: InvitationRow): TeamInvitationStatus {
+  if (row.accepted_at) return 'accepted'
+  if (row.revoked_at) return 'revoked'
+  if (new Date(row.expires_at).getTime() <= Date.now()) return 'expired'
+  return 'pending'
+}
+
+export function formatInvitation(row: InvitationRow): TeamInvitation {
+  return {
+    id: row.id,
+    team_id: row.team_id,
+    email: row.email,
+    role: row.role,
+    status: invitationStatus(row),
+    invited_by: row.invited_by,
+    expires_at: row.expires_at,
+    last_sent_at: row.last_sent_at,
+    send_count: row.send_count,
+    accepted_at: row.accepted_at,
+    revoked_at: row.revoked_at,
+    created_at: row.created_at
+  }
+}
+
+function newExpiry(): Date {
+  return new Date(Date.now() + INVITATION_CONFIG.EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Absolute link to the accept page. NEXT_PUBLIC_APP_URL wins over the request
+ * origin so links are right behind proxies.
+ */
+export function buildInvitationUrl(req: NextRequest, token: string): string {
+  const origin = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin
+  const url = new URL(INVITATION_CONFIG.ACCEPT_PATH, origin)
+  url.searchParams.set('token', token)
+  return url.toString()
+}
+
+/**
+ * Create an invitation for an email address that is not yet on the team
+ */
+export async function createTeamInvitation(
+  supabase: SupabaseClient,
+  teamId: string,
+  invitedBy: string,
+  email: string,
+  role: TeamRole
+): Promise<IssuedInvitation> {
+  const normalizedEmail = email.trim().toLowerCase()
+
+  const { data: existingMember, error: memberError } = await supabase
+    .from('team_members')
+    .select('user_id, users!inner(email)')
+    .eq('team_id', teamId)
+    .eq('users.email', normalizedEmail)
+    .maybeSingle()
+
+  if (memberError) {
+    console.error('Error checking existing team members:', memberError)
+    throw ApiErrorHandler.databaseError('Failed to create invitation', memberError)
+  }
+
+  if (existingMember) {
+    throw ApiErrorHandler.resourceConflict('This person is already a member of the team', {
+      email: normalizedEmail
+    })
+  }
+
+  const invitationId = randomUUID()
+  const expiresAt = newExpiry()
+  const token = createInvitationToken(invitationId, expiresAt)
+
+  const { data, error } = await supabase
+    .from('team_invitations')
+    .insert({
+      id: invitationId,
+      team_id: teamId,
+      email: normalizedEmail,
+      role,
+      token_hash: hashInvitationToken(token),
+      invited_by: invitedBy,
+      expires_at: expiresAt.toISOString()
+    })
+    .select(INVITATION_SELECT)
+    .single()
+
+  if (error) {
+    // Unique violation on the open-invitation index
+    if (error.code === '23505') {
+      throw ApiErrorHandler.resourceConflict(
+        'An invitation is already pending for this email; resend it instead',
+        { email: normalizedEmail }
+      )
+    }
+    console.error('Error creating team invitation:', error)
+    throw ApiErrorHandler.databaseError('Failed to create invitation', error)
+  }
+
+  return { invitation: formatInvitation(data), token }
+}
+
+async function getTeamInvitation(
+  supabase: SupabaseClient,
+  teamId: string,
+  invitationId: string
+): Promise<InvitationRow> {
+  const { data, error } = await supabase
+    .from('team_invitations')
+    .select(INVITATION_SELECT)
+    .eq('id', invitationId)
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching team invitation:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch invitation', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('Invitation', invitationId)
+  }
+
+  return data
+}
+
+/**
+ * Issue a fresh token and expiry for an open (or expired) invitation.
+ * The previous link stops working.
+ */
+export async function resendTeamInvitation(
+  supabase: SupabaseClient,
+  teamId: string,
+  invitationId: string
+): Promise<IssuedInvitation> {
+  const current = await getTeamInvitation(supabase, teamId, invitationId)
+  const status = invitationStatus(current)
+
+  if (status === 'accepted' || status === 'revoked') {
+    throw ApiErrorHandler.resourceConflict(`Cannot resend an invitation that was ${status}`, { status })
+  }
+
+  const secondsSinceSend = (Date.now() - new Date(current.last_sent_at).getTime()) / 1000
+  if (secondsSinceSend < INVITATION_CONFIG.RESEND_COOLDOWN_SECONDS) {
+    throw ApiErrorHandler.resourceConflict('This invitation was sent moments ago; try again shortly', {
+      retry_after_seconds: Math.ceil(INVITATION_CONFIG.RESEND_COOLDOWN_SECONDS - secondsSinceSend)
+    })
+  }
+
+  const expiresAt = newExpiry()
+  const token = createInvitationToken(invitationId, expiresAt)
+
+  const { data, error } = await supabase
+    .from('team_invitations')
+    .update({
+      token_hash: hashInvitationToken(token),
+      expires_at: expiresAt.toISOString(),
+      last_sent_at: new Date().toISOString(),
+      send_count: current.send_count + 1
+    })
+    .eq('id', invitationId)
+    .eq('team_id', teamId)
+    .select(INVITATION_SELECT)
+    .single()
+
+  if (error) {
+    console.error('Error resending team invitation:', error)
+    throw ApiErrorHandler.databaseError('Failed to resend invitation', error)
+  }
+
+  return { invitation: formatInvitation(data), token }
+}
+
+/**
+ * Revoke an invitation so its link can no longer be used
+ */
+export async function revokeTeamInvitation(
+  supabase: SupabaseClient,
+  teamId: string,
+  invitationId: string
+): Promise<TeamInvitation> {
+  const current = await getTeamInvitation(supabase, teamId, invitationId)
+
+  if (current.accepted_at) {
+    throw ApiErrorHandler.resourceConflict('This invitation has already been accepted')
+  }
+  if (current.revoked_at) {
+    return formatInvitation(current)
+  }
+
+  const { data, error } = await supabase
+    .from('team_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', invitationId)
+    .eq('team_id', teamId)
+    .select(INVITATION_SELECT)
+    .single()
+
+  if (error) {
+    console.error('Error revoking team invitation:', error)
+    throw ApiErrorHandler.databaseError('Failed to revoke invitation', error)
+  }
+
+  return formatInvitation(data)
+}
+
+/**
+ * Team and inviter names for the invitation email
+ */
+export async function getInvitationSenderDetails(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string
+): Promise<{ teamName: string; inviterName: string }> {
+  const [{ data: team }, { data: inviter }] = await Promise.all([
+    supabase.from('teams').select('name').eq('id', teamId).single(),
+    supabase.from('users').select('name, email').eq('id', userId).single()
+  ])
+
+  return {
+    teamName: team?.name || 'your team',
+    inviterName: inviter?.name || inviter?.email || 'A teammate'
+  }
+}
+
+/**
+ * Email the invitation link to the invitee
+ */
+export async function sendInvitationEmail(options: {
+  invitation: TeamInvitation
+  teamName: string
+  inviterName: string
+  url: string
+}): Promise<void> {
+  const { invitation, teamName, inviterName, url } = options
+  const expires = new Date(invitation.expires_at).toUTCString()
+
+  try {
+    await getEmailSender().send({
+      to: invitation.email,
+      subject: `${inviterName} invited you to join ${teamName} on ReviewBoost`,
+      text: [
+        `${inviterName} invited you to join ${teamName} on ReviewBoost as ${describeTeamRole(invitation.role)}.`,
+        '',
+        `Accept the invitation: ${url}`,
+        '',
+        `This link expires on ${expires}. If you weren't expecting it, you can ignore this email.`
+      ].join('\n'),
+      html: `
+        <p>${escapeHtml(inviterName)} invited you to join <strong>${escapeHtml(teamName)}</strong> on ReviewBoost.</p>
+        <p><a href="${escapeHtml(url)}">Accept the invitation</a></p>
+        <p style="color:#6b7280">This link expires on ${escapeHtml(expires)}. If you weren't expecting it, you can ignore this email.</p>
+      `
+    })
+  } catch (error) {
+    console.error('Error sending invitation email:', error)
+    throw ApiErrorHandler.serviceUnavailable('Invitation saved but the email could not be sent; try resending')
+  }
+}
+
+/**
+ * Look up what an invitation link is for. Works without a signed-in user.
+ */
+export async function previewInvitation(
+  supabase: SupabaseClient,
+  token: string
+): Promise<TeamInvitationPreview> {
+  if (!verifyInvitationToken(token)) {
+    throw ApiErrorHandler.validationError('This invitation link is invalid or has expired')
+  }
+
+  const { data, error } = await supabase
+    .rpc('get_team_invitation_preview', { invitation_token_hash: hashInvitationToken(token) })
+
+  if (error) {
+    console.error('Error fetching invitation preview:', error)
+    throw ApiErrorHandler.databaseError('Failed to load invitation', error)
+  }
+
+  const preview = Array.isArray(data) ? data[0] : data
+  if (!preview) {
+    // A re-sent invitation replaces the token, so older links land here
+    throw ApiErrorHandler.resourceNotFound('Invitation')
+  }
+
+  return preview as TeamInvitationPreview
+}
+
+/**
+ * Join the invited team as the signed-in user. Returns the team id.
+ */
+export async function acceptInvitation(supabase: SupabaseClient, token: string): Promise<string> {
+  if (!verifyInvitationToken(token)) {
+    throw ApiErrorHandler.validationError('This invitation link is invalid or has expired')
+  }
+
+  const { data: teamId, error } = await supabase
+    .rpc('accept_team_invitation', { invitation_token_hash: hashInvitationToken(token) })
+
+  if (error) {
+    // Raised by the function for revoked, used, expired or mismatched invitations
+    if (error.code === 'P0001') {
+      throw ApiErrorHandler.resourceConflict(error.message)
+    }
+    console.error('Error accepting invitation:', error)
+    throw ApiErrorHandler.databaseError('Failed to accept invitation', error)
+  }
+
+  return teamId
+}
@@ -0,0 +1,230 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import { isRoleAtLeast } from '@/lib/team-roles'
+import type { TeamMembersApiResponse, TeamRole } from '@/types'
+
+type TeamMemberSummary = TeamMembersApiResponse['members'][number]
+
+interface TeamMemberRow {
+  user_id: string
+  role: TeamRole
+  joined_at: string
+  users: {
+    id: string
+    name: string
+    email: string
+    created_at: string
+  }
+}
+
+/**
+ * Raised by guard_team_admins and the member functions when a change would
+ * leave the team without an admin or owner, or the member doesn't exist
+ */
+function mapMemberFunctionError(error: { code?: string; message: string }, fallback: string): never {
+  if (error.code === 'P0001') {
+    if (error.message === 'Team member not found') {
+      throw ApiErrorHandler.resourceNotFound('team member')
+    }
+    throw ApiErrorHandler.resourceConflict(error.message)
+  }
+  console.error(`${fallback}:`, error)
+  throw ApiErrorHandler.databaseError(fallback, error)
+}
+
+export async function getTeamOwnerId(
+  supabase: SupabaseClient,
+  teamId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('teams')
+    .select('owner_id')
+    .eq('id', teamId)
+    .single()
+
+  if (error) {
+    console.error('Error fetching team owner:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch team owner', error)
+  }
+
+  return data.owner_id
+}
+
+export async function listTeamMembers(
+  supabase: SupabaseClient,
+  teamId: string
+): Promise<{ members: TeamMemberSummary[]; ownerId: string | null }> {
+  const [{ data, error }, ownerId] = await Promise.all([
+    supabase
+      .from('team_members')
+      .select(`
+        user_id,
+        role,
+        joined_at,
+        users!inner(
+          id,
+          name,
+          email,
+          created_at
+        )
+      `)
+      .eq('team_id', teamId)
+      .order('joined_at', { ascending: true }),
+    getTeamOwnerId(supabase, teamId)
+  ])
+
+  if (error) {
+    console.error('Error fetching team members:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch team members', error)
+  }
+
+  const members = ((data || []) as unknown as TeamMemberRow[]).map(member => ({
+    user_id: member.users.id,
+    name: member.users.name,
+    email: member.users.email,
+    role: member.role,
+    is_owner: member.role === 'owner' || member.users.id === ownerId,
+    joined_at: member.joined_at,
+    user_created_at: member.users.created_at
+  }))
+
+  return { members, ownerId }
+}
+
+/**
+ * Check a role change or removal against the current admins before touching
+ * the database. guard_team_admins enforces the same rules in SQL.
+ */
+export async function assertTeamKeepsAdmin(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string,
+  nextRole: TeamRole | null
+): Promise<void> {
+  if (isRoleAtLeast(nextRole, 'admin')) return
+
+  const [{ data: admins, error }, ownerId] = await Promise.all([
+    supabase
+      .from('team_members')
+      .select('user_id')
+      .eq('team_id', teamId)
+      .in('role', ['owner', 'admin']),
+    getTeamOwnerId(supabase, teamId)
+  ])
+
+  if (error) {
+    console.error('Error fetching team admins:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch team admins', error)
+  }
+
+  if (userId === ownerId) {
+    throw ApiErrorHandler.resourceConflict('Transfer team ownership before removing or demoting the owner', {
+      user_id: userId
+    })
+  }
+
+  const adminIds = (admins || []).map(admin => admin.user_id)
+  if (adminIds.includes(userId) && adminIds.length <= 1) {
+    throw ApiErrorHandler.resourceConflict('A team must keep at least one admin', {
+      user_id: userId
+    })
+  }
+}
+
+/**
+ * Add an existing user to the team, or change their role if they're already on it
+ */
+export async function addTeamMember(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string,
+  role: TeamRole
+): Promise<{ id: string; name: string; email: string }> {
+  const { data: targetUser } = await supabase
+    .from('users')
+    .select('id, name, email')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (!targetUser) {
+    throw ApiErrorHandler.resourceNotFound('user', userId)
+  }
+
+  await assertTeamKeepsAdmin(supabase, teamId, userId, role)
+
+  const { error } = await supabase
+    .rpc('add_user_to_team', {
+      target_user_id: userId,
+      target_team_id: teamId,
+      user_role: role
+    })
+
+  if (error) {
+    mapMemberFunctionError(error, 'Failed to add user to team')
+  }
+
+  return targetUser
+}
+
+export async function updateTeamMemberRole(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string,
+  role: TeamRole
+): Promise<TeamRole> {
+  await assertTeamKeepsAdmin(supabase, teamId, userId, role)
+
+  const { data, error } = await supabase
+    .rpc('update_team_member_role', {
+      team_uuid: teamId,
+      target_user_id: userId,
+      new_role: role
+    })
+
+  if (error) {
+    mapMemberFunctionError(error, 'Failed to update member role')
+  }
+
+  return data as TeamRole
+}
+
+export async function removeTeamMember(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string
+): Promise<void> {
+  await assertTeamKeepsAdmin(supabase, teamId, userId, null)
+
+  const { error } = await supabase
+    .rpc('remove_user_from_team', {
+      target_user_id: userId,
+      target_team_id: teamId
+    })
+
+  if (error) {
+    mapMemberFunctionError(error, 'Failed to remove user from team')
+  }
+}
+
+/**
+ * Make another member the team owner. Only the current owner can do this
+ * (or any admin when the team has no owner); the previous owner becomes an admin.
+ */
+export async function transferTeamOwnership(
+  supabase: SupabaseClient,
+  teamId: string,
+  newOwnerId: string
+): Promise<void> {
+  const { error } = await supabase
+    .rpc('transfer_team_ownership', {
+      team_uuid: teamId,
+      new_owner_id: newOwnerId
+    })
+
+  if (error) {
+    if (error.code === 'P0001' && error.message.startsWith('Only ')) {
+      throw ApiErrorHandler.permissionDenied(error.message)
+    }
+    mapMemberFunctionError(error, 'Failed to transfer team ownership')
+  }
+}
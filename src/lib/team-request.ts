@@ -0,0 +1,123 @@
+import { NextRequest } from 'next/server'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { SESSION_CONFIG } from '@/lib/constants'
+import { ApiErrorHandler, validateUUID } from '@/lib/api-error-handler'
+import { TeamPermission, hasTeamPermission, isRoleAtLeast } from '@/lib/team-roles'
+import type { TeamRole } from '@/types'
+
+export interface TeamRequestContext {
+  supabase: SupabaseClient
+  user: {
+    id: string
+    email: string
+  }
+  role: TeamRole
+  teamId: string
+  archivedAt: string | null
+}
+
+interface TeamRequestOptions {
+  // Owner or admin
+  requireAdmin?: boolean
+  // A specific permission from the role matrix, e.g. 'reviews.approve'
+  permission?: TeamPermission
+  // Archived teams are read-only; set for the routes that archive, restore or delete them
+  allowArchived?: boolean
+}
+
+const READ_METHODS = ['GET', 'HEAD']
+
+/**
+ * Extract the caller's JWT from the middleware header or the Authorization header
+ */
+export function getRequestToken(req: NextRequest): string | null {
+  return req.headers.get(SESSION_CONFIG.JWT_TOKEN_HEADER)
+    || req.headers.get('authorization')?.replace('Bearer ', '')
+    || null
+}
+
+/**
+ * Create a Supabase client that runs queries as the calling user so RLS applies
+ */
+export function createUserClient(token: string): SupabaseClient {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      },
+      global: {
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      }
+    }
+  )
+}
+
+/**
+ * Authenticate the caller and verify their membership (and role or permission) in a team.
+ * Requests that change an archived team are refused unless allowArchived is set.
+ * Throws ApiErrorHandler errors so routes wrapped in withErrorHandler respond consistently.
+ */
+export async function getTeamRequestContext(
+  req: NextRequest,
+  teamId: string,
+  options: TeamRequestOptions = {}
+): Promise<TeamRequestContext> {
+  validateUUID(teamId, 'team_id')
+
+  const token = getRequestToken(req)
+  if (!token) {
+    throw ApiErrorHandler.authRequired()
+  }
+
+  const supabase = createUserClient(token)
+
+  const { data: { user: authUser }, error: authError } = await supabase.auth.getUser(token)
+  if (authError || !authUser) {
+    throw ApiErrorHandler.authInvalid()
+  }
+
+  const { data: membership, error: membershipError } = await supabase
+    .from('team_members')
+    .select('role, teams!inner(archived_at)')
+    .eq('user_id', authUser.id)
+    .eq('team_id', teamId)
+    .single()
+
+  if (membershipError || !membership) {
+    throw ApiErrorHandler.teamMembershipRequired('Access denied: user not member of specified team')
+  }
+
+  const role = membership.role as TeamRole
+  const { archived_at: archivedAt } = membership.teams as unknown as { archived_at: string | null }
+
+  if (archivedAt && !options.allowArchived && !READ_METHODS.includes(req.method)) {
+    throw ApiErrorHandler.resourceConflict('This team is archived. Restore it before making changes.')
+  }
+
+  if (options.requireAdmin && !isRoleAtLeast(role, 'admin')) {
+    throw ApiErrorHandler.teamAdminRequired()
+  }
+
+  if (options.permission && !hasTeamPermission(role, options.permission)) {
+    throw ApiErrorHandler.permissionDenied(
+      `Your team role (${role}) does not allow this action`,
+      options.permission
+    )
+  }
+
+  return {
+    supabase,
+    user: {
+      id: authUser.id,
+      email: authUser.email || ''
+    },
+    role,
+    teamId,
+    archivedAt
+  }
+}
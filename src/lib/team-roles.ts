@@ -0,0 +1,90 @@
+import type { TeamRole } from '@/types'
+
+/**
+ * Team roles from most to least privileged. Keep in sync with
+ * public.team_role_rank in supabase/migrations/026_team_role_matrix.sql.
+ */
+export const TEAM_ROLES = ['owner', 'admin', 'manager', 'member', 'viewer'] as const
+
+// Roles that can be given by invitation or a role change; ownership is transferred
+export const ASSIGNABLE_TEAM_ROLES = ['admin', 'manager', 'member', 'viewer'] as const
+
+export const TEAM_PERMISSIONS = [
+  'team.view',
+  'reviews.submit',
+  'reviews.approve',
+  'analytics.view',
+  'customers.manage',
+  'reviews.edit',
+  'points.adjust',
+  'members.manage',
+  'team.manage',
+  'ownership.transfer',
+  'team.delete'
+] as const
+
+export type TeamPermission = typeof TEAM_PERMISSIONS[number]
+
+const MEMBER_PERMISSIONS: readonly TeamPermission[] = ['team.view', 'reviews.submit']
+const MANAGER_PERMISSIONS: readonly TeamPermission[] = [...MEMBER_PERMISSIONS, 'reviews.approve', 'analytics.view', 'customers.manage']
+const ADMIN_PERMISSIONS: readonly TeamPermission[] = [
+  ...MANAGER_PERMISSIONS,
+  'reviews.edit',
+  'points.adjust',
+  'members.manage',
+  'team.manage'
+]
+
+export const ROLE_PERMISSIONS: Record<TeamRole, readonly TeamPermission[]> = {
+  owner: [...ADMIN_PERMISSIONS, 'ownership.transfer', 'team.delete'],
+  admin: ADMIN_PERMISSIONS,
+  manager: MANAGER_PERMISSIONS,
+  member: MEMBER_PERMISSIONS,
+  viewer: ['team.view']
+}
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  manager: 'Manager',
+  member: 'Member',
+  viewer: 'Viewer'
+}
+
+/**
+ * A role with its article for sentences, e.g. "an admin" or "a viewer"
+ */
+export function describeTeamRole(role: TeamRole): string {
+  const label = TEAM_ROLE_LABELS[role].toLowerCase()
+  return `${/^[aeiou]/.test(label) ? 'an' : 'a'} ${label}`
+}
+
+export function isTeamRole(value: unknown): value is TeamRole {
+  return typeof value === 'string' && (TEAM_ROLES as readonly string[]).includes(value)
+}
+
+export function isAssignableTeamRole(value: unknown): value is Exclude<TeamRole, 'owner'> {
+  return typeof value === 'string' && (ASSIGNABLE_TEAM_ROLES as readonly string[]).includes(value)
+}
+
+// Roles read from the database are plain strings; an unknown one has no permissions
+export function hasTeamPermission(role: TeamRole | null | undefined, permission: TeamPermission): boolean {
+  return isTeamRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+/**
+ * Whether a role is at least as privileged as another, e.g. isRoleAtLeast(role, 'admin')
+ * is true for owners and admins. Unknown roles are never enough.
+ */
+export function isRoleAtLeast(role: TeamRole | null | undefined, minimum: TeamRole): boolean {
+  return isTeamRole(role) && TEAM_ROLES.indexOf(role) <= TEAM_ROLES.indexOf(minimum)
+}
+
+/**
+ * Where a member of a team should land after signing in
+ */
+export function getTeamHomePath(role: TeamRole | null | undefined): string {
+  if (hasTeamPermission(role, 'analytics.view')) return '/dashboard'
+  if (hasTeamPermission(role, 'reviews.submit')) return '/submit-review'
+  return '/reviews'
+}
@@ -0,0 +1,331 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ApiErrorHandler } from '@/lib/api-error-handler'
+import {
+  DUPLICATE_REVIEW_ACTIONS,
+  LEADERBOARD_VISIBILITIES,
+  REVIEW_CONFIG,
+  REVIEW_REQUEST_CONFIG,
+  REVIEW_REQUEST_MESSAGE_CONFIG,
+  TEAM_CONFIG
+} from '@/lib/constants'
+import { hasTeamPermission } from '@/lib/team-roles'
+import type { Team, TeamRole, TeamSettings } from '@/types'
+
+type TeamSettingsChanges = Partial<Omit<TeamSettings, 'team_id' | 'updated_by' | 'updated_at'>>
+
+/**
+ * Settings used for teams that have never saved any
+ */
+export function defaultTeamSettings(teamId: string): TeamSettings {
+  return {
+    team_id: teamId,
+    require_review_approval: false,
+    duplicate_window_hours: REVIEW_CONFIG.DEFAULT_DUPLICATE_WINDOW_HOURS,
+    duplicate_action: 'reject',
+    require_member_approval: false,
+    timezone: TEAM_CONFIG.DEFAULT_TIMEZONE,
+    logo_url: null,
+    brand_color: null,
+    leaderboard_visibility: 'team',
+    review_destination_url: null,
+    review_request_sms_template: null,
+    review_request_email_subject: null,
+    review_request_email_template: null,
+    updated_by: null,
+    updated_at: null
+  }
+}
+
+/**
+ * Load a team's settings, falling back to defaults when no row exists yet
+ */
+export async function getTeamSettings(
+  supabase: SupabaseClient,
+  teamId: string
+): Promise<TeamSettings> {
+  const { data, error } = await supabase
+    .from('team_settings')
+    .select('*')
+    .eq('team_id', teamId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching team settings:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch team settings', error)
+  }
+
+  return data ? { ...defaultTeamSettings(teamId), ...data } : defaultTeamSettings(teamId)
+}
+
+/**
+ * Save changes to a team's settings, creating the row on first write
+ */
+export async function updateTeamSettings(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string,
+  changes: TeamSettingsChanges
+): Promise<TeamSettings> {
+  const { data, error } = await supabase
+    .from('team_settings')
+    .upsert({ team_id: teamId, ...changes, updated_by: userId }, { onConflict: 'team_id' })
+    .select('*')
+    .single()
+
+  if (error) {
+    if (error.code === 'P0001' && error.message.startsWith('Unknown timezone')) {
+      throw ApiErrorHandler.validationError(error.message, { field: 'timezone', received: changes.timezone })
+    }
+    console.error('Error updating team settings:', error)
+    throw ApiErrorHandler.databaseError('Failed to update team settings', error)
+  }
+
+  return { ...defaultTeamSettings(teamId), ...data }
+}
+
+/**
+ * Teams can keep the leaderboard to managers and admins
+ */
+export function canViewLeaderboard(settings: TeamSettings, role: TeamRole): boolean {
+  return settings.leaderboard_visibility === 'team' || hasTeamPermission(role, 'analytics.view')
+}
+
+export function assertLeaderboardVisible(settings: TeamSettings, role: TeamRole): void {
+  if (!canViewLeaderboard(settings, role)) {
+    throw ApiErrorHandler.permissionDenied(
+      'This team only shows the leaderboard to managers and admins',
+      'analytics.view'
+    )
+  }
+}
+
+function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Blank templates fall back to the built-in text
+function parseTemplate(value: unknown, field: string, maxLength: number, requireLink: boolean): string | null {
+  if (value !== null && typeof value !== 'string') {
+    throw ApiErrorHandler.validationError(`${field} must be a string`, { field })
+  }
+  const template = value?.trim() || null
+  if (template && template.length > maxLength) {
+    throw ApiErrorHandler.validationError(`${field} must be at most ${maxLength} characters`, { field })
+  }
+  if (template && requireLink && !template.includes('{link}')) {
+    throw ApiErrorHandler.validationError(`${field} must include {link}`, { field })
+  }
+  return template
+}
+
+function requireBoolean(value: unknown, field: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw ApiErrorHandler.validationError(`${field} must be a boolean`, { field, received: value })
+  }
+  return value
+}
+
+/**
+ * Validate the settings fields present in a request body. Fields that are
+ * missing are left out of the result so they keep their current values.
+ */
+export function parseTeamSettingsChanges(body: Record<string, unknown>): TeamSettingsChanges {
+  const {
+    require_review_approval,
+    duplicate_window_hours,
+    duplicate_action,
+    require_member_approval,
+    timezone,
+    logo_url,
+    brand_color,
+    leaderboard_visibility,
+    review_destination_url,
+    review_request_sms_template,
+    review_request_email_subject,
+    review_request_email_template
+  } = body
+
+  const changes: TeamSettingsChanges = {}
+
+  if (require_review_approval !== undefined) {
+    changes.require_review_approval = requireBoolean(require_review_approval, 'require_review_approval')
+  }
+
+  if (duplicate_window_hours !== undefined) {
+    if (
+      typeof duplicate_window_hours !== 'number' ||
+      !Number.isInteger(duplicate_window_hours) ||
+      duplicate_window_hours < 0 ||
+      duplicate_window_hours > REVIEW_CONFIG.MAX_DUPLICATE_WINDOW_HOURS
+    ) {
+      throw ApiErrorHandler.validationError(
+        `duplicate_window_hours must be a whole number between 0 and ${REVIEW_CONFIG.MAX_DUPLICATE_WINDOW_HOURS}`,
+        { field: 'duplicate_window_hours', received: duplicate_window_hours }
+      )
+    }
+    changes.duplicate_window_hours = duplicate_window_hours
+  }
+
+  if (duplicate_action !== undefined) {
+    if (!(DUPLICATE_REVIEW_ACTIONS as readonly unknown[]).includes(duplicate_action)) {
+      throw ApiErrorHandler.validationError(
+        `duplicate_action must be one of: ${DUPLICATE_REVIEW_ACTIONS.join(', ')}`,
+        { field: 'duplicate_action', received: duplicate_action }
+      )
+    }
+    changes.duplicate_action = duplicate_action as TeamSettings['duplicate_action']
+  }
+
+  if (require_member_approval !== undefined) {
+    changes.require_member_approval = requireBoolean(require_member_approval, 'require_member_approval')
+  }
+
+  if (timezone !== undefined) {
+    if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+      throw ApiErrorHandler.validationError(
+        'timezone must be an IANA timezone name, e.g. America/Chicago',
+        { field: 'timezone', received: timezone }
+      )
+    }
+    changes.timezone = timezone
+  }
+
+  if (logo_url !== undefined) {
+    if (logo_url !== null && typeof logo_url !== 'string') {
+      throw ApiErrorHandler.validationError('logo_url must be a string', { field: 'logo_url' })
+    }
+    const url = logo_url?.trim() || null
+    if (url && (!url.startsWith('https://') || url.length > TEAM_CONFIG.MAX_LOGO_URL_LENGTH)) {
+      throw ApiErrorHandler.validationError(
+        `logo_url must be an https:// URL of at most ${TEAM_CONFIG.MAX_LOGO_URL_LENGTH} characters`,
+        { field: 'logo_url', received: url }
+      )
+    }
+    changes.logo_url = url
+  }
+
+  if (brand_color !== undefined) {
+    if (brand_color !== null && (typeof brand_color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(brand_color))) {
+      throw ApiErrorHandler.validationError('brand_color must be a hex color like #1d4ed8', {
+        field: 'brand_color',
+        received: brand_color
+      })
+    }
+    changes.brand_color = brand_color ? brand_color.toLowerCase() : null
+  }
+
+  if (leaderboard_visibility !== undefined) {
+    if (!(LEADERBOARD_VISIBILITIES as readonly unknown[]).includes(leaderboard_visibility)) {
+      throw ApiErrorHandler.validationError(
+        `leaderboard_visibility must be one of: ${LEADERBOARD_VISIBILITIES.join(', ')}`,
+        { field: 'leaderboard_visibility', received: leaderboard_visibility }
+      )
+    }
+    changes.leaderboard_visibility = leaderboard_visibility as TeamSettings['leaderboard_visibility']
+  }
+
+  if (review_destination_url !== undefined) {
+    if (review_destination_url !== null && typeof review_destination_url !== 'string') {
+      throw ApiErrorHandler.validationError('review_destination_url must be a string', { field: 'review_destination_url' })
+    }
+    const url = review_destination_url?.trim() || null
+    if (url && (!isHttpsUrl(url) || url.length > REVIEW_REQUEST_CONFIG.MAX_DESTINATION_URL_LENGTH)) {
+      throw ApiErrorHandler.validationError(
+        `review_destination_url must be an https:// URL of at most ${REVIEW_REQUEST_CONFIG.MAX_DESTINATION_URL_LENGTH} characters`,
+        { field: 'review_destination_url', received: url }
+      )
+    }
+    changes.review_destination_url = url
+  }
+
+  if (review_request_sms_template !== undefined) {
+    changes.review_request_sms_template = parseTemplate(
+      review_request_sms_template,
+      'review_request_sms_template',
+      REVIEW_REQUEST_MESSAGE_CONFIG.MAX_SMS_TEMPLATE_LENGTH,
+      true
+    )
+  }
+
+  if (review_request_email_subject !== undefined) {
+    changes.review_request_email_subject = parseTemplate(
+      review_request_email_subject,
+      'review_request_email_subject',
+      REVIEW_REQUEST_MESSAGE_CONFIG.MAX_EMAIL_SUBJECT_LENGTH,
+      false
+    )
+  }
+
+  if (review_request_email_template !== undefined) {
+    changes.review_request_email_template = parseTemplate(
+      review_request_email_template,
+      'review_request_email_template',
+      REVIEW_REQUEST_MESSAGE_CONFIG.MAX_EMAIL_TEMPLATE_LENGTH,
+      true
+    )
+  }
+
+  return changes
+}
+
+/**
+ * Load a team's own record (name, description, organization)
+ */
+export async function getTeam(supabase: SupabaseClient, teamId: string): Promise<Team> {
+  const { data, error } = await supabase
+    .from('teams')
+    .select('*')
+    .eq('id', teamId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching team:', error)
+    throw ApiErrorHandler.databaseError('Failed to fetch team', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('team', teamId)
+  }
+
+  return data as Team
+}
+
+/**
+ * Rename a team or change its description
+ */
+export async function updateTeamDetails(
+  supabase: SupabaseClient,
+  teamId: string,
+  changes: { name?: string; description?: string | null }
+): Promise<Team> {
+  const { data, error } = await supabase
+    .from('teams')
+    .update(changes)
+    .eq('id', teamId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error updating team:', error)
+    throw ApiErrorHandler.databaseError('Failed to update team', error)
+  }
+
+  if (!data) {
+    throw ApiErrorHandler.resourceNotFound('team', teamId)
+  }
+
+  return data as Team
+}
@@ -3,4 +3,27 @@ import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+
+/**
+ * Read a post-auth redirect path from the current URL's query string.
+ * Only same-origin paths are accepted so the parameter can't send users elsewhere.
+ */
+export function getRedirectPath(param = 'next'): string | null {
+  if (typeof window === 'undefined') return null
+
+  const value = new URLSearchParams(window.location.search).get(param)
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : null
+}
+
+/**
+ * Save data as a JSON file from the browser
+ */
+export function downloadJson(data: unknown, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -8,7 +8,11 @@ export async function middleware(req: NextRequest) {
     // Skip authentication for certain public endpoints
     const publicEndpoints = [
       '/api/health',
-      '/api/ping'
+      '/api/ping',
+      '/api/attachments/local', // Access is checked with a signed, expiring URL
+      '/api/cron/', // Scheduled jobs authenticate with CRON_SECRET
+      '/api/invitations/preview', // Holding the signed invitation token is the only requirement
+      '/api/webhooks/' // Providers sign their webhooks; each route verifies the signature
     ]
     
     const isPublicEndpoint = publicEndpoints.some(endpoint => 
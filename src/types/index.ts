@@ -18,6 +18,9 @@ export interface Team {
   id: string
   name: string
   description?: string
+  owner_id?: string | null
+  archived_at?: string | null // archived teams are hidden and read-only
+  archived_by?: string | null
   created_at: string
   updated_at: string
 }
@@ -26,7 +29,7 @@ export interface TeamMember {
   id: string
   user_id: string
   team_id: string
-  role: 'admin' | 'member'
+  role: TeamRole
   joined_at: string
 }
 
@@ -35,30 +38,193 @@ export interface TeamMemberWithUser extends TeamMember {
 }
 
 export interface TeamWithUserRole extends Team {
-  user_role: 'admin' | 'member'
+  organization_id?: string | null
+  user_role: TeamRole
   joined_at: string
 }
 
+export type TeamInvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired'
+
+export interface TeamInvitation {
+  id: string
+  team_id: string
+  email: string
+  role: TeamRole
+  status: TeamInvitationStatus
+  invited_by: string | null
+  expires_at: string
+  last_sent_at: string
+  send_count: number
+  accepted_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+export interface TeamInvitationPreview {
+  team_id: string
+  team_name: string
+  email: string
+  role: TeamRole
+  expires_at: string
+  status: TeamInvitationStatus
+}
+
+export interface TeamInvitationForm {
+  email: string
+  role?: TeamRole
+}
+
+export type MembershipRequestStatus = 'pending' | 'approved' | 'rejected'
+
+// A domain-matched signup waiting for a team admin's decision
+export interface TeamMembershipRequest {
+  id: string
+  team_id: string
+  user_id: string
+  user_name: string
+  user_email: string
+  source: 'domain'
+  status: MembershipRequestStatus
+  created_at: string
+}
+
+// The signed-in user's own request, as shown while they wait
+export interface MyMembershipRequest {
+  id: string
+  team_id: string
+  team_name: string
+  status: MembershipRequestStatus
+  created_at: string
+  decided_at: string | null
+}
+
+export type DuplicateReviewAction = 'reject' | 'review'
+
+export type LeaderboardVisibility = 'team' | 'managers'
+
+export interface TeamSettings {
+  team_id: string
+  require_review_approval: boolean
+  duplicate_window_hours: number // 0 disables duplicate detection
+  duplicate_action: DuplicateReviewAction
+  require_member_approval: boolean
+  timezone: string // IANA name, e.g. 'America/Chicago'
+  logo_url: string | null
+  brand_color: string | null // #rrggbb
+  leaderboard_visibility: LeaderboardVisibility
+  review_destination_url: string | null // Where review request links send customers
+  // Review request message templates; null uses the built-in text
+  review_request_sms_template: string | null
+  review_request_email_subject: string | null
+  review_request_email_template: string | null
+  updated_by?: string | null
+  updated_at?: string | null
+}
+
+export type DomainVerificationMethod = 'dns_txt' | 'member_email' | 'legacy'
+
 export interface TeamDomainMapping {
   id: string
   team_id: string
   domain_name: string
   created_at: string
+  // Only verified mappings auto-assign new signups
+  verified_at?: string | null
+  verified_by?: string | null
+  verification_method?: DomainVerificationMethod | null
+  verification_token?: string
+}
+
+// ============================================================================
+// ORGANIZATION TYPES
+// ============================================================================
+
+export interface Organization {
+  id: string
+  name: string
+  description?: string | null
+  created_at: string
+}
+
+// An organization the signed-in user administers or has a team in
+export interface OrganizationSummary extends Organization {
+  is_admin: boolean
+  team_count: number
+}
+
+export interface OrganizationTeam {
+  id: string
+  name: string
+  member_count: number
+  user_role: TeamRole | null // null when the caller isn't on the team
+}
+
+export interface OrganizationAdmin {
+  user_id: string
+  name: string
+  email: string
+  created_at: string
+}
+
+// get_team_dashboard_stats for one team in the organization
+export interface OrganizationTeamStats {
+  team_id: string
+  team_name: string
+  total_reviews: number
+  total_points: number
+  total_members: number
+  top_employee_name: string | null
+  top_employee_points: number | null
+  recent_reviews_count: number
+  pending_reviews_count: number
+}
+
+export interface OrganizationLeaderboardEntry extends LeaderboardEntry {
+  team_names: string
 }
 
 // ============================================================================
 // REVIEW TYPES (Multi-Tenant)
 // ============================================================================
 
+export type ReviewStatus = 'pending' | 'approved' | 'rejected'
+
+export interface ReviewAttachment {
+  id: string
+  team_id: string
+  review_id: string | null
+  uploaded_by?: string | null
+  storage_path: string
+  file_name: string
+  content_type: string
+  size_bytes: number
+  created_at: string
+  url?: string
+  thumbnail_url?: string
+}
+
 export interface Review {
   id: string
   customer_name: string
+  customer_id?: string | null
   job_type: string
+  job_type_id?: string | null // Catalog entry; null for unmapped free text
   has_photo: boolean
   keywords: string
   employee_id: string
   team_id: string // NEW: Team scoping
   created_at: string
+  updated_at?: string | null
+  updated_by?: string | null
+  status: ReviewStatus
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  rejection_reason?: string | null
+  duplicate_of_review_id?: string | null
+  submitted_by?: string | null
+  verified_at?: string | null // Set while a platform review is matched to it
+  verified_platform?: ReviewPlatform | null
+  attachments?: ReviewAttachment[]
   employee?: {
     name: string
     email: string
@@ -67,9 +233,13 @@ export interface Review {
 
 export interface ReviewSubmission {
   customer_name: string
+  customer_id?: string // An existing customer; otherwise matched or created from the details below
+  customer_phone?: string
+  customer_email?: string
+  review_request_id?: string // The request link this review came from; otherwise matched by customer
   job_type: string
-  has_photo: boolean
   keywords: string
+  attachment_ids?: string[] // Uploaded photos; has_photo is derived from these
   employee_id: string
   team_id: string // NEW: Required for team scoping
 }
@@ -86,6 +256,324 @@ export interface Points {
   updated_at: string
 }
 
+export type PointTransactionReason = 'review_award' | 'admin_adjustment' | 'reversal' | 'expiry'
+
+export interface PointTransaction {
+  id: string
+  team_id: string
+  employee_id: string
+  review_id: string | null
+  amount: number
+  reason: PointTransactionReason
+  reverses_transaction_id: string | null
+  note: string | null
+  metadata: Record<string, unknown>
+  created_by: string | null
+  created_at: string
+}
+
+// ============================================================================
+// POINT RULE TYPES
+// ============================================================================
+
+export type PointRuleType =
+  | 'base_points'
+  | 'job_type_points'
+  | 'photo_bonus'
+  | 'keyword_bonus'
+  | 'min_keyword_length'
+  | 'daily_cap'
+  | 'multiplier'
+
+export interface PointRule {
+  id: string
+  team_id: string
+  name: string
+  rule_type: PointRuleType
+  config: Record<string, unknown>
+  starts_at: string | null
+  ends_at: string | null
+  is_active: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PointsBreakdownItem {
+  rule_id: string | null
+  rule_type: PointRuleType
+  label: string
+  points: number
+}
+
+export interface PointsCalculation {
+  points: number
+  breakdown: PointsBreakdownItem[]
+  multiplier: number
+  capped: boolean
+  violations: string[]
+}
+
+export interface PointRulesApiResponse {
+  rules: PointRule[]
+  team_id: string
+  total_rules: number
+}
+
+// ============================================================================
+// JOB TYPE CATALOG TYPES
+// ============================================================================
+
+export interface JobType {
+  id: string
+  team_id: string
+  name: string
+  points: number | null // null uses the team's base points
+  is_active: boolean
+  sort_order: number
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface JobTypeForm {
+  name?: string
+  points?: number | null
+  is_active?: boolean
+  sort_order?: number
+}
+
+export interface JobTypesApiResponse {
+  job_types: JobType[]
+  team_id: string
+  total_job_types: number
+}
+
+// A free-text value on reviews that isn't linked to the catalog
+export interface UnmappedJobType {
+  job_type: string
+  review_count: number
+}
+
+export interface UnmappedJobTypesApiResponse {
+  unmapped: UnmappedJobType[]
+  team_id: string
+}
+
+export interface JobTypeMapping {
+  job_type: string
+  job_type_id: string
+}
+
+// ============================================================================
+// CUSTOMER TYPES
+// ============================================================================
+
+export interface Customer {
+  id: string
+  team_id: string
+  name: string
+  phone: string | null
+  email: string | null
+  address: string | null
+  notes: string | null
+  sms_opted_out_at: string | null // Replied STOP or asked a manager; no review request texts
+  email_opted_out_at: string | null // Used the opt-out link or asked a manager; no review request emails
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  review_count?: number
+}
+
+export interface CustomerForm {
+  name?: string
+  phone?: string | null
+  email?: string | null
+  address?: string | null
+  notes?: string | null
+  sms_opted_out_at?: string | null
+  email_opted_out_at?: string | null
+}
+
+// Customers with more than one review count as repeat customers
+export interface CustomerStats {
+  total_customers: number
+  repeat_customers: number
+  reviews_from_repeat_customers: number
+}
+
+export interface CustomersApiResponse {
+  customers: Customer[]
+  next_cursor: string | null
+  team_id: string
+}
+
+export interface CustomerApiResponse {
+  customer: Customer
+  created?: boolean // Set by POST: false when an existing customer matched
+}
+
+export interface CustomerStatsApiResponse {
+  stats: CustomerStats
+  team_id: string
+}
+
+// ============================================================================
+// REVIEW REQUEST TYPES
+// ============================================================================
+
+export type ReviewRequestStatus = 'sent' | 'opened' | 'converted'
+
+export type QrCodeFormat = 'png' | 'svg'
+
+export type MessageChannel = 'sms' | 'email'
+
+export type MessageDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed'
+
+export interface ReviewRequest {
+  id: string
+  team_id: string
+  employee_id: string
+  customer_id: string | null // null for the employee's card link
+  token: string
+  url: string // Public link that logs the open and redirects
+  qr_url: string // The same link as encoded in its QR code
+  status: ReviewRequestStatus
+  open_count: number
+  first_opened_at: string | null
+  last_opened_at: string | null
+  review_id: string | null
+  converted_at: string | null
+  conversion_source: 'manual' | 'auto' | null
+  // Delivery status of the latest text or email sent for the request
+  last_message_channel: MessageChannel | null
+  last_message_status: MessageDeliveryStatus | null
+  last_message_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  customer?: Customer
+  employee?: {
+    name: string
+    email: string
+  }
+}
+
+export interface ReviewRequestMessage {
+  id: string
+  team_id: string
+  request_id: string
+  customer_id: string | null
+  channel: MessageChannel
+  recipient: string
+  subject: string | null
+  body: string
+  provider: string
+  provider_message_id: string | null
+  status: MessageDeliveryStatus
+  error: string | null
+  sent_by: string | null
+  status_updated_at: string
+  created_at: string
+  updated_at: string
+}
+
+export interface ReviewRequestsApiResponse {
+  review_requests: ReviewRequest[]
+  next_cursor: string | null
+  team_id: string
+}
+
+export interface ReviewRequestMetrics {
+  employee_id: string
+  employee_name: string
+  requests_sent: number
+  requests_opened: number
+  requests_converted: number
+  qr_scans: number // Scans of any of the employee's QR codes in the period
+  open_rate: number // 0..1
+  conversion_rate: number // 0..1
+}
+
+export interface ReviewRequestMetricsApiResponse {
+  metrics: ReviewRequestMetrics[]
+  period: LeaderboardPeriodRange
+  team_id: string
+}
+
+// ============================================================================
+// REVIEW PLATFORM TYPES
+// ============================================================================
+
+export type ReviewPlatform = 'google' | 'yelp' | 'facebook' | 'fake'
+
+export interface ReviewPlatformConnection {
+  id: string
+  team_id: string
+  platform: ReviewPlatform
+  external_id: string // Google location name, Yelp business id, Facebook page id
+  display_name: string | null
+  is_active: boolean
+  credentials_updated_at: string | null // The token itself is never returned
+  last_synced_at: string | null
+  last_sync_status: 'ok' | 'error' | null
+  last_sync_error: string | null
+  last_sync_imported: number | null
+  last_sync_matched: number | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReviewPlatformConnectionForm {
+  platform?: ReviewPlatform
+  external_id?: string
+  display_name?: string | null
+  is_active?: boolean
+  access_token?: string // Google refresh token or Facebook page token
+}
+
+export interface PlatformReview {
+  id: string
+  team_id: string
+  connection_id: string
+  platform: ReviewPlatform
+  external_review_id: string
+  reviewer_name: string
+  rating: number | null
+  text: string | null
+  url: string | null
+  posted_at: string
+  review_id: string | null // The submitted review this one verifies
+  matched_at: string | null
+  match_source: 'auto' | 'manual' | null // 'manual' with no review_id: a manager cleared the match
+  created_at: string
+  updated_at: string
+  review?: {
+    id: string
+    customer_name: string
+    created_at: string
+    employee_name: string | null
+  }
+}
+
+export interface ReviewPlatformSyncResult {
+  connection: ReviewPlatformConnection
+  imported: number
+  matched: number
+}
+
+export interface ReviewPlatformConnectionsApiResponse {
+  connections: ReviewPlatformConnection[]
+  team_id: string
+}
+
+export interface PlatformReviewsApiResponse {
+  platform_reviews: PlatformReview[]
+  next_cursor: string | null
+  team_id: string
+}
+
 export interface LeaderboardEntry {
   employee_id: string
   employee_name: string
@@ -93,12 +581,44 @@ export interface LeaderboardEntry {
   total_reviews: number
   total_points: number
   rank: number
+  previous_rank?: number | null // Rank in the comparison snapshot, null if not ranked then
+  rank_delta?: number | null // Places gained since the snapshot (negative when dropping)
+}
+
+export type LeaderboardPeriod = 'week' | 'month' | 'quarter' | 'all' | 'custom'
+
+export interface LeaderboardPeriodRange {
+  period: LeaderboardPeriod
+  start: string | null // inclusive, ISO timestamp
+  end: string | null // exclusive, ISO timestamp
 }
 
 export interface TeamLeaderboard {
   leaderboard: LeaderboardEntry[]
   team_id: string
   total_members: number
+  period: LeaderboardPeriodRange
+  compared_to: string | null // captured_at of the snapshot used for rank movement
+}
+
+export interface LeaderboardSnapshotEntry {
+  employee_id: string
+  employee_name?: string
+  rank: number
+  total_points: number
+  total_reviews: number
+}
+
+export interface LeaderboardSnapshot {
+  id: string
+  team_id: string
+  captured_at: string
+  entries: LeaderboardSnapshotEntry[]
+}
+
+export interface LeaderboardHistoryApiResponse {
+  snapshots: LeaderboardSnapshot[]
+  team_id: string
 }
 
 // ============================================================================
@@ -134,6 +654,7 @@ export interface DashboardStats {
     created_at: string
   }>
   recentReviewsCount: number
+  pendingReviewsCount: number
   team_id: string
 }
 
@@ -153,18 +674,139 @@ export interface TeamApiResponse {
   total_teams: number
 }
 
+export interface OrganizationsApiResponse {
+  organizations: OrganizationSummary[]
+}
+
+export interface OrganizationApiResponse {
+  organization: OrganizationSummary
+  teams: OrganizationTeam[]
+  admins: OrganizationAdmin[]
+}
+
+export interface OrganizationStatsApiResponse {
+  organization_id: string
+  // Team totals added up; people on several teams count once per team
+  totals: Omit<OrganizationTeamStats, 'team_id' | 'team_name' | 'top_employee_name' | 'top_employee_points'>
+  teams: OrganizationTeamStats[]
+}
+
+export interface OrganizationLeaderboardApiResponse {
+  leaderboard: OrganizationLeaderboardEntry[]
+  organization_id: string
+  period: LeaderboardPeriodRange
+}
+
 export interface TeamMembersApiResponse {
   members: Array<{
     user_id: string
     name: string
     email: string
-    role: 'admin' | 'member'
+    role: TeamRole
+    is_owner: boolean
     joined_at: string
     user_created_at: string
   }>
   total_members: number
   team_id: string
-  user_role: 'admin' | 'member'
+  owner_id: string | null
+  user_role: TeamRole
+}
+
+export interface PointTransactionsApiResponse {
+  transactions: PointTransaction[]
+  balance: number | null
+  team_id: string
+}
+
+export interface ReviewsApiResponse {
+  reviews: Review[]
+  next_cursor: string | null
+  team_id: string
+}
+
+export interface ReviewUpdateForm {
+  customer_name?: string
+  job_type?: string
+  keywords?: string
+  note?: string
+}
+
+export interface ReviewFilters {
+  employee_id?: string
+  job_type?: string
+  job_type_id?: string
+  customer_id?: string
+  from?: string
+  to?: string
+  has_photo?: boolean
+  verified?: boolean
+  q?: string
+  status?: ReviewStatus[]
+}
+
+export interface TeamSettingsApiResponse {
+  settings: TeamSettings
+  team_id: string
+}
+
+export interface TeamDetailsApiResponse {
+  team: Team
+  settings: TeamSettings
+  user_role: TeamRole
+}
+
+export interface TeamDeletionRequestApiResponse {
+  confirmation_token: string
+  expires_at: string
+  team_id: string
+}
+
+// Everything a team holds, as downloaded before a permanent delete
+export interface TeamExport {
+  exported_at: string
+  team: Team
+  settings: TeamSettings
+  members: TeamMembersApiResponse['members']
+  reviews: Review[]
+  review_attachments: ReviewAttachment[]
+  customers: Customer[]
+  review_requests: Omit<ReviewRequest, 'url' | 'qr_url' | 'status' | 'customer' | 'employee'>[]
+  review_request_messages: ReviewRequestMessage[]
+  review_platform_connections: ReviewPlatformConnection[]
+  platform_reviews: PlatformReview[]
+  point_transactions: PointTransaction[]
+  point_rules: PointRule[]
+  job_types: JobType[]
+  domains: TeamDomainMapping[]
+}
+
+export interface TeamInvitationsApiResponse {
+  invitations: TeamInvitation[]
+  team_id: string
+}
+
+export interface TeamMembershipRequestsApiResponse {
+  requests: TeamMembershipRequest[]
+  team_id: string
+}
+
+export interface MyMembershipRequestsApiResponse {
+  requests: MyMembershipRequest[]
+}
+
+export interface TeamDomainWithVerification extends TeamDomainMapping {
+  // DNS record to publish while the mapping is unverified
+  verification_record: {
+    type: 'TXT'
+    host: string
+    value: string
+  } | null
+}
+
+export interface TeamDomainsApiResponse {
+  domains: TeamDomainWithVerification[]
+  team_id: string
 }
 
 export interface DashboardWidgetsApiResponse {
@@ -197,9 +839,15 @@ export interface TeamCreationForm {
   description?: string
 }
 
+export interface OrganizationCreationForm {
+  name: string
+  description?: string
+  team_id?: string // One of the caller's teams to move into the new organization
+}
+
 export interface AddMemberForm {
   user_id: string
-  role: 'admin' | 'member'
+  role: Exclude<TeamRole, 'owner'>
 }
 
 export interface CreateWidgetForm {
@@ -209,6 +857,46 @@ export interface CreateWidgetForm {
   position?: number
 }
 
+export interface PointAdjustmentForm {
+  employee_id: string
+  amount: number
+  note: string
+}
+
+export interface PointRuleForm {
+  name: string
+  rule_type: PointRuleType
+  config: Record<string, unknown>
+  starts_at?: string | null
+  ends_at?: string | null
+  is_active?: boolean
+}
+
+export interface ReviewRejectionForm {
+  reason: string
+}
+
+export interface TeamSettingsForm {
+  require_review_approval?: boolean
+  duplicate_window_hours?: number
+  duplicate_action?: DuplicateReviewAction
+  require_member_approval?: boolean
+  timezone?: string
+  logo_url?: string | null
+  brand_color?: string | null
+  leaderboard_visibility?: LeaderboardVisibility
+  review_destination_url?: string | null
+  review_request_sms_template?: string | null
+  review_request_email_subject?: string | null
+  review_request_email_template?: string | null
+}
+
+// PATCH /api/teams/[team_id]: team details plus any settings
+export interface TeamUpdateForm extends TeamSettingsForm {
+  name?: string
+  description?: string | null
+}
+
 export interface UpdateWidgetForm {
   title?: string
   data?: Record<string, unknown>
@@ -221,7 +909,8 @@ export interface UpdateWidgetForm {
 // UTILITY TYPES
 // ============================================================================
 
-export type TeamRole = 'admin' | 'member'
+// Ranked from most to least privileged; permissions live in src/lib/team-roles.ts
+export type TeamRole = 'owner' | 'admin' | 'manager' | 'member' | 'viewer'
 export type UserRole = 'employee' | 'business_owner'
 export type WidgetType = 'kpi' | 'chart' | 'table' | 'metric'
 
@@ -51,11 +51,15 @@ serve(async (req) => {
     
     console.log(`Processing new user: ${email} with domain: ${emailDomain}`)
 
-    // Check if there's a team mapping for this domain
+    // Check if there's a verified team mapping for this domain. Unverified
+    // mappings are ignored so a team can't claim a domain it doesn't own,
+    // and archived teams don't take new members.
     const { data: domainMapping, error: domainError } = await supabase
       .from('team_domain_mapping')
-      .select('team_id')
-      .eq('domain_name', emailDomain)
+      .select('team_id, teams!inner(archived_at)')
+      .eq('domain_name', emailDomain.toLowerCase())
+      .not('verified_at', 'is', null)
+      .is('teams.archived_at', null)
       .single()
 
     if (domainError && domainError.code !== 'PGRST116') {
@@ -65,17 +69,33 @@ serve(async (req) => {
 
     let targetTeamId: string
     let userRole: 'admin' | 'member' = 'member'
+    let requiresApproval = false
 
     if (domainMapping) {
       // Domain mapping exists, assign to that team
       targetTeamId = domainMapping.team_id
-      console.log(`Found domain mapping. Assigning user to team: ${targetTeamId}`)
+
+      // Teams can hold domain signups for an admin to approve first
+      const { data: teamSettings, error: settingsError } = await supabase
+        .from('team_settings')
+        .select('require_member_approval')
+        .eq('team_id', targetTeamId)
+        .maybeSingle()
+
+      if (settingsError) {
+        console.error('Error checking team settings:', settingsError)
+        throw settingsError
+      }
+
+      requiresApproval = teamSettings?.require_member_approval === true
+      console.log(`Found domain mapping. ${requiresApproval ? 'Requesting membership in' : 'Assigning user to'} team: ${targetTeamId}`)
     } else {
       // No domain mapping, try to find a default team or create one
       const { data: defaultTeam, error: teamError } = await supabase
         .from('teams')
         .select('id')
         .eq('name', 'Default Team')
+        .is('archived_at', null)
         .single()
       
       if (defaultTeam) {
@@ -136,6 +156,41 @@ serve(async (req) => {
       console.log(`User profile already exists for ${email}`)
     }
 
+    if (requiresApproval) {
+      const { error: requestError } = await supabase
+        .from('team_membership_requests')
+        .upsert({
+          user_id: userId,
+          team_id: targetTeamId,
+          source: 'domain'
+        }, {
+          onConflict: 'team_id,user_id',
+          ignoreDuplicates: true
+        })
+
+      if (requestError) {
+        console.error('Error creating membership request:', requestError)
+        throw requestError
+      }
+
+      console.log(`Created membership request for ${email} on team ${targetTeamId}`)
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          userId: userId,
+          email: email,
+          teamId: targetTeamId,
+          pendingApproval: true,
+          message: 'Membership request created and awaiting admin approval'
+        }),
+        {
+          headers: { 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      )
+    }
+
     // Add user to team
     const { error: memberError } = await supabase
       .from('team_members')
@@ -0,0 +1,408 @@
+-- Append-Only Points Ledger
+-- Replaces the read-modify-write points counter with a ledger of point transactions.
+-- The points table becomes a derived balance maintained by trigger, so every point
+-- an employee holds is traceable to a transaction and totals cannot drift.
+
+-- ============================================================================
+-- 1. CREATE POINT TRANSACTIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.point_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Not a foreign key: ledger history must outlive deleted reviews
+  review_id UUID,
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  reason TEXT NOT NULL CHECK (reason IN ('review_award', 'admin_adjustment', 'reversal', 'expiry')),
+  reverses_transaction_id UUID REFERENCES public.point_transactions(id),
+  note TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_point_transactions_team_employee
+ON public.point_transactions(team_id, employee_id);
+
+CREATE INDEX IF NOT EXISTS idx_point_transactions_created_at
+ON public.point_transactions(team_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_point_transactions_review_id
+ON public.point_transactions(review_id);
+
+-- A review can only be awarded once, and a transaction can only be reversed once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_point_transactions_single_review_award
+ON public.point_transactions(review_id)
+WHERE reason = 'review_award' AND review_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_point_transactions_single_reversal
+ON public.point_transactions(reverses_transaction_id)
+WHERE reverses_transaction_id IS NOT NULL;
+
+ALTER TABLE public.point_transactions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. MAKE POINTS BALANCES TEAM-SCOPED
+-- ============================================================================
+
+-- The original schema made employee_id unique, which breaks multi-team balances
+ALTER TABLE public.points DROP CONSTRAINT IF EXISTS points_employee_id_key;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'points_employee_team_key') THEN
+        ALTER TABLE public.points ADD CONSTRAINT points_employee_team_key UNIQUE (employee_id, team_id);
+    END IF;
+END $$;
+
+-- ============================================================================
+-- 3. LEDGER INTEGRITY TRIGGERS
+-- ============================================================================
+
+-- Ledger rows are never edited or removed; corrections are new transactions
+CREATE OR REPLACE FUNCTION public.prevent_point_transaction_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Allow cascades when the owning team or employee is removed
+    IF NOT EXISTS (SELECT 1 FROM public.teams WHERE id = OLD.team_id)
+       OR NOT EXISTS (SELECT 1 FROM public.users WHERE id = OLD.employee_id) THEN
+      RETURN OLD;
+    END IF;
+  ELSIF OLD.created_by IS NOT NULL AND NEW.created_by IS NULL
+    AND (NEW.team_id, NEW.employee_id, NEW.review_id, NEW.amount, NEW.reason)
+      IS NOT DISTINCT FROM (OLD.team_id, OLD.employee_id, OLD.review_id, OLD.amount, OLD.reason) THEN
+    -- Allow ON DELETE SET NULL when the acting user is removed
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'point_transactions is append-only; record a reversal or adjustment instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS point_transactions_append_only ON public.point_transactions;
+CREATE TRIGGER point_transactions_append_only
+  BEFORE UPDATE OR DELETE ON public.point_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_point_transaction_changes();
+
+-- Recompute the derived balance from the ledger after every insert
+CREATE OR REPLACE FUNCTION public.sync_points_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.points (employee_id, team_id, points, updated_at)
+  SELECT
+    NEW.employee_id,
+    NEW.team_id,
+    COALESCE(SUM(pt.amount), 0),
+    NOW()
+  FROM public.point_transactions pt
+  WHERE pt.employee_id = NEW.employee_id AND pt.team_id = NEW.team_id
+  ON CONFLICT (employee_id, team_id)
+  DO UPDATE SET points = EXCLUDED.points, updated_at = EXCLUDED.updated_at;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS point_transactions_sync_balance ON public.point_transactions;
+CREATE TRIGGER point_transactions_sync_balance
+  AFTER INSERT ON public.point_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_points_balance();
+
+-- ============================================================================
+-- 4. MIGRATE EXISTING BALANCES
+-- ============================================================================
+
+-- Record each existing counter as an opening balance so the ledger matches
+INSERT INTO public.point_transactions (team_id, employee_id, amount, reason, note)
+SELECT p.team_id, p.employee_id, p.points, 'admin_adjustment', 'Opening balance migrated from points counter'
+FROM public.points p
+WHERE p.points <> 0
+AND NOT EXISTS (
+  SELECT 1 FROM public.point_transactions pt
+  WHERE pt.team_id = p.team_id AND pt.employee_id = p.employee_id
+);
+
+-- ============================================================================
+-- 5. RLS POLICIES
+-- ============================================================================
+
+-- Team members can read their team's ledger
+CREATE POLICY "Team members can view point transactions" ON public.point_transactions
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), point_transactions.team_id)
+  );
+
+-- Direct inserts are limited to service operations; users go through the functions below
+CREATE POLICY "Service can record point transactions" ON public.point_transactions
+  FOR INSERT
+  WITH CHECK (public.is_service_operation());
+
+-- Balances are derived from the ledger, so users can no longer write them directly
+DROP POLICY IF EXISTS "Enhanced team points creation" ON public.points;
+DROP POLICY IF EXISTS "Enhanced team points updates" ON public.points;
+DROP POLICY IF EXISTS "Enhanced team points deletion" ON public.points;
+
+CREATE POLICY "Service can manage derived points" ON public.points
+  FOR ALL
+  USING (public.is_service_operation())
+  WITH CHECK (public.is_service_operation());
+
+-- ============================================================================
+-- 6. LEDGER FUNCTIONS
+-- ============================================================================
+
+-- Award points for a review (any team member who can see the review)
+CREATE OR REPLACE FUNCTION public.award_review_points(
+  review_uuid UUID,
+  points_amount INTEGER,
+  award_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  target_review RECORD;
+  transaction_id UUID;
+BEGIN
+  SELECT id, team_id, employee_id INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_review.team_id) THEN
+    RAISE EXCEPTION 'Access denied: user not member of team';
+  END IF;
+
+  IF points_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, metadata, created_by)
+  VALUES (target_review.team_id, target_review.employee_id, target_review.id, points_amount, 'review_award', COALESCE(award_metadata, '{}'), auth.uid())
+  RETURNING id INTO transaction_id;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Manually adjust an employee's balance (admin only)
+CREATE OR REPLACE FUNCTION public.adjust_employee_points(
+  team_uuid UUID,
+  employee_uuid UUID,
+  points_amount INTEGER,
+  adjustment_note TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  transaction_id UUID;
+BEGIN
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can adjust points';
+  END IF;
+
+  IF NOT public.user_has_team_access(employee_uuid, team_uuid) THEN
+    RAISE EXCEPTION 'Employee is not a member of this team';
+  END IF;
+
+  IF adjustment_note IS NULL OR LENGTH(TRIM(adjustment_note)) = 0 THEN
+    RAISE EXCEPTION 'A note is required for point adjustments';
+  END IF;
+
+  INSERT INTO public.point_transactions (team_id, employee_id, amount, reason, note, created_by)
+  VALUES (team_uuid, employee_uuid, points_amount, 'admin_adjustment', TRIM(adjustment_note), auth.uid())
+  RETURNING id INTO transaction_id;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reverse a previous transaction (admin only)
+CREATE OR REPLACE FUNCTION public.reverse_point_transaction(
+  transaction_uuid UUID,
+  reversal_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  original RECORD;
+  transaction_id UUID;
+BEGIN
+  SELECT * INTO original
+  FROM public.point_transactions
+  WHERE id = transaction_uuid;
+
+  IF original.id IS NULL THEN
+    RAISE EXCEPTION 'Point transaction not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), original.team_id, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can reverse point transactions';
+  END IF;
+
+  IF original.reason = 'reversal' THEN
+    RAISE EXCEPTION 'A reversal cannot itself be reversed';
+  END IF;
+
+  INSERT INTO public.point_transactions (
+    team_id, employee_id, review_id, amount, reason, reverses_transaction_id, note, created_by
+  )
+  VALUES (
+    original.team_id, original.employee_id, original.review_id, -original.amount,
+    'reversal', original.id, reversal_note, auth.uid()
+  )
+  RETURNING id INTO transaction_id;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Expire points older than a cutoff for one team (service operations only, e.g. scheduled jobs)
+CREATE OR REPLACE FUNCTION public.expire_team_points(
+  team_uuid UUID,
+  expire_before TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  IF NOT public.is_service_operation() THEN
+    RAISE EXCEPTION 'Point expiry can only run as a service operation';
+  END IF;
+
+  -- Expire the unspent remainder of each employee's balance earned before the cutoff
+  WITH earned AS (
+    SELECT employee_id, SUM(amount) AS earned_before
+    FROM public.point_transactions
+    WHERE team_id = team_uuid AND created_at < expire_before AND reason <> 'expiry'
+    GROUP BY employee_id
+  ),
+  already_expired AS (
+    SELECT employee_id, -SUM(amount) AS expired_total
+    FROM public.point_transactions
+    WHERE team_id = team_uuid AND reason = 'expiry'
+    GROUP BY employee_id
+  ),
+  inserted AS (
+    INSERT INTO public.point_transactions (team_id, employee_id, amount, reason, note)
+    SELECT
+      team_uuid,
+      e.employee_id,
+      -(e.earned_before - COALESCE(x.expired_total, 0)),
+      'expiry',
+      'Points earned before ' || expire_before::TEXT || ' expired'
+    FROM earned e
+    LEFT JOIN already_expired x ON x.employee_id = e.employee_id
+    WHERE e.earned_before - COALESCE(x.expired_total, 0) > 0
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO expired_count FROM inserted;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 7. DERIVE LEADERBOARD AND DASHBOARD TOTALS FROM THE LEDGER
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_team_leaderboard(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_team_leaderboard(
+  team_uuid UUID,
+  limit_count INTEGER DEFAULT 10
+)
+RETURNS TABLE(
+  employee_id UUID,
+  employee_name TEXT,
+  employee_email TEXT,
+  total_reviews BIGINT,
+  total_points INTEGER,
+  rank BIGINT
+) AS $$
+BEGIN
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid) THEN
+    RAISE EXCEPTION 'Access denied: user not member of team';
+  END IF;
+
+  RETURN QUERY
+  WITH review_counts AS (
+    SELECT r.employee_id, COUNT(*) AS review_count
+    FROM public.reviews r
+    WHERE r.team_id = team_uuid
+    GROUP BY r.employee_id
+  ),
+  balances AS (
+    SELECT pt.employee_id, SUM(pt.amount)::INTEGER AS balance
+    FROM public.point_transactions pt
+    WHERE pt.team_id = team_uuid
+    GROUP BY pt.employee_id
+  )
+  SELECT
+    u.id AS employee_id,
+    u.name AS employee_name,
+    u.email AS employee_email,
+    COALESCE(rc.review_count, 0) AS total_reviews,
+    COALESCE(b.balance, 0) AS total_points,
+    RANK() OVER (ORDER BY COALESCE(b.balance, 0) DESC) AS rank
+  FROM public.users u
+  JOIN public.team_members tm ON u.id = tm.user_id
+  LEFT JOIN review_counts rc ON rc.employee_id = u.id
+  LEFT JOIN balances b ON b.employee_id = u.id
+  WHERE tm.team_id = team_uuid
+  ORDER BY COALESCE(b.balance, 0) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS public.get_team_dashboard_stats(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_team_dashboard_stats(team_uuid UUID)
+RETURNS TABLE(
+  total_reviews BIGINT,
+  total_points BIGINT,
+  total_members BIGINT,
+  top_employee_name TEXT,
+  top_employee_points INTEGER,
+  recent_reviews_count BIGINT
+) AS $$
+BEGIN
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid) THEN
+    RAISE EXCEPTION 'Access denied: user not member of team';
+  END IF;
+
+  RETURN QUERY
+  WITH balances AS (
+    SELECT pt.employee_id, SUM(pt.amount)::INTEGER AS balance
+    FROM public.point_transactions pt
+    WHERE pt.team_id = team_uuid
+    GROUP BY pt.employee_id
+  ),
+  top_employee AS (
+    SELECT u.name, b.balance
+    FROM balances b
+    JOIN public.users u ON u.id = b.employee_id
+    ORDER BY b.balance DESC
+    LIMIT 1
+  )
+  SELECT
+    (SELECT COUNT(*) FROM public.reviews WHERE team_id = team_uuid) AS total_reviews,
+    (SELECT COALESCE(SUM(balance), 0) FROM balances)::BIGINT AS total_points,
+    (SELECT COUNT(*) FROM public.team_members WHERE team_id = team_uuid) AS total_members,
+    (SELECT name FROM top_employee) AS top_employee_name,
+    (SELECT balance FROM top_employee) AS top_employee_points,
+    (
+      SELECT COUNT(*)
+      FROM public.reviews
+      WHERE team_id = team_uuid
+      AND created_at > NOW() - INTERVAL '7 days'
+    ) AS recent_reviews_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT ALL ON public.point_transactions TO service_role;
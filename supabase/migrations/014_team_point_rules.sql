@@ -0,0 +1,75 @@
+-- Per-Team Points Rules
+-- Stores configurable point rules per team. Rules are evaluated by the shared
+-- rules module (src/lib/points-rules.ts) when a review is submitted.
+
+-- ============================================================================
+-- 1. CREATE TEAM POINT RULES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.team_point_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL CHECK (rule_type IN (
+    'base_points',
+    'job_type_points',
+    'photo_bonus',
+    'keyword_bonus',
+    'min_keyword_length',
+    'daily_cap',
+    'multiplier'
+  )),
+  config JSONB NOT NULL DEFAULT '{}',
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_point_rules_team_active
+ON public.team_point_rules(team_id, is_active);
+
+ALTER TABLE public.team_point_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_team_point_rules_updated_at
+  BEFORE UPDATE ON public.team_point_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- 2. RLS POLICIES
+-- ============================================================================
+
+-- Members need to read rules so submissions can be scored
+CREATE POLICY "Team members can view point rules" ON public.team_point_rules
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_point_rules.team_id)
+  );
+
+CREATE POLICY "Team admins can create point rules" ON public.team_point_rules
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_point_rules.team_id, 'admin')
+  );
+
+CREATE POLICY "Team admins can update point rules" ON public.team_point_rules
+  FOR UPDATE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_point_rules.team_id, 'admin')
+  );
+
+CREATE POLICY "Team admins can delete point rules" ON public.team_point_rules
+  FOR DELETE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_point_rules.team_id, 'admin')
+  );
+
+GRANT ALL ON public.team_point_rules TO service_role;
@@ -0,0 +1,174 @@
+-- Review Edits and Deletions with Point Reversal
+-- Lets team admins edit or delete reviews. Point changes are recorded in the
+-- ledger in the same transaction as the review change, and every change is
+-- written to an audit log with the acting user.
+
+-- ============================================================================
+-- 1. TRACK WHO LAST CHANGED A REVIEW
+-- ============================================================================
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- 2. CREATE REVIEW AUDIT LOG
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.review_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Not a foreign key: the log must outlive deleted reviews
+  review_id UUID NOT NULL,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('update', 'delete')),
+  changed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  previous_values JSONB NOT NULL DEFAULT '{}',
+  new_values JSONB NOT NULL DEFAULT '{}',
+  points_delta INTEGER NOT NULL DEFAULT 0,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_audit_log_team
+ON public.review_audit_log(team_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_review_audit_log_review
+ON public.review_audit_log(review_id);
+
+ALTER TABLE public.review_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team admins can view review audit log" ON public.review_audit_log
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), review_audit_log.team_id, 'admin')
+  );
+
+-- Entries are only written by the functions below
+CREATE POLICY "Service can write review audit log" ON public.review_audit_log
+  FOR INSERT
+  WITH CHECK (public.is_service_operation());
+
+-- ============================================================================
+-- 3. ATOMIC EDIT AND DELETE FUNCTIONS
+-- ============================================================================
+
+-- Apply edits to a review and move the employee's points to the recalculated value
+CREATE OR REPLACE FUNCTION public.update_review_with_points(
+  review_uuid UUID,
+  review_changes JSONB,
+  new_points INTEGER,
+  points_metadata JSONB DEFAULT '{}',
+  change_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  target_review public.reviews%ROWTYPE;
+  current_points INTEGER;
+  points_delta INTEGER;
+BEGIN
+  -- Lock the review so concurrent edits cannot both recalculate from stale totals
+  SELECT * INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid
+  FOR UPDATE;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_review.team_id, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can edit reviews';
+  END IF;
+
+  UPDATE public.reviews
+  SET
+    customer_name = COALESCE(review_changes->>'customer_name', customer_name),
+    job_type = COALESCE(review_changes->>'job_type', job_type),
+    has_photo = COALESCE((review_changes->>'has_photo')::BOOLEAN, has_photo),
+    keywords = COALESCE(review_changes->>'keywords', keywords),
+    updated_at = NOW(),
+    updated_by = auth.uid()
+  WHERE id = review_uuid;
+
+  SELECT COALESCE(SUM(amount), 0) INTO current_points
+  FROM public.point_transactions
+  WHERE review_id = review_uuid;
+
+  points_delta := GREATEST(new_points, 0) - current_points;
+
+  IF points_delta <> 0 THEN
+    INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, note, metadata, created_by)
+    VALUES (
+      target_review.team_id, target_review.employee_id, review_uuid, points_delta,
+      'admin_adjustment', COALESCE(change_note, 'Points recalculated after review edit'),
+      COALESCE(points_metadata, '{}'), auth.uid()
+    );
+  END IF;
+
+  INSERT INTO public.review_audit_log (review_id, team_id, action, changed_by, previous_values, new_values, points_delta, note)
+  VALUES (
+    review_uuid, target_review.team_id, 'update', auth.uid(),
+    jsonb_build_object(
+      'customer_name', target_review.customer_name,
+      'job_type', target_review.job_type,
+      'has_photo', target_review.has_photo,
+      'keywords', target_review.keywords
+    ),
+    review_changes, points_delta, change_note
+  );
+
+  RETURN points_delta;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Delete a review and reverse every point it earned
+CREATE OR REPLACE FUNCTION public.delete_review_with_reversal(
+  review_uuid UUID,
+  deletion_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  target_review public.reviews%ROWTYPE;
+  current_points INTEGER;
+BEGIN
+  SELECT * INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid
+  FOR UPDATE;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_review.team_id, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can delete reviews';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO current_points
+  FROM public.point_transactions
+  WHERE review_id = review_uuid;
+
+  IF current_points <> 0 THEN
+    INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, note, created_by)
+    VALUES (
+      target_review.team_id, target_review.employee_id, review_uuid, -current_points,
+      'reversal', COALESCE(deletion_note, 'Review deleted'), auth.uid()
+    );
+  END IF;
+
+  INSERT INTO public.review_audit_log (review_id, team_id, action, changed_by, previous_values, points_delta, note)
+  VALUES (
+    review_uuid, target_review.team_id, 'delete', auth.uid(),
+    to_jsonb(target_review), -current_points, deletion_note
+  );
+
+  DELETE FROM public.reviews WHERE id = review_uuid;
+
+  RETURN -current_points;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT ALL ON public.review_audit_log TO service_role;
@@ -0,0 +1,406 @@
+-- Review Approval Workflow
+-- Adds a status lifecycle to reviews (pending, approved, rejected) and a
+-- per-team setting that holds new reviews for admin approval before any
+-- points are written to the ledger.
+
+-- ============================================================================
+-- 1. CREATE TEAM SETTINGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.team_settings (
+  team_id UUID PRIMARY KEY REFERENCES public.teams(id) ON DELETE CASCADE,
+  require_review_approval BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE TRIGGER update_team_settings_updated_at
+  BEFORE UPDATE ON public.team_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.team_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view team settings" ON public.team_settings
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_settings.team_id)
+  );
+
+CREATE POLICY "Team admins can create team settings" ON public.team_settings
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_settings.team_id, 'admin')
+  );
+
+CREATE POLICY "Team admins can update team settings" ON public.team_settings
+  FOR UPDATE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_settings.team_id, 'admin')
+  );
+
+-- ============================================================================
+-- 2. ADD REVIEW STATUS
+-- ============================================================================
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'reviews_status_check'
+  ) THEN
+    ALTER TABLE public.reviews
+    ADD CONSTRAINT reviews_status_check CHECK (status IN ('pending', 'approved', 'rejected'));
+  END IF;
+END $$;
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_team_status
+ON public.reviews(team_id, status, created_at);
+
+-- New reviews take their status from the team's settings, never from the caller
+CREATE OR REPLACE FUNCTION public.set_review_initial_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_service_operation() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT CASE WHEN ts.require_review_approval THEN 'pending' ELSE 'approved' END
+  INTO NEW.status
+  FROM public.team_settings ts
+  WHERE ts.team_id = NEW.team_id;
+
+  NEW.status := COALESCE(NEW.status, 'approved');
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_at := NULL;
+  NEW.rejection_reason := NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_review_initial_status ON public.reviews;
+CREATE TRIGGER set_review_initial_status
+  BEFORE INSERT ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_review_initial_status();
+
+-- ============================================================================
+-- 3. ONLY APPROVED REVIEWS EARN POINTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.award_review_points(
+  review_uuid UUID,
+  points_amount INTEGER,
+  award_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  target_review RECORD;
+  transaction_id UUID;
+BEGIN
+  SELECT id, team_id, employee_id, status INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_review.team_id) THEN
+    RAISE EXCEPTION 'Access denied: user not member of team';
+  END IF;
+
+  IF target_review.status <> 'approved' THEN
+    RAISE EXCEPTION 'Points can only be awarded for approved reviews';
+  END IF;
+
+  IF points_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, metadata, created_by)
+  VALUES (target_review.team_id, target_review.employee_id, target_review.id, points_amount, 'review_award', COALESCE(award_metadata, '{}'), auth.uid())
+  RETURNING id INTO transaction_id;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Approve a pending (or previously rejected) review and award its points
+CREATE OR REPLACE FUNCTION public.approve_review(
+  review_uuid UUID,
+  points_amount INTEGER,
+  award_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  target_review public.reviews%ROWTYPE;
+  transaction_id UUID;
+BEGIN
+  SELECT * INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid
+  FOR UPDATE;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_review.team_id, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can approve reviews';
+  END IF;
+
+  IF target_review.status = 'approved' THEN
+    RAISE EXCEPTION 'Review is already approved';
+  END IF;
+
+  UPDATE public.reviews
+  SET
+    status = 'approved',
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW(),
+    rejection_reason = NULL
+  WHERE id = review_uuid;
+
+  IF points_amount > 0 THEN
+    INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, metadata, created_by)
+    VALUES (
+      target_review.team_id, target_review.employee_id, review_uuid, points_amount,
+      'review_award', COALESCE(award_metadata, '{}'), auth.uid()
+    )
+    RETURNING id INTO transaction_id;
+  END IF;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reject a pending review; no points are awarded
+CREATE OR REPLACE FUNCTION public.reject_review(
+  review_uuid UUID,
+  reason TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  target_review public.reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid
+  FOR UPDATE;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_review.team_id, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can reject reviews';
+  END IF;
+
+  IF target_review.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending reviews can be rejected';
+  END IF;
+
+  UPDATE public.reviews
+  SET
+    status = 'rejected',
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW(),
+    rejection_reason = reason
+  WHERE id = review_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Edits to reviews that are not approved change the review but not the ledger
+CREATE OR REPLACE FUNCTION public.update_review_with_points(
+  review_uuid UUID,
+  review_changes JSONB,
+  new_points INTEGER,
+  points_metadata JSONB DEFAULT '{}',
+  change_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  target_review public.reviews%ROWTYPE;
+  current_points INTEGER;
+  points_delta INTEGER := 0;
+BEGIN
+  SELECT * INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid
+  FOR UPDATE;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_review.team_id, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can edit reviews';
+  END IF;
+
+  UPDATE public.reviews
+  SET
+    customer_name = COALESCE(review_changes->>'customer_name', customer_name),
+    job_type = COALESCE(review_changes->>'job_type', job_type),
+    has_photo = COALESCE((review_changes->>'has_photo')::BOOLEAN, has_photo),
+    keywords = COALESCE(review_changes->>'keywords', keywords),
+    updated_at = NOW(),
+    updated_by = auth.uid()
+  WHERE id = review_uuid;
+
+  IF target_review.status = 'approved' THEN
+    SELECT COALESCE(SUM(amount), 0) INTO current_points
+    FROM public.point_transactions
+    WHERE review_id = review_uuid;
+
+    points_delta := GREATEST(new_points, 0) - current_points;
+
+    IF points_delta <> 0 THEN
+      INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, note, metadata, created_by)
+      VALUES (
+        target_review.team_id, target_review.employee_id, review_uuid, points_delta,
+        'admin_adjustment', COALESCE(change_note, 'Points recalculated after review edit'),
+        COALESCE(points_metadata, '{}'), auth.uid()
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO public.review_audit_log (review_id, team_id, action, changed_by, previous_values, new_values, points_delta, note)
+  VALUES (
+    review_uuid, target_review.team_id, 'update', auth.uid(),
+    jsonb_build_object(
+      'customer_name', target_review.customer_name,
+      'job_type', target_review.job_type,
+      'has_photo', target_review.has_photo,
+      'keywords', target_review.keywords
+    ),
+    review_changes, points_delta, change_note
+  );
+
+  RETURN points_delta;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. COUNT ONLY APPROVED REVIEWS IN TEAM STATS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_team_leaderboard(
+  team_uuid UUID,
+  limit_count INTEGER DEFAULT 10
+)
+RETURNS TABLE(
+  employee_id UUID,
+  employee_name TEXT,
+  employee_email TEXT,
+  total_reviews BIGINT,
+  total_points INTEGER,
+  rank BIGINT
+) AS $$
+BEGIN
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid) THEN
+    RAISE EXCEPTION 'Access denied: user not member of team';
+  END IF;
+
+  RETURN QUERY
+  WITH review_counts AS (
+    SELECT r.employee_id, COUNT(*) AS review_count
+    FROM public.reviews r
+    WHERE r.team_id = team_uuid
+    AND r.status = 'approved'
+    GROUP BY r.employee_id
+  ),
+  balances AS (
+    SELECT pt.employee_id, SUM(pt.amount)::INTEGER AS balance
+    FROM public.point_transactions pt
+    WHERE pt.team_id = team_uuid
+    GROUP BY pt.employee_id
+  )
+  SELECT
+    u.id AS employee_id,
+    u.name AS employee_name,
+    u.email AS employee_email,
+    COALESCE(rc.review_count, 0) AS total_reviews,
+    COALESCE(b.balance, 0) AS total_points,
+    RANK() OVER (ORDER BY COALESCE(b.balance, 0) DESC) AS rank
+  FROM public.users u
+  JOIN public.team_members tm ON u.id = tm.user_id
+  LEFT JOIN review_counts rc ON rc.employee_id = u.id
+  LEFT JOIN balances b ON b.employee_id = u.id
+  WHERE tm.team_id = team_uuid
+  ORDER BY COALESCE(b.balance, 0) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS public.get_team_dashboard_stats(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_team_dashboard_stats(team_uuid UUID)
+RETURNS TABLE(
+  total_reviews BIGINT,
+  total_points BIGINT,
+  total_members BIGINT,
+  top_employee_name TEXT,
+  top_employee_points INTEGER,
+  recent_reviews_count BIGINT,
+  pending_reviews_count BIGINT
+) AS $$
+BEGIN
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid) THEN
+    RAISE EXCEPTION 'Access denied: user not member of team';
+  END IF;
+
+  RETURN QUERY
+  WITH balances AS (
+    SELECT pt.employee_id, SUM(pt.amount)::INTEGER AS balance
+    FROM public.point_transactions pt
+    WHERE pt.team_id = team_uuid
+    GROUP BY pt.employee_id
+  ),
+  top_employee AS (
+    SELECT u.name, b.balance
+    FROM balances b
+    JOIN public.users u ON u.id = b.employee_id
+    ORDER BY b.balance DESC
+    LIMIT 1
+  )
+  SELECT
+    (SELECT COUNT(*) FROM public.reviews WHERE team_id = team_uuid AND status = 'approved') AS total_reviews,
+    (SELECT COALESCE(SUM(balance), 0) FROM balances)::BIGINT AS total_points,
+    (SELECT COUNT(*) FROM public.team_members WHERE team_id = team_uuid) AS total_members,
+    (SELECT name FROM top_employee) AS top_employee_name,
+    (SELECT balance FROM top_employee) AS top_employee_points,
+    (
+      SELECT COUNT(*)
+      FROM public.reviews
+      WHERE team_id = team_uuid
+      AND status = 'approved'
+      AND created_at > NOW() - INTERVAL '7 days'
+    ) AS recent_reviews_count,
+    (
+      SELECT COUNT(*)
+      FROM public.reviews
+      WHERE team_id = team_uuid
+      AND status = 'pending'
+    ) AS pending_reviews_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT ALL ON public.team_settings TO service_role;
@@ -0,0 +1,131 @@
+-- Review Photo Attachments
+-- Stores uploaded review photos in a private, team-scoped storage bucket and
+-- records their metadata. A review's has_photo flag is derived from whether it
+-- has at least one attachment instead of being self-reported.
+
+-- ============================================================================
+-- 1. CREATE STORAGE BUCKET
+-- ============================================================================
+
+-- Objects are stored as <team_id>/<attachment_id>.<ext>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-attachments', 'review-attachments', FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Team members can view review attachment files" ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'review-attachments'
+    AND public.user_has_team_access(auth.uid(), ((storage.foldername(name))[1])::UUID)
+  );
+
+CREATE POLICY "Team members can upload review attachment files" ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'review-attachments'
+    AND public.user_has_team_access(auth.uid(), ((storage.foldername(name))[1])::UUID)
+  );
+
+CREATE POLICY "Team admins can delete review attachment files" ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'review-attachments'
+    AND public.user_has_team_access(auth.uid(), ((storage.foldername(name))[1])::UUID, 'admin')
+  );
+
+-- ============================================================================
+-- 2. CREATE ATTACHMENT METADATA TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.review_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  -- NULL until the upload is attached to a submitted review
+  review_id UUID REFERENCES public.reviews(id) ON DELETE CASCADE,
+  uploaded_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_attachments_review
+ON public.review_attachments(review_id);
+
+CREATE INDEX IF NOT EXISTS idx_review_attachments_unlinked
+ON public.review_attachments(team_id, uploaded_by)
+WHERE review_id IS NULL;
+
+ALTER TABLE public.review_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view review attachments" ON public.review_attachments
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), review_attachments.team_id)
+  );
+
+CREATE POLICY "Team members can record their uploads" ON public.review_attachments
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR (
+      public.user_has_team_access(auth.uid(), review_attachments.team_id)
+      AND review_attachments.uploaded_by = auth.uid()
+      AND review_attachments.review_id IS NULL
+    )
+  );
+
+-- Uploaders link their own unattached uploads; admins may relink any
+CREATE POLICY "Uploaders can attach their uploads" ON public.review_attachments
+  FOR UPDATE
+  USING (
+    public.is_service_operation()
+    OR (review_attachments.uploaded_by = auth.uid() AND review_attachments.review_id IS NULL)
+    OR public.user_has_team_access(auth.uid(), review_attachments.team_id, 'admin')
+  );
+
+CREATE POLICY "Team admins can delete review attachments" ON public.review_attachments
+  FOR DELETE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), review_attachments.team_id, 'admin')
+  );
+
+-- ============================================================================
+-- 3. DERIVE has_photo FROM ATTACHMENTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.sync_review_has_photo()
+RETURNS TRIGGER AS $$
+DECLARE
+  affected_review UUID;
+BEGIN
+  FOR affected_review IN
+    SELECT DISTINCT review_uuid
+    FROM (VALUES
+      (CASE WHEN TG_OP <> 'DELETE' THEN NEW.review_id END),
+      (CASE WHEN TG_OP <> 'INSERT' THEN OLD.review_id END)
+    ) AS changed(review_uuid)
+    WHERE review_uuid IS NOT NULL
+  LOOP
+    UPDATE public.reviews
+    SET has_photo = EXISTS (
+      SELECT 1 FROM public.review_attachments
+      WHERE review_id = affected_review
+    )
+    WHERE id = affected_review;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_review_has_photo ON public.review_attachments;
+CREATE TRIGGER sync_review_has_photo
+  AFTER INSERT OR UPDATE OF review_id OR DELETE ON public.review_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_review_has_photo();
+
+GRANT ALL ON public.review_attachments TO service_role;
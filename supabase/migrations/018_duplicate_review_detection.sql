@@ -0,0 +1,81 @@
+-- Duplicate Review Detection
+-- Flags submissions whose normalized customer name and job type match a
+-- recent review in the same team. Teams choose whether matches are rejected
+-- outright or held for admin approval.
+
+-- ============================================================================
+-- 1. DUPLICATE SETTINGS
+-- ============================================================================
+
+ALTER TABLE public.team_settings
+ADD COLUMN IF NOT EXISTS duplicate_window_hours INTEGER NOT NULL DEFAULT 72;
+
+ALTER TABLE public.team_settings
+ADD COLUMN IF NOT EXISTS duplicate_action TEXT NOT NULL DEFAULT 'reject';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'team_settings_duplicate_window_check'
+  ) THEN
+    ALTER TABLE public.team_settings
+    ADD CONSTRAINT team_settings_duplicate_window_check CHECK (duplicate_window_hours BETWEEN 0 AND 8760);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'team_settings_duplicate_action_check'
+  ) THEN
+    ALTER TABLE public.team_settings
+    ADD CONSTRAINT team_settings_duplicate_action_check CHECK (duplicate_action IN ('reject', 'review'));
+  END IF;
+END $$;
+
+-- ============================================================================
+-- 2. NORMALIZED CUSTOMER NAMES
+-- ============================================================================
+
+-- Must match normalizeCustomerName() in src/lib/duplicate-reviews.ts
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS customer_name_normalized TEXT
+GENERATED ALWAYS AS (
+  btrim(regexp_replace(regexp_replace(lower(customer_name), '[^a-z0-9\s]', '', 'g'), '\s+', ' ', 'g'))
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_duplicate_lookup
+ON public.reviews(team_id, job_type, customer_name_normalized, created_at DESC);
+
+-- ============================================================================
+-- 3. FLAG SUSPECTED DUPLICATES
+-- ============================================================================
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS duplicate_of_review_id UUID REFERENCES public.reviews(id) ON DELETE SET NULL;
+
+-- Suspected duplicates always wait for an admin, whatever the team's approval setting
+CREATE OR REPLACE FUNCTION public.set_review_initial_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_service_operation() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT CASE WHEN ts.require_review_approval THEN 'pending' ELSE 'approved' END
+  INTO NEW.status
+  FROM public.team_settings ts
+  WHERE ts.team_id = NEW.team_id;
+
+  NEW.status := COALESCE(NEW.status, 'approved');
+
+  IF NEW.duplicate_of_review_id IS NOT NULL THEN
+    NEW.status := 'pending';
+  END IF;
+
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_at := NULL;
+  NEW.rejection_reason := NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
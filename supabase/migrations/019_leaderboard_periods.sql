@@ -0,0 +1,86 @@
+-- Time-Windowed Leaderboards
+-- Lets get_team_leaderboard rank a team over a period (week, month, quarter
+-- or a custom range) without resetting any data. Points tied to a review
+-- count in the period the review was submitted; other ledger entries (admin
+-- adjustments, expiry) count when they were recorded.
+
+-- ============================================================================
+-- 1. REPLACE LEADERBOARD FUNCTION WITH A PERIOD-AWARE VERSION
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_team_leaderboard(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_team_leaderboard(
+  team_uuid UUID,
+  limit_count INTEGER DEFAULT 10,
+  period_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  period_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE(
+  employee_id UUID,
+  employee_name TEXT,
+  employee_email TEXT,
+  total_reviews BIGINT,
+  total_points INTEGER,
+  rank BIGINT
+) AS $$
+BEGIN
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid) THEN
+    RAISE EXCEPTION 'Access denied: user not member of team';
+  END IF;
+
+  RETURN QUERY
+  WITH review_counts AS (
+    SELECT r.employee_id, COUNT(*) AS review_count
+    FROM public.reviews r
+    WHERE r.team_id = team_uuid
+    AND r.status = 'approved'
+    AND (period_start IS NULL OR r.created_at >= period_start)
+    AND (period_end IS NULL OR r.created_at < period_end)
+    GROUP BY r.employee_id
+  ),
+  dated_transactions AS (
+    SELECT
+      pt.employee_id,
+      pt.amount,
+      pt.review_id,
+      r.id AS existing_review_id,
+      COALESCE(r.created_at, pt.created_at) AS effective_at
+    FROM public.point_transactions pt
+    LEFT JOIN public.reviews r ON r.id = pt.review_id
+    WHERE pt.team_id = team_uuid
+  ),
+  balances AS (
+    SELECT dt.employee_id, SUM(dt.amount)::INTEGER AS balance
+    FROM dated_transactions dt
+    WHERE (
+      -- All-time totals include everything, matching the points table
+      (period_start IS NULL AND period_end IS NULL)
+      OR (
+        -- Entries for deleted reviews net to zero; leave them out of periods
+        (dt.review_id IS NULL OR dt.existing_review_id IS NOT NULL)
+        AND (period_start IS NULL OR dt.effective_at >= period_start)
+        AND (period_end IS NULL OR dt.effective_at < period_end)
+      )
+    )
+    GROUP BY dt.employee_id
+  )
+  SELECT
+    u.id AS employee_id,
+    u.name AS employee_name,
+    u.email AS employee_email,
+    COALESCE(rc.review_count, 0) AS total_reviews,
+    COALESCE(b.balance, 0) AS total_points,
+    RANK() OVER (ORDER BY COALESCE(b.balance, 0) DESC) AS rank
+  FROM public.users u
+  JOIN public.team_members tm ON u.id = tm.user_id
+  LEFT JOIN review_counts rc ON rc.employee_id = u.id
+  LEFT JOIN balances b ON b.employee_id = u.id
+  WHERE tm.team_id = team_uuid
+  ORDER BY COALESCE(b.balance, 0) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE INDEX IF NOT EXISTS idx_point_transactions_team_created
+ON public.point_transactions(team_id, created_at);
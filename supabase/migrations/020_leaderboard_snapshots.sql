@@ -0,0 +1,123 @@
+-- Leaderboard History Snapshots
+-- Stores periodic copies of each team's all-time leaderboard so the app can
+-- show rank movement ("up 3 places since last week") and a ranking history.
+
+-- ============================================================================
+-- 1. CREATE SNAPSHOT TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.leaderboard_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  captured_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  -- One snapshot per team per UTC day; re-running the job on the same day is a no-op
+  captured_on DATE NOT NULL DEFAULT (TIMEZONE('utc'::text, NOW()))::DATE,
+  UNIQUE(team_id, captured_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshots_team_captured
+ON public.leaderboard_snapshots(team_id, captured_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.leaderboard_snapshot_entries (
+  snapshot_id UUID NOT NULL REFERENCES public.leaderboard_snapshots(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL,
+  total_points INTEGER NOT NULL,
+  total_reviews INTEGER NOT NULL,
+  PRIMARY KEY (snapshot_id, employee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_snapshot_entries_employee
+ON public.leaderboard_snapshot_entries(employee_id);
+
+ALTER TABLE public.leaderboard_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leaderboard_snapshot_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view leaderboard snapshots" ON public.leaderboard_snapshots
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), leaderboard_snapshots.team_id)
+  );
+
+CREATE POLICY "Team members can view leaderboard snapshot entries" ON public.leaderboard_snapshot_entries
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR EXISTS (
+      SELECT 1 FROM public.leaderboard_snapshots ls
+      WHERE ls.id = leaderboard_snapshot_entries.snapshot_id
+      AND public.user_has_team_access(auth.uid(), ls.team_id)
+    )
+  );
+
+-- Snapshots are only written by capture_leaderboard_snapshots()
+
+-- ============================================================================
+-- 2. CAPTURE FUNCTION
+-- ============================================================================
+
+-- Capture today's snapshot for one team (team admins) or every team (service role).
+-- Returns the number of snapshots created.
+CREATE OR REPLACE FUNCTION public.capture_leaderboard_snapshots(team_uuid UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  target_team UUID;
+  new_snapshot_id UUID;
+  created_count INTEGER := 0;
+BEGIN
+  IF team_uuid IS NULL THEN
+    IF NOT public.is_service_operation() THEN
+      RAISE EXCEPTION 'Only the service role can snapshot every team';
+    END IF;
+  ELSIF NOT public.is_service_operation()
+    AND NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can capture leaderboard snapshots';
+  END IF;
+
+  FOR target_team IN
+    SELECT t.id FROM public.teams t
+    WHERE team_uuid IS NULL OR t.id = team_uuid
+  LOOP
+    INSERT INTO public.leaderboard_snapshots (team_id)
+    VALUES (target_team)
+    ON CONFLICT (team_id, captured_on) DO NOTHING
+    RETURNING id INTO new_snapshot_id;
+
+    CONTINUE WHEN new_snapshot_id IS NULL;
+
+    INSERT INTO public.leaderboard_snapshot_entries (snapshot_id, employee_id, rank, total_points, total_reviews)
+    WITH review_counts AS (
+      SELECT r.employee_id, COUNT(*) AS review_count
+      FROM public.reviews r
+      WHERE r.team_id = target_team
+      AND r.status = 'approved'
+      GROUP BY r.employee_id
+    ),
+    balances AS (
+      SELECT pt.employee_id, SUM(pt.amount)::INTEGER AS balance
+      FROM public.point_transactions pt
+      WHERE pt.team_id = target_team
+      GROUP BY pt.employee_id
+    )
+    SELECT
+      new_snapshot_id,
+      tm.user_id,
+      RANK() OVER (ORDER BY COALESCE(b.balance, 0) DESC),
+      COALESCE(b.balance, 0),
+      COALESCE(rc.review_count, 0)
+    FROM public.team_members tm
+    LEFT JOIN review_counts rc ON rc.employee_id = tm.user_id
+    LEFT JOIN balances b ON b.employee_id = tm.user_id
+    WHERE tm.team_id = target_team;
+
+    created_count := created_count + 1;
+    new_snapshot_id := NULL;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT ALL ON public.leaderboard_snapshots TO service_role;
+GRANT ALL ON public.leaderboard_snapshot_entries TO service_role;
@@ -0,0 +1,29 @@
+-- Realtime Leaderboard Updates
+-- Publishes review and points changes through Supabase Realtime so the
+-- leaderboard and dashboard update without a reload. Realtime applies each
+-- table's SELECT policies, so subscribers only receive rows for their teams.
+
+-- ============================================================================
+-- 1. ADD TABLES TO THE REALTIME PUBLICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'reviews'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.reviews;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'points'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.points;
+  END IF;
+END $$;
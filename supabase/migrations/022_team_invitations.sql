@@ -0,0 +1,159 @@
+-- Team Invitations
+-- Lets team admins invite people by email, including people who have not
+-- signed up yet. Invitation links carry a signed, expiring token; only a
+-- SHA-256 hash of the latest token is stored, so resending an invitation
+-- invalidates the previous link.
+
+-- ============================================================================
+-- 1. CREATE INVITATIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.team_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = LOWER(email)),
+  role TEXT NOT NULL CHECK (role IN ('admin', 'member')) DEFAULT 'member',
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_sent_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  send_count INTEGER NOT NULL DEFAULT 1,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- At most one open invitation per email per team
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_invitations_open_email
+ON public.team_invitations(team_id, email)
+WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_team_invitations_team_created
+ON public.team_invitations(team_id, created_at DESC);
+
+CREATE TRIGGER update_team_invitations_updated_at
+  BEFORE UPDATE ON public.team_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.team_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team admins can view team invitations" ON public.team_invitations
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_invitations.team_id, 'admin')
+  );
+
+CREATE POLICY "Team admins can create team invitations" ON public.team_invitations
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_invitations.team_id, 'admin')
+  );
+
+CREATE POLICY "Team admins can update team invitations" ON public.team_invitations
+  FOR UPDATE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_invitations.team_id, 'admin')
+  );
+
+-- Invitations are revoked, never deleted, so the history stays visible
+
+-- ============================================================================
+-- 2. PREVIEW AND ACCEPT FUNCTIONS
+-- ============================================================================
+
+-- Show what an invitation link is for. Callable without signing in, so the
+-- accept page can greet people who do not have an account yet; holding the
+-- token is the only requirement.
+CREATE OR REPLACE FUNCTION public.get_team_invitation_preview(invitation_token_hash TEXT)
+RETURNS TABLE(
+  team_id UUID,
+  team_name TEXT,
+  email TEXT,
+  role TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  status TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ti.team_id,
+    t.name,
+    ti.email,
+    ti.role,
+    ti.expires_at,
+    CASE
+      WHEN ti.accepted_at IS NOT NULL THEN 'accepted'
+      WHEN ti.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN ti.expires_at <= NOW() THEN 'expired'
+      ELSE 'pending'
+    END
+  FROM public.team_invitations ti
+  JOIN public.teams t ON t.id = ti.team_id
+  WHERE ti.token_hash = invitation_token_hash;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Accept an invitation as the signed-in user. The account email must match
+-- the invited address. Existing members keep their current role.
+CREATE OR REPLACE FUNCTION public.accept_team_invitation(invitation_token_hash TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invitation public.team_invitations%ROWTYPE;
+  caller_email TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept this invitation';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM public.team_invitations
+  WHERE token_hash = invitation_token_hash
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF invitation.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has been revoked';
+  END IF;
+
+  IF invitation.accepted_at IS NOT NULL THEN
+    IF invitation.accepted_by = auth.uid() THEN
+      RETURN invitation.team_id;
+    END IF;
+    RAISE EXCEPTION 'This invitation has already been used';
+  END IF;
+
+  IF invitation.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This invitation has expired';
+  END IF;
+
+  SELECT LOWER(au.email) INTO caller_email FROM auth.users au WHERE au.id = auth.uid();
+
+  IF caller_email IS DISTINCT FROM invitation.email THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  INSERT INTO public.team_members (user_id, team_id, role)
+  VALUES (auth.uid(), invitation.team_id, invitation.role)
+  ON CONFLICT (user_id, team_id) DO NOTHING;
+
+  UPDATE public.team_invitations
+  SET accepted_at = NOW(), accepted_by = auth.uid()
+  WHERE id = invitation.id;
+
+  RETURN invitation.team_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_team_invitation_preview(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_team_invitation(TEXT) TO authenticated;
+
+GRANT ALL ON public.team_invitations TO service_role;
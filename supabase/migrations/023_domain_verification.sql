@@ -0,0 +1,176 @@
+-- Domain Ownership Verification
+-- A domain mapping only auto-assigns new signups once the team has proven it
+-- owns the domain, either with a DNS TXT record (checked by the app with the
+-- service role) or by a team member confirming from an address on that
+-- domain. Public email providers can never be mapped.
+
+-- ============================================================================
+-- 1. ADD VERIFICATION COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.team_domain_mapping
+ADD COLUMN IF NOT EXISTS verification_token TEXT NOT NULL
+  DEFAULT REPLACE(gen_random_uuid()::TEXT, '-', ''),
+ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS verified_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS verification_method TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'team_domain_mapping_verification_method_check') THEN
+    ALTER TABLE public.team_domain_mapping
+    ADD CONSTRAINT team_domain_mapping_verification_method_check
+    CHECK (verification_method IN ('dns_txt', 'member_email', 'legacy'));
+  END IF;
+END $$;
+
+-- ============================================================================
+-- 2. PUBLIC EMAIL PROVIDERS
+-- ============================================================================
+
+-- Keep in sync with PUBLIC_EMAIL_DOMAINS in src/lib/constants.ts
+CREATE TABLE IF NOT EXISTS public.public_email_domains (
+  domain_name TEXT PRIMARY KEY
+);
+
+ALTER TABLE public.public_email_domains ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view public email domains" ON public.public_email_domains
+  FOR SELECT
+  USING (true);
+
+INSERT INTO public.public_email_domains (domain_name) VALUES
+  ('gmail.com'), ('googlemail.com'), ('yahoo.com'), ('yahoo.co.uk'), ('ymail.com'),
+  ('outlook.com'), ('hotmail.com'), ('hotmail.co.uk'), ('live.com'), ('msn.com'),
+  ('icloud.com'), ('me.com'), ('mac.com'), ('aol.com'), ('proton.me'),
+  ('protonmail.com'), ('gmx.com'), ('gmx.net'), ('mail.com'), ('zoho.com'),
+  ('yandex.com'), ('fastmail.com'), ('hey.com'), ('tutanota.com'), ('qq.com'),
+  ('163.com'), ('web.de'), ('comcast.net'), ('verizon.net'), ('att.net')
+ON CONFLICT (domain_name) DO NOTHING;
+
+-- ============================================================================
+-- 3. GRANDFATHER EXISTING MAPPINGS
+-- ============================================================================
+
+-- Mappings created by hand before verification existed keep working, except
+-- for public providers, which stay unverified and are ignored.
+UPDATE public.team_domain_mapping tdm
+SET verified_at = tdm.created_at, verification_method = 'legacy'
+WHERE tdm.verified_at IS NULL
+AND NOT EXISTS (
+  SELECT 1 FROM public.public_email_domains ped
+  WHERE ped.domain_name = LTRIM(LOWER(tdm.domain_name), '@')
+);
+
+-- ============================================================================
+-- 4. GUARD VERIFICATION STATE
+-- ============================================================================
+
+-- Admins can insert and update mappings under RLS, so the trigger makes sure
+-- they cannot mark a domain verified themselves or point a verified domain
+-- at another team.
+CREATE OR REPLACE FUNCTION public.guard_team_domain_mapping()
+RETURNS TRIGGER AS $$
+DECLARE
+  verification_allowed BOOLEAN;
+BEGIN
+  verification_allowed := public.is_service_operation()
+    OR COALESCE(current_setting('reviewboost.domain_verification', true), '') = 'on';
+
+  NEW.domain_name := LOWER(NEW.domain_name);
+
+  IF EXISTS (
+    SELECT 1 FROM public.public_email_domains
+    WHERE domain_name = LTRIM(NEW.domain_name, '@')
+  ) THEN
+    RAISE EXCEPTION 'Public email providers cannot be mapped to a team';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND (NEW.domain_name IS DISTINCT FROM OLD.domain_name OR NEW.team_id IS DISTINCT FROM OLD.team_id) THEN
+    -- A different domain or team needs a fresh proof of ownership
+    NEW.verification_token := REPLACE(gen_random_uuid()::TEXT, '-', '');
+    NEW.verified_at := NULL;
+    NEW.verified_by := NULL;
+    NEW.verification_method := NULL;
+  ELSIF NOT verification_allowed AND (
+    TG_OP = 'INSERT'
+    OR NEW.verified_at IS DISTINCT FROM OLD.verified_at
+    OR NEW.verified_by IS DISTINCT FROM OLD.verified_by
+    OR NEW.verification_method IS DISTINCT FROM OLD.verification_method
+    OR NEW.verification_token IS DISTINCT FROM OLD.verification_token
+  ) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.verification_token := REPLACE(gen_random_uuid()::TEXT, '-', '');
+      NEW.verified_at := NULL;
+      NEW.verified_by := NULL;
+      NEW.verification_method := NULL;
+    ELSE
+      RAISE EXCEPTION 'Domain verification can only be changed by the verification process';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_team_domain_mapping ON public.team_domain_mapping;
+CREATE TRIGGER guard_team_domain_mapping
+  BEFORE INSERT OR UPDATE ON public.team_domain_mapping
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_team_domain_mapping();
+
+-- ============================================================================
+-- 5. MEMBER EMAIL CONFIRMATION
+-- ============================================================================
+
+-- Verify a mapping because a member of the team has a confirmed email
+-- address on that domain. Returns the verification time.
+CREATE OR REPLACE FUNCTION public.confirm_team_domain_ownership(mapping_uuid UUID)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  mapping public.team_domain_mapping%ROWTYPE;
+  caller_email TEXT;
+  caller_confirmed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO mapping FROM public.team_domain_mapping WHERE id = mapping_uuid FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_has_team_access(auth.uid(), mapping.team_id) THEN
+    RAISE EXCEPTION 'Domain mapping not found';
+  END IF;
+
+  IF mapping.verified_at IS NOT NULL THEN
+    RETURN mapping.verified_at;
+  END IF;
+
+  SELECT LOWER(au.email), au.email_confirmed_at INTO caller_email, caller_confirmed_at
+  FROM auth.users au
+  WHERE au.id = auth.uid();
+
+  IF caller_confirmed_at IS NULL THEN
+    RAISE EXCEPTION 'Confirm your email address before verifying a domain';
+  END IF;
+
+  IF '@' || SPLIT_PART(caller_email, '@', 2) <> mapping.domain_name THEN
+    RAISE EXCEPTION 'Your email address is not on %', mapping.domain_name;
+  END IF;
+
+  PERFORM set_config('reviewboost.domain_verification', 'on', true);
+
+  UPDATE public.team_domain_mapping
+  SET verified_at = NOW(), verified_by = auth.uid(), verification_method = 'member_email'
+  WHERE id = mapping.id;
+
+  PERFORM set_config('reviewboost.domain_verification', 'off', true);
+
+  RETURN NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.confirm_team_domain_ownership(UUID) TO authenticated;
+
+GRANT ALL ON public.public_email_domains TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_team_domain_mapping_verified
+ON public.team_domain_mapping(domain_name)
+WHERE verified_at IS NOT NULL;
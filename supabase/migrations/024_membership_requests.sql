@@ -0,0 +1,187 @@
+-- Membership Approval
+-- Teams can hold signups that match one of their verified email domains in
+-- a pending state instead of adding them straight to team_members. Admins
+-- approve or reject each request; the requester can see the status of their
+-- own requests while they wait.
+
+-- ============================================================================
+-- 1. TEAM SETTING
+-- ============================================================================
+
+ALTER TABLE public.team_settings
+ADD COLUMN IF NOT EXISTS require_member_approval BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================================================
+-- 2. CREATE MEMBERSHIP REQUESTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.team_membership_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('domain')) DEFAULT 'domain',
+  status TEXT NOT NULL CHECK (status IN ('pending', 'approved', 'rejected')) DEFAULT 'pending',
+  decided_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  UNIQUE(team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_membership_requests_pending
+ON public.team_membership_requests(team_id, created_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_team_membership_requests_user
+ON public.team_membership_requests(user_id);
+
+CREATE TRIGGER update_team_membership_requests_updated_at
+  BEFORE UPDATE ON public.team_membership_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.team_membership_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and team admins can view membership requests" ON public.team_membership_requests
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR team_membership_requests.user_id = auth.uid()
+    OR public.user_has_team_access(auth.uid(), team_membership_requests.team_id, 'admin')
+  );
+
+-- Requests are created by auto-assign-team with the service role and decided
+-- through the functions below
+CREATE POLICY "Service role can manage membership requests" ON public.team_membership_requests
+  FOR ALL
+  USING (public.is_service_operation())
+  WITH CHECK (public.is_service_operation());
+
+-- ============================================================================
+-- 3. LIST FUNCTIONS
+-- ============================================================================
+
+-- Pending requests for a team with the requester's profile. Requesters are
+-- not team members yet, so their users row is not visible to admins under RLS.
+CREATE OR REPLACE FUNCTION public.get_team_membership_requests(team_uuid UUID)
+RETURNS TABLE(
+  id UUID,
+  team_id UUID,
+  user_id UUID,
+  user_name TEXT,
+  user_email TEXT,
+  source TEXT,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can view membership requests';
+  END IF;
+
+  RETURN QUERY
+  SELECT tmr.id, tmr.team_id, tmr.user_id, u.name, u.email, tmr.source, tmr.status, tmr.created_at
+  FROM public.team_membership_requests tmr
+  JOIN public.users u ON u.id = tmr.user_id
+  WHERE tmr.team_id = team_uuid
+  AND tmr.status = 'pending'
+  ORDER BY tmr.created_at ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- The caller's own open or rejected requests, with the team name they cannot
+-- otherwise read until they are a member
+CREATE OR REPLACE FUNCTION public.get_my_membership_requests()
+RETURNS TABLE(
+  id UUID,
+  team_id UUID,
+  team_name TEXT,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  decided_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT tmr.id, tmr.team_id, t.name, tmr.status, tmr.created_at, tmr.decided_at
+  FROM public.team_membership_requests tmr
+  JOIN public.teams t ON t.id = tmr.team_id
+  WHERE tmr.user_id = auth.uid()
+  AND tmr.status IN ('pending', 'rejected')
+  ORDER BY tmr.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================================================
+-- 4. DECISION FUNCTIONS
+-- ============================================================================
+
+-- Approve a pending request and add the requester as a member
+CREATE OR REPLACE FUNCTION public.approve_membership_request(request_uuid UUID)
+RETURNS UUID AS $$
+DECLARE
+  target_request public.team_membership_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO target_request
+  FROM public.team_membership_requests
+  WHERE id = request_uuid
+  FOR UPDATE;
+
+  IF target_request.id IS NULL THEN
+    RAISE EXCEPTION 'Membership request not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_request.team_id, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can approve membership requests';
+  END IF;
+
+  IF target_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Membership request has already been %', target_request.status;
+  END IF;
+
+  INSERT INTO public.team_members (user_id, team_id, role)
+  VALUES (target_request.user_id, target_request.team_id, 'member')
+  ON CONFLICT (user_id, team_id) DO NOTHING;
+
+  UPDATE public.team_membership_requests
+  SET status = 'approved', decided_by = auth.uid(), decided_at = NOW()
+  WHERE id = request_uuid;
+
+  RETURN target_request.user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reject a pending request; the requester stays off the team
+CREATE OR REPLACE FUNCTION public.reject_membership_request(request_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  target_request public.team_membership_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO target_request
+  FROM public.team_membership_requests
+  WHERE id = request_uuid
+  FOR UPDATE;
+
+  IF target_request.id IS NULL THEN
+    RAISE EXCEPTION 'Membership request not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_request.team_id, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can reject membership requests';
+  END IF;
+
+  IF target_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Membership request has already been %', target_request.status;
+  END IF;
+
+  UPDATE public.team_membership_requests
+  SET status = 'rejected', decided_by = auth.uid(), decided_at = NOW()
+  WHERE id = request_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_team_membership_requests(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_membership_requests() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_membership_request(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_membership_request(UUID) TO authenticated;
+
+GRANT ALL ON public.team_membership_requests TO service_role;
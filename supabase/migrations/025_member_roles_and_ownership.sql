@@ -0,0 +1,226 @@
+-- Member Roles and Team Ownership
+-- Admins can promote and demote members, but a team must always keep at
+-- least one admin. Each team also has a single owner (its creator, or the
+-- longest-serving admin for existing teams) who cannot be demoted or removed
+-- until ownership is transferred to another member.
+
+-- ============================================================================
+-- 1. TEAM OWNER
+-- ============================================================================
+
+ALTER TABLE public.teams
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES public.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- Existing teams are owned by their longest-serving admin
+UPDATE public.teams t
+SET owner_id = (
+  SELECT tm.user_id
+  FROM public.team_members tm
+  WHERE tm.team_id = t.id AND tm.role = 'admin'
+  ORDER BY tm.joined_at ASC
+  LIMIT 1
+)
+WHERE t.owner_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_teams_owner ON public.teams(owner_id);
+
+-- Admins can update team info under RLS, so ownership is only changed
+-- through transfer_team_ownership (or by the service role)
+CREATE OR REPLACE FUNCTION public.guard_team_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    AND NOT public.is_service_operation()
+    AND COALESCE(current_setting('reviewboost.ownership_transfer', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Team ownership can only be changed with an ownership transfer';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_team_owner ON public.teams;
+CREATE TRIGGER guard_team_owner
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_team_owner();
+
+-- ============================================================================
+-- 2. LAST ADMIN SAFEGUARD
+-- ============================================================================
+
+-- Applies to every path that changes team_members (API routes, RPCs and
+-- direct updates under RLS). Deleting the team or the member's account is
+-- not blocked.
+CREATE OR REPLACE FUNCTION public.guard_team_admins()
+RETURNS TRIGGER AS $$
+DECLARE
+  team_owner_id UUID;
+  loses_admin BOOLEAN;
+BEGIN
+  IF public.is_service_operation() THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  loses_admin := OLD.role = 'admin' AND (
+    TG_OP = 'DELETE'
+    OR NEW.role IS DISTINCT FROM 'admin'
+    OR NEW.team_id IS DISTINCT FROM OLD.team_id
+  );
+
+  IF NOT loses_admin THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- The member's account is being deleted
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  -- Serialize role changes per team so two admins can't demote each other at once
+  SELECT owner_id INTO team_owner_id
+  FROM public.teams
+  WHERE id = OLD.team_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- The team is being deleted
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF OLD.user_id = team_owner_id THEN
+    RAISE EXCEPTION 'Transfer team ownership before removing or demoting the owner';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = OLD.team_id
+    AND role = 'admin'
+    AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'A team must keep at least one admin';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_team_admins ON public.team_members;
+CREATE TRIGGER guard_team_admins
+  BEFORE UPDATE OR DELETE ON public.team_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_team_admins();
+
+-- ============================================================================
+-- 3. ROLE CHANGES AND REMOVAL
+-- ============================================================================
+
+-- Change a member's role (admin only). Returns the new role.
+CREATE OR REPLACE FUNCTION public.update_team_member_role(
+  team_uuid UUID,
+  target_user_id UUID,
+  new_role TEXT
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can change member roles';
+  END IF;
+
+  IF new_role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Invalid role. Must be admin or member';
+  END IF;
+
+  UPDATE public.team_members
+  SET role = new_role
+  WHERE team_id = team_uuid AND user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team member not found';
+  END IF;
+
+  RETURN new_role;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Admins can remove anyone; members can remove themselves. The last-admin
+-- and owner checks live in guard_team_admins.
+CREATE OR REPLACE FUNCTION public.remove_user_from_team(
+  target_user_id UUID,
+  target_team_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM target_user_id
+    AND NOT public.is_team_admin(auth.uid(), target_team_id) THEN
+    RAISE EXCEPTION 'Only team admins can remove users from teams';
+  END IF;
+
+  DELETE FROM public.team_members
+  WHERE user_id = target_user_id AND team_id = target_team_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team member not found';
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. OWNERSHIP TRANSFER
+-- ============================================================================
+
+-- Hand the team to another member. Only the current owner can do this, or
+-- any admin when the team has no owner (e.g. the owner's account was
+-- deleted). The new owner becomes an admin; the previous owner stays admin.
+CREATE OR REPLACE FUNCTION public.transfer_team_ownership(
+  team_uuid UUID,
+  new_owner_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  current_owner_id UUID;
+BEGIN
+  SELECT owner_id INTO current_owner_id
+  FROM public.teams
+  WHERE id = team_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_has_team_access(auth.uid(), team_uuid) THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF current_owner_id IS NOT NULL AND current_owner_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the team owner can transfer ownership';
+  END IF;
+
+  IF current_owner_id IS NULL AND NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can claim ownership for this team';
+  END IF;
+
+  IF new_owner_id = current_owner_id THEN
+    RAISE EXCEPTION 'This member already owns the team';
+  END IF;
+
+  IF NOT public.user_has_team_access(new_owner_id, team_uuid) THEN
+    RAISE EXCEPTION 'The new owner must be a member of the team';
+  END IF;
+
+  UPDATE public.team_members
+  SET role = 'admin'
+  WHERE team_id = team_uuid AND user_id = new_owner_id AND role <> 'admin';
+
+  PERFORM set_config('reviewboost.ownership_transfer', 'on', true);
+
+  UPDATE public.teams
+  SET owner_id = new_owner_id
+  WHERE id = team_uuid;
+
+  PERFORM set_config('reviewboost.ownership_transfer', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.update_team_member_role(UUID, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_user_from_team(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.transfer_team_ownership(UUID, UUID) TO authenticated;
@@ -0,0 +1,403 @@
+-- Team Role Matrix
+-- Replaces the admin/member split with five ranked roles:
+--   owner   - one per team; everything an admin can do plus ownership transfer
+--   admin   - manage the team, its members, settings and points
+--   manager - approve or reject reviews and view analytics
+--   member  - submit reviews
+--   viewer  - read-only access to the team's reviews and leaderboard
+-- Keep the ranks in sync with TEAM_ROLES in src/lib/team-roles.ts.
+
+-- ============================================================================
+-- 1. ALLOW THE NEW ROLES
+-- ============================================================================
+
+ALTER TABLE public.team_members DROP CONSTRAINT IF EXISTS team_members_role_check;
+ALTER TABLE public.team_members
+ADD CONSTRAINT team_members_role_check
+CHECK (role IN ('owner', 'admin', 'manager', 'member', 'viewer'));
+
+-- Ownership is only handed over by transfer, never by invitation
+ALTER TABLE public.team_invitations DROP CONSTRAINT IF EXISTS team_invitations_role_check;
+ALTER TABLE public.team_invitations
+ADD CONSTRAINT team_invitations_role_check
+CHECK (role IN ('admin', 'manager', 'member', 'viewer'));
+
+-- ============================================================================
+-- 2. ROLE HELPERS
+-- ============================================================================
+
+-- Higher ranks include every permission of the lower ones
+CREATE OR REPLACE FUNCTION public.team_role_rank(role_name TEXT)
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN CASE role_name
+    WHEN 'owner' THEN 5
+    WHEN 'admin' THEN 4
+    WHEN 'manager' THEN 3
+    WHEN 'member' THEN 2
+    WHEN 'viewer' THEN 1
+    ELSE 0
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Membership check used by RLS policies and functions. required_role is the
+-- minimum role, so 'admin' also admits the owner and 'member' excludes viewers.
+CREATE OR REPLACE FUNCTION public.user_has_team_access(
+  user_uuid UUID,
+  team_uuid UUID,
+  required_role TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  user_role TEXT;
+BEGIN
+  SELECT role INTO user_role
+  FROM public.team_members
+  WHERE user_id = user_uuid AND team_id = team_uuid;
+
+  IF user_role IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF required_role IS NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  RETURN public.team_role_rank(user_role) >= public.team_role_rank(required_role)
+    AND public.team_role_rank(required_role) > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+CREATE OR REPLACE FUNCTION public.is_team_admin(user_uuid UUID, team_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN public.user_has_team_access(user_uuid, team_uuid, 'admin');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. OWNER ROLE
+-- ============================================================================
+
+-- teams.owner_id stays the source of truth: the owner role can only be held
+-- by that user, and they keep it until ownership is transferred. The last
+-- admin-level member can't be demoted or removed.
+CREATE OR REPLACE FUNCTION public.guard_team_admins()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_team_id UUID := COALESCE(NEW.team_id, OLD.team_id);
+  team_owner_id UUID;
+  loses_admin BOOLEAN;
+BEGIN
+  IF public.is_service_operation() THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Serialize role changes per team so two admins can't demote each other at once
+  SELECT owner_id INTO team_owner_id
+  FROM public.teams
+  WHERE id = target_team_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- The team is being deleted
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.role = 'owner' AND NEW.user_id IS DISTINCT FROM team_owner_id THEN
+    RAISE EXCEPTION 'Use an ownership transfer to make someone the owner';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RETURN NEW;
+  END IF;
+
+  loses_admin := public.team_role_rank(OLD.role) >= public.team_role_rank('admin') AND (
+    TG_OP = 'DELETE'
+    OR public.team_role_rank(NEW.role) < public.team_role_rank('admin')
+    OR NEW.team_id IS DISTINCT FROM OLD.team_id
+  );
+
+  IF NOT loses_admin AND NOT (OLD.role = 'owner' AND NEW.role IS DISTINCT FROM 'owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- The member's account is being deleted
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.users WHERE id = OLD.user_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF OLD.user_id = team_owner_id THEN
+    RAISE EXCEPTION 'Transfer team ownership before removing or demoting the owner';
+  END IF;
+
+  IF loses_admin AND NOT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE team_id = OLD.team_id
+    AND role IN ('owner', 'admin')
+    AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'A team must keep at least one admin';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_team_admins ON public.team_members;
+CREATE TRIGGER guard_team_admins
+  BEFORE INSERT OR UPDATE OR DELETE ON public.team_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_team_admins();
+
+UPDATE public.team_members tm
+SET role = 'owner'
+FROM public.teams t
+WHERE t.id = tm.team_id
+AND t.owner_id = tm.user_id
+AND tm.role <> 'owner';
+
+-- Team creators join as owner (teams.owner_id defaults to the creator)
+CREATE OR REPLACE FUNCTION public.handle_new_team()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO public.team_members (user_id, team_id, role)
+    VALUES (auth.uid(), NEW.id, CASE WHEN NEW.owner_id = auth.uid() THEN 'owner' ELSE 'admin' END);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. MEMBER MANAGEMENT FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.add_user_to_team(
+  target_user_id UUID,
+  target_team_id UUID,
+  user_role TEXT DEFAULT 'member'
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF NOT public.is_team_admin(auth.uid(), target_team_id) THEN
+    RAISE EXCEPTION 'Only team admins can add users to teams';
+  END IF;
+
+  IF user_role NOT IN ('admin', 'manager', 'member', 'viewer') THEN
+    RAISE EXCEPTION 'Invalid role. Must be admin, manager, member or viewer';
+  END IF;
+
+  INSERT INTO public.team_members (user_id, team_id, role)
+  VALUES (target_user_id, target_team_id, user_role)
+  ON CONFLICT (user_id, team_id)
+  DO UPDATE SET role = EXCLUDED.role, joined_at = NOW();
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.update_team_member_role(
+  team_uuid UUID,
+  target_user_id UUID,
+  new_role TEXT
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can change member roles';
+  END IF;
+
+  IF new_role NOT IN ('admin', 'manager', 'member', 'viewer') THEN
+    RAISE EXCEPTION 'Invalid role. Must be admin, manager, member or viewer';
+  END IF;
+
+  UPDATE public.team_members
+  SET role = new_role
+  WHERE team_id = team_uuid AND user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team member not found';
+  END IF;
+
+  RETURN new_role;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The new owner takes the owner role; the previous owner becomes an admin
+CREATE OR REPLACE FUNCTION public.transfer_team_ownership(
+  team_uuid UUID,
+  new_owner_id UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  current_owner_id UUID;
+BEGIN
+  SELECT owner_id INTO current_owner_id
+  FROM public.teams
+  WHERE id = team_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_has_team_access(auth.uid(), team_uuid) THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF current_owner_id IS NOT NULL AND current_owner_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the team owner can transfer ownership';
+  END IF;
+
+  IF current_owner_id IS NULL AND NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can claim ownership for this team';
+  END IF;
+
+  IF new_owner_id = current_owner_id THEN
+    RAISE EXCEPTION 'This member already owns the team';
+  END IF;
+
+  IF NOT public.user_has_team_access(new_owner_id, team_uuid) THEN
+    RAISE EXCEPTION 'The new owner must be a member of the team';
+  END IF;
+
+  PERFORM set_config('reviewboost.ownership_transfer', 'on', true);
+
+  UPDATE public.teams
+  SET owner_id = new_owner_id
+  WHERE id = team_uuid;
+
+  PERFORM set_config('reviewboost.ownership_transfer', 'off', true);
+
+  UPDATE public.team_members
+  SET role = 'owner'
+  WHERE team_id = team_uuid AND user_id = new_owner_id;
+
+  UPDATE public.team_members
+  SET role = 'admin'
+  WHERE team_id = team_uuid AND user_id = current_owner_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. MANAGERS DECIDE REVIEWS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.approve_review(
+  review_uuid UUID,
+  points_amount INTEGER,
+  award_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  target_review public.reviews%ROWTYPE;
+  transaction_id UUID;
+BEGIN
+  SELECT * INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid
+  FOR UPDATE;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_review.team_id, 'manager') THEN
+    RAISE EXCEPTION 'Only team managers and admins can approve reviews';
+  END IF;
+
+  IF target_review.status = 'approved' THEN
+    RAISE EXCEPTION 'Review is already approved';
+  END IF;
+
+  UPDATE public.reviews
+  SET
+    status = 'approved',
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW(),
+    rejection_reason = NULL
+  WHERE id = review_uuid;
+
+  IF points_amount > 0 THEN
+    INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, metadata, created_by)
+    VALUES (
+      target_review.team_id, target_review.employee_id, review_uuid, points_amount,
+      'review_award', COALESCE(award_metadata, '{}'), auth.uid()
+    )
+    RETURNING id INTO transaction_id;
+  END IF;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.reject_review(
+  review_uuid UUID,
+  reason TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  target_review public.reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid
+  FOR UPDATE;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), target_review.team_id, 'manager') THEN
+    RAISE EXCEPTION 'Only team managers and admins can reject reviews';
+  END IF;
+
+  IF target_review.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending reviews can be rejected';
+  END IF;
+
+  UPDATE public.reviews
+  SET
+    status = 'rejected',
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW(),
+    rejection_reason = reason
+  WHERE id = review_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. VIEWERS ARE READ-ONLY
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Enhanced team review creation" ON public.reviews;
+CREATE POLICY "Enhanced team review creation" ON public.reviews
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR (
+      public.user_has_team_access(auth.uid(), reviews.team_id, 'member')
+      AND public.user_has_team_access(reviews.employee_id, reviews.team_id, 'member')
+    )
+  );
+
+DROP POLICY IF EXISTS "Team members can upload review attachment files" ON storage.objects;
+CREATE POLICY "Team members can upload review attachment files" ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'review-attachments'
+    AND public.user_has_team_access(auth.uid(), ((storage.foldername(name))[1])::UUID, 'member')
+  );
+
+DROP POLICY IF EXISTS "Team members can record their uploads" ON public.review_attachments;
+CREATE POLICY "Team members can record their uploads" ON public.review_attachments
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR (
+      public.user_has_team_access(auth.uid(), review_attachments.team_id, 'member')
+      AND review_attachments.uploaded_by = auth.uid()
+      AND review_attachments.review_id IS NULL
+    )
+  );
+
+GRANT EXECUTE ON FUNCTION public.team_role_rank(TEXT) TO authenticated;
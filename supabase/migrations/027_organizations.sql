@@ -0,0 +1,540 @@
+-- Organizations
+-- Groups a company's location teams under one organization. Organization
+-- admins see totals across every team in it and decide which teams belong;
+-- anyone on one of its teams can see the organization-wide leaderboard.
+-- A team belongs to at most one organization.
+
+-- ============================================================================
+-- 1. CREATE ORGANIZATION TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  description TEXT,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.organization_admins (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  added_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_admins_user
+ON public.organization_admins(user_id);
+
+ALTER TABLE public.teams
+ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_teams_organization
+ON public.teams(organization_id)
+WHERE organization_id IS NOT NULL;
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ACCESS HELPERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.is_organization_admin(user_uuid UUID, org_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF user_uuid IS NULL OR org_uuid IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.organization_admins
+    WHERE organization_id = org_uuid AND user_id = user_uuid
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Organization admins, plus anyone on one of the organization's teams
+CREATE OR REPLACE FUNCTION public.user_has_organization_access(user_uuid UUID, org_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF public.is_organization_admin(user_uuid, org_uuid) THEN
+    RETURN TRUE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.teams t
+    JOIN public.team_members tm ON tm.team_id = t.id
+    WHERE t.organization_id = org_uuid AND tm.user_id = user_uuid
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organization members can view their organization" ON public.organizations
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_organization_access(auth.uid(), organizations.id)
+  );
+
+CREATE POLICY "Organization admins can update their organization" ON public.organizations
+  FOR UPDATE
+  USING (
+    public.is_service_operation()
+    OR public.is_organization_admin(auth.uid(), organizations.id)
+  );
+
+CREATE POLICY "Organization admins can delete their organization" ON public.organizations
+  FOR DELETE
+  USING (
+    public.is_service_operation()
+    OR public.is_organization_admin(auth.uid(), organizations.id)
+  );
+
+-- Organizations are created with create_organization so the creator becomes
+-- the first admin in the same transaction
+CREATE POLICY "Service role can create organizations" ON public.organizations
+  FOR INSERT
+  WITH CHECK (public.is_service_operation());
+
+CREATE POLICY "Organization members can view organization admins" ON public.organization_admins
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_organization_access(auth.uid(), organization_admins.organization_id)
+  );
+
+CREATE POLICY "Service role can manage organization admins" ON public.organization_admins
+  FOR ALL
+  USING (public.is_service_operation())
+  WITH CHECK (public.is_service_operation());
+
+-- Team admins can update their team under RLS; moving a team into an
+-- organization shares its numbers with that organization's admins, so it
+-- only happens through set_team_organization (or when the organization is
+-- deleted and the foreign key clears it)
+CREATE OR REPLACE FUNCTION public.guard_team_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.organization_id IS DISTINCT FROM OLD.organization_id
+    AND NOT public.is_service_operation()
+    AND COALESCE(current_setting('reviewboost.organization_change', true), '') <> 'on'
+    AND NOT (
+      NEW.organization_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.organization_id)
+    ) THEN
+    RAISE EXCEPTION 'A team''s organization can only be changed with set_team_organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_team_organization ON public.teams;
+CREATE TRIGGER guard_team_organization
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_team_organization();
+
+-- ============================================================================
+-- 4. ORGANIZATION MANAGEMENT FUNCTIONS
+-- ============================================================================
+
+-- Organizations the caller administers or has a team in
+CREATE OR REPLACE FUNCTION public.get_my_organizations()
+RETURNS TABLE(
+  id UUID,
+  name TEXT,
+  description TEXT,
+  is_admin BOOLEAN,
+  team_count BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.name,
+    o.description,
+    public.is_organization_admin(auth.uid(), o.id) AS is_admin,
+    (SELECT COUNT(*) FROM public.teams t WHERE t.organization_id = o.id) AS team_count,
+    o.created_at
+  FROM public.organizations o
+  WHERE public.user_has_organization_access(auth.uid(), o.id)
+  ORDER BY o.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Teams in an organization, with the caller's role where they are a member
+CREATE OR REPLACE FUNCTION public.get_organization_teams(org_uuid UUID)
+RETURNS TABLE(
+  id UUID,
+  name TEXT,
+  member_count BIGINT,
+  user_role TEXT
+) AS $$
+BEGIN
+  IF NOT public.user_has_organization_access(auth.uid(), org_uuid) THEN
+    RAISE EXCEPTION 'Access denied: user not part of organization';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.name,
+    (SELECT COUNT(*) FROM public.team_members tm WHERE tm.team_id = t.id) AS member_count,
+    (SELECT tm.role FROM public.team_members tm WHERE tm.team_id = t.id AND tm.user_id = auth.uid()) AS user_role
+  FROM public.teams t
+  WHERE t.organization_id = org_uuid
+  ORDER BY t.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Organization admins with their profiles. Admins don't have to share a team
+-- with everyone in the organization, so their users rows may not be visible.
+CREATE OR REPLACE FUNCTION public.get_organization_admins(org_uuid UUID)
+RETURNS TABLE(
+  user_id UUID,
+  name TEXT,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF NOT public.user_has_organization_access(auth.uid(), org_uuid) THEN
+    RAISE EXCEPTION 'Access denied: user not part of organization';
+  END IF;
+
+  RETURN QUERY
+  SELECT oa.user_id, u.name, u.email, oa.created_at
+  FROM public.organization_admins oa
+  JOIN public.users u ON u.id = oa.user_id
+  WHERE oa.organization_id = org_uuid
+  ORDER BY oa.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Create an organization with the caller as its first admin, optionally
+-- moving one of the caller's teams into it
+CREATE OR REPLACE FUNCTION public.create_organization(
+  org_name TEXT,
+  org_description TEXT DEFAULT NULL,
+  first_team_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_org_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  IF first_team_id IS NOT NULL AND NOT public.user_has_team_access(auth.uid(), first_team_id, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can add a team to an organization';
+  END IF;
+
+  INSERT INTO public.organizations (name, description, created_by)
+  VALUES (btrim(org_name), NULLIF(btrim(org_description), ''), auth.uid())
+  RETURNING id INTO new_org_id;
+
+  INSERT INTO public.organization_admins (organization_id, user_id, added_by)
+  VALUES (new_org_id, auth.uid(), auth.uid());
+
+  IF first_team_id IS NOT NULL THEN
+    PERFORM public.set_team_organization(first_team_id, new_org_id);
+  END IF;
+
+  RETURN new_org_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move a team into an organization (org_uuid NULL takes it out). Adding needs
+-- both a team admin and an organization admin; either can take a team out.
+CREATE OR REPLACE FUNCTION public.set_team_organization(team_uuid UUID, org_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  current_org_id UUID;
+BEGIN
+  SELECT organization_id INTO current_org_id
+  FROM public.teams
+  WHERE id = team_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF org_uuid IS NULL THEN
+    IF current_org_id IS NULL THEN
+      RETURN;
+    END IF;
+
+    IF NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin')
+      AND NOT public.is_organization_admin(auth.uid(), current_org_id) THEN
+      RAISE EXCEPTION 'Only team admins or organization admins can remove a team from an organization';
+    END IF;
+  ELSE
+    IF NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin')
+      OR NOT public.is_organization_admin(auth.uid(), org_uuid) THEN
+      RAISE EXCEPTION 'Only team admins who are also organization admins can add a team to an organization';
+    END IF;
+
+    IF current_org_id IS NOT NULL AND current_org_id <> org_uuid THEN
+      RAISE EXCEPTION 'Team already belongs to another organization';
+    END IF;
+  END IF;
+
+  PERFORM set_config('reviewboost.organization_change', 'on', true);
+
+  UPDATE public.teams
+  SET organization_id = org_uuid
+  WHERE id = team_uuid;
+
+  PERFORM set_config('reviewboost.organization_change', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Make someone on one of the organization's teams an organization admin
+CREATE OR REPLACE FUNCTION public.add_organization_admin(org_uuid UUID, admin_email TEXT)
+RETURNS UUID AS $$
+DECLARE
+  target_user_id UUID;
+BEGIN
+  IF NOT public.is_organization_admin(auth.uid(), org_uuid) THEN
+    RAISE EXCEPTION 'Only organization admins can add organization admins';
+  END IF;
+
+  SELECT u.id INTO target_user_id
+  FROM public.users u
+  WHERE lower(u.email) = lower(btrim(admin_email))
+  AND EXISTS (
+    SELECT 1
+    FROM public.team_members tm
+    JOIN public.teams t ON t.id = tm.team_id
+    WHERE tm.user_id = u.id AND t.organization_id = org_uuid
+  );
+
+  IF target_user_id IS NULL THEN
+    RAISE EXCEPTION 'No one with that email is on a team in this organization';
+  END IF;
+
+  INSERT INTO public.organization_admins (organization_id, user_id, added_by)
+  VALUES (org_uuid, target_user_id, auth.uid())
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  RETURN target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Remove an organization admin (admins can also step down themselves)
+CREATE OR REPLACE FUNCTION public.remove_organization_admin(org_uuid UUID, target_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_organization_admin(auth.uid(), org_uuid) THEN
+    RAISE EXCEPTION 'Only organization admins can remove organization admins';
+  END IF;
+
+  -- Serialize concurrent removals so the last admin can't be removed twice
+  PERFORM 1 FROM public.organizations WHERE id = org_uuid FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_admins
+    WHERE organization_id = org_uuid AND user_id = target_user_id
+  ) THEN
+    RAISE EXCEPTION 'Organization admin not found';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM public.organization_admins WHERE organization_id = org_uuid) <= 1 THEN
+    RAISE EXCEPTION 'An organization must keep at least one admin';
+  END IF;
+
+  DELETE FROM public.organization_admins
+  WHERE organization_id = org_uuid AND user_id = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. ROLLUPS
+-- ============================================================================
+
+-- get_team_dashboard_stats for every team in the organization. Organization
+-- admins may not be members of each team, so the numbers are computed here
+-- instead of calling the per-team function.
+CREATE OR REPLACE FUNCTION public.get_organization_team_stats(org_uuid UUID)
+RETURNS TABLE(
+  team_id UUID,
+  team_name TEXT,
+  total_reviews BIGINT,
+  total_points BIGINT,
+  total_members BIGINT,
+  top_employee_name TEXT,
+  top_employee_points INTEGER,
+  recent_reviews_count BIGINT,
+  pending_reviews_count BIGINT
+) AS $$
+BEGIN
+  IF NOT public.is_organization_admin(auth.uid(), org_uuid) THEN
+    RAISE EXCEPTION 'Only organization admins can view organization stats';
+  END IF;
+
+  RETURN QUERY
+  WITH org_teams AS (
+    SELECT t.id, t.name
+    FROM public.teams t
+    WHERE t.organization_id = org_uuid
+  ),
+  balances AS (
+    SELECT pt.team_id, pt.employee_id, SUM(pt.amount)::INTEGER AS balance
+    FROM public.point_transactions pt
+    WHERE pt.team_id IN (SELECT ot.id FROM org_teams ot)
+    GROUP BY pt.team_id, pt.employee_id
+  ),
+  review_counts AS (
+    SELECT
+      r.team_id,
+      COUNT(*) FILTER (WHERE r.status = 'approved') AS approved,
+      COUNT(*) FILTER (WHERE r.status = 'approved' AND r.created_at > NOW() - INTERVAL '7 days') AS recent,
+      COUNT(*) FILTER (WHERE r.status = 'pending') AS pending
+    FROM public.reviews r
+    WHERE r.team_id IN (SELECT ot.id FROM org_teams ot)
+    GROUP BY r.team_id
+  )
+  SELECT
+    ot.id AS team_id,
+    ot.name AS team_name,
+    COALESCE(rc.approved, 0) AS total_reviews,
+    (SELECT COALESCE(SUM(b.balance), 0) FROM balances b WHERE b.team_id = ot.id)::BIGINT AS total_points,
+    (SELECT COUNT(*) FROM public.team_members tm WHERE tm.team_id = ot.id) AS total_members,
+    top.name AS top_employee_name,
+    top.balance AS top_employee_points,
+    COALESCE(rc.recent, 0) AS recent_reviews_count,
+    COALESCE(rc.pending, 0) AS pending_reviews_count
+  FROM org_teams ot
+  LEFT JOIN review_counts rc ON rc.team_id = ot.id
+  LEFT JOIN LATERAL (
+    SELECT u.name, b.balance
+    FROM balances b
+    JOIN public.users u ON u.id = b.employee_id
+    WHERE b.team_id = ot.id
+    ORDER BY b.balance DESC
+    LIMIT 1
+  ) top ON TRUE
+  ORDER BY ot.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Ranks everyone on the organization's teams by their combined points, using
+-- the same period rules as get_team_leaderboard. People on several teams
+-- appear once with their totals added up.
+CREATE OR REPLACE FUNCTION public.get_organization_leaderboard(
+  org_uuid UUID,
+  limit_count INTEGER DEFAULT 10,
+  period_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  period_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE(
+  employee_id UUID,
+  employee_name TEXT,
+  employee_email TEXT,
+  team_names TEXT,
+  total_reviews BIGINT,
+  total_points INTEGER,
+  rank BIGINT
+) AS $$
+BEGIN
+  IF NOT public.user_has_organization_access(auth.uid(), org_uuid) THEN
+    RAISE EXCEPTION 'Access denied: user not part of organization';
+  END IF;
+
+  RETURN QUERY
+  WITH org_teams AS (
+    SELECT t.id, t.name
+    FROM public.teams t
+    WHERE t.organization_id = org_uuid
+  ),
+  org_members AS (
+    SELECT tm.user_id, string_agg(ot.name, ', ' ORDER BY ot.name) AS team_names
+    FROM public.team_members tm
+    JOIN org_teams ot ON ot.id = tm.team_id
+    GROUP BY tm.user_id
+  ),
+  review_counts AS (
+    SELECT r.employee_id, COUNT(*) AS review_count
+    FROM public.reviews r
+    WHERE r.team_id IN (SELECT ot.id FROM org_teams ot)
+    AND r.status = 'approved'
+    AND (period_start IS NULL OR r.created_at >= period_start)
+    AND (period_end IS NULL OR r.created_at < period_end)
+    GROUP BY r.employee_id
+  ),
+  dated_transactions AS (
+    SELECT
+      pt.employee_id,
+      pt.amount,
+      pt.review_id,
+      r.id AS existing_review_id,
+      COALESCE(r.created_at, pt.created_at) AS effective_at
+    FROM public.point_transactions pt
+    LEFT JOIN public.reviews r ON r.id = pt.review_id
+    WHERE pt.team_id IN (SELECT ot.id FROM org_teams ot)
+  ),
+  balances AS (
+    SELECT dt.employee_id, SUM(dt.amount)::INTEGER AS balance
+    FROM dated_transactions dt
+    WHERE (
+      (period_start IS NULL AND period_end IS NULL)
+      OR (
+        (dt.review_id IS NULL OR dt.existing_review_id IS NOT NULL)
+        AND (period_start IS NULL OR dt.effective_at >= period_start)
+        AND (period_end IS NULL OR dt.effective_at < period_end)
+      )
+    )
+    GROUP BY dt.employee_id
+  )
+  SELECT
+    u.id AS employee_id,
+    u.name AS employee_name,
+    u.email AS employee_email,
+    om.team_names,
+    COALESCE(rc.review_count, 0) AS total_reviews,
+    COALESCE(b.balance, 0) AS total_points,
+    RANK() OVER (ORDER BY COALESCE(b.balance, 0) DESC) AS rank
+  FROM org_members om
+  JOIN public.users u ON u.id = om.user_id
+  LEFT JOIN review_counts rc ON rc.employee_id = u.id
+  LEFT JOIN balances b ON b.employee_id = u.id
+  ORDER BY COALESCE(b.balance, 0) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.is_organization_admin(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.user_has_organization_access(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_organizations() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_organization_teams(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_organization_admins(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_organization(TEXT, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_team_organization(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_organization_admin(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_organization_admin(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_organization_team_stats(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_organization_leaderboard(UUID, INTEGER, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+GRANT ALL ON public.organizations TO service_role;
+GRANT ALL ON public.organization_admins TO service_role;
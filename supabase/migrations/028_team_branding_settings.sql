@@ -0,0 +1,125 @@
+-- Team Branding and Preferences
+-- Extends team_settings beyond review rules with the team's timezone (used
+-- for leaderboard periods and dates), a logo and brand color, the job types
+-- offered when submitting a review, and who can see the leaderboard.
+
+-- ============================================================================
+-- 1. ADD SETTINGS COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.team_settings
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN IF NOT EXISTS logo_url TEXT CHECK (logo_url IS NULL OR logo_url ~ '^https://'),
+ADD COLUMN IF NOT EXISTS brand_color TEXT CHECK (brand_color IS NULL OR brand_color ~ '^#[0-9a-fA-F]{6}$'),
+-- NULL means the built-in job type list
+ADD COLUMN IF NOT EXISTS default_job_types TEXT[] CHECK (
+  default_job_types IS NULL OR cardinality(default_job_types) BETWEEN 1 AND 50
+),
+ADD COLUMN IF NOT EXISTS leaderboard_visibility TEXT NOT NULL DEFAULT 'team' CHECK (
+  leaderboard_visibility IN ('team', 'managers')
+);
+
+-- ============================================================================
+-- 2. VALIDATE TIMEZONES
+-- ============================================================================
+
+-- CHECK constraints can't look up pg_timezone_names, so validate on write
+CREATE OR REPLACE FUNCTION public.validate_team_settings_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_team_settings_timezone ON public.team_settings;
+CREATE TRIGGER validate_team_settings_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.team_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_team_settings_timezone();
+
+-- ============================================================================
+-- 3. RESPECT LEADERBOARD VISIBILITY
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_team_leaderboard(
+  team_uuid UUID,
+  limit_count INTEGER DEFAULT 10,
+  period_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  period_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE(
+  employee_id UUID,
+  employee_name TEXT,
+  employee_email TEXT,
+  total_reviews BIGINT,
+  total_points INTEGER,
+  rank BIGINT
+) AS $$
+BEGIN
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid) THEN
+    RAISE EXCEPTION 'Access denied: user not member of team';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.team_settings ts
+    WHERE ts.team_id = team_uuid AND ts.leaderboard_visibility = 'managers'
+  ) AND NOT public.user_has_team_access(auth.uid(), team_uuid, 'manager') THEN
+    RAISE EXCEPTION 'Only managers and admins can view this team''s leaderboard';
+  END IF;
+
+  RETURN QUERY
+  WITH review_counts AS (
+    SELECT r.employee_id, COUNT(*) AS review_count
+    FROM public.reviews r
+    WHERE r.team_id = team_uuid
+    AND r.status = 'approved'
+    AND (period_start IS NULL OR r.created_at >= period_start)
+    AND (period_end IS NULL OR r.created_at < period_end)
+    GROUP BY r.employee_id
+  ),
+  dated_transactions AS (
+    SELECT
+      pt.employee_id,
+      pt.amount,
+      pt.review_id,
+      r.id AS existing_review_id,
+      COALESCE(r.created_at, pt.created_at) AS effective_at
+    FROM public.point_transactions pt
+    LEFT JOIN public.reviews r ON r.id = pt.review_id
+    WHERE pt.team_id = team_uuid
+  ),
+  balances AS (
+    SELECT dt.employee_id, SUM(dt.amount)::INTEGER AS balance
+    FROM dated_transactions dt
+    WHERE (
+      -- All-time totals include everything, matching the points table
+      (period_start IS NULL AND period_end IS NULL)
+      OR (
+        -- Entries for deleted reviews net to zero; leave them out of periods
+        (dt.review_id IS NULL OR dt.existing_review_id IS NOT NULL)
+        AND (period_start IS NULL OR dt.effective_at >= period_start)
+        AND (period_end IS NULL OR dt.effective_at < period_end)
+      )
+    )
+    GROUP BY dt.employee_id
+  )
+  SELECT
+    u.id AS employee_id,
+    u.name AS employee_name,
+    u.email AS employee_email,
+    COALESCE(rc.review_count, 0) AS total_reviews,
+    COALESCE(b.balance, 0) AS total_points,
+    RANK() OVER (ORDER BY COALESCE(b.balance, 0) DESC) AS rank
+  FROM public.users u
+  JOIN public.team_members tm ON u.id = tm.user_id
+  LEFT JOIN review_counts rc ON rc.employee_id = u.id
+  LEFT JOIN balances b ON b.employee_id = u.id
+  WHERE tm.team_id = team_uuid
+  ORDER BY COALESCE(b.balance, 0) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
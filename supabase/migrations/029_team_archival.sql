@@ -0,0 +1,365 @@
+-- Team Archival and Permanent Deletion
+-- Deleting a team cascades away its reviews, points ledger and history, so
+-- teams are archived instead: an archived team is hidden from its members'
+-- team lists and its data stays readable but can't be changed. Admins can
+-- restore it. Only the owner can delete an archived team for good, and only
+-- with a short-lived confirmation token issued by request_team_deletion.
+
+-- ============================================================================
+-- 1. ARCHIVE COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.teams
+ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS archived_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_teams_archived
+ON public.teams(archived_at)
+WHERE archived_at IS NOT NULL;
+
+-- Archiving and restoring only happen through archive_team and restore_team,
+-- and an archived team can't be renamed
+CREATE OR REPLACE FUNCTION public.guard_team_archival()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_service_operation()
+    OR COALESCE(current_setting('reviewboost.team_archival', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.archived_at, NEW.archived_by) IS DISTINCT FROM (OLD.archived_at, OLD.archived_by) THEN
+    RAISE EXCEPTION 'A team can only be archived or restored with archive_team and restore_team';
+  END IF;
+
+  IF OLD.archived_at IS NOT NULL
+    AND (NEW.name, NEW.description) IS DISTINCT FROM (OLD.name, OLD.description) THEN
+    RAISE EXCEPTION 'Team is archived; restore it before making changes';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_team_archival ON public.teams;
+CREATE TRIGGER guard_team_archival
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_team_archival();
+
+-- ============================================================================
+-- 2. READ-ONLY TEAM DATA
+-- ============================================================================
+
+-- Blocks changes to an archived team's rows. Cascades from a permanent
+-- delete pass because the team row is already gone, and the service role
+-- (cron jobs, auto-assign-team) is trusted to skip archived teams itself.
+CREATE OR REPLACE FUNCTION public.prevent_archived_team_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_service_operation() THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id IN (NEW.team_id, OLD.team_id)
+    AND archived_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Team is archived; restore it before making changes';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+DECLARE
+  guarded_table TEXT;
+BEGIN
+  FOREACH guarded_table IN ARRAY ARRAY[
+    'team_members',
+    'team_settings',
+    'team_invitations',
+    'team_membership_requests',
+    'team_domain_mapping',
+    'team_point_rules',
+    'dashboard_widgets',
+    'reviews',
+    'review_attachments',
+    'point_transactions'
+  ]
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS prevent_archived_team_changes ON public.%I', guarded_table);
+    EXECUTE format(
+      'CREATE TRIGGER prevent_archived_team_changes
+         BEFORE INSERT OR UPDATE OR DELETE ON public.%I
+         FOR EACH ROW
+         EXECUTE FUNCTION public.prevent_archived_team_changes()',
+      guarded_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Daily snapshots skip archived teams
+CREATE OR REPLACE FUNCTION public.capture_leaderboard_snapshots(team_uuid UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  target_team UUID;
+  new_snapshot_id UUID;
+  created_count INTEGER := 0;
+BEGIN
+  IF team_uuid IS NULL THEN
+    IF NOT public.is_service_operation() THEN
+      RAISE EXCEPTION 'Only the service role can snapshot every team';
+    END IF;
+  ELSIF NOT public.is_service_operation()
+    AND NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can capture leaderboard snapshots';
+  END IF;
+
+  FOR target_team IN
+    SELECT t.id FROM public.teams t
+    WHERE t.archived_at IS NULL
+    AND (team_uuid IS NULL OR t.id = team_uuid)
+  LOOP
+    INSERT INTO public.leaderboard_snapshots (team_id)
+    VALUES (target_team)
+    ON CONFLICT (team_id, captured_on) DO NOTHING
+    RETURNING id INTO new_snapshot_id;
+
+    CONTINUE WHEN new_snapshot_id IS NULL;
+
+    INSERT INTO public.leaderboard_snapshot_entries (snapshot_id, employee_id, rank, total_points, total_reviews)
+    WITH review_counts AS (
+      SELECT r.employee_id, COUNT(*) AS review_count
+      FROM public.reviews r
+      WHERE r.team_id = target_team
+      AND r.status = 'approved'
+      GROUP BY r.employee_id
+    ),
+    balances AS (
+      SELECT pt.employee_id, SUM(pt.amount)::INTEGER AS balance
+      FROM public.point_transactions pt
+      WHERE pt.team_id = target_team
+      GROUP BY pt.employee_id
+    )
+    SELECT
+      new_snapshot_id,
+      tm.user_id,
+      RANK() OVER (ORDER BY COALESCE(b.balance, 0) DESC),
+      COALESCE(b.balance, 0),
+      COALESCE(rc.review_count, 0)
+    FROM public.team_members tm
+    LEFT JOIN review_counts rc ON rc.employee_id = tm.user_id
+    LEFT JOIN balances b ON b.employee_id = tm.user_id
+    WHERE tm.team_id = target_team;
+
+    created_count := created_count + 1;
+    new_snapshot_id := NULL;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. DELETION CONFIRMATIONS
+-- ============================================================================
+
+-- One outstanding confirmation per team; only a hash of the token is stored
+CREATE TABLE IF NOT EXISTS public.team_deletion_requests (
+  team_id UUID PRIMARY KEY REFERENCES public.teams(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL,
+  requested_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+ALTER TABLE public.team_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are only read and written by the functions below
+CREATE POLICY "Service role can manage team deletion requests" ON public.team_deletion_requests
+  FOR ALL
+  USING (public.is_service_operation())
+  WITH CHECK (public.is_service_operation());
+
+-- Team admins could delete a team directly under RLS; deletion now has to go
+-- through delete_team_permanently
+DROP POLICY IF EXISTS "Enhanced team deletion" ON public.teams;
+CREATE POLICY "Service role can delete teams" ON public.teams
+  FOR DELETE
+  USING (public.is_service_operation());
+
+-- ============================================================================
+-- 4. ARCHIVE, RESTORE AND DELETE FUNCTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.archive_team(team_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  current_archived_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT archived_at INTO current_archived_at
+  FROM public.teams
+  WHERE id = team_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can archive a team';
+  END IF;
+
+  IF current_archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Team is already archived';
+  END IF;
+
+  -- Outstanding invitations would otherwise still point at the team
+  UPDATE public.team_invitations
+  SET revoked_at = TIMEZONE('utc'::text, NOW())
+  WHERE team_id = team_uuid
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL;
+
+  PERFORM set_config('reviewboost.team_archival', 'on', true);
+
+  UPDATE public.teams
+  SET archived_at = TIMEZONE('utc'::text, NOW()),
+      archived_by = auth.uid()
+  WHERE id = team_uuid;
+
+  PERFORM set_config('reviewboost.team_archival', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.restore_team(team_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  current_archived_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT archived_at INTO current_archived_at
+  FROM public.teams
+  WHERE id = team_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can restore a team';
+  END IF;
+
+  IF current_archived_at IS NULL THEN
+    RAISE EXCEPTION 'Team is not archived';
+  END IF;
+
+  DELETE FROM public.team_deletion_requests WHERE team_id = team_uuid;
+
+  PERFORM set_config('reviewboost.team_archival', 'on', true);
+
+  UPDATE public.teams
+  SET archived_at = NULL,
+      archived_by = NULL
+  WHERE id = team_uuid;
+
+  PERFORM set_config('reviewboost.team_archival', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Start a permanent deletion. The caller generates the token and passes its
+-- hash; a new request replaces any earlier one.
+CREATE OR REPLACE FUNCTION public.request_team_deletion(
+  team_uuid UUID,
+  confirmation_token_hash TEXT,
+  valid_for_minutes INTEGER
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  current_archived_at TIMESTAMP WITH TIME ZONE;
+  new_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT archived_at INTO current_archived_at
+  FROM public.teams
+  WHERE id = team_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid, 'owner') THEN
+    RAISE EXCEPTION 'Only the team owner can permanently delete a team';
+  END IF;
+
+  IF current_archived_at IS NULL THEN
+    RAISE EXCEPTION 'Archive the team before deleting it permanently';
+  END IF;
+
+  new_expires_at := TIMEZONE('utc'::text, NOW()) + make_interval(mins => valid_for_minutes);
+
+  INSERT INTO public.team_deletion_requests (team_id, token_hash, requested_by, expires_at)
+  VALUES (team_uuid, confirmation_token_hash, auth.uid(), new_expires_at)
+  ON CONFLICT (team_id) DO UPDATE
+  SET token_hash = EXCLUDED.token_hash,
+      requested_by = EXCLUDED.requested_by,
+      expires_at = EXCLUDED.expires_at,
+      created_at = TIMEZONE('utc'::text, NOW());
+
+  RETURN new_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Delete an archived team and everything in it. The token must match the
+-- owner's latest request and not have expired.
+CREATE OR REPLACE FUNCTION public.delete_team_permanently(
+  team_uuid UUID,
+  confirmation_token_hash TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  current_archived_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT archived_at INTO current_archived_at
+  FROM public.teams
+  WHERE id = team_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Team not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(auth.uid(), team_uuid, 'owner') THEN
+    RAISE EXCEPTION 'Only the team owner can permanently delete a team';
+  END IF;
+
+  IF current_archived_at IS NULL THEN
+    RAISE EXCEPTION 'Archive the team before deleting it permanently';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.team_deletion_requests
+    WHERE team_id = team_uuid
+    AND requested_by = auth.uid()
+    AND token_hash = confirmation_token_hash
+    AND expires_at > TIMEZONE('utc'::text, NOW())
+  ) THEN
+    RAISE EXCEPTION 'Confirmation token is invalid or has expired';
+  END IF;
+
+  DELETE FROM public.teams WHERE id = team_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.archive_team(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_team(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_team_deletion(UUID, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_team_permanently(UUID, TEXT) TO authenticated;
+
+GRANT ALL ON public.team_deletion_requests TO service_role;
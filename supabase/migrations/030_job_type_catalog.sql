@@ -0,0 +1,283 @@
+-- Per-Team Job Type Catalog
+-- Job types used to be free text, so one job was recorded as "HVAC",
+-- "hvac repair" and "AC fix". Each team now keeps a catalog of job types;
+-- reviews link to an entry through job_type_id and carry its name in
+-- job_type. An entry can set its own point value. Existing free-text values
+-- are linked when they match an entry, and map_team_job_types maps the rest.
+-- The catalog replaces team_settings.default_job_types.
+
+-- ============================================================================
+-- 1. CREATE TEAM JOB TYPES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.team_job_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  -- Points for a review of this type; NULL uses the team's base points
+  points INTEGER CHECK (points IS NULL OR points BETWEEN 0 AND 1000),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_job_types_team_name
+ON public.team_job_types(team_id, lower(name));
+
+CREATE INDEX IF NOT EXISTS idx_team_job_types_team_order
+ON public.team_job_types(team_id, sort_order);
+
+ALTER TABLE public.team_job_types ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_team_job_types_updated_at
+  BEFORE UPDATE ON public.team_job_types
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- 2. SEED CATALOGS
+-- ============================================================================
+
+-- Every team starts with its configured job types, or the built-in list
+-- (DEFAULT_JOB_TYPES in src/lib/constants.ts)
+CREATE OR REPLACE FUNCTION public.default_job_type_names()
+RETURNS TEXT[] AS $$
+  SELECT ARRAY[
+    'Plumbing',
+    'Electrical',
+    'HVAC',
+    'Carpentry',
+    'Painting',
+    'Landscaping',
+    'Roofing',
+    'General Maintenance',
+    'Other'
+  ]
+$$ LANGUAGE sql IMMUTABLE;
+
+INSERT INTO public.team_job_types (team_id, name, sort_order)
+SELECT t.id, btrim(job_type.name), job_type.position
+FROM public.teams t
+LEFT JOIN public.team_settings ts ON ts.team_id = t.id
+CROSS JOIN LATERAL unnest(COALESCE(ts.default_job_types, public.default_job_type_names()))
+  WITH ORDINALITY AS job_type(name, position)
+WHERE btrim(job_type.name) <> ''
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.team_settings
+DROP COLUMN IF EXISTS default_job_types;
+
+CREATE OR REPLACE FUNCTION public.seed_team_job_types()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.team_job_types (team_id, name, sort_order)
+  SELECT NEW.id, job_type.name, job_type.position
+  FROM unnest(public.default_job_type_names()) WITH ORDINALITY AS job_type(name, position)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS seed_team_job_types ON public.teams;
+CREATE TRIGGER seed_team_job_types
+  AFTER INSERT ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.seed_team_job_types();
+
+-- ============================================================================
+-- 3. LINK REVIEWS TO THE CATALOG
+-- ============================================================================
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS job_type_id UUID REFERENCES public.team_job_types(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_team_job_type_id
+ON public.reviews(team_id, job_type_id);
+
+-- A review's job type is linked to the catalog entry with the same name
+-- (ignoring case) and takes the entry's spelling; other values stay unlinked
+CREATE OR REPLACE FUNCTION public.link_review_job_type()
+RETURNS TRIGGER AS $$
+DECLARE
+  matched public.team_job_types%ROWTYPE;
+BEGIN
+  SELECT * INTO matched
+  FROM public.team_job_types
+  WHERE team_id = NEW.team_id
+  AND lower(name) = lower(btrim(NEW.job_type));
+
+  IF FOUND THEN
+    NEW.job_type_id := matched.id;
+    NEW.job_type := matched.name;
+  ELSE
+    NEW.job_type_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS link_review_job_type ON public.reviews;
+CREATE TRIGGER link_review_job_type
+  BEFORE INSERT OR UPDATE OF job_type ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_review_job_type();
+
+-- New entries pick up matching unlinked reviews, and renames carry over to
+-- the reviews already linked
+CREATE OR REPLACE FUNCTION public.sync_job_type_reviews()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.reviews
+    SET job_type = NEW.name
+    WHERE team_id = NEW.team_id
+    AND job_type_id IS NULL
+    AND lower(btrim(job_type)) = lower(NEW.name);
+  ELSIF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.reviews
+    SET job_type = NEW.name
+    WHERE job_type_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_job_type_reviews ON public.team_job_types;
+CREATE TRIGGER sync_job_type_reviews
+  AFTER INSERT OR UPDATE OF name ON public.team_job_types
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_job_type_reviews();
+
+-- Link existing reviews. Archived teams are read-only; theirs are linked by
+-- the mapping tool once the team is restored.
+UPDATE public.reviews r
+SET job_type_id = jt.id,
+    job_type = jt.name
+FROM public.team_job_types jt
+JOIN public.teams t ON t.id = jt.team_id
+WHERE jt.team_id = r.team_id
+AND lower(jt.name) = lower(btrim(r.job_type))
+AND t.archived_at IS NULL;
+
+-- Archived teams' catalogs are read-only like the rest of their data
+DROP TRIGGER IF EXISTS prevent_archived_team_changes ON public.team_job_types;
+CREATE TRIGGER prevent_archived_team_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.team_job_types
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_team_changes();
+
+-- ============================================================================
+-- 4. RLS POLICIES
+-- ============================================================================
+
+-- Members need the catalog to submit reviews
+CREATE POLICY "Team members can view job types" ON public.team_job_types
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_job_types.team_id)
+  );
+
+CREATE POLICY "Team admins can create job types" ON public.team_job_types
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_job_types.team_id, 'admin')
+  );
+
+CREATE POLICY "Team admins can update job types" ON public.team_job_types
+  FOR UPDATE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_job_types.team_id, 'admin')
+  );
+
+CREATE POLICY "Team admins can delete job types" ON public.team_job_types
+  FOR DELETE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_job_types.team_id, 'admin')
+  );
+
+-- ============================================================================
+-- 5. MAPPING FREE-TEXT VALUES
+-- ============================================================================
+
+-- Job type values on the team's reviews that aren't linked to the catalog
+CREATE OR REPLACE FUNCTION public.get_unmapped_job_types(team_uuid UUID)
+RETURNS TABLE (job_type TEXT, review_count BIGINT) AS $$
+BEGIN
+  IF NOT public.is_service_operation()
+    AND NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can map job types';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.job_type, COUNT(*)
+  FROM public.reviews r
+  WHERE r.team_id = team_uuid
+  AND r.job_type_id IS NULL
+  GROUP BY r.job_type
+  ORDER BY COUNT(*) DESC, r.job_type;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Relabel unlinked reviews onto catalog entries. mappings is a list of
+-- {"job_type": <existing value>, "job_type_id": <entry>}; values are matched
+-- ignoring case and surrounding spaces. Points already awarded are kept.
+-- Returns the number of reviews updated.
+CREATE OR REPLACE FUNCTION public.map_team_job_types(team_uuid UUID, mappings JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  mapping JSONB;
+  target public.team_job_types%ROWTYPE;
+  mapped_count INTEGER;
+  updated_count INTEGER := 0;
+BEGIN
+  IF NOT public.is_service_operation()
+    AND NOT public.user_has_team_access(auth.uid(), team_uuid, 'admin') THEN
+    RAISE EXCEPTION 'Only team admins can map job types';
+  END IF;
+
+  IF jsonb_typeof(mappings) <> 'array' THEN
+    RAISE EXCEPTION 'Mappings must be a list';
+  END IF;
+
+  FOR mapping IN SELECT * FROM jsonb_array_elements(mappings)
+  LOOP
+    SELECT * INTO target
+    FROM public.team_job_types
+    WHERE id = (mapping->>'job_type_id')::UUID
+    AND team_id = team_uuid;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Job type not found';
+    END IF;
+
+    UPDATE public.reviews
+    SET job_type = target.name,
+        job_type_id = target.id
+    WHERE team_id = team_uuid
+    AND job_type_id IS NULL
+    AND lower(btrim(job_type)) = lower(btrim(mapping->>'job_type'));
+
+    GET DIAGNOSTICS mapped_count = ROW_COUNT;
+    updated_count := updated_count + mapped_count;
+  END LOOP;
+
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON public.team_job_types TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_unmapped_job_types(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.map_team_job_types(UUID, JSONB) TO authenticated;
@@ -0,0 +1,301 @@
+-- Customer Records
+-- Reviews only carried a customer name, so repeat customers couldn't be
+-- counted or followed up with. Each team now keeps customers with contact
+-- details, and every review links to one. Customers are deduplicated by
+-- normalized email, phone or name: find_or_create_customer returns the
+-- existing record when one matches.
+
+-- ============================================================================
+-- 1. CREATE CUSTOMERS TABLE
+-- ============================================================================
+
+-- Same normalization as reviews.customer_name_normalized and
+-- normalizeCustomerName() in src/lib/duplicate-reviews.ts
+CREATE OR REPLACE FUNCTION public.normalize_customer_name(customer_name TEXT)
+RETURNS TEXT AS $$
+  SELECT btrim(regexp_replace(regexp_replace(lower(customer_name), '[^a-z0-9\s]', '', 'g'), '\s+', ' ', 'g'))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Must match normalizePhone() in src/lib/customers.ts
+CREATE OR REPLACE FUNCTION public.normalize_phone(phone TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(regexp_replace(COALESCE(phone, ''), '[^0-9]', '', 'g'), '')
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE IF NOT EXISTS public.customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  phone TEXT CHECK (phone IS NULL OR char_length(phone) <= 30),
+  email TEXT CHECK (email IS NULL OR char_length(email) <= 254),
+  address TEXT CHECK (address IS NULL OR char_length(address) <= 500),
+  notes TEXT CHECK (notes IS NULL OR char_length(notes) <= 2000),
+  name_normalized TEXT GENERATED ALWAYS AS (public.normalize_customer_name(name)) STORED,
+  phone_normalized TEXT GENERATED ALWAYS AS (public.normalize_phone(phone)) STORED,
+  email_normalized TEXT GENERATED ALWAYS AS (NULLIF(lower(btrim(email)), '')) STORED,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- One customer per email address and per phone number within a team
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_team_email
+ON public.customers(team_id, email_normalized)
+WHERE email_normalized IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_team_phone
+ON public.customers(team_id, phone_normalized)
+WHERE phone_normalized IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_team_name
+ON public.customers(team_id, name_normalized);
+
+CREATE INDEX IF NOT EXISTS idx_customers_team_created
+ON public.customers(team_id, created_at DESC, id DESC);
+
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_customers_updated_at
+  BEFORE UPDATE ON public.customers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- 2. LINK EXISTING REVIEWS
+-- ============================================================================
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_team_customer
+ON public.reviews(team_id, customer_id, created_at DESC);
+
+-- One customer per distinct normalized name, spelled as on its latest review
+INSERT INTO public.customers (team_id, name, created_at)
+SELECT DISTINCT ON (r.team_id, r.customer_name_normalized)
+  r.team_id,
+  btrim(r.customer_name),
+  MIN(r.created_at) OVER (PARTITION BY r.team_id, r.customer_name_normalized)
+FROM public.reviews r
+WHERE btrim(r.customer_name) <> ''
+ORDER BY r.team_id, r.customer_name_normalized, r.created_at DESC;
+
+-- Archived teams' reviews are read-only; this one-time backfill links them too
+ALTER TABLE public.reviews DISABLE TRIGGER prevent_archived_team_changes;
+
+UPDATE public.reviews r
+SET customer_id = c.id
+FROM public.customers c
+WHERE c.team_id = r.team_id
+AND c.name_normalized = r.customer_name_normalized
+AND r.customer_id IS NULL;
+
+ALTER TABLE public.reviews ENABLE TRIGGER prevent_archived_team_changes;
+
+DROP TRIGGER IF EXISTS prevent_archived_team_changes ON public.customers;
+CREATE TRIGGER prevent_archived_team_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.customers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_team_changes();
+
+-- ============================================================================
+-- 3. DEDUPLICATION
+-- ============================================================================
+
+-- Return the team's customer matching the email, then the phone, then the
+-- name (when its contact details don't conflict), filling in any contact
+-- details it was missing. Creates the customer when nothing matches; notes
+-- are only used for a new customer.
+CREATE OR REPLACE FUNCTION public.find_or_create_customer(
+  team_uuid UUID,
+  customer_name TEXT,
+  customer_phone TEXT DEFAULT NULL,
+  customer_email TEXT DEFAULT NULL,
+  customer_address TEXT DEFAULT NULL,
+  customer_notes TEXT DEFAULT NULL,
+  OUT customer_id UUID,
+  OUT created BOOLEAN
+) AS $$
+DECLARE
+  name_key TEXT := public.normalize_customer_name(customer_name);
+  phone_key TEXT := public.normalize_phone(customer_phone);
+  email_key TEXT := NULLIF(lower(btrim(customer_email)), '');
+  matched public.customers%ROWTYPE;
+BEGIN
+  IF NOT public.is_service_operation()
+    AND NOT public.user_has_team_access(auth.uid(), team_uuid, 'member') THEN
+    RAISE EXCEPTION 'Only team members can add customers';
+  END IF;
+
+  IF customer_name IS NULL OR btrim(customer_name) = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF email_key IS NOT NULL THEN
+    SELECT * INTO matched FROM public.customers
+    WHERE team_id = team_uuid AND email_normalized = email_key;
+  END IF;
+
+  IF matched.id IS NULL AND phone_key IS NOT NULL THEN
+    SELECT * INTO matched FROM public.customers
+    WHERE team_id = team_uuid AND phone_normalized = phone_key;
+  END IF;
+
+  IF matched.id IS NULL THEN
+    SELECT * INTO matched FROM public.customers
+    WHERE team_id = team_uuid
+    AND name_normalized = name_key
+    AND (email_key IS NULL OR email_normalized IS NULL)
+    AND (phone_key IS NULL OR phone_normalized IS NULL)
+    ORDER BY updated_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF matched.id IS NULL THEN
+    INSERT INTO public.customers (team_id, name, phone, email, address, notes, created_by)
+    VALUES (
+      team_uuid,
+      btrim(customer_name),
+      NULLIF(btrim(customer_phone), ''),
+      NULLIF(btrim(customer_email), ''),
+      NULLIF(btrim(customer_address), ''),
+      NULLIF(btrim(customer_notes), ''),
+      auth.uid()
+    )
+    RETURNING id INTO customer_id;
+
+    created := true;
+    RETURN;
+  END IF;
+
+  -- Fill gaps without taking a phone or email another customer already has
+  UPDATE public.customers
+  SET
+    email = CASE
+      WHEN email IS NULL AND email_key IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.customers other
+        WHERE other.team_id = team_uuid AND other.email_normalized = email_key
+      ) THEN btrim(customer_email)
+      ELSE email
+    END,
+    phone = CASE
+      WHEN phone IS NULL AND phone_key IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.customers other
+        WHERE other.team_id = team_uuid AND other.phone_normalized = phone_key
+      ) THEN btrim(customer_phone)
+      ELSE phone
+    END,
+    address = COALESCE(address, NULLIF(btrim(customer_address), ''))
+  WHERE id = matched.id;
+
+  customer_id := matched.id;
+  created := false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- New reviews link to a customer of their own team, matched by name unless
+-- one is given. Changing a review's customer name relinks it the same way.
+-- Generated columns aren't computed yet in BEFORE triggers, so names are
+-- normalized here.
+CREATE OR REPLACE FUNCTION public.link_review_customer()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.customer_id IS NULL THEN
+    SELECT match.customer_id INTO NEW.customer_id
+    FROM public.find_or_create_customer(NEW.team_id, NEW.customer_name) match;
+  ELSIF TG_OP = 'UPDATE'
+    AND NEW.customer_id IS NOT DISTINCT FROM OLD.customer_id
+    AND public.normalize_customer_name(NEW.customer_name)
+      IS DISTINCT FROM public.normalize_customer_name(OLD.customer_name) THEN
+    SELECT match.customer_id INTO NEW.customer_id
+    FROM public.find_or_create_customer(NEW.team_id, NEW.customer_name) match;
+  END IF;
+
+  IF NEW.customer_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.customers
+    WHERE id = NEW.customer_id AND team_id = NEW.team_id
+  ) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS link_review_customer ON public.reviews;
+CREATE TRIGGER link_review_customer
+  BEFORE INSERT OR UPDATE OF customer_name, customer_id ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_review_customer();
+
+-- ============================================================================
+-- 4. RLS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Team members can view customers" ON public.customers
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), customers.team_id)
+  );
+
+CREATE POLICY "Team members can add customers" ON public.customers
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), customers.team_id, 'member')
+  );
+
+CREATE POLICY "Team managers can update customers" ON public.customers
+  FOR UPDATE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), customers.team_id, 'manager')
+  );
+
+CREATE POLICY "Team managers can delete customers" ON public.customers
+  FOR DELETE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), customers.team_id, 'manager')
+  );
+
+-- ============================================================================
+-- 5. REPEAT CUSTOMER STATS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_customer_stats(team_uuid UUID)
+RETURNS TABLE (
+  total_customers BIGINT,
+  repeat_customers BIGINT,
+  reviews_from_repeat_customers BIGINT
+) AS $$
+BEGIN
+  IF NOT public.is_service_operation()
+    AND NOT public.user_has_team_access(auth.uid(), team_uuid) THEN
+    RAISE EXCEPTION 'Only team members can view customer stats';
+  END IF;
+
+  RETURN QUERY
+  WITH review_counts AS (
+    SELECT c.id, COUNT(r.id) AS review_count
+    FROM public.customers c
+    LEFT JOIN public.reviews r ON r.customer_id = c.id AND r.status <> 'rejected'
+    WHERE c.team_id = team_uuid
+    GROUP BY c.id
+  )
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE review_count > 1),
+    COALESCE(SUM(review_count) FILTER (WHERE review_count > 1), 0)::BIGINT
+  FROM review_counts;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON public.customers TO service_role;
+GRANT EXECUTE ON FUNCTION public.find_or_create_customer(UUID, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_customer_stats(UUID) TO authenticated;
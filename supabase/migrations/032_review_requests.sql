@@ -0,0 +1,317 @@
+-- Review Request Links
+-- Employees ask customers for reviews with a link unique to the employee and
+-- customer. Opening the link logs the open and redirects to the team's
+-- review destination (e.g. its Google review page). A request is converted
+-- when a review is recorded for it, either picked by the employee or matched
+-- automatically by customer, which gives each employee a conversion rate.
+
+-- ============================================================================
+-- 1. REVIEW DESTINATION SETTING
+-- ============================================================================
+
+ALTER TABLE public.team_settings
+ADD COLUMN IF NOT EXISTS review_destination_url TEXT CHECK (
+  review_destination_url IS NULL
+  OR (review_destination_url ~ '^https://' AND char_length(review_destination_url) <= 2048)
+);
+
+-- ============================================================================
+-- 2. CREATE REVIEW REQUEST TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.review_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  -- Kept in plain text so the link can be shown again; it only leads to the
+  -- team's public review page
+  token TEXT NOT NULL UNIQUE,
+  open_count INTEGER NOT NULL DEFAULT 0,
+  first_opened_at TIMESTAMP WITH TIME ZONE,
+  last_opened_at TIMESTAMP WITH TIME ZONE,
+  review_id UUID UNIQUE REFERENCES public.reviews(id) ON DELETE SET NULL,
+  converted_at TIMESTAMP WITH TIME ZONE,
+  conversion_source TEXT CHECK (conversion_source IN ('manual', 'auto')),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_requests_team_created
+ON public.review_requests(team_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_review_requests_team_employee
+ON public.review_requests(team_id, employee_id, created_at DESC);
+
+-- Open requests for a customer, for automatic matching
+CREATE INDEX IF NOT EXISTS idx_review_requests_open_customer
+ON public.review_requests(team_id, customer_id, created_at DESC)
+WHERE review_id IS NULL;
+
+ALTER TABLE public.review_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_review_requests_updated_at
+  BEFORE UPDATE ON public.review_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS prevent_archived_team_changes ON public.review_requests;
+CREATE TRIGGER prevent_archived_team_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.review_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_team_changes();
+
+-- One row per time a link is opened
+CREATE TABLE IF NOT EXISTS public.review_request_opens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id UUID NOT NULL REFERENCES public.review_requests(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_agent TEXT CHECK (user_agent IS NULL OR char_length(user_agent) <= 512),
+  opened_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_request_opens_request
+ON public.review_request_opens(request_id, opened_at DESC);
+
+ALTER TABLE public.review_request_opens ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 3. RLS POLICIES
+-- ============================================================================
+
+-- Employees see their own requests; managers see the whole team's
+CREATE POLICY "Team members can view review requests" ON public.review_requests
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR (
+      review_requests.employee_id = auth.uid()
+      AND public.user_has_team_access(auth.uid(), review_requests.team_id, 'member')
+    )
+    OR public.user_has_team_access(auth.uid(), review_requests.team_id, 'manager')
+  );
+
+-- Members create requests for themselves; managers for anyone on the team
+CREATE POLICY "Team members can create review requests" ON public.review_requests
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR (
+      review_requests.employee_id = auth.uid()
+      AND public.user_has_team_access(auth.uid(), review_requests.team_id, 'member')
+    )
+    OR public.user_has_team_access(auth.uid(), review_requests.team_id, 'manager')
+  );
+
+-- Opens and conversions are recorded by the functions below
+
+CREATE POLICY "Team members can view review request opens" ON public.review_request_opens
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR EXISTS (
+      SELECT 1 FROM public.review_requests rr
+      WHERE rr.id = review_request_opens.request_id
+      AND (
+        rr.employee_id = auth.uid()
+        OR public.user_has_team_access(auth.uid(), rr.team_id, 'manager')
+      )
+    )
+  );
+
+-- ============================================================================
+-- 4. OPENING A LINK
+-- ============================================================================
+
+-- Log an open and return where to send the customer. Callable without
+-- signing in; holding the token is the only requirement. Returns NULL for
+-- unknown tokens, archived teams and teams without a destination.
+CREATE OR REPLACE FUNCTION public.open_review_request(request_token TEXT, opener_user_agent TEXT DEFAULT NULL)
+RETURNS TEXT AS $$
+DECLARE
+  request public.review_requests%ROWTYPE;
+  destination TEXT;
+BEGIN
+  SELECT rr.* INTO request
+  FROM public.review_requests rr
+  JOIN public.teams t ON t.id = rr.team_id
+  WHERE rr.token = request_token
+  AND t.archived_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT review_destination_url INTO destination
+  FROM public.team_settings
+  WHERE team_id = request.team_id;
+
+  IF destination IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.review_request_opens (request_id, team_id, user_agent)
+  VALUES (request.id, request.team_id, left(opener_user_agent, 512));
+
+  UPDATE public.review_requests
+  SET open_count = open_count + 1,
+      first_opened_at = COALESCE(first_opened_at, NOW()),
+      last_opened_at = NOW()
+  WHERE id = request.id;
+
+  RETURN destination;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. CONVERSIONS
+-- ============================================================================
+
+-- Link a review to a request. The requesting employee or a manager can do
+-- this; the review must be on the same team and not linked already.
+CREATE OR REPLACE FUNCTION public.convert_review_request(request_uuid UUID, review_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  request public.review_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO request FROM public.review_requests WHERE id = request_uuid FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review request not found';
+  END IF;
+
+  IF NOT public.is_service_operation()
+    AND NOT (request.employee_id = auth.uid() AND public.user_has_team_access(auth.uid(), request.team_id, 'member'))
+    AND NOT public.user_has_team_access(auth.uid(), request.team_id, 'manager') THEN
+    RAISE EXCEPTION 'Only the requesting employee or a manager can convert this review request';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.reviews WHERE id = review_uuid AND team_id = request.team_id) THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF request.review_id = review_uuid THEN
+    RETURN;
+  END IF;
+
+  IF request.review_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This review request has already been converted';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.review_requests WHERE review_id = review_uuid) THEN
+    RAISE EXCEPTION 'This review is already linked to another review request';
+  END IF;
+
+  UPDATE public.review_requests
+  SET review_id = review_uuid,
+      converted_at = NOW(),
+      conversion_source = 'manual'
+  WHERE id = request.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Convert the open request most likely to have produced a review: the newest
+-- one for the same customer within the window, preferring the employee who
+-- submitted the review. Returns the request id, or NULL when none matches.
+CREATE OR REPLACE FUNCTION public.match_review_request(review_uuid UUID, match_window_days INTEGER DEFAULT 30)
+RETURNS UUID AS $$
+DECLARE
+  review public.reviews%ROWTYPE;
+  matched_id UUID;
+BEGIN
+  SELECT * INTO review FROM public.reviews WHERE id = review_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.is_service_operation()
+    AND NOT public.user_has_team_access(auth.uid(), review.team_id, 'member') THEN
+    RAISE EXCEPTION 'Only team members can match review requests';
+  END IF;
+
+  IF review.customer_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.review_requests WHERE review_id = review.id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO matched_id
+  FROM public.review_requests
+  WHERE team_id = review.team_id
+  AND customer_id = review.customer_id
+  AND review_id IS NULL
+  AND created_at <= review.created_at
+  AND created_at >= review.created_at - make_interval(days => match_window_days)
+  ORDER BY (employee_id = review.employee_id) DESC, created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF matched_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.review_requests
+  SET review_id = review.id,
+      converted_at = NOW(),
+      conversion_source = 'auto'
+  WHERE id = matched_id;
+
+  RETURN matched_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. METRICS
+-- ============================================================================
+
+-- Requests sent, opened and converted per employee, for requests created in
+-- the period. Managers see everyone; other members only themselves.
+CREATE OR REPLACE FUNCTION public.get_review_request_metrics(
+  team_uuid UUID,
+  period_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  period_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE(
+  employee_id UUID,
+  employee_name TEXT,
+  requests_sent BIGINT,
+  requests_opened BIGINT,
+  requests_converted BIGINT
+) AS $$
+DECLARE
+  sees_team BOOLEAN := public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_uuid, 'manager');
+BEGIN
+  IF NOT sees_team AND NOT public.user_has_team_access(auth.uid(), team_uuid, 'member') THEN
+    RAISE EXCEPTION 'Only team members can view review request metrics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    rr.employee_id,
+    u.name,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE rr.first_opened_at IS NOT NULL),
+    COUNT(*) FILTER (WHERE rr.review_id IS NOT NULL)
+  FROM public.review_requests rr
+  JOIN public.users u ON u.id = rr.employee_id
+  WHERE rr.team_id = team_uuid
+  AND (sees_team OR rr.employee_id = auth.uid())
+  AND (period_start IS NULL OR rr.created_at >= period_start)
+  AND (period_end IS NULL OR rr.created_at < period_end)
+  GROUP BY rr.employee_id, u.name
+  ORDER BY COUNT(*) FILTER (WHERE rr.review_id IS NOT NULL) DESC, COUNT(*) DESC, u.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================================================
+-- 7. GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON public.review_requests TO service_role;
+GRANT ALL ON public.review_request_opens TO service_role;
+GRANT EXECUTE ON FUNCTION public.open_review_request(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.convert_review_request(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.match_review_request(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_review_request_metrics(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,208 @@
+-- Review Request QR Codes
+-- Review links can be shown as QR codes, and each employee gets a standing
+-- "card" link with no customer for printed cards. QR codes point at the same
+-- /r/<token> redirect with ?via=qr, so a scan is logged as an open of the
+-- request it belongs to, tagged with its source.
+
+-- ============================================================================
+-- 1. EMPLOYEE CARD LINKS
+-- ============================================================================
+
+-- A request without a customer is the employee's card link
+ALTER TABLE public.review_requests
+ALTER COLUMN customer_id DROP NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_review_requests_team_employee_card
+ON public.review_requests(team_id, employee_id)
+WHERE customer_id IS NULL;
+
+-- ============================================================================
+-- 2. OPEN SOURCES
+-- ============================================================================
+
+ALTER TABLE public.review_request_opens
+ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'link' CHECK (source IN ('link', 'qr'));
+
+CREATE INDEX IF NOT EXISTS idx_review_request_opens_team_source
+ON public.review_request_opens(team_id, source, opened_at DESC);
+
+-- ============================================================================
+-- 3. OPENING A LINK
+-- ============================================================================
+
+-- Replaced with a version that records whether the link was opened directly
+-- or by scanning its QR code
+DROP FUNCTION IF EXISTS public.open_review_request(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.open_review_request(
+  request_token TEXT,
+  opener_user_agent TEXT DEFAULT NULL,
+  open_source TEXT DEFAULT 'link'
+)
+RETURNS TEXT AS $$
+DECLARE
+  request public.review_requests%ROWTYPE;
+  destination TEXT;
+BEGIN
+  SELECT rr.* INTO request
+  FROM public.review_requests rr
+  JOIN public.teams t ON t.id = rr.team_id
+  WHERE rr.token = request_token
+  AND t.archived_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT review_destination_url INTO destination
+  FROM public.team_settings
+  WHERE team_id = request.team_id;
+
+  IF destination IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.review_request_opens (request_id, team_id, user_agent, source)
+  VALUES (
+    request.id,
+    request.team_id,
+    left(opener_user_agent, 512),
+    CASE WHEN open_source = 'qr' THEN 'qr' ELSE 'link' END
+  );
+
+  UPDATE public.review_requests
+  SET open_count = open_count + 1,
+      first_opened_at = COALESCE(first_opened_at, NOW()),
+      last_opened_at = NOW()
+  WHERE id = request.id;
+
+  RETURN destination;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. CONVERSIONS
+-- ============================================================================
+
+-- Card links are shared with many customers, so they are never converted
+CREATE OR REPLACE FUNCTION public.convert_review_request(request_uuid UUID, review_uuid UUID)
+RETURNS VOID AS $$
+DECLARE
+  request public.review_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO request FROM public.review_requests WHERE id = request_uuid FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review request not found';
+  END IF;
+
+  IF NOT public.is_service_operation()
+    AND NOT (request.employee_id = auth.uid() AND public.user_has_team_access(auth.uid(), request.team_id, 'member'))
+    AND NOT public.user_has_team_access(auth.uid(), request.team_id, 'manager') THEN
+    RAISE EXCEPTION 'Only the requesting employee or a manager can convert this review request';
+  END IF;
+
+  IF request.customer_id IS NULL THEN
+    RAISE EXCEPTION 'Review card links cannot be converted';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.reviews WHERE id = review_uuid AND team_id = request.team_id) THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF request.review_id = review_uuid THEN
+    RETURN;
+  END IF;
+
+  IF request.review_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This review request has already been converted';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.review_requests WHERE review_id = review_uuid) THEN
+    RAISE EXCEPTION 'This review is already linked to another review request';
+  END IF;
+
+  UPDATE public.review_requests
+  SET review_id = review_uuid,
+      converted_at = NOW(),
+      conversion_source = 'manual'
+  WHERE id = request.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 5. METRICS
+-- ============================================================================
+
+-- Conversion counts cover customer links created in the period; QR scans
+-- count every scan in the period, including card links. The return type
+-- changes, so the function is dropped first.
+DROP FUNCTION IF EXISTS public.get_review_request_metrics(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.get_review_request_metrics(
+  team_uuid UUID,
+  period_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  period_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE(
+  employee_id UUID,
+  employee_name TEXT,
+  requests_sent BIGINT,
+  requests_opened BIGINT,
+  requests_converted BIGINT,
+  qr_scans BIGINT
+) AS $$
+DECLARE
+  sees_team BOOLEAN := public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_uuid, 'manager');
+BEGIN
+  IF NOT sees_team AND NOT public.user_has_team_access(auth.uid(), team_uuid, 'member') THEN
+    RAISE EXCEPTION 'Only team members can view review request metrics';
+  END IF;
+
+  RETURN QUERY
+  WITH requests AS (
+    SELECT
+      rr.employee_id,
+      COUNT(*) AS sent,
+      COUNT(*) FILTER (WHERE rr.first_opened_at IS NOT NULL) AS opened,
+      COUNT(*) FILTER (WHERE rr.review_id IS NOT NULL) AS converted
+    FROM public.review_requests rr
+    WHERE rr.team_id = team_uuid
+    AND rr.customer_id IS NOT NULL
+    AND (sees_team OR rr.employee_id = auth.uid())
+    AND (period_start IS NULL OR rr.created_at >= period_start)
+    AND (period_end IS NULL OR rr.created_at < period_end)
+    GROUP BY rr.employee_id
+  ),
+  scans AS (
+    SELECT rr.employee_id, COUNT(*) AS scanned
+    FROM public.review_request_opens o
+    JOIN public.review_requests rr ON rr.id = o.request_id
+    WHERE o.team_id = team_uuid
+    AND o.source = 'qr'
+    AND (sees_team OR rr.employee_id = auth.uid())
+    AND (period_start IS NULL OR o.opened_at >= period_start)
+    AND (period_end IS NULL OR o.opened_at < period_end)
+    GROUP BY rr.employee_id
+  )
+  SELECT
+    u.id,
+    u.name,
+    COALESCE(r.sent, 0),
+    COALESCE(r.opened, 0),
+    COALESCE(r.converted, 0),
+    COALESCE(s.scanned, 0)
+  FROM requests r
+  FULL JOIN scans s ON s.employee_id = r.employee_id
+  JOIN public.users u ON u.id = COALESCE(r.employee_id, s.employee_id)
+  ORDER BY COALESCE(r.converted, 0) DESC, COALESCE(r.sent, 0) DESC, COALESCE(s.scanned, 0) DESC, u.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================================================
+-- 6. GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.open_review_request(TEXT, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_review_request_metrics(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
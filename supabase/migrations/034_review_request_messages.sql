@@ -0,0 +1,240 @@
+-- Review Request Messages
+-- Review requests can be sent to the customer by text or email from the app.
+-- Each send is recorded with its provider and delivery status, which
+-- providers update through status callbacks; the latest one is copied onto
+-- the request. Customers who reply STOP or use the email opt-out link are
+-- not messaged again, and sends are throttled per customer and per team.
+
+-- ============================================================================
+-- 1. MESSAGE TEMPLATES
+-- ============================================================================
+
+-- NULL uses the built-in template. Templates fill in {customer_name},
+-- {employee_name}, {team_name} and {link}.
+ALTER TABLE public.team_settings
+ADD COLUMN IF NOT EXISTS review_request_sms_template TEXT CHECK (
+  review_request_sms_template IS NULL OR char_length(review_request_sms_template) <= 480
+),
+ADD COLUMN IF NOT EXISTS review_request_email_subject TEXT CHECK (
+  review_request_email_subject IS NULL OR char_length(review_request_email_subject) <= 200
+),
+ADD COLUMN IF NOT EXISTS review_request_email_template TEXT CHECK (
+  review_request_email_template IS NULL OR char_length(review_request_email_template) <= 5000
+);
+
+-- ============================================================================
+-- 2. CUSTOMER OPT-OUTS
+-- ============================================================================
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS sms_opted_out_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS email_opted_out_at TIMESTAMP WITH TIME ZONE;
+
+-- ============================================================================
+-- 3. CREATE MESSAGES TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.review_request_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  request_id UUID NOT NULL REFERENCES public.review_requests(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'email')),
+  recipient TEXT NOT NULL,
+  subject TEXT,
+  body TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  provider_message_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'sent', 'delivered', 'undelivered', 'failed')),
+  error TEXT,
+  sent_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  status_updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_request_messages_request
+ON public.review_request_messages(request_id, created_at DESC);
+
+-- Throttling looks back from now per customer and per team
+CREATE INDEX IF NOT EXISTS idx_review_request_messages_customer
+ON public.review_request_messages(customer_id, channel, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_review_request_messages_team_created
+ON public.review_request_messages(team_id, created_at DESC);
+
+-- Status callbacks find the message by the provider's id
+CREATE UNIQUE INDEX IF NOT EXISTS idx_review_request_messages_provider_id
+ON public.review_request_messages(provider, provider_message_id)
+WHERE provider_message_id IS NOT NULL;
+
+ALTER TABLE public.review_request_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_review_request_messages_updated_at
+  BEFORE UPDATE ON public.review_request_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS prevent_archived_team_changes ON public.review_request_messages;
+CREATE TRIGGER prevent_archived_team_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.review_request_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_team_changes();
+
+-- The latest message's delivery status, kept on the request
+ALTER TABLE public.review_requests
+ADD COLUMN IF NOT EXISTS last_message_channel TEXT CHECK (last_message_channel IN ('sms', 'email')),
+ADD COLUMN IF NOT EXISTS last_message_status TEXT CHECK (
+  last_message_status IN ('queued', 'sent', 'delivered', 'undelivered', 'failed')
+),
+ADD COLUMN IF NOT EXISTS last_message_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.sync_review_request_message_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.review_requests
+  SET last_message_channel = NEW.channel,
+      last_message_status = NEW.status,
+      last_message_at = NEW.created_at
+  WHERE id = NEW.request_id
+  AND (last_message_at IS NULL OR last_message_at <= NEW.created_at);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_review_request_message_status ON public.review_request_messages;
+CREATE TRIGGER sync_review_request_message_status
+  AFTER INSERT OR UPDATE OF status ON public.review_request_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_review_request_message_status();
+
+-- ============================================================================
+-- 4. RLS POLICIES
+-- ============================================================================
+
+-- Same visibility as the request the message was sent for
+CREATE POLICY "Team members can view review request messages" ON public.review_request_messages
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR EXISTS (
+      SELECT 1 FROM public.review_requests rr
+      WHERE rr.id = review_request_messages.request_id
+      AND (
+        (rr.employee_id = auth.uid() AND public.user_has_team_access(auth.uid(), rr.team_id, 'member'))
+        OR public.user_has_team_access(auth.uid(), rr.team_id, 'manager')
+      )
+    )
+  );
+
+-- Whoever can see a request can record a message they sent for it; status
+-- changes come from provider callbacks through the service role
+CREATE POLICY "Team members can record review request messages" ON public.review_request_messages
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR (
+      review_request_messages.sent_by = auth.uid()
+      AND EXISTS (
+        SELECT 1 FROM public.review_requests rr
+        WHERE rr.id = review_request_messages.request_id
+        AND rr.team_id = review_request_messages.team_id
+        AND (
+          (rr.employee_id = auth.uid() AND public.user_has_team_access(auth.uid(), rr.team_id, 'member'))
+          OR public.user_has_team_access(auth.uid(), rr.team_id, 'manager')
+        )
+      )
+    )
+  );
+
+-- ============================================================================
+-- 5. THROTTLING
+-- ============================================================================
+
+-- Recent sends that limit another message for a request: the last message
+-- to its customer on the channel from anyone on the team, the team's sends
+-- in the last hour and how often this request was sent
+CREATE OR REPLACE FUNCTION public.get_review_request_send_state(request_uuid UUID, message_channel TEXT)
+RETURNS TABLE(
+  last_customer_message_at TIMESTAMP WITH TIME ZONE,
+  team_messages_last_hour BIGINT,
+  request_message_count BIGINT
+) AS $$
+DECLARE
+  request public.review_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO request FROM public.review_requests WHERE id = request_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review request not found';
+  END IF;
+
+  IF NOT public.is_service_operation()
+    AND NOT (request.employee_id = auth.uid() AND public.user_has_team_access(auth.uid(), request.team_id, 'member'))
+    AND NOT public.user_has_team_access(auth.uid(), request.team_id, 'manager') THEN
+    RAISE EXCEPTION 'Only the requesting employee or a manager can send this review request';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (
+      SELECT MAX(m.created_at)
+      FROM public.review_request_messages m
+      WHERE m.customer_id = request.customer_id
+      AND m.channel = message_channel
+      AND m.status <> 'failed'
+    ),
+    (
+      SELECT COUNT(*)
+      FROM public.review_request_messages m
+      WHERE m.team_id = request.team_id
+      AND m.created_at > NOW() - INTERVAL '1 hour'
+    ),
+    (
+      SELECT COUNT(*)
+      FROM public.review_request_messages m
+      WHERE m.request_id = request.id
+      AND m.status <> 'failed'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================================================
+-- 6. OPT-OUTS
+-- ============================================================================
+
+-- Opt the request's customer out of review request emails. Callable without
+-- signing in from the link in the email; holding the token is the only
+-- requirement. Returns FALSE for unknown tokens, card links and archived
+-- teams.
+CREATE OR REPLACE FUNCTION public.opt_out_review_request_email(request_token TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  request_customer_id UUID;
+BEGIN
+  SELECT rr.customer_id INTO request_customer_id
+  FROM public.review_requests rr
+  JOIN public.teams t ON t.id = rr.team_id
+  WHERE rr.token = request_token
+  AND t.archived_at IS NULL;
+
+  IF request_customer_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.customers
+  SET email_opted_out_at = COALESCE(email_opted_out_at, NOW())
+  WHERE id = request_customer_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 7. GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON public.review_request_messages TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_review_request_send_state(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.opt_out_review_request_email(TEXT) TO anon, authenticated;
@@ -0,0 +1,264 @@
+-- Review Platform Connectors
+-- Teams connect their Google Business Profile, Yelp and Facebook listings.
+-- A scheduled job pulls the reviews posted there and matches each one to
+-- the review an employee submitted for the same customer around the same
+-- time, which marks the submitted review as verified. Managers can fix
+-- matches by hand. Platform credentials live in a table only the service
+-- role can read.
+
+-- ============================================================================
+-- 1. CREATE CONNECTIONS TABLE
+-- ============================================================================
+
+-- 'fake' reads reviews from a fixture file for development and tests
+CREATE TABLE IF NOT EXISTS public.review_platform_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('google', 'yelp', 'facebook', 'fake')),
+  -- Google location name ("accounts/1/locations/2"), Yelp business id or alias, Facebook page id
+  external_id TEXT NOT NULL CHECK (char_length(external_id) BETWEEN 1 AND 200),
+  display_name TEXT CHECK (display_name IS NULL OR char_length(display_name) <= 100),
+  is_active BOOLEAN DEFAULT TRUE NOT NULL,
+  credentials_updated_at TIMESTAMP WITH TIME ZONE,
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  last_sync_status TEXT CHECK (last_sync_status IN ('ok', 'error')),
+  last_sync_error TEXT,
+  last_sync_imported INTEGER,
+  last_sync_matched INTEGER,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  UNIQUE(team_id, platform, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_platform_connections_active
+ON public.review_platform_connections(is_active, last_synced_at);
+
+ALTER TABLE public.review_platform_connections ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_review_platform_connections_updated_at
+  BEFORE UPDATE ON public.review_platform_connections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS prevent_archived_team_changes ON public.review_platform_connections;
+CREATE TRIGGER prevent_archived_team_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.review_platform_connections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_team_changes();
+
+-- Google refresh tokens and Facebook page tokens. No user policies: only
+-- the service role reads or writes them.
+CREATE TABLE IF NOT EXISTS public.review_platform_credentials (
+  connection_id UUID PRIMARY KEY REFERENCES public.review_platform_connections(id) ON DELETE CASCADE,
+  access_token TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+ALTER TABLE public.review_platform_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_review_platform_credentials_updated_at
+  BEFORE UPDATE ON public.review_platform_credentials
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- 2. CREATE PLATFORM REVIEWS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.platform_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  connection_id UUID NOT NULL REFERENCES public.review_platform_connections(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('google', 'yelp', 'facebook', 'fake')),
+  external_review_id TEXT NOT NULL,
+  reviewer_name TEXT NOT NULL,
+  rating NUMERIC(2, 1) CHECK (rating IS NULL OR (rating >= 0 AND rating <= 5)),
+  text TEXT,
+  url TEXT,
+  posted_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- The submitted review this one verifies
+  review_id UUID UNIQUE REFERENCES public.reviews(id) ON DELETE SET NULL,
+  matched_at TIMESTAMP WITH TIME ZONE,
+  match_source TEXT CHECK (match_source IN ('auto', 'manual')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  UNIQUE(connection_id, external_review_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_platform_reviews_team_posted
+ON public.platform_reviews(team_id, posted_at DESC);
+
+-- Matching looks at the team's unmatched reviews
+CREATE INDEX IF NOT EXISTS idx_platform_reviews_unmatched
+ON public.platform_reviews(team_id, posted_at)
+WHERE review_id IS NULL;
+
+ALTER TABLE public.platform_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_platform_reviews_updated_at
+  BEFORE UPDATE ON public.platform_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS prevent_archived_team_changes ON public.platform_reviews;
+CREATE TRIGGER prevent_archived_team_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.platform_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_team_changes();
+
+-- ============================================================================
+-- 3. VERIFIED REVIEWS
+-- ============================================================================
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS verified_platform TEXT CHECK (
+  verified_platform IN ('google', 'yelp', 'facebook', 'fake')
+);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_team_unverified
+ON public.reviews(team_id, created_at)
+WHERE verified_at IS NULL;
+
+-- Keep reviews.verified_at in step with the platform review matched to it
+CREATE OR REPLACE FUNCTION public.sync_review_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.review_id IS NOT NULL
+    AND (TG_OP = 'DELETE' OR NEW.review_id IS DISTINCT FROM OLD.review_id) THEN
+    UPDATE public.reviews
+    SET verified_at = NULL,
+        verified_platform = NULL
+    WHERE id = OLD.review_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.review_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.review_id IS DISTINCT FROM OLD.review_id) THEN
+    UPDATE public.reviews
+    SET verified_at = COALESCE(NEW.matched_at, NOW()),
+        verified_platform = NEW.platform
+    WHERE id = NEW.review_id;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_review_verification ON public.platform_reviews;
+CREATE TRIGGER sync_review_verification
+  AFTER INSERT OR UPDATE OF review_id OR DELETE ON public.platform_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_review_verification();
+
+-- ============================================================================
+-- 4. RLS POLICIES
+-- ============================================================================
+
+CREATE POLICY "Team managers can view review platform connections" ON public.review_platform_connections
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_id, 'manager')
+  );
+
+CREATE POLICY "Team admins can add review platform connections" ON public.review_platform_connections
+  FOR INSERT
+  WITH CHECK (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_id, 'admin')
+  );
+
+CREATE POLICY "Team admins can update review platform connections" ON public.review_platform_connections
+  FOR UPDATE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_id, 'admin')
+  );
+
+CREATE POLICY "Team admins can remove review platform connections" ON public.review_platform_connections
+  FOR DELETE
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_id, 'admin')
+  );
+
+CREATE POLICY "Service role manages review platform credentials" ON public.review_platform_credentials
+  FOR ALL
+  USING (public.is_service_operation())
+  WITH CHECK (public.is_service_operation());
+
+-- Imported reviews are written by the sync job; managers change matches
+-- through set_platform_review_match
+CREATE POLICY "Team managers can view platform reviews" ON public.platform_reviews
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), team_id, 'manager')
+  );
+
+-- ============================================================================
+-- 5. MANUAL MATCHING
+-- ============================================================================
+
+-- Match a platform review to a submitted review of the same team, or clear
+-- its match with NULL (managers)
+CREATE OR REPLACE FUNCTION public.set_platform_review_match(
+  platform_review_uuid UUID,
+  review_uuid UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  platform_review public.platform_reviews%ROWTYPE;
+  review_record public.reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO platform_review FROM public.platform_reviews WHERE id = platform_review_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Platform review not found';
+  END IF;
+
+  IF NOT public.is_service_operation()
+    AND NOT public.user_has_team_access(auth.uid(), platform_review.team_id, 'manager') THEN
+    RAISE EXCEPTION 'Only managers can match platform reviews';
+  END IF;
+
+  IF review_uuid IS NOT NULL THEN
+    SELECT * INTO review_record
+    FROM public.reviews
+    WHERE id = review_uuid
+    AND team_id = platform_review.team_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Review not found';
+    END IF;
+
+    IF review_record.status = 'rejected' THEN
+      RAISE EXCEPTION 'Rejected reviews cannot be verified';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.platform_reviews
+      WHERE review_id = review_uuid
+      AND id <> platform_review_uuid
+    ) THEN
+      RAISE EXCEPTION 'This review is already verified by another platform review';
+    END IF;
+  END IF;
+
+  UPDATE public.platform_reviews
+  SET review_id = review_uuid,
+      matched_at = CASE WHEN review_uuid IS NULL THEN NULL ELSE NOW() END,
+      match_source = CASE WHEN review_uuid IS NULL THEN NULL ELSE 'manual' END
+  WHERE id = platform_review_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT ALL ON public.review_platform_connections TO service_role;
+GRANT ALL ON public.review_platform_credentials TO service_role;
+GRANT ALL ON public.platform_reviews TO service_role;
+GRANT EXECUTE ON FUNCTION public.set_platform_review_match(UUID, UUID) TO authenticated;
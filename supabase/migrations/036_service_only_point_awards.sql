@@ -0,0 +1,156 @@
+-- Service-Only Point Awards
+-- award_review_points and approve_review wrote whatever amount the caller
+-- passed, and were callable by any team member with the anon key. Review
+-- awards are scored by the rules engine on the server, so both functions now
+-- run only as service operations, with the acting user passed in for the
+-- access check and the ledger's created_by.
+--
+-- Also applies ledger inserts to the derived balance as deltas, so concurrent
+-- inserts for one employee can't overwrite each other's totals.
+
+-- ============================================================================
+-- 1. APPLY LEDGER INSERTS TO BALANCES AS DELTAS
+-- ============================================================================
+
+-- The upsert takes a row lock on the balance, so concurrent deltas serialize
+-- instead of each summing a ledger that misses the other's row
+CREATE OR REPLACE FUNCTION public.sync_points_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.points (employee_id, team_id, points, updated_at)
+  VALUES (NEW.employee_id, NEW.team_id, NEW.amount, NOW())
+  ON CONFLICT (employee_id, team_id)
+  DO UPDATE SET points = points.points + EXCLUDED.points, updated_at = EXCLUDED.updated_at;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Repair any balance a concurrent insert already left behind
+UPDATE public.points p
+SET points = ledger.total, updated_at = NOW()
+FROM (
+  SELECT team_id, employee_id, SUM(amount)::INTEGER AS total
+  FROM public.point_transactions
+  GROUP BY team_id, employee_id
+) ledger
+WHERE ledger.team_id = p.team_id
+AND ledger.employee_id = p.employee_id
+AND ledger.total <> p.points;
+
+-- ============================================================================
+-- 2. AWARD REVIEW POINTS AS A SERVICE OPERATION
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.award_review_points(UUID, INTEGER, JSONB);
+
+CREATE OR REPLACE FUNCTION public.award_review_points(
+  review_uuid UUID,
+  points_amount INTEGER,
+  acting_user_uuid UUID,
+  award_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  target_review RECORD;
+  transaction_id UUID;
+BEGIN
+  IF NOT public.is_service_operation() THEN
+    RAISE EXCEPTION 'Only the server can award review points';
+  END IF;
+
+  SELECT id, team_id, employee_id, status INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(acting_user_uuid, target_review.team_id) THEN
+    RAISE EXCEPTION 'Access denied: user not member of team';
+  END IF;
+
+  IF target_review.status <> 'approved' THEN
+    RAISE EXCEPTION 'Points can only be awarded for approved reviews';
+  END IF;
+
+  IF points_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, metadata, created_by)
+  VALUES (target_review.team_id, target_review.employee_id, target_review.id, points_amount, 'review_award', COALESCE(award_metadata, '{}'), acting_user_uuid)
+  RETURNING id INTO transaction_id;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. APPROVE REVIEWS AS A SERVICE OPERATION
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.approve_review(UUID, INTEGER, JSONB);
+
+CREATE OR REPLACE FUNCTION public.approve_review(
+  review_uuid UUID,
+  points_amount INTEGER,
+  acting_user_uuid UUID,
+  award_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  target_review public.reviews%ROWTYPE;
+  transaction_id UUID;
+BEGIN
+  IF NOT public.is_service_operation() THEN
+    RAISE EXCEPTION 'Only the server can approve reviews';
+  END IF;
+
+  SELECT * INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid
+  FOR UPDATE;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(acting_user_uuid, target_review.team_id, 'manager') THEN
+    RAISE EXCEPTION 'Only team managers and admins can approve reviews';
+  END IF;
+
+  IF target_review.status = 'approved' THEN
+    RAISE EXCEPTION 'Review is already approved';
+  END IF;
+
+  UPDATE public.reviews
+  SET
+    status = 'approved',
+    reviewed_by = acting_user_uuid,
+    reviewed_at = NOW(),
+    rejection_reason = NULL
+  WHERE id = review_uuid;
+
+  IF points_amount > 0 THEN
+    INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, metadata, created_by)
+    VALUES (
+      target_review.team_id, target_review.employee_id, review_uuid, points_amount,
+      'review_award', COALESCE(award_metadata, '{}'), acting_user_uuid
+    )
+    RETURNING id INTO transaction_id;
+  END IF;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. GRANT PERMISSIONS
+-- ============================================================================
+
+REVOKE EXECUTE ON FUNCTION public.award_review_points(UUID, INTEGER, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.approve_review(UUID, INTEGER, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.award_review_points(UUID, INTEGER, UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.approve_review(UUID, INTEGER, UUID, JSONB) TO service_role;
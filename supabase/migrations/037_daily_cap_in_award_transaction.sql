@@ -0,0 +1,206 @@
+-- Daily Cap in the Award Transaction
+-- The rules engine checks a team's daily cap before the award is written, so
+-- two submissions at once could both pass it, and it counted the UTC day
+-- rather than the team's. The award functions now re-check the strictest cap
+-- for the day in the team's timezone while holding a per-employee lock, and
+-- lower the award to what is left of it.
+
+-- ============================================================================
+-- 1. CAP A REVIEW AWARD
+-- ============================================================================
+
+-- Points of an award that still fit under the employee's daily cap on the day
+-- (in the team's timezone) containing award_time. Holds a transaction lock on
+-- the team and employee so concurrent awards are counted one after another.
+CREATE OR REPLACE FUNCTION public.cap_review_award(
+  team_uuid UUID,
+  employee_uuid UUID,
+  review_uuid UUID,
+  points_amount INTEGER,
+  award_time TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  cap INTEGER;
+  team_timezone TEXT;
+  day_start TIMESTAMP WITH TIME ZONE;
+  day_end TIMESTAMP WITH TIME ZONE;
+  awarded_today INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended(team_uuid::TEXT || ':' || employee_uuid::TEXT, 0));
+
+  SELECT MIN((config->>'max_points')::INTEGER) INTO cap
+  FROM public.team_point_rules
+  WHERE team_id = team_uuid
+  AND rule_type = 'daily_cap'
+  AND is_active
+  AND (starts_at IS NULL OR starts_at <= award_time)
+  AND (ends_at IS NULL OR ends_at > award_time);
+
+  IF cap IS NULL THEN
+    RETURN points_amount;
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT timezone FROM public.team_settings WHERE team_id = team_uuid),
+    'UTC'
+  ) INTO team_timezone;
+
+  day_start := date_trunc('day', award_time AT TIME ZONE team_timezone) AT TIME ZONE team_timezone;
+  day_end := (date_trunc('day', award_time AT TIME ZONE team_timezone) + INTERVAL '1 day') AT TIME ZONE team_timezone;
+
+  SELECT COALESCE(SUM(amount), 0)::INTEGER INTO awarded_today
+  FROM public.point_transactions
+  WHERE team_id = team_uuid
+  AND employee_id = employee_uuid
+  AND reason = 'review_award'
+  AND review_id IS DISTINCT FROM review_uuid
+  AND created_at >= day_start
+  AND created_at < day_end;
+
+  RETURN LEAST(points_amount, GREATEST(cap - awarded_today, 0));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. CAP AWARDS FOR NEW REVIEWS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.award_review_points(
+  review_uuid UUID,
+  points_amount INTEGER,
+  acting_user_uuid UUID,
+  award_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  target_review RECORD;
+  capped_amount INTEGER;
+  transaction_id UUID;
+BEGIN
+  IF NOT public.is_service_operation() THEN
+    RAISE EXCEPTION 'Only the server can award review points';
+  END IF;
+
+  SELECT id, team_id, employee_id, status INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(acting_user_uuid, target_review.team_id) THEN
+    RAISE EXCEPTION 'Access denied: user not member of team';
+  END IF;
+
+  IF target_review.status <> 'approved' THEN
+    RAISE EXCEPTION 'Points can only be awarded for approved reviews';
+  END IF;
+
+  IF points_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  capped_amount := public.cap_review_award(
+    target_review.team_id, target_review.employee_id, review_uuid, points_amount, NOW()
+  );
+
+  IF capped_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, metadata, created_by)
+  VALUES (
+    target_review.team_id, target_review.employee_id, target_review.id, capped_amount, 'review_award',
+    CASE
+      WHEN capped_amount < points_amount
+        THEN COALESCE(award_metadata, '{}') || jsonb_build_object('capped', true, 'uncapped_points', points_amount)
+      ELSE COALESCE(award_metadata, '{}')
+    END,
+    acting_user_uuid
+  )
+  RETURNING id INTO transaction_id;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. CAP AWARDS FOR APPROVED REVIEWS
+-- ============================================================================
+
+-- Approved reviews count against the cap of the day they were submitted,
+-- matching how the rules engine scores them
+CREATE OR REPLACE FUNCTION public.approve_review(
+  review_uuid UUID,
+  points_amount INTEGER,
+  acting_user_uuid UUID,
+  award_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  target_review public.reviews%ROWTYPE;
+  capped_amount INTEGER := 0;
+  transaction_id UUID;
+BEGIN
+  IF NOT public.is_service_operation() THEN
+    RAISE EXCEPTION 'Only the server can approve reviews';
+  END IF;
+
+  SELECT * INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid
+  FOR UPDATE;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(acting_user_uuid, target_review.team_id, 'manager') THEN
+    RAISE EXCEPTION 'Only team managers and admins can approve reviews';
+  END IF;
+
+  IF target_review.status = 'approved' THEN
+    RAISE EXCEPTION 'Review is already approved';
+  END IF;
+
+  UPDATE public.reviews
+  SET
+    status = 'approved',
+    reviewed_by = acting_user_uuid,
+    reviewed_at = NOW(),
+    rejection_reason = NULL
+  WHERE id = review_uuid;
+
+  IF points_amount > 0 THEN
+    capped_amount := public.cap_review_award(
+      target_review.team_id, target_review.employee_id, review_uuid, points_amount, target_review.created_at
+    );
+  END IF;
+
+  IF capped_amount > 0 THEN
+    INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, metadata, created_by)
+    VALUES (
+      target_review.team_id, target_review.employee_id, review_uuid, capped_amount, 'review_award',
+      CASE
+        WHEN capped_amount < points_amount
+          THEN COALESCE(award_metadata, '{}') || jsonb_build_object('capped', true, 'uncapped_points', points_amount)
+        ELSE COALESCE(award_metadata, '{}')
+      END,
+      acting_user_uuid
+    )
+    RETURNING id INTO transaction_id;
+  END IF;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. GRANT PERMISSIONS
+-- ============================================================================
+
+-- Only the award functions call the cap
+REVOKE EXECUTE ON FUNCTION public.cap_review_award(UUID, UUID, UUID, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cap_review_award(UUID, UUID, UUID, INTEGER, TIMESTAMP WITH TIME ZONE) TO service_role;
@@ -0,0 +1,124 @@
+-- Atomic Review Attachments
+-- Linking uploads to a submitted review failed for non-admin uploaders: the
+-- attachments UPDATE policy had no WITH CHECK, so its USING clause (which
+-- requires review_id IS NULL) also applied to the new row. The review was
+-- already saved by then, flagged as having a photo, without photo or points.
+--
+-- Reviews now record who submitted them, has_photo is always derived from
+-- attachments, and submit_review inserts the review and links its uploads in
+-- one transaction.
+
+-- ============================================================================
+-- 1. RECORD THE SUBMITTER AND DERIVE has_photo
+-- ============================================================================
+
+ALTER TABLE public.reviews
+ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- A new review has no attachments yet; linking them sets has_photo
+CREATE OR REPLACE FUNCTION public.set_review_submission_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_service_operation() THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.submitted_by := auth.uid();
+  NEW.has_photo := FALSE;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_review_submission_fields ON public.reviews;
+CREATE TRIGGER set_review_submission_fields
+  BEFORE INSERT ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_review_submission_fields();
+
+-- ============================================================================
+-- 2. LET UPLOADERS LINK THEIR UPLOADS TO THEIR OWN REVIEWS
+-- ============================================================================
+
+-- Uploaders link their own unattached uploads to a review they submitted in
+-- the same team; admins may relink any
+DROP POLICY IF EXISTS "Uploaders can attach their uploads" ON public.review_attachments;
+CREATE POLICY "Uploaders can attach their uploads" ON public.review_attachments
+  FOR UPDATE
+  USING (
+    public.is_service_operation()
+    OR (review_attachments.uploaded_by = auth.uid() AND review_attachments.review_id IS NULL)
+    OR public.user_has_team_access(auth.uid(), review_attachments.team_id, 'admin')
+  )
+  WITH CHECK (
+    public.is_service_operation()
+    OR public.user_has_team_access(auth.uid(), review_attachments.team_id, 'admin')
+    OR (
+      review_attachments.uploaded_by = auth.uid()
+      AND EXISTS (
+        SELECT 1 FROM public.reviews r
+        WHERE r.id = review_attachments.review_id
+        AND r.team_id = review_attachments.team_id
+        AND r.submitted_by = auth.uid()
+      )
+    )
+  );
+
+-- ============================================================================
+-- 3. SUBMIT A REVIEW WITH ITS ATTACHMENTS
+-- ============================================================================
+
+-- Runs as the caller, so the reviews and attachments policies still apply.
+-- Any attachment that can't be linked rolls back the whole submission.
+CREATE OR REPLACE FUNCTION public.submit_review(
+  team_uuid UUID,
+  employee_uuid UUID,
+  customer_uuid UUID,
+  customer_name_text TEXT,
+  job_type_text TEXT,
+  keywords_text TEXT,
+  duplicate_of_uuid UUID DEFAULT NULL,
+  attachment_uuids UUID[] DEFAULT '{}'
+)
+RETURNS public.reviews AS $$
+DECLARE
+  new_review public.reviews%ROWTYPE;
+  linked_count INTEGER;
+BEGIN
+  INSERT INTO public.reviews (
+    customer_name, customer_id, job_type, keywords, employee_id, team_id, duplicate_of_review_id
+  )
+  VALUES (
+    customer_name_text, customer_uuid, job_type_text, keywords_text, employee_uuid, team_uuid, duplicate_of_uuid
+  )
+  RETURNING * INTO new_review;
+
+  IF COALESCE(cardinality(attachment_uuids), 0) = 0 THEN
+    RETURN new_review;
+  END IF;
+
+  UPDATE public.review_attachments
+  SET review_id = new_review.id
+  WHERE id = ANY(attachment_uuids)
+  AND team_id = team_uuid
+  AND uploaded_by = auth.uid()
+  AND review_id IS NULL;
+
+  GET DIAGNOSTICS linked_count = ROW_COUNT;
+
+  IF linked_count <> (SELECT COUNT(DISTINCT id) FROM unnest(attachment_uuids) AS id) THEN
+    RAISE EXCEPTION 'One or more attachments are invalid or already used';
+  END IF;
+
+  -- Re-read the row the attachment trigger updated
+  SELECT * INTO new_review FROM public.reviews WHERE id = new_review.id;
+
+  RETURN new_review;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- ============================================================================
+-- 4. GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.submit_review(UUID, UUID, UUID, TEXT, TEXT, TEXT, UUID, UUID[]) TO authenticated;
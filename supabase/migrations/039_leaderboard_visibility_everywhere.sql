@@ -0,0 +1,154 @@
+-- Leaderboard Visibility Everywhere
+-- leaderboard_visibility = 'managers' was only enforced by
+-- get_team_leaderboard. The organization leaderboard still ranked a
+-- restricted team's members for everyone in the organization, and members
+-- could read the team's leaderboard snapshots directly. Both now apply the
+-- same check.
+
+-- ============================================================================
+-- 1. VISIBILITY CHECK
+-- ============================================================================
+
+-- Whether a user may see a team's standings: everyone on the team, unless the
+-- team limits its leaderboard to managers and admins
+CREATE OR REPLACE FUNCTION public.can_view_team_leaderboard(user_uuid UUID, team_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF NOT public.user_has_team_access(user_uuid, team_uuid) THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN NOT EXISTS (
+    SELECT 1 FROM public.team_settings ts
+    WHERE ts.team_id = team_uuid AND ts.leaderboard_visibility = 'managers'
+  ) OR public.user_has_team_access(user_uuid, team_uuid, 'manager');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- ============================================================================
+-- 2. SNAPSHOTS FOLLOW THE TEAM'S VISIBILITY
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Team members can view leaderboard snapshots" ON public.leaderboard_snapshots;
+CREATE POLICY "Team members can view leaderboard snapshots" ON public.leaderboard_snapshots
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR public.can_view_team_leaderboard(auth.uid(), leaderboard_snapshots.team_id)
+  );
+
+DROP POLICY IF EXISTS "Team members can view leaderboard snapshot entries" ON public.leaderboard_snapshot_entries;
+CREATE POLICY "Team members can view leaderboard snapshot entries" ON public.leaderboard_snapshot_entries
+  FOR SELECT
+  USING (
+    public.is_service_operation()
+    OR EXISTS (
+      SELECT 1 FROM public.leaderboard_snapshots ls
+      WHERE ls.id = leaderboard_snapshot_entries.snapshot_id
+      AND public.can_view_team_leaderboard(auth.uid(), ls.team_id)
+    )
+  );
+
+-- ============================================================================
+-- 3. LEAVE RESTRICTED TEAMS OUT OF THE ORGANIZATION LEADERBOARD
+-- ============================================================================
+
+-- A team that limits its leaderboard to managers only counts for its own
+-- managers and admins and for organization admins
+CREATE OR REPLACE FUNCTION public.get_organization_leaderboard(
+  org_uuid UUID,
+  limit_count INTEGER DEFAULT 10,
+  period_start TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  period_end TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE(
+  employee_id UUID,
+  employee_name TEXT,
+  employee_email TEXT,
+  team_names TEXT,
+  total_reviews BIGINT,
+  total_points INTEGER,
+  rank BIGINT
+) AS $$
+DECLARE
+  caller_is_org_admin BOOLEAN;
+BEGIN
+  IF NOT public.user_has_organization_access(auth.uid(), org_uuid) THEN
+    RAISE EXCEPTION 'Access denied: user not part of organization';
+  END IF;
+
+  caller_is_org_admin := public.is_organization_admin(auth.uid(), org_uuid);
+
+  RETURN QUERY
+  WITH org_teams AS (
+    SELECT t.id, t.name
+    FROM public.teams t
+    LEFT JOIN public.team_settings ts ON ts.team_id = t.id
+    WHERE t.organization_id = org_uuid
+    AND (
+      caller_is_org_admin
+      OR COALESCE(ts.leaderboard_visibility, 'team') <> 'managers'
+      OR public.user_has_team_access(auth.uid(), t.id, 'manager')
+    )
+  ),
+  org_members AS (
+    SELECT tm.user_id, string_agg(ot.name, ', ' ORDER BY ot.name) AS team_names
+    FROM public.team_members tm
+    JOIN org_teams ot ON ot.id = tm.team_id
+    GROUP BY tm.user_id
+  ),
+  review_counts AS (
+    SELECT r.employee_id, COUNT(*) AS review_count
+    FROM public.reviews r
+    WHERE r.team_id IN (SELECT ot.id FROM org_teams ot)
+    AND r.status = 'approved'
+    AND (period_start IS NULL OR r.created_at >= period_start)
+    AND (period_end IS NULL OR r.created_at < period_end)
+    GROUP BY r.employee_id
+  ),
+  dated_transactions AS (
+    SELECT
+      pt.employee_id,
+      pt.amount,
+      pt.review_id,
+      r.id AS existing_review_id,
+      COALESCE(r.created_at, pt.created_at) AS effective_at
+    FROM public.point_transactions pt
+    LEFT JOIN public.reviews r ON r.id = pt.review_id
+    WHERE pt.team_id IN (SELECT ot.id FROM org_teams ot)
+  ),
+  balances AS (
+    SELECT dt.employee_id, SUM(dt.amount)::INTEGER AS balance
+    FROM dated_transactions dt
+    WHERE (
+      (period_start IS NULL AND period_end IS NULL)
+      OR (
+        (dt.review_id IS NULL OR dt.existing_review_id IS NOT NULL)
+        AND (period_start IS NULL OR dt.effective_at >= period_start)
+        AND (period_end IS NULL OR dt.effective_at < period_end)
+      )
+    )
+    GROUP BY dt.employee_id
+  )
+  SELECT
+    u.id AS employee_id,
+    u.name AS employee_name,
+    u.email AS employee_email,
+    om.team_names,
+    COALESCE(rc.review_count, 0) AS total_reviews,
+    COALESCE(b.balance, 0) AS total_points,
+    RANK() OVER (ORDER BY COALESCE(b.balance, 0) DESC) AS rank
+  FROM org_members om
+  JOIN public.users u ON u.id = om.user_id
+  LEFT JOIN review_counts rc ON rc.employee_id = u.id
+  LEFT JOIN balances b ON b.employee_id = u.id
+  ORDER BY COALESCE(b.balance, 0) DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. GRANT PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.can_view_team_leaderboard(UUID, UUID) TO authenticated;
@@ -0,0 +1,62 @@
+-- Keep Manual Unmatches
+-- Clearing a platform review's match also cleared its match_source, so the
+-- next sync matched it to the same submitted review again. A cleared match
+-- now keeps match_source = 'manual', and the sync only auto-matches platform
+-- reviews no manager has decided on.
+
+-- ============================================================================
+-- 1. REMEMBER WHO CLEARED A MATCH
+-- ============================================================================
+
+-- Match a platform review to a submitted review of the same team, or clear
+-- its match with NULL (managers)
+CREATE OR REPLACE FUNCTION public.set_platform_review_match(
+  platform_review_uuid UUID,
+  review_uuid UUID
+)
+RETURNS VOID AS $$
+DECLARE
+  platform_review public.platform_reviews%ROWTYPE;
+  review_record public.reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO platform_review FROM public.platform_reviews WHERE id = platform_review_uuid;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Platform review not found';
+  END IF;
+
+  IF NOT public.is_service_operation()
+    AND NOT public.user_has_team_access(auth.uid(), platform_review.team_id, 'manager') THEN
+    RAISE EXCEPTION 'Only managers can match platform reviews';
+  END IF;
+
+  IF review_uuid IS NOT NULL THEN
+    SELECT * INTO review_record
+    FROM public.reviews
+    WHERE id = review_uuid
+    AND team_id = platform_review.team_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Review not found';
+    END IF;
+
+    IF review_record.status = 'rejected' THEN
+      RAISE EXCEPTION 'Rejected reviews cannot be verified';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.platform_reviews
+      WHERE review_id = review_uuid
+      AND id <> platform_review_uuid
+    ) THEN
+      RAISE EXCEPTION 'This review is already verified by another platform review';
+    END IF;
+  END IF;
+
+  UPDATE public.platform_reviews
+  SET review_id = review_uuid,
+      matched_at = CASE WHEN review_uuid IS NULL THEN NULL ELSE NOW() END,
+      match_source = 'manual'
+  WHERE id = platform_review_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,73 @@
+-- Verified Domains in the Signup Trigger
+-- handle_new_user_signup (009) still added confirmed users to whichever team
+-- mapped their email domain, verified or not, and to archived teams. Only the
+-- auto-assign-team edge function had been updated, so a team could claim a
+-- domain it doesn't own and receive that domain's signups through this
+-- trigger. It now follows the same rules as the edge function.
+
+-- ============================================================================
+-- 1. ONLY VERIFIED DOMAINS OF ACTIVE TEAMS ASSIGN SIGNUPS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_signup()
+RETURNS TRIGGER AS $$
+DECLARE
+    domain_text TEXT;
+    target_team_id UUID;
+    user_role_text TEXT := 'member';
+BEGIN
+    -- Only proceed once the user is confirmed
+    IF NEW.email_confirmed_at IS NOT NULL
+        AND (TG_OP = 'INSERT' OR OLD.email_confirmed_at IS NULL) THEN
+        domain_text := '@' || LOWER(split_part(NEW.email, '@', 2));
+
+        -- Create user profile if it doesn't exist
+        INSERT INTO public.users (id, email, name, role)
+        VALUES (
+            NEW.id,
+            NEW.email,
+            COALESCE(NEW.raw_user_meta_data->>'name', split_part(NEW.email, '@', 1)),
+            COALESCE(NEW.raw_user_meta_data->>'role', 'employee')
+        )
+        ON CONFLICT (id) DO NOTHING;
+
+        -- Unverified mappings are ignored, and archived teams don't take
+        -- new members
+        SELECT tdm.team_id INTO target_team_id
+        FROM public.team_domain_mapping tdm
+        JOIN public.teams t ON t.id = tdm.team_id
+        WHERE tdm.domain_name = domain_text
+        AND tdm.verified_at IS NOT NULL
+        AND t.archived_at IS NULL;
+
+        -- If no domain mapping found, use default team
+        IF target_team_id IS NULL THEN
+            SELECT id INTO target_team_id
+            FROM public.teams
+            WHERE name = 'Default Team'
+            AND archived_at IS NULL
+            LIMIT 1;
+
+            -- Create default team if it doesn't exist
+            IF target_team_id IS NULL THEN
+                INSERT INTO public.teams (name, description)
+                VALUES ('Default Team', 'Default team for users without domain mapping')
+                RETURNING id INTO target_team_id;
+            END IF;
+
+            -- If user is business owner, make them admin of default team
+            IF NEW.raw_user_meta_data->>'role' = 'business_owner' THEN
+                user_role_text := 'admin';
+            END IF;
+        END IF;
+
+        INSERT INTO public.team_members (user_id, team_id, role)
+        VALUES (NEW.id, target_team_id, user_role_text)
+        ON CONFLICT (user_id, team_id) DO NOTHING;
+
+        RAISE LOG 'User profile created and assigned to team for %', NEW.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,87 @@
+-- Membership Approval in the Signup Trigger
+-- handle_new_user_signup added domain signups straight to team_members even
+-- when the team requires member approval. Like the auto-assign-team edge
+-- function, it now files a pending membership request for those teams.
+
+-- ============================================================================
+-- 1. HOLD DOMAIN SIGNUPS FOR APPROVAL
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_signup()
+RETURNS TRIGGER AS $$
+DECLARE
+    domain_text TEXT;
+    target_team_id UUID;
+    user_role_text TEXT := 'member';
+    requires_approval BOOLEAN := FALSE;
+BEGIN
+    -- Only proceed once the user is confirmed
+    IF NEW.email_confirmed_at IS NOT NULL
+        AND (TG_OP = 'INSERT' OR OLD.email_confirmed_at IS NULL) THEN
+        domain_text := '@' || LOWER(split_part(NEW.email, '@', 2));
+
+        -- Create user profile if it doesn't exist
+        INSERT INTO public.users (id, email, name, role)
+        VALUES (
+            NEW.id,
+            NEW.email,
+            COALESCE(NEW.raw_user_meta_data->>'name', split_part(NEW.email, '@', 1)),
+            COALESCE(NEW.raw_user_meta_data->>'role', 'employee')
+        )
+        ON CONFLICT (id) DO NOTHING;
+
+        -- Unverified mappings are ignored, and archived teams don't take
+        -- new members
+        SELECT tdm.team_id INTO target_team_id
+        FROM public.team_domain_mapping tdm
+        JOIN public.teams t ON t.id = tdm.team_id
+        WHERE tdm.domain_name = domain_text
+        AND tdm.verified_at IS NOT NULL
+        AND t.archived_at IS NULL;
+
+        -- Teams can hold domain signups for an admin to approve first
+        IF target_team_id IS NOT NULL THEN
+            SELECT COALESCE(ts.require_member_approval, FALSE) INTO requires_approval
+            FROM public.team_settings ts
+            WHERE ts.team_id = target_team_id;
+        END IF;
+
+        -- If no domain mapping found, use default team
+        IF target_team_id IS NULL THEN
+            SELECT id INTO target_team_id
+            FROM public.teams
+            WHERE name = 'Default Team'
+            AND archived_at IS NULL
+            LIMIT 1;
+
+            -- Create default team if it doesn't exist
+            IF target_team_id IS NULL THEN
+                INSERT INTO public.teams (name, description)
+                VALUES ('Default Team', 'Default team for users without domain mapping')
+                RETURNING id INTO target_team_id;
+            END IF;
+
+            -- If user is business owner, make them admin of default team
+            IF NEW.raw_user_meta_data->>'role' = 'business_owner' THEN
+                user_role_text := 'admin';
+            END IF;
+        END IF;
+
+        IF requires_approval THEN
+            INSERT INTO public.team_membership_requests (user_id, team_id, source)
+            VALUES (NEW.id, target_team_id, 'domain')
+            ON CONFLICT (team_id, user_id) DO NOTHING;
+
+            RAISE LOG 'User profile created with a membership request for %', NEW.id;
+        ELSE
+            INSERT INTO public.team_members (user_id, team_id, role)
+            VALUES (NEW.id, target_team_id, user_role_text)
+            ON CONFLICT (user_id, team_id) DO NOTHING;
+
+            RAISE LOG 'User profile created and assigned to team for %', NEW.id;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,75 @@
+-- Daily Cap on the Approval Day
+-- approve_review checked the daily cap for the day a held review was
+-- submitted, but cap_review_award counts the awards recorded on that day, and
+-- an approval is recorded when it happens. A review held for a few days was
+-- measured against an old day's awards instead of today's. Approvals now
+-- count against the day the award is recorded, like new reviews.
+
+-- ============================================================================
+-- 1. CAP APPROVALS BY THE DAY THEY ARE RECORDED
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.approve_review(
+  review_uuid UUID,
+  points_amount INTEGER,
+  acting_user_uuid UUID,
+  award_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  target_review public.reviews%ROWTYPE;
+  capped_amount INTEGER := 0;
+  transaction_id UUID;
+BEGIN
+  IF NOT public.is_service_operation() THEN
+    RAISE EXCEPTION 'Only the server can approve reviews';
+  END IF;
+
+  SELECT * INTO target_review
+  FROM public.reviews
+  WHERE id = review_uuid
+  FOR UPDATE;
+
+  IF target_review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  IF NOT public.user_has_team_access(acting_user_uuid, target_review.team_id, 'manager') THEN
+    RAISE EXCEPTION 'Only team managers and admins can approve reviews';
+  END IF;
+
+  IF target_review.status = 'approved' THEN
+    RAISE EXCEPTION 'Review is already approved';
+  END IF;
+
+  UPDATE public.reviews
+  SET
+    status = 'approved',
+    reviewed_by = acting_user_uuid,
+    reviewed_at = NOW(),
+    rejection_reason = NULL
+  WHERE id = review_uuid;
+
+  IF points_amount > 0 THEN
+    capped_amount := public.cap_review_award(
+      target_review.team_id, target_review.employee_id, review_uuid, points_amount, NOW()
+    );
+  END IF;
+
+  IF capped_amount > 0 THEN
+    INSERT INTO public.point_transactions (team_id, employee_id, review_id, amount, reason, metadata, created_by)
+    VALUES (
+      target_review.team_id, target_review.employee_id, review_uuid, capped_amount, 'review_award',
+      CASE
+        WHEN capped_amount < points_amount
+          THEN COALESCE(award_metadata, '{}') || jsonb_build_object('capped', true, 'uncapped_points', points_amount)
+        ELSE COALESCE(award_metadata, '{}')
+      END,
+      acting_user_uuid
+    )
+    RETURNING id INTO transaction_id;
+  END IF;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,127 @@
+/**
+ * supabase-js only ships ESM under the browser export condition
+ * @jest-environment-options {"customExportConditions": ["node", "require"]}
+ */
+import { act, createElement } from 'react'
+import { createRoot, type Root } from 'react-dom/client'
+import { REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js'
+import { createSupabaseBrowser } from '@/lib/supabase-browser'
+import { REALTIME_CONFIG } from '@/lib/constants'
+import { useTeamRealtime, type TeamRealtimeChange } from '@/hooks/useTeamRealtime'
+
+// next/jest rewrites import paths but not jest.mock's
+jest.mock('../../src/lib/supabase-browser', () => ({ createSupabaseBrowser: jest.fn() }))
+
+type ChangeListener = (payload: unknown) => void
+type StatusListener = (state: REALTIME_SUBSCRIBE_STATES, err?: Error) => void
+
+/** A channel that lets the test play the server's side */
+function createFakeChannel() {
+  const listeners: Array<{ table: string; filter: string; listener: ChangeListener }> = []
+  let statusListener: StatusListener = () => {}
+
+  const channel: { on: jest.Mock; subscribe: jest.Mock } = {
+    on: jest.fn((_type: string, { table, filter }: { table: string; filter: string }, listener: ChangeListener) => {
+      listeners.push({ table, filter, listener })
+      return channel
+    }),
+    subscribe: jest.fn((listener: StatusListener) => {
+      statusListener = listener
+      return channel
+    })
+  }
+
+  return {
+    channel,
+    listeners,
+    emit(table: string, payload: unknown) {
+      act(() => listeners.filter(entry => entry.table === table).forEach(entry => entry.listener(payload)))
+    },
+    setState(state: REALTIME_SUBSCRIBE_STATES, err?: Error) {
+      act(() => statusListener(state, err))
+    }
+  }
+}
+
+describe('useTeamRealtime', () => {
+  let container: HTMLDivElement
+  let root: Root
+  let fake: ReturnType<typeof createFakeChannel>
+  let removeChannel: jest.Mock
+  let status: string
+  const onChange = jest.fn<void, [TeamRealtimeChange]>()
+  const onRefresh = jest.fn()
+
+  function Harness({ teamId }: { teamId: string }) {
+    status = useTeamRealtime(teamId, { onChange, onRefresh }).status
+    return null
+  }
+
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true
+  })
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    onChange.mockReset()
+    onRefresh.mockReset()
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    fake = createFakeChannel()
+    removeChannel = jest.fn()
+    jest.mocked(createSupabaseBrowser).mockReturnValue({
+      channel: jest.fn(() => fake.channel),
+      removeChannel
+    } as unknown as ReturnType<typeof createSupabaseBrowser>)
+
+    container = document.createElement('div')
+    root = createRoot(container)
+    act(() => root.render(createElement(Harness, { teamId: 'team-1' })))
+  })
+
+  afterEach(() => {
+    act(() => root.unmount())
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('listens to review and points changes for the team only', () => {
+    expect(fake.listeners.map(({ table, filter }) => [table, filter])).toEqual([
+      ['reviews', 'team_id=eq.team-1'],
+      ['points', 'team_id=eq.team-1']
+    ])
+
+    fake.setState(REALTIME_SUBSCRIBE_STATES.SUBSCRIBED)
+    expect(status).toBe('live')
+  })
+
+  it('passes each change on and refreshes once per burst', () => {
+    fake.setState(REALTIME_SUBSCRIBE_STATES.SUBSCRIBED)
+    fake.emit('reviews', { eventType: 'UPDATE' })
+    fake.emit('points', { eventType: 'INSERT' })
+
+    expect(onChange.mock.calls.map(([change]) => change.table)).toEqual(['reviews', 'points'])
+    expect(onRefresh).not.toHaveBeenCalled()
+
+    act(() => jest.advanceTimersByTime(REALTIME_CONFIG.REFRESH_DEBOUNCE_MS))
+    expect(onRefresh).toHaveBeenCalledTimes(1)
+  })
+
+  it('polls while the channel is down and catches up once it is back', () => {
+    fake.setState(REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR, new Error('offline'))
+    expect(status).toBe('polling')
+
+    act(() => jest.advanceTimersByTime(REALTIME_CONFIG.POLL_INTERVAL_MS * 2))
+    expect(onRefresh).toHaveBeenCalledTimes(2)
+
+    fake.setState(REALTIME_SUBSCRIBE_STATES.SUBSCRIBED)
+    act(() => jest.advanceTimersByTime(REALTIME_CONFIG.POLL_INTERVAL_MS))
+    expect(status).toBe('live')
+    expect(onRefresh).toHaveBeenCalledTimes(3)
+  })
+
+  it('removes the channel on unmount', () => {
+    act(() => root.unmount())
+    expect(removeChannel).toHaveBeenCalledWith(fake.channel)
+  })
+})
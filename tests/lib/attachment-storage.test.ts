@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { LocalAttachmentStorage, verifyLocalSignature } from '@/lib/attachment-storage'
+import { validateAttachmentFile } from '@/lib/review-attachments'
+import { ATTACHMENT_CONFIG } from '@/lib/constants'
+
+async function signedParams(storagePath: string, expiresInSeconds?: number) {
+  const url = await new LocalAttachmentStorage('/tmp/uploads').getUrl(storagePath, { expiresInSeconds })
+  const params = new URL(url, 'http://localhost').searchParams
+  return {
+    path: params.get('path')!,
+    expires: Number(params.get('expires')),
+    signature: params.get('signature')!
+  }
+}
+
+describe('local attachment URLs', () => {
+  it('verify with the signature they were issued with', async () => {
+    const { path, expires, signature } = await signedParams('team-1/photo.jpg')
+    expect(verifyLocalSignature(path, expires, signature)).toBe(true)
+  })
+
+  it('reject another path or a changed expiry', async () => {
+    const { expires, signature } = await signedParams('team-1/photo.jpg')
+    expect(verifyLocalSignature('team-2/photo.jpg', expires, signature)).toBe(false)
+    expect(verifyLocalSignature('team-1/photo.jpg', expires + 60, signature)).toBe(false)
+  })
+
+  it('reject expired URLs', async () => {
+    const { path, expires, signature } = await signedParams('team-1/photo.jpg')
+    jest.useFakeTimers({ now: (expires + 1) * 1000 })
+    try {
+      expect(verifyLocalSignature(path, expires, signature)).toBe(false)
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('keep paths inside the upload directory', () => {
+    const storage = new LocalAttachmentStorage('/tmp/uploads')
+    expect(storage.resolve('team-1/photo.jpg')).toBe('/tmp/uploads/team-1/photo.jpg')
+    expect(() => storage.resolve('../etc/passwd')).toThrow('Invalid attachment path')
+  })
+})
+
+describe('validateAttachmentFile', () => {
+  it('accepts allowed image types', () => {
+    const file = new File(['image'], 'photo.png', { type: 'image/png' })
+    expect(validateAttachmentFile(file)).toBe(file)
+  })
+
+  it('rejects other types, empty files and missing files', () => {
+    expect(() => validateAttachmentFile(new File(['<svg/>'], 'photo.svg', { type: 'image/svg+xml' })))
+      .toThrow('file must be one of')
+    expect(() => validateAttachmentFile(new File([], 'empty.png', { type: 'image/png' })))
+      .toThrow(`smaller than ${Math.floor(ATTACHMENT_CONFIG.MAX_FILE_SIZE_BYTES / (1024 * 1024))}MB`)
+    expect(() => validateAttachmentFile('photo.png')).toThrow('file is required')
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server'
+import { assertCronRequest } from '@/lib/cron-auth'
+import { ErrorCodes } from '@/lib/api-error-handler'
+
+function cronRequest(authorization?: string): NextRequest {
+  return new NextRequest('http://localhost/api/cron/leaderboard-snapshots', {
+    headers: authorization ? { authorization } : {}
+  })
+}
+
+describe('assertCronRequest', () => {
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    process.env.CRON_SECRET = 'cron-secret'
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key'
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    jest.restoreAllMocks()
+  })
+
+  it('accepts the configured secret', () => {
+    expect(() => assertCronRequest(cronRequest('Bearer cron-secret'), 'Test job')).not.toThrow()
+  })
+
+  it('rejects a wrong or missing secret', () => {
+    for (const authorization of ['Bearer cron-secreT', 'Bearer cron-secret-longer', undefined]) {
+      expect(() => assertCronRequest(cronRequest(authorization), 'Test job'))
+        .toThrow(expect.objectContaining({ code: ErrorCodes.AUTH_INVALID }))
+    }
+  })
+
+  it('reports jobs without a secret as unavailable', () => {
+    delete process.env.CRON_SECRET
+    expect(() => assertCronRequest(cronRequest('Bearer '), 'Test job'))
+      .toThrow(expect.objectContaining({ code: ErrorCodes.SERVICE_UNAVAILABLE }))
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ValidationError } from '@/lib/api-error-handler'
+import { normalizePhone, parseCustomerFields, searchCustomers } from '@/lib/customers'
+import { decodeCursor } from '@/lib/pagination'
+
+/** Answers the customer query with the given rows and records its or() filters */
+function createSearchClient(rows: unknown[]) {
+  const filters: string[] = []
+  const query: Record<string, unknown> = {
+    then: (resolve: (value: { data: unknown; error: null }) => unknown) =>
+      Promise.resolve({ data: rows, error: null }).then(resolve),
+    or: (filter: string) => {
+      filters.push(filter)
+      return query
+    }
+  }
+  for (const method of ['select', 'eq', 'order', 'limit']) {
+    query[method] = () => query
+  }
+  return { client: { from: () => query } as unknown as SupabaseClient, filters }
+}
+
+const NEWER_ID = 'b2c3d4e5-0000-4000-8000-000000000002'
+const OLDER_ID = 'b2c3d4e5-0000-4000-8000-000000000001'
+
+const customerRow = (id: string, createdAt: string) => ({
+  id,
+  team_id: 'team-1',
+  name: `Customer ${id}`,
+  created_at: createdAt,
+  reviews: [{ count: 2 }]
+})
+
+describe('normalizePhone', () => {
+  it('keeps only the digits', () => {
+    expect(normalizePhone('(555) 123-4567')).toBe('5551234567')
+    expect(normalizePhone('+1 555.123.4567')).toBe('15551234567')
+    expect(normalizePhone('ext.')).toBe('')
+  })
+})
+
+describe('parseCustomerFields', () => {
+  it('trims the fields that were sent and clears blank ones', () => {
+    expect(parseCustomerFields({ name: ' Dana ', phone: ' 555-0100 ', email: '', notes: null })).toEqual({
+      name: 'Dana',
+      phone: '555-0100',
+      email: null,
+      notes: null
+    })
+  })
+
+  it('records when a customer opts out and clears it when they opt back in', () => {
+    const fields = parseCustomerFields({ sms_opted_out: true, email_opted_out: false })
+
+    expect(fields.sms_opted_out_at).toEqual(expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/))
+    expect(fields.email_opted_out_at).toBeNull()
+  })
+
+  it.each([
+    ['a missing name when creating', { phone: '555-0100' }, { requireName: true }],
+    ['a phone number without digits', { phone: 'call me' }, {}],
+    ['an invalid email', { email: 'dana@' }, {}],
+    ['a non-string address', { address: 12 }, {}],
+    ['a non-boolean opt-out', { sms_opted_out: 'yes' }, {}]
+  ])('rejects %s', (_description, body, options) => {
+    expect(() => parseCustomerFields(body, options)).toThrow(ValidationError)
+  })
+})
+
+describe('searchCustomers', () => {
+  it('matches names and emails, and phone numbers once enough digits are typed', async () => {
+    const { client, filters } = createSearchClient([])
+
+    await searchCustomers(client, 'team-1', { q: 'Dana, (555', limit: 10 })
+    await searchCustomers(client, 'team-1', { q: 'Dana 5', limit: 10 })
+
+    expect(filters).toEqual([
+      'name.ilike.*Dana 555*,email_normalized.ilike.*dana 555*,phone_normalized.like.*555*',
+      'name.ilike.*Dana 5*,email_normalized.ilike.*dana 5*'
+    ])
+  })
+
+  it('pages with a cursor after the last customer shown', async () => {
+    const { client, filters } = createSearchClient([
+      customerRow(NEWER_ID, '2026-03-02T00:00:00.000Z'),
+      customerRow(OLDER_ID, '2026-03-01T00:00:00.000Z')
+    ])
+
+    const page = await searchCustomers(client, 'team-1', { limit: 1 })
+
+    expect(page.customers).toEqual([expect.objectContaining({ id: NEWER_ID, review_count: 2 })])
+    expect(decodeCursor(page.next_cursor!)).toEqual({
+      created_at: '2026-03-02T00:00:00.000Z',
+      id: NEWER_ID
+    })
+
+    await searchCustomers(client, 'team-1', { limit: 1, cursor: page.next_cursor })
+    expect(filters).toEqual([
+      `created_at.lt."2026-03-02T00:00:00.000Z",and(created_at.eq."2026-03-02T00:00:00.000Z",id.lt.${NEWER_ID})`
+    ])
+  })
+})
@@ -0,0 +1,29 @@
+/**
+ * @jest-environment node
+ */
+import { StubDnsTxtResolver, expectedTxtRecord, hasVerificationRecord } from '@/lib/domain-verification'
+
+describe('hasVerificationRecord', () => {
+  it('finds the token on the bare domain', async () => {
+    const resolver = new StubDnsTxtResolver({ 'acme.com': ['v=spf1 -all', expectedTxtRecord('token-1')] })
+
+    await expect(hasVerificationRecord(resolver, '@acme.com', 'token-1')).resolves.toBe(true)
+    await expect(hasVerificationRecord(resolver, 'acme.com', 'token-1')).resolves.toBe(true)
+  })
+
+  it('joins chunked records before comparing', async () => {
+    const resolver = { resolveTxt: jest.fn().mockResolvedValue([['reviewboost-verif', 'ication=token-1 ']]) }
+
+    await expect(hasVerificationRecord(resolver, '@acme.com', 'token-1')).resolves.toBe(true)
+    expect(resolver.resolveTxt).toHaveBeenCalledWith('acme.com')
+  })
+
+  it('does not accept another token, a partial match or another domain', async () => {
+    const resolver = new StubDnsTxtResolver({
+      'acme.com': [expectedTxtRecord('token-2'), `${expectedTxtRecord('token-1')}-extra`],
+      'other.com': [expectedTxtRecord('token-1')]
+    })
+
+    await expect(hasVerificationRecord(resolver, '@acme.com', 'token-1')).resolves.toBe(false)
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { findDuplicateReview, normalizeCustomerName } from '@/lib/duplicate-reviews'
+
+/** Records the filters the lookup applies and answers with a fixed row */
+function createRecordingClient(match: unknown) {
+  const calls: Array<[string, ...unknown[]]> = []
+  const query: Record<string, unknown> = {}
+  for (const method of ['select', 'eq', 'neq', 'gte', 'order', 'limit']) {
+    query[method] = (...args: unknown[]) => {
+      calls.push([method, ...args])
+      return query
+    }
+  }
+  query.maybeSingle = async () => ({ data: match, error: null })
+
+  const client = { from: jest.fn(() => query) } as unknown as SupabaseClient
+  return { client, calls }
+}
+
+describe('normalizeCustomerName', () => {
+  it('ignores case, punctuation and extra whitespace', () => {
+    expect(normalizeCustomerName('  Dana   Whitfield ')).toBe('dana whitfield')
+    expect(normalizeCustomerName("O'Brien, Pat.")).toBe('obrien pat')
+    expect(normalizeCustomerName('ACME Plumbing #2')).toBe('acme plumbing 2')
+  })
+
+  it('leaves nothing for a name of only punctuation', () => {
+    expect(normalizeCustomerName(' --- ')).toBe('')
+  })
+})
+
+describe('findDuplicateReview', () => {
+  const now = new Date('2026-03-10T12:00:00.000Z')
+  const review = { customer_name: 'Dana  Whitfield!', job_type: 'Repair' }
+
+  it('looks for a non-rejected review with the same name and job inside the window', async () => {
+    const match = { id: 'review-1', customer_name: 'Dana Whitfield', job_type: 'Repair' }
+    const { client, calls } = createRecordingClient(match)
+
+    await expect(findDuplicateReview(client, 'team-1', review, 24, now)).resolves.toBe(match)
+    expect(calls).toEqual(expect.arrayContaining([
+      ['eq', 'team_id', 'team-1'],
+      ['eq', 'job_type', 'Repair'],
+      ['eq', 'customer_name_normalized', 'dana whitfield'],
+      ['neq', 'status', 'rejected'],
+      ['gte', 'created_at', '2026-03-09T12:00:00.000Z']
+    ]))
+  })
+
+  it('skips the lookup when detection is off or the name is blank', async () => {
+    const { client } = createRecordingClient(null)
+
+    await expect(findDuplicateReview(client, 'team-1', review, 0, now)).resolves.toBeNull()
+    await expect(findDuplicateReview(client, 'team-1', { ...review, customer_name: '?!' }, 24, now)).resolves.toBeNull()
+    expect(client.from).not.toHaveBeenCalled()
+  })
+})
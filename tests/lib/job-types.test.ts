@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ValidationError } from '@/lib/api-error-handler'
+import { parseJobTypeFields, parseJobTypeMappings, resolveJobTypeName } from '@/lib/job-types'
+
+const JOB_TYPE_ID = '3f0c8a62-5c1e-4d8e-9b7a-2f4a6c1d9e10'
+
+/** Answers the catalog query with the given entries */
+function catalogClient(jobTypes: Array<{ name: string; is_active: boolean }>): SupabaseClient {
+  const query: Record<string, unknown> = {
+    then: (resolve: (value: { data: unknown; error: null }) => unknown) =>
+      Promise.resolve({ data: jobTypes, error: null }).then(resolve)
+  }
+  for (const method of ['select', 'eq', 'order']) {
+    query[method] = () => query
+  }
+  return { from: () => query } as unknown as SupabaseClient
+}
+
+describe('parseJobTypeFields', () => {
+  it('keeps only the fields that were sent', () => {
+    expect(parseJobTypeFields({ name: '  Repair ', points: null })).toEqual({ name: 'Repair', points: null })
+    expect(parseJobTypeFields({ is_active: false, sort_order: 3 })).toEqual({ is_active: false, sort_order: 3 })
+  })
+
+  it('requires a name when creating', () => {
+    expect(() => parseJobTypeFields({ points: 5 }, { requireName: true })).toThrow('name is required')
+    expect(() => parseJobTypeFields({ name: '   ' }, { requireName: true })).toThrow(ValidationError)
+  })
+
+  it.each([
+    ['fractional points', { points: 1.5 }],
+    ['negative points', { points: -1 }],
+    ['points above the rule limit', { points: 1001 }],
+    ['points as text', { points: '5' }],
+    ['a non-boolean is_active', { is_active: 'yes' }],
+    ['a fractional sort_order', { sort_order: 0.5 }]
+  ])('rejects %s', (_description, body) => {
+    expect(() => parseJobTypeFields(body)).toThrow(ValidationError)
+  })
+})
+
+describe('parseJobTypeMappings', () => {
+  it('returns the job type values and catalog ids', () => {
+    expect(parseJobTypeMappings([{ job_type: 'repair', job_type_id: JOB_TYPE_ID, extra: true }]))
+      .toEqual([{ job_type: 'repair', job_type_id: JOB_TYPE_ID }])
+  })
+
+  it('rejects empty lists and incomplete mappings', () => {
+    expect(() => parseJobTypeMappings([])).toThrow('mappings must be a non-empty list')
+    expect(() => parseJobTypeMappings({ job_type: 'repair' })).toThrow(ValidationError)
+    expect(() => parseJobTypeMappings([null])).toThrow('mappings[0] must have a job_type and a job_type_id')
+    expect(() => parseJobTypeMappings([{ job_type: 'repair', job_type_id: 'not-a-uuid' }])).toThrow(ValidationError)
+  })
+})
+
+describe('resolveJobTypeName', () => {
+  const client = catalogClient([
+    { name: 'Repair', is_active: true },
+    { name: 'Install', is_active: false }
+  ])
+
+  it('returns the catalog spelling of an active entry', async () => {
+    await expect(resolveJobTypeName(client, 'team-1', ' repair ')).resolves.toBe('Repair')
+  })
+
+  it('only accepts retired entries when asked to', async () => {
+    await expect(resolveJobTypeName(client, 'team-1', 'install')).rejects.toThrow(ValidationError)
+    await expect(resolveJobTypeName(client, 'team-1', 'install', { allowInactive: true })).resolves.toBe('Install')
+  })
+
+  it('accepts free text when the catalog is empty', async () => {
+    await expect(resolveJobTypeName(catalogClient([]), 'team-1', ' Gutter cleaning ')).resolves.toBe('Gutter cleaning')
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import { getZonedDayRange, resolveLeaderboardPeriod } from '@/lib/leaderboard-periods'
+
+describe('getZonedDayRange', () => {
+  it('uses the calendar day in the team timezone', () => {
+    // 02:00 UTC on the 15th is still the 14th in New York (UTC-4 in June)
+    const { start, end } = getZonedDayRange(new Date('2025-06-15T02:00:00Z'), 'America/New_York')
+
+    expect(start.toISOString()).toBe('2025-06-14T04:00:00.000Z')
+    expect(end.toISOString()).toBe('2025-06-15T04:00:00.000Z')
+  })
+
+  it('spans 23 hours on the day clocks go forward', () => {
+    const { start, end } = getZonedDayRange(new Date('2025-03-09T18:00:00Z'), 'America/New_York')
+
+    expect(start.toISOString()).toBe('2025-03-09T05:00:00.000Z')
+    expect(end.getTime() - start.getTime()).toBe(23 * 60 * 60 * 1000)
+  })
+})
+
+describe('resolveLeaderboardPeriod', () => {
+  // A Sunday afternoon in UTC
+  const now = new Date('2025-06-15T12:00:00Z')
+
+  it('starts weeks on Monday in the team timezone', () => {
+    const period = resolveLeaderboardPeriod('week', null, null, now, 'UTC')
+
+    expect(period.start).toBe('2025-06-09T00:00:00.000Z')
+    expect(period.end).toBe('2025-06-16T00:00:00.000Z')
+  })
+
+  it('follows the calendar month and quarter in the team timezone', () => {
+    expect(resolveLeaderboardPeriod('month', null, null, now, 'America/Chicago')).toEqual({
+      period: 'month',
+      start: '2025-06-01T05:00:00.000Z',
+      end: '2025-07-01T05:00:00.000Z'
+    })
+    expect(resolveLeaderboardPeriod('quarter', null, null, now, 'UTC')).toEqual({
+      period: 'quarter',
+      start: '2025-04-01T00:00:00.000Z',
+      end: '2025-07-01T00:00:00.000Z'
+    })
+  })
+
+  it('uses the team day, not the UTC day, near midnight', () => {
+    // 03:00 UTC on July 1st is still June 30th in Chicago
+    const period = resolveLeaderboardPeriod('month', null, null, new Date('2025-07-01T03:00:00Z'), 'America/Chicago')
+
+    expect(period.start).toBe('2025-06-01T05:00:00.000Z')
+  })
+
+  it('keeps month boundaries on local midnight across a DST change', () => {
+    const period = resolveLeaderboardPeriod('month', null, null, new Date('2025-03-15T12:00:00Z'), 'America/New_York')
+
+    expect(period.start).toBe('2025-03-01T05:00:00.000Z')
+    expect(period.end).toBe('2025-04-01T04:00:00.000Z')
+  })
+
+  it('has no bounds for all time, the default', () => {
+    expect(resolveLeaderboardPeriod(null)).toEqual({ period: 'all', start: null, end: null })
+  })
+
+  it('validates custom ranges', () => {
+    expect(resolveLeaderboardPeriod('custom', '2025-01-01T00:00:00Z', null)).toEqual({
+      period: 'custom',
+      start: '2025-01-01T00:00:00.000Z',
+      end: null
+    })
+    expect(() => resolveLeaderboardPeriod('custom')).toThrow('A custom period needs from and/or to')
+    expect(() => resolveLeaderboardPeriod('custom', 'soon', null)).toThrow('from must be a valid date')
+    expect(() => resolveLeaderboardPeriod('custom', '2025-02-01', '2025-01-01')).toThrow('from must be before to')
+  })
+
+  it('rejects unknown periods', () => {
+    expect(() => resolveLeaderboardPeriod('decade')).toThrow('period must be one of')
+  })
+})
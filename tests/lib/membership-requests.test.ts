@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ConflictError, DatabaseError, ResourceError } from '@/lib/api-error-handler'
+import { approveMembershipRequest, rejectMembershipRequest } from '@/lib/membership-requests'
+
+type Result = { data: unknown; error: unknown }
+
+/**
+ * The request lookup answers with the given row; rpc calls with the given
+ * result
+ */
+function createClient(request: unknown, rpcResult: Result) {
+  const filters: Array<[string, unknown]> = []
+  const query: Record<string, unknown> = {
+    select: () => query,
+    eq: (column: string, value: unknown) => {
+      filters.push([column, value])
+      return query
+    },
+    maybeSingle: async () => ({ data: request, error: null })
+  }
+  const rpc = jest.fn().mockResolvedValue(rpcResult)
+  const client = { from: () => query, rpc } as unknown as SupabaseClient
+  return { client, filters, rpc }
+}
+
+describe('membership request decisions', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('approves a request of the team and returns the new member', async () => {
+    const { client, filters, rpc } = createClient({ id: 'request-1' }, { data: 'user-1', error: null })
+
+    await expect(approveMembershipRequest(client, 'team-1', 'request-1')).resolves.toBe('user-1')
+    expect(filters).toEqual([['id', 'request-1'], ['team_id', 'team-1']])
+    expect(rpc).toHaveBeenCalledWith('approve_membership_request', { request_uuid: 'request-1' })
+  })
+
+  it('does not decide a request of another team', async () => {
+    const { client, rpc } = createClient(null, { data: null, error: null })
+
+    await expect(approveMembershipRequest(client, 'team-1', 'request-1')).rejects.toThrow(ResourceError)
+    await expect(rejectMembershipRequest(client, 'team-1', 'request-1')).rejects.toThrow(ResourceError)
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('reports an already decided request as a conflict', async () => {
+    const { client, rpc } = createClient(
+      { id: 'request-1' },
+      { data: null, error: { code: 'P0001', message: 'Membership request has already been decided' } }
+    )
+
+    await expect(rejectMembershipRequest(client, 'team-1', 'request-1'))
+      .rejects.toThrow(new ConflictError('Membership request has already been decided'))
+    expect(rpc).toHaveBeenCalledWith('reject_membership_request', { request_uuid: 'request-1' })
+  })
+
+  it('reports other failures as database errors', async () => {
+    const { client } = createClient({ id: 'request-1' }, { data: null, error: { code: '42501', message: 'denied' } })
+
+    await expect(approveMembershipRequest(client, 'team-1', 'request-1')).rejects.toThrow(DatabaseError)
+  })
+})
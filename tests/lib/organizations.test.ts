@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ConflictError, PermissionError, ResourceError, ValidationError } from '@/lib/api-error-handler'
+import {
+  addOrganizationAdmin,
+  assertOrganizationLeaderboardVisible,
+  getOrganizationStats,
+  removeOrganizationAdmin,
+  type OrganizationRequestContext
+} from '@/lib/organizations'
+
+type Result = { data: unknown; error: unknown }
+
+/**
+ * rpc calls answer with the given result; team settings come from the given
+ * rows by team id
+ */
+function createClient(rpcResult: Result, settings: Record<string, Record<string, unknown>> = {}) {
+  const rpc = jest.fn().mockResolvedValue(rpcResult)
+  const from = () => {
+    let teamId = ''
+    const query = {
+      select: () => query,
+      eq: (_column: string, value: string) => {
+        teamId = value
+        return query
+      },
+      maybeSingle: async () => ({ data: settings[teamId] ?? null, error: null })
+    }
+    return query
+  }
+  return { client: { rpc, from } as unknown as SupabaseClient, rpc }
+}
+
+const functionError = (message: string): Result => ({ data: null, error: { code: 'P0001', message } })
+
+describe('organization functions', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('maps permission, lookup and last-admin failures', async () => {
+    const remove = (result: Result) => removeOrganizationAdmin(createClient(result).client, 'org-1', 'user-1')
+
+    await expect(remove(functionError('Only organization admins can remove admins'))).rejects.toThrow(PermissionError)
+    await expect(remove(functionError('Organization admin not found'))).rejects.toThrow(ResourceError)
+    await expect(remove(functionError('An organization must keep at least one admin'))).rejects.toThrow(ConflictError)
+  })
+
+  it('asks for another email when no team member has it', async () => {
+    const { client } = createClient(functionError('No one with that email is on a team in this organization'))
+
+    await expect(addOrganizationAdmin(client, 'org-1', 'pat@example.com')).rejects.toThrow(ValidationError)
+  })
+
+  it('adds up the stats of every team', async () => {
+    const { client } = createClient({
+      data: [
+        { team_id: 'team-1', total_reviews: '3', total_points: '30', total_members: '2', recent_reviews_count: '1', pending_reviews_count: '0' },
+        { team_id: 'team-2', total_reviews: '4', total_points: '25', total_members: '5', recent_reviews_count: '2', pending_reviews_count: '1' }
+      ],
+      error: null
+    })
+
+    const stats = await getOrganizationStats(client, 'org-1')
+
+    expect(stats.totals).toEqual({
+      total_reviews: 7,
+      total_points: 55,
+      total_members: 7,
+      recent_reviews_count: 3,
+      pending_reviews_count: 1
+    })
+    expect(stats.teams[1]).toMatchObject({ team_id: 'team-2', total_points: 25 })
+  })
+})
+
+describe('assertOrganizationLeaderboardVisible', () => {
+  const context = (client: SupabaseClient, isAdmin = false): OrganizationRequestContext => ({
+    supabase: client,
+    user: { id: 'user-1', email: 'pat@example.com' },
+    organizationId: 'org-1',
+    isAdmin
+  })
+
+  const teams: Result = {
+    data: [
+      { id: 'team-1', user_role: 'member' },
+      { id: 'team-2', user_role: 'member' },
+      { id: 'team-3', user_role: null }
+    ],
+    error: null
+  }
+
+  it('lets organization admins in without checking teams', async () => {
+    const { client, rpc } = createClient(teams)
+
+    await expect(assertOrganizationLeaderboardVisible(context(client, true))).resolves.toBeUndefined()
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('lets members in when one of their teams shows its leaderboard', async () => {
+    // team-2 has no settings row, so it keeps the default of showing everyone
+    const { client } = createClient(teams, { 'team-1': { leaderboard_visibility: 'managers' } })
+
+    await expect(assertOrganizationLeaderboardVisible(context(client))).resolves.toBeUndefined()
+  })
+
+  it('keeps members out when none of their teams shows it to them', async () => {
+    const { client } = createClient(teams, {
+      'team-1': { leaderboard_visibility: 'managers' },
+      'team-2': { leaderboard_visibility: 'managers' }
+    })
+
+    await expect(assertOrganizationLeaderboardVisible(context(client))).rejects.toThrow(PermissionError)
+  })
+})
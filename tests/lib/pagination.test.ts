@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ */
+import { decodeCursor, encodeCursor, parsePageSize, sanitizeSearchTerm } from '@/lib/pagination'
+import { PAGINATION_CONFIG } from '@/lib/constants'
+
+const ID = '3f2b8c1e-9d4a-4e6b-8a7c-1d2e3f4a5b6c'
+
+function rawCursor(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64url')
+}
+
+describe('decodeCursor', () => {
+  it('round-trips cursors built from database timestamps', () => {
+    expect(decodeCursor(encodeCursor({ created_at: '2024-05-01T12:30:00.123456+00:00', id: ID }))).toEqual({
+      created_at: '2024-05-01T12:30:00.123456Z',
+      id: ID
+    })
+  })
+
+  it('rebuilds timestamps in UTC', () => {
+    expect(decodeCursor(encodeCursor({ created_at: '2024-05-01T08:30:00-04:00', id: ID })).created_at)
+      .toBe('2024-05-01T12:30:00.000Z')
+  })
+
+  it.each([
+    ['a loose date', `May 1, 2024|${ID}`],
+    ['a date without a time', `2024-05-01|${ID}`],
+    ['filter syntax in the timestamp', `2024-05-01T12:30:00Z,id.gt.0|${ID}`],
+    ['an impossible date', `2024-13-45T12:30:00Z|${ID}`],
+    ['a malformed id', '2024-05-01T12:30:00Z|not-a-uuid'],
+    ['extra segments', `2024-05-01T12:30:00Z|${ID}|extra`],
+    ['no separator', '2024-05-01T12:30:00Z']
+  ])('rejects %s', (_, value) => {
+    expect(() => decodeCursor(rawCursor(value))).toThrow('Invalid cursor')
+  })
+})
+
+describe('parsePageSize', () => {
+  it('defaults, clamps and rejects invalid sizes', () => {
+    expect(parsePageSize(null)).toBe(PAGINATION_CONFIG.DEFAULT_PAGE_SIZE)
+    expect(parsePageSize(String(PAGINATION_CONFIG.MAX_PAGE_SIZE + 1))).toBe(PAGINATION_CONFIG.MAX_PAGE_SIZE)
+    expect(() => parsePageSize('0')).toThrow('limit must be a positive integer')
+  })
+})
+
+describe('sanitizeSearchTerm', () => {
+  it('strips PostgREST filter syntax', () => {
+    expect(sanitizeSearchTerm('smith,(id.eq.1)*')).toBe('smith id.eq.1')
+  })
+})
@@ -0,0 +1,320 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { findReviewMatches, scoreReviewerName, syncReviewPlatformConnection } from '@/lib/platform-reviews'
+import type { ReviewPlatformConnection } from '@/types'
+
+type Row = Record<string, unknown>
+type Filter = (row: Row) => boolean
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const TEAM_ID = 'team-1'
+
+/**
+ * Just enough of the Supabase query builder for the sync, backed by in-memory
+ * tables
+ */
+class FakeQuery implements PromiseLike<{ data: unknown; error: null }> {
+  private filters: Filter[] = []
+  private action: 'select' | 'update' | 'upsert' = 'select'
+  private values: Row | Row[] = {}
+  private conflictColumns: string[] = []
+  private orderBy: { column: string; ascending: boolean } | null = null
+  private rowLimit: number | null = null
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(private rows: Row[]) {}
+
+  select() {
+    return this
+  }
+
+  update(values: Row) {
+    this.action = 'update'
+    this.values = values
+    return this
+  }
+
+  upsert(values: Row[], { onConflict }: { onConflict: string }) {
+    this.action = 'upsert'
+    this.values = values
+    this.conflictColumns = onConflict.split(',')
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => row[column] !== value)
+    return this
+  }
+
+  is(column: string, value: null) {
+    this.filters.push(row => (row[column] ?? null) === value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]))
+    return this
+  }
+
+  gte(column: string, value: string) {
+    this.filters.push(row => String(row[column]) >= value)
+    return this
+  }
+
+  lte(column: string, value: string) {
+    this.filters.push(row => String(row[column]) <= value)
+    return this
+  }
+
+  order(column: string, { ascending }: { ascending: boolean }) {
+    this.orderBy = { column, ascending }
+    return this
+  }
+
+  limit(count: number) {
+    this.rowLimit = count
+    return this
+  }
+
+  single() {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1, TResult2 = never>(
+    onFulfilled?: ((value: { data: unknown; error: null }) => TResult1 | PromiseLike<TResult1>) | null,
+    onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve({ data: this.run(), error: null }).then(onFulfilled, onRejected)
+  }
+
+  private run(): unknown {
+    if (this.action === 'upsert') {
+      for (const values of this.values as Row[]) {
+        const existing = this.rows.find(row => this.conflictColumns.every(column => row[column] === values[column]))
+        if (existing) {
+          Object.assign(existing, values)
+        } else {
+          this.rows.push({
+            id: `platform-review-${this.rows.length + 1}`,
+            review_id: null,
+            matched_at: null,
+            match_source: null,
+            ...values
+          })
+        }
+      }
+      return null
+    }
+
+    let matched = this.rows.filter(row => this.filters.every(filter => filter(row)))
+    if (this.action === 'update') {
+      matched.forEach(row => Object.assign(row, this.values))
+    }
+
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy
+      matched = [...matched].sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1))
+    }
+    if (this.rowLimit !== null) {
+      matched = matched.slice(0, this.rowLimit)
+    }
+
+    const copies = matched.map(row => ({ ...row }))
+    return this.mode === 'many' ? copies : copies[0] ?? null
+  }
+}
+
+function createFakeServiceClient(tables: Record<string, Row[]>): SupabaseClient {
+  return {
+    from: (table: string) => new FakeQuery(tables[table] ??= [])
+  } as unknown as SupabaseClient
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY_MS).toISOString()
+}
+
+describe('syncReviewPlatformConnection with the fake connector', () => {
+  let fixturesDir: string
+  let fixturesPath: string
+  let tables: Record<string, Row[]>
+  let serviceClient: SupabaseClient
+  const originalFixtures = process.env.REVIEW_CONNECTOR_FIXTURES
+
+  const connection = (): ReviewPlatformConnection =>
+    tables.review_platform_connections[0] as unknown as ReviewPlatformConnection
+
+  function writeFixtures(reviews: Row[]) {
+    writeFileSync(fixturesPath, JSON.stringify({ 'fake-listing': reviews }))
+  }
+
+  beforeEach(() => {
+    fixturesDir = mkdtempSync(path.join(tmpdir(), 'platform-reviews-'))
+    fixturesPath = path.join(fixturesDir, 'platform-reviews.json')
+    process.env.REVIEW_CONNECTOR_FIXTURES = fixturesPath
+
+    tables = {
+      review_platform_connections: [{
+        id: 'connection-1',
+        team_id: TEAM_ID,
+        platform: 'fake',
+        external_id: 'fake-listing',
+        is_active: true,
+        last_synced_at: null
+      }],
+      platform_reviews: [],
+      reviews: [
+        { id: 'review-dana', team_id: TEAM_ID, customer_name: 'Dana Whitfield', status: 'approved', verified_at: null, created_at: daysAgo(2) },
+        { id: 'review-john-doe', team_id: TEAM_ID, customer_name: 'John Doe', status: 'approved', verified_at: null, created_at: daysAgo(3) },
+        { id: 'review-john-dunn', team_id: TEAM_ID, customer_name: 'John Dunn', status: 'approved', verified_at: null, created_at: daysAgo(3) }
+      ]
+    }
+    serviceClient = createFakeServiceClient(tables)
+
+    writeFixtures([
+      { id: 'g-1', reviewer_name: 'Dana Whitfield', rating: 5, text: 'Great work', posted_days_ago: 1 },
+      { id: 'g-2', reviewer_name: 'John D.', rating: 4, text: 'Quick and tidy', posted_days_ago: 2 },
+      { id: 'g-3', reviewer_name: 'Someone Else', rating: 3, posted_days_ago: 1 }
+    ])
+
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    rmSync(fixturesDir, { recursive: true, force: true })
+    if (originalFixtures === undefined) {
+      delete process.env.REVIEW_CONNECTOR_FIXTURES
+    } else {
+      process.env.REVIEW_CONNECTOR_FIXTURES = originalFixtures
+    }
+  })
+
+  it('imports the listing and matches reviews by customer name', async () => {
+    const result = await syncReviewPlatformConnection(serviceClient, connection())
+
+    expect(result).toMatchObject({ imported: 3, matched: 1 })
+    expect(result.connection).toMatchObject({ last_sync_status: 'ok', last_sync_imported: 3, last_sync_matched: 1 })
+    expect(tables.platform_reviews.find(row => row.external_review_id === 'g-1')).toMatchObject({
+      review_id: 'review-dana',
+      match_source: 'auto'
+    })
+    // "John D." fits two customers, so a manager has to pick
+    expect(tables.platform_reviews.find(row => row.external_review_id === 'g-2')).toMatchObject({ review_id: null })
+  })
+
+  it('imports nothing new when synced again', async () => {
+    await syncReviewPlatformConnection(serviceClient, connection())
+    const result = await syncReviewPlatformConnection(serviceClient, connection())
+
+    expect(result).toMatchObject({ imported: 0, matched: 0 })
+    expect(tables.platform_reviews).toHaveLength(3)
+    expect(tables.platform_reviews.filter(row => row.review_id !== null)).toHaveLength(1)
+  })
+
+  it('updates edited reviews in place and keeps their match', async () => {
+    await syncReviewPlatformConnection(serviceClient, connection())
+    writeFixtures([{ id: 'g-1', reviewer_name: 'Dana Whitfield', rating: 4, text: 'Great work, a little late', posted_days_ago: 1 }])
+
+    const result = await syncReviewPlatformConnection(serviceClient, connection())
+
+    expect(result).toMatchObject({ imported: 0, matched: 0 })
+    expect(tables.platform_reviews.find(row => row.external_review_id === 'g-1')).toMatchObject({
+      rating: 4,
+      text: 'Great work, a little late',
+      review_id: 'review-dana'
+    })
+  })
+
+  it('leaves a match a manager cleared alone on the next sync', async () => {
+    await syncReviewPlatformConnection(serviceClient, connection())
+
+    // What set_platform_review_match(id, NULL) leaves behind
+    Object.assign(tables.platform_reviews.find(row => row.external_review_id === 'g-1')!, {
+      review_id: null,
+      matched_at: null,
+      match_source: 'manual'
+    })
+
+    const result = await syncReviewPlatformConnection(serviceClient, connection())
+
+    expect(result.matched).toBe(0)
+    expect(tables.platform_reviews.find(row => row.external_review_id === 'g-1')).toMatchObject({ review_id: null })
+  })
+
+  it('records a failed sync instead of throwing', async () => {
+    rmSync(fixturesPath)
+
+    const result = await syncReviewPlatformConnection(serviceClient, connection())
+
+    expect(result).toMatchObject({ imported: 0, matched: 0 })
+    expect(result.connection.last_sync_status).toBe('error')
+    expect(result.connection.last_sync_error).toEqual(expect.any(String))
+  })
+})
+
+describe('scoreReviewerName', () => {
+  it('scores full and shortened name matches', () => {
+    expect(scoreReviewerName('Dana Whitfield', 'dana whitfield')).toBe(2)
+    expect(scoreReviewerName('José Álvarez', 'Jose Alvarez')).toBe(2)
+    expect(scoreReviewerName('John D.', 'John Doe')).toBe(1)
+    expect(scoreReviewerName('John', 'John Doe')).toBe(1)
+    expect(scoreReviewerName('John Smith', 'John Doe')).toBe(0)
+    expect(scoreReviewerName('Jane Doe', 'John Doe')).toBe(0)
+  })
+})
+
+describe('findReviewMatches', () => {
+  const now = Date.now()
+  const at = (days: number) => new Date(now + days * DAY_MS).toISOString()
+
+  it('only matches reviews inside the window', () => {
+    expect(findReviewMatches(
+      [{ id: 'p-1', reviewer_name: 'Dana Whitfield', posted_at: at(0) }],
+      [{ id: 'r-1', customer_name: 'Dana Whitfield', created_at: at(-20) }],
+      14
+    )).toEqual([])
+  })
+
+  it('prefers the closest submission and uses each one once', () => {
+    expect(findReviewMatches(
+      [
+        { id: 'p-1', reviewer_name: 'Dana Whitfield', posted_at: at(0) },
+        { id: 'p-2', reviewer_name: 'Dana Whitfield', posted_at: at(1) }
+      ],
+      [
+        { id: 'r-far', customer_name: 'Dana Whitfield', created_at: at(-5) },
+        { id: 'r-near', customer_name: 'Dana Whitfield', created_at: at(-1) }
+      ]
+    )).toEqual([
+      { platformReviewId: 'p-1', reviewId: 'r-near' },
+      { platformReviewId: 'p-2', reviewId: 'r-far' }
+    ])
+  })
+
+  it('matches a shortened name when it fits a single customer', () => {
+    expect(findReviewMatches(
+      [{ id: 'p-1', reviewer_name: 'John D.', posted_at: at(0) }],
+      [
+        { id: 'r-1', customer_name: 'John Doe', created_at: at(-1) },
+        { id: 'r-2', customer_name: 'John Doe', created_at: at(-3) }
+      ]
+    )).toEqual([{ platformReviewId: 'p-1', reviewId: 'r-1' }])
+  })
+})
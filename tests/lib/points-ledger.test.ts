@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceClient } from '@/lib/auth-utils'
+import { DatabaseError, ErrorCodes } from '@/lib/api-error-handler'
+import { approveReview, deleteReviewWithReversal, rejectReview, updateReviewWithPoints } from '@/lib/points-ledger'
+
+// next/jest rewrites import paths but not jest.mock's
+jest.mock('../../src/lib/auth-utils', () => ({ createServiceClient: jest.fn() }))
+
+function rpcClient(result: { data: unknown; error: unknown }) {
+  const rpc = jest.fn().mockResolvedValue(result)
+  return { client: { rpc } as unknown as SupabaseClient, rpc }
+}
+
+describe('review edits and deletions', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('applies edits and the recalculated points in one call', async () => {
+    const { client, rpc } = rpcClient({ data: -5, error: null })
+
+    await expect(updateReviewWithPoints(client, 'review-1', { job_type: 'Repair' }, 10, { multiplier: 1 }, 'Wrong job type'))
+      .resolves.toBe(-5)
+    expect(rpc).toHaveBeenCalledWith('update_review_with_points', {
+      review_uuid: 'review-1',
+      review_changes: { job_type: 'Repair' },
+      new_points: 10,
+      points_metadata: { multiplier: 1 },
+      change_note: 'Wrong job type'
+    })
+  })
+
+  it('deletes a review and reverses its points in one call', async () => {
+    const { client, rpc } = rpcClient({ data: -15, error: null })
+
+    await expect(deleteReviewWithReversal(client, 'review-1')).resolves.toBe(-15)
+    expect(rpc).toHaveBeenCalledWith('delete_review_with_reversal', { review_uuid: 'review-1', deletion_note: null })
+  })
+
+  it('reports database failures as database errors', async () => {
+    const { client } = rpcClient({ data: null, error: { message: 'boom' } })
+
+    await expect(updateReviewWithPoints(client, 'review-1', {}, 10)).rejects.toBeInstanceOf(DatabaseError)
+    await expect(deleteReviewWithReversal(client, 'review-1')).rejects.toBeInstanceOf(DatabaseError)
+  })
+})
+
+describe('review approval', () => {
+  const originalServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  beforeEach(() => {
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key'
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    if (originalServiceKey === undefined) {
+      delete process.env.SUPABASE_SERVICE_ROLE_KEY
+    } else {
+      process.env.SUPABASE_SERVICE_ROLE_KEY = originalServiceKey
+    }
+    jest.restoreAllMocks()
+  })
+
+  it('approves and awards with the service role on behalf of the approver', async () => {
+    const { client, rpc } = rpcClient({ data: 'transaction-1', error: null })
+    jest.mocked(createServiceClient).mockReturnValue(client)
+
+    await expect(approveReview('review-1', 25, 'manager-1', { multiplier: 1 })).resolves.toBe('transaction-1')
+    expect(rpc).toHaveBeenCalledWith('approve_review', {
+      review_uuid: 'review-1',
+      points_amount: 25,
+      acting_user_uuid: 'manager-1',
+      award_metadata: { multiplier: 1 }
+    })
+  })
+
+  it('is unavailable without the service role key', async () => {
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY
+
+    await expect(approveReview('review-1', 25, 'manager-1'))
+      .rejects.toMatchObject({ code: ErrorCodes.SERVICE_UNAVAILABLE })
+  })
+
+  it('rejects with the caller client and records no points', async () => {
+    const { client, rpc } = rpcClient({ data: null, error: null })
+
+    await rejectReview(client, 'review-1', 'Not a real customer')
+    expect(rpc).toHaveBeenCalledWith('reject_review', { review_uuid: 'review-1', reason: 'Not a real customer' })
+  })
+})
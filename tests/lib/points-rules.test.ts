@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import { evaluatePointRules, validatePointRuleConfig } from '@/lib/points-rules'
+import { POINTS_CONFIG } from '@/lib/constants'
+import type { PointRule, PointRuleType } from '@/types'
+
+const NOW = new Date('2025-06-15T12:00:00Z')
+
+function rule(ruleType: PointRuleType, config: Record<string, unknown>, overrides: Partial<PointRule> = {}): PointRule {
+  return {
+    id: `${ruleType}-${Math.random().toString(36).slice(2)}`,
+    team_id: 'team-1',
+    name: ruleType,
+    rule_type: ruleType,
+    config,
+    starts_at: null,
+    ends_at: null,
+    is_active: true,
+    created_by: null,
+    created_at: NOW.toISOString(),
+    updated_at: NOW.toISOString(),
+    ...overrides
+  }
+}
+
+const review = { job_type: 'Plumbing', has_photo: false, keywords: 'fast friendly service' }
+const context = { now: NOW, pointsAwardedToday: 0 }
+
+describe('evaluatePointRules', () => {
+  it('falls back to the global defaults without rules', () => {
+    expect(evaluatePointRules([], review, context).points).toBe(POINTS_CONFIG.BASE_REVIEW_POINTS)
+    expect(evaluatePointRules([], { ...review, has_photo: true }, context).points)
+      .toBe(POINTS_CONFIG.BASE_REVIEW_POINTS + POINTS_CONFIG.PHOTO_BONUS_POINTS)
+  })
+
+  it('prefers a job type rule, then the catalog value, then the base rule', () => {
+    const base = rule('base_points', { points: 20 })
+    const jobType = rule('job_type_points', { job_type: 'plumbing', points: 40 })
+    const catalog = { name: 'Plumbing', points: 30 }
+
+    expect(evaluatePointRules([base, jobType], review, { ...context, jobType: catalog }).points).toBe(40)
+    expect(evaluatePointRules([base], review, { ...context, jobType: catalog }).points).toBe(30)
+    expect(evaluatePointRules([base], review, { ...context, jobType: { name: 'Plumbing', points: null } }).points).toBe(20)
+  })
+
+  it('awards keyword bonuses once per matched keyword', () => {
+    const bonus = rule('keyword_bonus', { keywords: ['fast', 'friendly', 'cheap'], points: 3 })
+    const result = evaluatePointRules([bonus], review, context)
+
+    expect(result.points).toBe(POINTS_CONFIG.BASE_REVIEW_POINTS + 6)
+    expect(result.breakdown.find(item => item.rule_type === 'keyword_bonus')?.label).toContain('fast, friendly')
+  })
+
+  it('multiplies the subtotal and rounds', () => {
+    const double = rule('multiplier', { factor: 1.5 })
+    const result = evaluatePointRules([double], { ...review, has_photo: true }, context)
+
+    expect(result.multiplier).toBe(1.5)
+    expect(result.points).toBe(Math.round((POINTS_CONFIG.BASE_REVIEW_POINTS + POINTS_CONFIG.PHOTO_BONUS_POINTS) * 1.5))
+  })
+
+  it('applies the strictest daily cap to what is left of it', () => {
+    const caps = [rule('daily_cap', { max_points: 50 }), rule('daily_cap', { max_points: 25 })]
+    const result = evaluatePointRules(caps, review, { ...context, pointsAwardedToday: 20 })
+
+    expect(result.capped).toBe(true)
+    expect(result.points).toBe(5)
+    expect(evaluatePointRules(caps, review, { ...context, pointsAwardedToday: 40 }).points).toBe(0)
+  })
+
+  it('reports keywords shorter than the minimum as violations', () => {
+    const minimum = rule('min_keyword_length', { min_length: 50 })
+    expect(evaluatePointRules([minimum], review, context).violations).toHaveLength(1)
+  })
+
+  it('ignores inactive rules and rules outside their window', () => {
+    const rules = [
+      rule('base_points', { points: 99 }, { is_active: false }),
+      rule('multiplier', { factor: 2 }, { starts_at: '2025-07-01T00:00:00Z' }),
+      rule('multiplier', { factor: 3 }, { ends_at: NOW.toISOString() })
+    ]
+    expect(evaluatePointRules(rules, review, context).points).toBe(POINTS_CONFIG.BASE_REVIEW_POINTS)
+  })
+})
+
+describe('validatePointRuleConfig', () => {
+  it('keeps only the fields the evaluator reads', () => {
+    expect(validatePointRuleConfig('keyword_bonus', { keywords: [' Fast '], points: 2, extra: true }))
+      .toEqual({ keywords: ['fast'], points: 2 })
+  })
+
+  it('rejects out of range values', () => {
+    expect(() => validatePointRuleConfig('base_points', { points: -1 })).toThrow('config.points')
+    expect(() => validatePointRuleConfig('multiplier', { factor: 0 })).toThrow('config.factor')
+  })
+})
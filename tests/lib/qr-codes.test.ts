@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server'
+import { ValidationError } from '@/lib/api-error-handler'
+import { parseQrCodeFormat, parseQrCodeSize, renderQrCode } from '@/lib/qr-codes'
+import { buildReviewRequestQrUrl } from '@/lib/review-requests'
+
+describe('QR code options', () => {
+  it('defaults to a PNG of the standard size', () => {
+    expect(parseQrCodeFormat(null)).toBe('png')
+    expect(parseQrCodeSize(null)).toBe(512)
+  })
+
+  it('accepts the supported formats and sizes', () => {
+    expect(parseQrCodeFormat('svg')).toBe('svg')
+    expect(parseQrCodeSize('128')).toBe(128)
+    expect(parseQrCodeSize('2048')).toBe(2048)
+  })
+
+  it.each(['jpeg', 'SVG'])('rejects the format %p', (format) => {
+    expect(() => parseQrCodeFormat(format)).toThrow(ValidationError)
+  })
+
+  it.each(['127', '2049', '256.5', 'large'])('rejects the size %p', (size) => {
+    expect(() => parseQrCodeSize(size)).toThrow(ValidationError)
+  })
+})
+
+describe('QR code rendering', () => {
+  const originalAppUrl = process.env.NEXT_PUBLIC_APP_URL
+
+  afterEach(() => {
+    if (originalAppUrl === undefined) {
+      delete process.env.NEXT_PUBLIC_APP_URL
+    } else {
+      process.env.NEXT_PUBLIC_APP_URL = originalAppUrl
+    }
+  })
+
+  it('encodes the request link marked as a scan', () => {
+    process.env.NEXT_PUBLIC_APP_URL = 'https://reviews.example.com'
+    const req = new NextRequest('http://internal:3000/api/review-requests/request-1/qr')
+
+    expect(buildReviewRequestQrUrl(req, 'abc123')).toBe('https://reviews.example.com/r/abc123?via=qr')
+  })
+
+  it('renders PNG images and SVG markup', async () => {
+    const png = await renderQrCode('https://reviews.example.com/r/abc123?via=qr', 'png', 128)
+    const svg = await renderQrCode('https://reviews.example.com/r/abc123?via=qr', 'svg', 128)
+
+    expect(png.contentType).toBe('image/png')
+    expect((png.body as Buffer).subarray(1, 4).toString()).toBe('PNG')
+    expect(svg.contentType).toBe('image/svg+xml')
+    expect(svg.body).toEqual(expect.stringContaining('<svg'))
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { formatSmsRecipient, parseMessageChannel, renderMessageTemplate } from '@/lib/review-request-messages'
+
+describe('formatSmsRecipient', () => {
+  const originalCountryCode = process.env.SMS_DEFAULT_COUNTRY_CODE
+
+  afterEach(() => {
+    if (originalCountryCode === undefined) {
+      delete process.env.SMS_DEFAULT_COUNTRY_CODE
+    } else {
+      process.env.SMS_DEFAULT_COUNTRY_CODE = originalCountryCode
+    }
+  })
+
+  it('adds the default country code to ten-digit numbers', () => {
+    delete process.env.SMS_DEFAULT_COUNTRY_CODE
+    expect(formatSmsRecipient('(555) 123-4567')).toBe('+15551234567')
+
+    process.env.SMS_DEFAULT_COUNTRY_CODE = '44'
+    expect(formatSmsRecipient('555.123.4567')).toBe('+445551234567')
+  })
+
+  it('keeps numbers that already carry a country code', () => {
+    expect(formatSmsRecipient('+44 20 7946 0958')).toBe('+442079460958')
+    expect(formatSmsRecipient('1 555 123 4567')).toBe('+15551234567')
+  })
+
+  it('returns null for numbers that cannot be dialed', () => {
+    expect(formatSmsRecipient('123-4567')).toBeNull()
+    expect(formatSmsRecipient('+')).toBeNull()
+    expect(formatSmsRecipient('')).toBeNull()
+  })
+})
+
+describe('renderMessageTemplate', () => {
+  it('fills in the known placeholders', () => {
+    expect(renderMessageTemplate(
+      'Hi {customer_name}, {employee_name} from {team_name} would love a review: {link}',
+      { customer_name: 'Dana', employee_name: 'Sam', team_name: 'Acme Plumbing', link: 'https://example.com/r/abc' }
+    )).toBe('Hi Dana, Sam from Acme Plumbing would love a review: https://example.com/r/abc')
+  })
+
+  it('replaces every occurrence and blanks missing values', () => {
+    expect(renderMessageTemplate('{link} {link} {team_name}', { link: 'x' })).toBe('x x ')
+  })
+
+  it('leaves unknown placeholders alone', () => {
+    expect(renderMessageTemplate('{discount_code} {link}', { link: 'x', discount_code: 'SAVE10' })).toBe('{discount_code} x')
+  })
+})
+
+describe('parseMessageChannel', () => {
+  it('accepts sms and email only', () => {
+    expect(parseMessageChannel('sms')).toBe('sms')
+    expect(parseMessageChannel('email')).toBe('email')
+    expect(() => parseMessageChannel('fax')).toThrow('channel must be one of')
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PermissionError, ResourceError, ValidationError } from '@/lib/api-error-handler'
+import {
+  buildReviewRequestUrl,
+  formatReviewRequest,
+  getReviewRequestStatus,
+  parseReviewRequestStatus,
+  resolveReviewRequestEmployee,
+  type ReviewRequestRow
+} from '@/lib/review-requests'
+
+const EMPLOYEE_ID = '5d1f7b0e-3a2c-4f6b-8e9d-0c1b2a3f4e5d'
+
+/** Answers the team membership lookup with the given row */
+function membershipClient(membership: unknown): SupabaseClient {
+  const query: Record<string, unknown> = {
+    maybeSingle: async () => ({ data: membership, error: null })
+  }
+  for (const method of ['select', 'eq']) {
+    query[method] = () => query
+  }
+  return { from: () => query } as unknown as SupabaseClient
+}
+
+describe('review request links', () => {
+  const originalAppUrl = process.env.NEXT_PUBLIC_APP_URL
+  const req = new NextRequest('http://internal:3000/api/teams/team-1/review-requests')
+
+  afterEach(() => {
+    if (originalAppUrl === undefined) {
+      delete process.env.NEXT_PUBLIC_APP_URL
+    } else {
+      process.env.NEXT_PUBLIC_APP_URL = originalAppUrl
+    }
+  })
+
+  it('prefers the configured app URL over the request origin', () => {
+    delete process.env.NEXT_PUBLIC_APP_URL
+    expect(buildReviewRequestUrl(req, 'abc123')).toBe('http://internal:3000/r/abc123')
+
+    process.env.NEXT_PUBLIC_APP_URL = 'https://reviews.example.com'
+    expect(buildReviewRequestUrl(req, 'abc123')).toBe('https://reviews.example.com/r/abc123')
+  })
+
+  it('formats joined rows with their link and status', () => {
+    process.env.NEXT_PUBLIC_APP_URL = 'https://reviews.example.com'
+    const row = {
+      id: 'request-1',
+      token: 'abc123',
+      review_id: null,
+      first_opened_at: '2026-03-01T00:00:00.000Z',
+      customer: [{ id: 'customer-1', name: 'Dana' }],
+      employee: [{ name: 'Pat', email: 'pat@example.com', id: 'hidden' }]
+    } as unknown as ReviewRequestRow
+
+    const formatted = formatReviewRequest(req, row)
+
+    expect(formatted).toMatchObject({
+      url: 'https://reviews.example.com/r/abc123',
+      status: 'opened',
+      customer: { id: 'customer-1', name: 'Dana' }
+    })
+    expect(formatted.employee).toEqual({ name: 'Pat', email: 'pat@example.com' })
+    expect(formatReviewRequest(req, { ...row, customer: null, employee: null })).toMatchObject({
+      customer: undefined,
+      employee: undefined
+    })
+  })
+})
+
+describe('review request status', () => {
+  it('is converted once a review is linked, then opened, then sent', () => {
+    expect(getReviewRequestStatus({ review_id: 'review-1', first_opened_at: null })).toBe('converted')
+    expect(getReviewRequestStatus({ review_id: null, first_opened_at: '2026-03-01T00:00:00.000Z' })).toBe('opened')
+    expect(getReviewRequestStatus({ review_id: null, first_opened_at: null })).toBe('sent')
+  })
+
+  it('parses the status filter', () => {
+    expect(parseReviewRequestStatus(null)).toBeNull()
+    expect(parseReviewRequestStatus('')).toBeNull()
+    expect(parseReviewRequestStatus('converted')).toBe('converted')
+    expect(() => parseReviewRequestStatus('Converted')).toThrow(ValidationError)
+  })
+})
+
+describe('resolveReviewRequestEmployee', () => {
+  const caller = { userId: 'user-1', role: 'member' as const }
+
+  it('uses the caller when no one else is named', async () => {
+    await expect(resolveReviewRequestEmployee(membershipClient(null), 'team-1', caller, undefined)).resolves.toBe('user-1')
+    await expect(resolveReviewRequestEmployee(membershipClient(null), 'team-1', caller, 'user-1')).resolves.toBe('user-1')
+  })
+
+  it('lets only managers name a teammate', async () => {
+    const client = membershipClient({ user_id: EMPLOYEE_ID })
+
+    await expect(resolveReviewRequestEmployee(client, 'team-1', caller, EMPLOYEE_ID)).rejects.toThrow(PermissionError)
+    await expect(resolveReviewRequestEmployee(client, 'team-1', { ...caller, role: 'manager' }, EMPLOYEE_ID))
+      .resolves.toBe(EMPLOYEE_ID)
+  })
+
+  it('rejects someone who is not on the team', async () => {
+    await expect(resolveReviewRequestEmployee(membershipClient(null), 'team-1', { ...caller, role: 'admin' }, EMPLOYEE_ID))
+      .rejects.toThrow(ResourceError)
+  })
+})
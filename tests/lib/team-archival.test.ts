@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ConflictError, PermissionError, ValidationError } from '@/lib/api-error-handler'
+import { archiveTeam, deleteTeamPermanently, exportTeamData, requestTeamDeletion } from '@/lib/team-archival'
+
+type Row = Record<string, unknown>
+type Result = { data: unknown; error: unknown }
+
+const TEAM_ID = 'team-1'
+
+/**
+ * Team-scoped tables read from in-memory rows, with ranges for paging;
+ * rpc calls answer with the given result and storage removals are recorded
+ */
+function createClient(tables: Record<string, Row[]>, rpcResult: Result = { data: null, error: null }) {
+  const reads: string[] = []
+  const rpc = jest.fn().mockResolvedValue(rpcResult)
+  const removeFiles = jest.fn().mockResolvedValue({ data: [], error: null })
+  const storage = { from: () => ({ remove: removeFiles }) }
+  const from = (table: string) => {
+    let rows = tables[table] ?? []
+    const query: Record<string, unknown> = {
+      then: (resolve: (value: Result) => unknown) => Promise.resolve({ data: rows, error: null }).then(resolve),
+      maybeSingle: async () => ({ data: rows[0] ?? null, error: null }),
+      single: async () => ({ data: rows[0] ?? null, error: null }),
+      range: (start: number, end: number) => {
+        reads.push(`${table}[${start}-${end}]`)
+        rows = rows.slice(start, end + 1)
+        return query
+      }
+    }
+    for (const method of ['select', 'eq', 'order']) {
+      query[method] = () => query
+    }
+    return query
+  }
+  return { client: { from, rpc, storage } as unknown as SupabaseClient, rpc, reads, removeFiles }
+}
+
+const teamTables = (): Record<string, Row[]> => ({
+  teams: [{ id: TEAM_ID, name: 'Acme', owner_id: 'owner-1', archived_at: '2026-03-01T00:00:00.000Z' }],
+  team_members: [{
+    user_id: 'owner-1',
+    role: 'owner',
+    joined_at: '2026-01-01T00:00:00.000Z',
+    users: { id: 'owner-1', name: 'Olive', email: 'olive@acme.com', created_at: '2026-01-01T00:00:00.000Z' }
+  }],
+  reviews: [{ id: 'review-1', team_id: TEAM_ID }],
+  review_attachments: [{ id: 'attachment-1', team_id: TEAM_ID, storage_path: 'team-1/review-1/photo.jpg' }]
+})
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex')
+
+describe('team archival', () => {
+  const originalServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  beforeEach(() => {
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    if (originalServiceKey !== undefined) {
+      process.env.SUPABASE_SERVICE_ROLE_KEY = originalServiceKey
+    }
+  })
+
+  it('maps archival function errors', async () => {
+    const archive = (message: string) =>
+      archiveTeam(createClient({}, { data: null, error: { code: 'P0001', message } }).client, TEAM_ID)
+
+    await expect(archive('Only team admins can archive a team')).rejects.toThrow(PermissionError)
+    await expect(archive('Team is already archived')).rejects.toThrow(ConflictError)
+  })
+
+  it('stores only the hash of the deletion token', async () => {
+    const { client, rpc } = createClient({}, { data: '2026-03-01T00:15:00.000Z', error: null })
+
+    const { token, expiresAt } = await requestTeamDeletion(client, TEAM_ID)
+
+    expect(expiresAt).toBe('2026-03-01T00:15:00.000Z')
+    expect(rpc).toHaveBeenCalledWith('request_team_deletion', expect.objectContaining({
+      team_uuid: TEAM_ID,
+      confirmation_token_hash: sha256(token)
+    }))
+    expect(JSON.stringify(rpc.mock.calls)).not.toContain(token)
+  })
+
+  it('deletes with the token hash and returns the final export', async () => {
+    const { client, rpc, removeFiles } = createClient(teamTables())
+
+    const finalExport = await deleteTeamPermanently(client, TEAM_ID, 'token-1')
+
+    expect(finalExport).toMatchObject({
+      team: { id: TEAM_ID },
+      members: [{ user_id: 'owner-1', is_owner: true }],
+      reviews: [{ id: 'review-1' }]
+    })
+    expect(rpc).toHaveBeenCalledWith('delete_team_permanently', { team_uuid: TEAM_ID, confirmation_token_hash: sha256('token-1') })
+    expect(removeFiles).toHaveBeenCalledWith(['team-1/review-1/photo.jpg'])
+  })
+
+  it('keeps the files when the confirmation token is rejected', async () => {
+    const { client, removeFiles } = createClient(teamTables(), {
+      data: null,
+      error: { code: 'P0001', message: 'Confirmation token is invalid or has expired' }
+    })
+
+    await expect(deleteTeamPermanently(client, TEAM_ID, 'token-1')).rejects.toThrow(ValidationError)
+    expect(removeFiles).not.toHaveBeenCalled()
+  })
+
+  it('exports every page of large tables', async () => {
+    const tables = teamTables()
+    tables.reviews = Array.from({ length: 1001 }, (_, i) => ({ id: `review-${i}`, team_id: TEAM_ID }))
+    const { client, reads } = createClient(tables)
+
+    const { reviews } = await exportTeamData(client, TEAM_ID)
+
+    expect(reviews).toHaveLength(1001)
+    expect(reads.filter(read => read.startsWith('reviews['))).toEqual(['reviews[0-999]', 'reviews[1000-1999]'])
+  })
+})
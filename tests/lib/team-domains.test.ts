@@ -0,0 +1,185 @@
+/**
+ * @jest-environment node
+ */
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceClient } from '@/lib/auth-utils'
+import { ConflictError, ErrorCodes, ValidationError } from '@/lib/api-error-handler'
+import { StubDnsTxtResolver, expectedTxtRecord } from '@/lib/domain-verification'
+import { addTeamDomain, normalizeDomain, verifyTeamDomainByDns } from '@/lib/team-domains'
+
+// next/jest rewrites import paths but not jest.mock's
+jest.mock('../../src/lib/auth-utils', () => ({ createServiceClient: jest.fn() }))
+
+type Result = { data: unknown; error: unknown }
+
+/**
+ * Answers each from() query with the next result in order, and records the
+ * rows it was asked to insert
+ */
+function createSequencedClient(results: Result[]) {
+  const inserted: unknown[] = []
+  const client = {
+    from: () => {
+      const result = results.shift() ?? { data: null, error: null }
+      const query: Record<string, unknown> = {
+        then: (resolve: (value: Result) => unknown) => Promise.resolve(result).then(resolve),
+        single: async () => result,
+        maybeSingle: async () => result,
+        insert: (row: unknown) => {
+          inserted.push(row)
+          return query
+        }
+      }
+      for (const method of ['select', 'eq', 'order', 'delete']) {
+        query[method] = () => query
+      }
+      return query
+    }
+  } as unknown as SupabaseClient
+  return { client, inserted }
+}
+
+describe('normalizeDomain', () => {
+  it('reduces domains, addresses and URLs to the stored form', () => {
+    expect(normalizeDomain('Acme.com')).toBe('@acme.com')
+    expect(normalizeDomain('  @acme.com ')).toBe('@acme.com')
+    expect(normalizeDomain('jane@Sales.Acme.co.uk')).toBe('@sales.acme.co.uk')
+    expect(normalizeDomain('https://acme.com/about?x=1')).toBe('@acme.com')
+    expect(normalizeDomain('acme.com.')).toBe('@acme.com')
+  })
+
+  it.each([
+    ['nothing', ''],
+    ['a bare name', 'acme'],
+    ['a leading hyphen', '-acme.com'],
+    ['a trailing hyphen', 'acme-.com'],
+    ['an empty label', 'acme..com'],
+    ['a numeric TLD', 'acme.c0m'],
+    ['an overlong label', `${'a'.repeat(64)}.com`]
+  ])('rejects %s', (_description, input) => {
+    expect(() => normalizeDomain(input)).toThrow(ValidationError)
+  })
+
+  it('rejects public email providers', () => {
+    expect(() => normalizeDomain('someone@Gmail.com')).toThrow('gmail.com is a public email provider')
+  })
+})
+
+describe('addTeamDomain', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('stores the normalized domain', async () => {
+    const mapping = { id: 'mapping-1', team_id: 'team-1', domain_name: '@acme.com' }
+    const { client, inserted } = createSequencedClient([
+      { data: [], error: null },
+      { data: mapping, error: null }
+    ])
+
+    await expect(addTeamDomain(client, 'team-1', 'https://Acme.com')).resolves.toBe(mapping)
+    expect(inserted).toEqual([{ team_id: 'team-1', domain_name: '@acme.com' }])
+  })
+
+  it('rejects a domain the team already has', async () => {
+    const { client, inserted } = createSequencedClient([
+      { data: [{ id: 'mapping-1', domain_name: '@acme.com' }], error: null }
+    ])
+
+    await expect(addTeamDomain(client, 'team-1', 'acme.com'))
+      .rejects.toThrow(ConflictError)
+    expect(inserted).toEqual([])
+  })
+
+  it('reports a domain mapped by another team as a conflict', async () => {
+    const { client } = createSequencedClient([
+      { data: [], error: null },
+      { data: null, error: { code: '23505', message: 'duplicate key value' } }
+    ])
+
+    await expect(addTeamDomain(client, 'team-1', 'acme.com')).rejects.toThrow('@acme.com is already mapped to another team')
+  })
+})
+
+describe('verifyTeamDomainByDns', () => {
+  const originalServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  const mapping = {
+    id: 'mapping-1',
+    team_id: 'team-1',
+    domain_name: '@acme.com',
+    verified_at: null,
+    verification_token: 'token-1'
+  }
+  const resolver = new StubDnsTxtResolver({ 'acme.com': [expectedTxtRecord('token-1')] })
+
+  /** Service client whose update answers with the given row and records its filters */
+  function mockServiceUpdate(row: unknown) {
+    const filters: Array<[string, unknown]> = []
+    const query: Record<string, unknown> = {
+      update: () => query,
+      select: () => query,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value])
+        return query
+      },
+      maybeSingle: async () => ({ data: row, error: null })
+    }
+    jest.mocked(createServiceClient).mockReturnValue({ from: () => query } as unknown as SupabaseClient)
+    return filters
+  }
+
+  beforeEach(() => {
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-key'
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    if (originalServiceKey === undefined) {
+      delete process.env.SUPABASE_SERVICE_ROLE_KEY
+    } else {
+      process.env.SUPABASE_SERVICE_ROLE_KEY = originalServiceKey
+    }
+  })
+
+  it('marks only the checked domain and token as verified', async () => {
+    const verified = { ...mapping, verified_at: '2026-03-10T12:00:00.000Z' }
+    const filters = mockServiceUpdate(verified)
+    const { client } = createSequencedClient([{ data: mapping, error: null }])
+
+    await expect(verifyTeamDomainByDns(client, 'team-1', 'mapping-1', 'user-1', resolver)).resolves.toBe(verified)
+    expect(filters).toEqual([
+      ['id', 'mapping-1'],
+      ['team_id', 'team-1'],
+      ['domain_name', '@acme.com'],
+      ['verification_token', 'token-1']
+    ])
+  })
+
+  it('reports a mapping edited during the check as a conflict', async () => {
+    mockServiceUpdate(null)
+    const { client } = createSequencedClient([{ data: mapping, error: null }])
+
+    await expect(verifyTeamDomainByDns(client, 'team-1', 'mapping-1', 'user-1', resolver)).rejects.toThrow(ConflictError)
+  })
+
+  it('rejects a domain without the record', async () => {
+    const filters = mockServiceUpdate(null)
+    const { client } = createSequencedClient([{ data: { ...mapping, verification_token: 'token-2' }, error: null }])
+
+    await expect(verifyTeamDomainByDns(client, 'team-1', 'mapping-1', 'user-1', resolver)).rejects.toThrow(ValidationError)
+    expect(filters).toEqual([])
+  })
+
+  it('is unavailable without the service role key', async () => {
+    delete process.env.SUPABASE_SERVICE_ROLE_KEY
+    const { client } = createSequencedClient([{ data: mapping, error: null }])
+
+    await expect(verifyTeamDomainByDns(client, 'team-1', 'mapping-1', 'user-1', resolver))
+      .rejects.toThrow(expect.objectContaining({ code: ErrorCodes.SERVICE_UNAVAILABLE }))
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * @jest-environment node
+ */
+import { createInvitationToken, hashInvitationToken, verifyInvitationToken } from '@/lib/team-invitations'
+
+const INVITATION_ID = '6f1c2a9e-4b7d-4c1e-9a2f-3d5e8b7c6a10'
+
+function inOneDay(): Date {
+  return new Date(Date.now() + 24 * 60 * 60 * 1000)
+}
+
+describe('invitation tokens', () => {
+  it('verify to the invitation and expiry they were issued for', () => {
+    const expiresAt = inOneDay()
+    const token = createInvitationToken(INVITATION_ID, expiresAt)
+
+    expect(verifyInvitationToken(token)).toEqual({
+      invitationId: INVITATION_ID,
+      expiresAt: new Date(Math.floor(expiresAt.getTime() / 1000) * 1000)
+    })
+  })
+
+  it('are unique per issue', () => {
+    const expiresAt = inOneDay()
+    expect(createInvitationToken(INVITATION_ID, expiresAt)).not.toBe(createInvitationToken(INVITATION_ID, expiresAt))
+  })
+
+  it('reject a payload signed for another invitation', () => {
+    const [, signature] = createInvitationToken(INVITATION_ID, inOneDay()).split('.')
+    const [otherPayload] = createInvitationToken('another-invitation', inOneDay()).split('.')
+
+    expect(verifyInvitationToken(`${otherPayload}.${signature}`)).toBeNull()
+  })
+
+  it('reject malformed tokens', () => {
+    const token = createInvitationToken(INVITATION_ID, inOneDay())
+
+    expect(verifyInvitationToken('')).toBeNull()
+    expect(verifyInvitationToken(token.split('.')[0])).toBeNull()
+    expect(verifyInvitationToken(`${token}.extra`)).toBeNull()
+    expect(verifyInvitationToken(`${token.slice(0, -2)}xx`)).toBeNull()
+  })
+
+  it('reject expired tokens', () => {
+    const token = createInvitationToken(INVITATION_ID, new Date(Date.now() - 1000))
+    expect(verifyInvitationToken(token)).toBeNull()
+  })
+
+  it('are stored as a stable hash rather than the token itself', () => {
+    const token = createInvitationToken(INVITATION_ID, inOneDay())
+
+    expect(hashInvitationToken(token)).toMatch(/^[0-9a-f]{64}$/)
+    expect(hashInvitationToken(token)).toBe(hashInvitationToken(token))
+    expect(hashInvitationToken(token)).not.toContain(token)
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ConflictError, PermissionError, ResourceError } from '@/lib/api-error-handler'
+import { removeTeamMember, transferTeamOwnership, updateTeamMemberRole } from '@/lib/team-members'
+
+type Result = { data: unknown; error: unknown }
+
+/**
+ * Team admins and the owner come from fixed rows; rpc calls answer with the
+ * given result
+ */
+function createClient({ adminIds, ownerId, rpcResult = { data: null, error: null } }: {
+  adminIds: string[]
+  ownerId: string | null
+  rpcResult?: Result
+}) {
+  const rpc = jest.fn().mockResolvedValue(rpcResult)
+  const from = (table: string) => {
+    const result = table === 'teams'
+      ? { data: { owner_id: ownerId }, error: null }
+      : { data: adminIds.map(user_id => ({ user_id })), error: null }
+    const query: Record<string, unknown> = {
+      then: (resolve: (value: Result) => unknown) => Promise.resolve(result).then(resolve),
+      single: async () => result
+    }
+    for (const method of ['select', 'eq', 'in']) {
+      query[method] = () => query
+    }
+    return query
+  }
+  return { client: { from, rpc } as unknown as SupabaseClient, rpc }
+}
+
+describe('team member changes', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('demotes an admin while another one remains', async () => {
+    const { client, rpc } = createClient({
+      adminIds: ['owner-1', 'admin-1'],
+      ownerId: 'owner-1',
+      rpcResult: { data: 'member', error: null }
+    })
+
+    await expect(updateTeamMemberRole(client, 'team-1', 'admin-1', 'member')).resolves.toBe('member')
+    expect(rpc).toHaveBeenCalledWith('update_team_member_role', {
+      team_uuid: 'team-1',
+      target_user_id: 'admin-1',
+      new_role: 'member'
+    })
+  })
+
+  it('keeps the last admin', async () => {
+    const { client, rpc } = createClient({ adminIds: ['admin-1'], ownerId: null })
+
+    await expect(removeTeamMember(client, 'team-1', 'admin-1')).rejects.toThrow('A team must keep at least one admin')
+    await expect(updateTeamMemberRole(client, 'team-1', 'admin-1', 'manager')).rejects.toThrow(ConflictError)
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('keeps the owner until ownership is transferred', async () => {
+    const { client, rpc } = createClient({ adminIds: ['owner-1', 'admin-1'], ownerId: 'owner-1' })
+
+    await expect(removeTeamMember(client, 'team-1', 'owner-1')).rejects.toThrow('Transfer team ownership')
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('skips the admin check when the new role is still an admin', async () => {
+    const { client } = createClient({ adminIds: ['admin-1'], ownerId: null, rpcResult: { data: 'admin', error: null } })
+    const from = jest.spyOn(client, 'from')
+
+    await expect(updateTeamMemberRole(client, 'team-1', 'admin-1', 'admin')).resolves.toBe('admin')
+    expect(from).not.toHaveBeenCalled()
+  })
+
+  it('maps member function errors', async () => {
+    const { client } = createClient({
+      adminIds: ['admin-1', 'admin-2'],
+      ownerId: null,
+      rpcResult: { data: null, error: { code: 'P0001', message: 'Team member not found' } }
+    })
+
+    await expect(removeTeamMember(client, 'team-1', 'user-9')).rejects.toThrow(ResourceError)
+  })
+
+  it('only lets the owner transfer ownership', async () => {
+    const { client, rpc } = createClient({
+      adminIds: [],
+      ownerId: 'owner-1',
+      rpcResult: { data: null, error: { code: 'P0001', message: 'Only the team owner can transfer ownership' } }
+    })
+
+    await expect(transferTeamOwnership(client, 'team-1', 'admin-1')).rejects.toThrow(PermissionError)
+    expect(rpc).toHaveBeenCalledWith('transfer_team_ownership', { team_uuid: 'team-1', new_owner_id: 'admin-1' })
+  })
+})
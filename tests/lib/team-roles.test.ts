@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import type { TeamRole } from '@/types'
+import {
+  TEAM_ROLES,
+  describeTeamRole,
+  getTeamHomePath,
+  hasTeamPermission,
+  isAssignableTeamRole,
+  isRoleAtLeast,
+  isTeamRole
+} from '@/lib/team-roles'
+
+// What a stale or hand-edited database row could hold
+const unknownRole = 'superadmin' as unknown as TeamRole
+
+describe('isRoleAtLeast', () => {
+  it('ranks roles from owner down to viewer', () => {
+    expect(isRoleAtLeast('owner', 'admin')).toBe(true)
+    expect(isRoleAtLeast('admin', 'admin')).toBe(true)
+    expect(isRoleAtLeast('manager', 'admin')).toBe(false)
+    expect(isRoleAtLeast('member', 'manager')).toBe(false)
+    expect(isRoleAtLeast('viewer', 'viewer')).toBe(true)
+  })
+
+  it('never ranks a missing or unknown role', () => {
+    for (const minimum of TEAM_ROLES) {
+      expect(isRoleAtLeast(null, minimum)).toBe(false)
+      expect(isRoleAtLeast(undefined, minimum)).toBe(false)
+      expect(isRoleAtLeast(unknownRole, minimum)).toBe(false)
+    }
+  })
+})
+
+describe('hasTeamPermission', () => {
+  it('grants each role its own permissions and those below it', () => {
+    expect(hasTeamPermission('viewer', 'team.view')).toBe(true)
+    expect(hasTeamPermission('viewer', 'reviews.submit')).toBe(false)
+    expect(hasTeamPermission('manager', 'reviews.approve')).toBe(true)
+    expect(hasTeamPermission('manager', 'points.adjust')).toBe(false)
+    expect(hasTeamPermission('admin', 'members.manage')).toBe(true)
+    expect(hasTeamPermission('admin', 'team.delete')).toBe(false)
+    expect(hasTeamPermission('owner', 'ownership.transfer')).toBe(true)
+  })
+
+  it('gives a missing or unknown role no permissions', () => {
+    expect(hasTeamPermission(null, 'team.view')).toBe(false)
+    expect(hasTeamPermission(unknownRole, 'team.view')).toBe(false)
+    expect(hasTeamPermission('constructor' as unknown as TeamRole, 'team.view')).toBe(false)
+  })
+})
+
+describe('role helpers', () => {
+  it('recognizes roles and the ones that can be assigned', () => {
+    expect(isTeamRole('owner')).toBe(true)
+    expect(isTeamRole('Owner')).toBe(false)
+    expect(isTeamRole(1)).toBe(false)
+    expect(isAssignableTeamRole('viewer')).toBe(true)
+    expect(isAssignableTeamRole('owner')).toBe(false)
+  })
+
+  it('describes roles with their article', () => {
+    expect(describeTeamRole('admin')).toBe('an admin')
+    expect(describeTeamRole('viewer')).toBe('a viewer')
+  })
+
+  it('sends each role to the first page it can use', () => {
+    expect(getTeamHomePath('manager')).toBe('/dashboard')
+    expect(getTeamHomePath('member')).toBe('/submit-review')
+    expect(getTeamHomePath('viewer')).toBe('/reviews')
+    expect(getTeamHomePath(unknownRole)).toBe('/reviews')
+  })
+})
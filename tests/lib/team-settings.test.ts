@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { canViewLeaderboard, defaultTeamSettings, parseTeamSettingsChanges } from '@/lib/team-settings'
+import { REVIEW_CONFIG } from '@/lib/constants'
+
+describe('parseTeamSettingsChanges', () => {
+  it('only returns the fields present in the body', () => {
+    expect(parseTeamSettingsChanges({})).toEqual({})
+    expect(parseTeamSettingsChanges({ require_review_approval: true, duplicate_window_hours: 0 })).toEqual({
+      require_review_approval: true,
+      duplicate_window_hours: 0
+    })
+  })
+
+  it('normalizes branding and blank values', () => {
+    expect(parseTeamSettingsChanges({
+      brand_color: '#1D4ED8',
+      logo_url: '  ',
+      review_destination_url: ' https://g.page/r/example ',
+      review_request_sms_template: ''
+    })).toEqual({
+      brand_color: '#1d4ed8',
+      logo_url: null,
+      review_destination_url: 'https://g.page/r/example',
+      review_request_sms_template: null
+    })
+  })
+
+  it('accepts IANA timezones and the leaderboard visibilities', () => {
+    expect(parseTeamSettingsChanges({ timezone: 'America/Chicago', leaderboard_visibility: 'managers' })).toEqual({
+      timezone: 'America/Chicago',
+      leaderboard_visibility: 'managers'
+    })
+  })
+
+  it.each([
+    [{ require_review_approval: 'yes' }, 'require_review_approval must be a boolean'],
+    [{ duplicate_window_hours: 1.5 }, 'duplicate_window_hours must be a whole number'],
+    [{ duplicate_window_hours: REVIEW_CONFIG.MAX_DUPLICATE_WINDOW_HOURS + 1 }, 'duplicate_window_hours must be a whole number'],
+    [{ duplicate_action: 'ignore' }, 'duplicate_action must be one of'],
+    [{ timezone: 'Mars/Olympus_Mons' }, 'timezone must be an IANA timezone name'],
+    [{ logo_url: 'http://example.com/logo.png' }, 'logo_url must be an https:// URL'],
+    [{ brand_color: 'blue' }, 'brand_color must be a hex color'],
+    [{ leaderboard_visibility: 'everyone' }, 'leaderboard_visibility must be one of'],
+    [{ review_destination_url: 'javascript:alert(1)' }, 'review_destination_url must be an https:// URL'],
+    [{ review_request_sms_template: 'Leave us a review!' }, 'review_request_sms_template must include {link}'],
+    [{ review_request_email_subject: 42 }, 'review_request_email_subject must be a string']
+  ])('rejects %j', (body, message) => {
+    expect(() => parseTeamSettingsChanges(body)).toThrow(message)
+  })
+
+  it('does not require {link} in the email subject', () => {
+    expect(parseTeamSettingsChanges({ review_request_email_subject: 'How did we do, {customer_name}?' })).toEqual({
+      review_request_email_subject: 'How did we do, {customer_name}?'
+    })
+  })
+})
+
+describe('canViewLeaderboard', () => {
+  it('shows team leaderboards to every role', () => {
+    const settings = defaultTeamSettings('team-1')
+    expect(canViewLeaderboard(settings, 'member')).toBe(true)
+    expect(canViewLeaderboard(settings, 'viewer')).toBe(true)
+  })
+
+  it('limits managers-only leaderboards to managers and above', () => {
+    const settings = { ...defaultTeamSettings('team-1'), leaderboard_visibility: 'managers' as const }
+    expect(canViewLeaderboard(settings, 'member')).toBe(false)
+    expect(canViewLeaderboard(settings, 'viewer')).toBe(false)
+    expect(canViewLeaderboard(settings, 'manager')).toBe(true)
+    expect(canViewLeaderboard(settings, 'owner')).toBe(true)
+  })
+})